@@ -3,7 +3,7 @@
  * Manages the notification overlay window and application lifecycle
  */
 
-import { app, BrowserWindow, screen, ipcMain, Menu } from 'electron';
+import { app, BrowserWindow, screen, ipcMain, Menu, shell } from 'electron';
 import * as path from 'path';
 import {
   connect,
@@ -15,17 +15,29 @@ import {
   setDeviceName,
   getOpenAtLogin,
   setOpenAtLogin,
+  setEnrollmentCode,
+  isEnrolled,
   reconnect,
   isFirstRun,
   isPreconfigured,
   prepareForShutdown,
+  reportNotificationEvent,
+  sendReply,
+  sendPollVote,
+  acknowledgeMessage,
+  reportMessageExpired,
+  onStatusChange,
 } from './socket';
 import { initializeTray, destroyTray } from './tray';
-import { initSupabase, processScheduledMessages } from './scheduled';
-
-// Supabase configuration (set via environment variables or config)
-const SUPABASE_URL = process.env.SUPABASE_URL || '';
-const SUPABASE_ANON_KEY = process.env.SUPABASE_ANON_KEY || '';
+import { processScheduledMessages, getNextCheckDelay } from './scheduled';
+import { resolveMediaUrls, setupMediaAuth } from './media';
+import { registerMediaCacheScheme, setupMediaCache, prefetchMedia, getCachedMediaUrls } from './media-cache';
+import {
+  rememberNotification,
+  updateRememberedNotification,
+  forgetNotification,
+  getRecentNotifications,
+} from './recent';
 
 // Notification window configuration (larger for better media visibility)
 const NOTIFICATION_WIDTH_TEXT = 450;
@@ -34,22 +46,53 @@ const NOTIFICATION_WIDTH_MEDIA = 600;
 const NOTIFICATION_HEIGHT_IMAGE = 550;
 const NOTIFICATION_HEIGHT_VIDEO = 500;
 const NOTIFICATION_HEIGHT_AUDIO = 250;
+const NOTIFICATION_HEIGHT_POLL = 420;
+const NOTIFICATION_HEIGHT_REPLY = 60; // Extra room for reply buttons / free-text input
+const NOTIFICATION_IMAGE_WIDTH = 546; // Image width in the media window (.notification minus border and padding)
+const NOTIFICATION_IMAGE_MAX_HEIGHT = 420; // .notification-image max-height
 const NOTIFICATION_MARGIN = 20;
 
-// Note: No auto-dismiss - notifications stay until user closes them
+// How long a notification waits for its media to reach the cache before it is shown
+// (the renderer loads anything still missing from its source)
+const MEDIA_CACHE_WAIT = 5000;
+
+// Notifications stay until the user closes them, unless left unattended this long
+const NOTIFICATION_AUTO_EXPIRE = 30 * 60 * 1000; // 30 minutes
+
+// Message priority (mirrors server MessagePriority)
+type MessagePriority = 'low' | 'normal' | 'high' | 'urgent';
+
+// Higher rank is shown first when notifications are queued
+const PRIORITY_RANK: Record<MessagePriority, number> = {
+  low: 0,
+  normal: 1,
+  high: 2,
+  urgent: 3,
+};
 
 // Message payload interface (mirrors server types)
 interface MessagePayload {
   id: string;
-  type: 'TEXT' | 'TEXT_IMAGE' | 'VIDEO' | 'AUDIO';
-  content: string;
+  type: 'TEXT' | 'TEXT_IMAGE' | 'VIDEO' | 'AUDIO' | 'POLL';
+  content: string;  // plain text, also for clients that don't render Markdown
+  markdown?: string;  // TEXT messages with formatting
   imageUrl?: string;
   videoUrl?: string;
   audioUrl?: string;
   videoAutoplay?: boolean;
   audioAutoplay?: boolean;
+  imageWidth?: number;  // size of uploaded images, known before the image loads
+  imageHeight?: number;
+  replyOptions?: string[];
+  allowFreeText?: boolean;
+  pollOptions?: string[];
+  pollClosesAt?: number;
+  expiresAt?: number;  // drop instead of showing after this time
+  priority?: MessagePriority;
   targetDevices: string[];
   timestamp: number;
+  cachedMedia?: Record<string, string>;  // cached copies by original URL, added when shown
+  reopened?: boolean;  // re-opened from the tray, not reported to the server again
 }
 
 // Notification queue for handling multiple notifications
@@ -63,6 +106,13 @@ let settingsWindow: BrowserWindow | null = null;
 let notificationQueue: QueuedNotification[] = [];
 let currentNotificationTimeout: NodeJS.Timeout | null = null;
 let isNotificationVisible = false;
+let currentPayload: MessagePayload | null = null;
+let currentDisplayedAt: number | null = null;
+let urgentWindow: BrowserWindow | null = null;
+const urgentQueue: MessagePayload[] = [];
+let currentUrgentPayload: MessagePayload | null = null;
+let checkingScheduledMessages = false; // guards against overlapping checks on reconnect
+let scheduledCheckTimeout: NodeJS.Timeout | null = null;
 
 /**
  * Create the notification overlay window
@@ -106,6 +156,17 @@ function createNotificationWindow(): BrowserWindow {
   // Prevent window from grabbing focus when shown
   window.setAlwaysOnTop(true, 'floating');
 
+  // Links in messages open in the default browser, never inside the app
+  window.webContents.setWindowOpenHandler(({ url }) => {
+    if (/^(https?:|mailto:)/i.test(url)) {
+      shell.openExternal(url);
+    }
+    return { action: 'deny' };
+  });
+  window.webContents.on('will-navigate', (event) => {
+    event.preventDefault();
+  });
+
   // Handle window ready
   window.once('ready-to-show', () => {
     console.log('[Main] Notification window ready');
@@ -114,33 +175,147 @@ function createNotificationWindow(): BrowserWindow {
   return window;
 }
 
+/**
+ * Create the full-screen window for an urgent message
+ * - Covers the primary display above everything, including full-screen apps
+ * - Can only be closed by acknowledging the message (or quitting the app)
+ */
+function createUrgentWindow(payload: MessagePayload): BrowserWindow {
+  const { x, y, width, height } = screen.getPrimaryDisplay().bounds;
+
+  const window = new BrowserWindow({
+    x,
+    y,
+    width,
+    height,
+    frame: false,
+    fullscreen: true,
+    alwaysOnTop: true,
+    resizable: false,
+    movable: false,
+    minimizable: false,
+    closable: false,
+    skipTaskbar: true,
+    show: false,
+    backgroundColor: '#0f172a',
+    webPreferences: {
+      preload: path.join(__dirname, '../preload/preload.js'),
+      contextIsolation: true,
+      nodeIntegration: false,
+      sandbox: true,
+    },
+  });
+
+  window.setAlwaysOnTop(true, 'screen-saver');
+  window.setVisibleOnAllWorkspaces(true, { visibleOnFullScreen: true });
+
+  const rendererPath = app.isPackaged
+    ? path.join(process.resourcesPath, 'renderer', 'urgent.html')
+    : path.join(__dirname, '../../src/renderer/urgent.html');
+
+  window.loadFile(rendererPath);
+
+  window.webContents.once('did-finish-load', () => {
+    // Edits that arrived while the window was loading
+    const latest = currentUrgentPayload?.id === payload.id ? currentUrgentPayload : payload;
+    window.webContents.send('notification:show', { ...latest, cachedMedia: getCachedMediaUrls(latest) });
+  });
+
+  window.once('ready-to-show', () => {
+    window.show();
+    window.focus();
+    reportNotificationEvent('displayed', payload.id);
+  });
+
+  // Only acknowledging the message closes the window
+  window.on('close', (event) => {
+    if (!app.isQuitting) {
+      event.preventDefault();
+    }
+  });
+
+  return window;
+}
+
+/**
+ * Get the height of an image notification
+ * If the image's size is known, the window fits the image instead of the tallest image
+ */
+function getImageWindowHeight(payload: MessagePayload): number {
+  const { imageWidth, imageHeight } = payload;
+  if (!imageWidth || !imageHeight) {
+    return NOTIFICATION_HEIGHT_IMAGE;
+  }
+
+  const displayedHeight = Math.min(
+    NOTIFICATION_IMAGE_MAX_HEIGHT,
+    Math.round((NOTIFICATION_IMAGE_WIDTH * imageHeight) / imageWidth)
+  );
+  return NOTIFICATION_HEIGHT_IMAGE - NOTIFICATION_IMAGE_MAX_HEIGHT + displayedHeight;
+}
 
 /**
  * Get window dimensions based on message type
  */
-function getWindowDimensionsForType(type: MessagePayload['type']): { width: number; height: number } {
-  switch (type) {
+function getWindowDimensions(payload: MessagePayload): { width: number; height: number } {
+  switch (payload.type) {
     case 'TEXT':
       return { width: NOTIFICATION_WIDTH_TEXT, height: NOTIFICATION_HEIGHT_TEXT };
     case 'TEXT_IMAGE':
-      return { width: NOTIFICATION_WIDTH_MEDIA, height: NOTIFICATION_HEIGHT_IMAGE };
+      return { width: NOTIFICATION_WIDTH_MEDIA, height: getImageWindowHeight(payload) };
     case 'VIDEO':
       return { width: NOTIFICATION_WIDTH_MEDIA, height: NOTIFICATION_HEIGHT_VIDEO };
     case 'AUDIO':
       return { width: NOTIFICATION_WIDTH_TEXT, height: NOTIFICATION_HEIGHT_AUDIO };
+    case 'POLL':
+      return { width: NOTIFICATION_WIDTH_TEXT, height: NOTIFICATION_HEIGHT_POLL };
     default:
       return { width: NOTIFICATION_WIDTH_TEXT, height: NOTIFICATION_HEIGHT_TEXT };
   }
 }
 
+/**
+ * Drop a message whose expiry has passed and report it, so stale notifications are never shown
+ * @returns true if the message was dropped
+ */
+function dropIfExpired(payload: MessagePayload): boolean {
+  if (payload.expiresAt === undefined || payload.expiresAt > Date.now()) return false;
+
+  console.log(`[Main] Dropping expired message: ${payload.id}`);
+  reportMessageExpired(payload.id);
+  return true;
+}
+
 /**
  * Show a notification with the given payload
  * If a notification is already visible, queue the new one
  */
-export function showNotification(payload: MessagePayload): void {
+export function showNotification(message: MessagePayload): void {
+  if (dropIfExpired(message)) return;
+  const payload = resolveMediaUrls(message);
+
+  // Start downloading media right away, queued notifications are then ready when their turn comes
+  prefetchMedia(payload);
+  if (!payload.reopened) {
+    rememberNotification(payload);
+  }
+
+  if (payload.priority === 'urgent') {
+    showUrgentNotification(payload);
+    return;
+  }
+
   if (isNotificationVisible) {
-    // Queue the notification if one is already showing
-    notificationQueue.push({ payload });
+    // Queue the notification if one is already showing, ahead of lower priorities
+    const rank = PRIORITY_RANK[payload.priority ?? 'normal'];
+    const index = notificationQueue.findIndex(
+      (queued) => PRIORITY_RANK[queued.payload.priority ?? 'normal'] < rank
+    );
+    if (index === -1) {
+      notificationQueue.push({ payload });
+    } else {
+      notificationQueue.splice(index, 0, { payload });
+    }
     console.log(`[Main] Notification queued: ${payload.id} (${notificationQueue.length} in queue)`);
     return;
   }
@@ -160,11 +335,16 @@ function displayNotification(payload: MessagePayload): void {
   console.log(`[Main] Displaying notification: ${payload.id} (type: ${payload.type})`);
 
   // Get window dimensions based on content type
-  const { width, height } = getWindowDimensionsForType(payload.type);
+  const { width, height: baseHeight } = getWindowDimensions(payload);
+  const hasReplies = (payload.replyOptions?.length ?? 0) > 0 || payload.allowFreeText === true;
+  const height = hasReplies ? baseHeight + NOTIFICATION_HEIGHT_REPLY : baseHeight;
 
   // Set window size
   notificationWindow.setSize(width, height);
 
+  // Free-text replies need keyboard focus; otherwise never steal focus
+  notificationWindow.setFocusable(payload.allowFreeText === true);
+
   // Reposition window to top-right (screen might have changed)
   const { width: screenWidth } = screen.getPrimaryDisplay().workAreaSize;
   notificationWindow.setPosition(
@@ -172,13 +352,76 @@ function displayNotification(payload: MessagePayload): void {
     NOTIFICATION_MARGIN
   );
 
-  // Send payload to renderer - window will be shown after preload completes
-  notificationWindow.webContents.send('notification:show', payload);
   isNotificationVisible = true;
+  currentPayload = payload;
+  currentDisplayedAt = null;
+
+  // Send payload to renderer once its media is cached - window will be shown after preload completes
+  const mediaReady = new Promise((resolve) => setTimeout(resolve, MEDIA_CACHE_WAIT));
+  Promise.race([prefetchMedia(payload), mediaReady]).then(() => {
+    // Hidden or recalled meanwhile; edits made meanwhile are in currentPayload
+    if (!notificationWindow || currentPayload?.id !== payload.id) return;
+    notificationWindow.webContents.send('notification:show', {
+      ...currentPayload,
+      cachedMedia: getCachedMediaUrls(currentPayload),
+    });
+  });
 
   // Note: Window is shown via IPC 'notification:preload-complete' from renderer
 }
 
+/**
+ * Show an urgent message full-screen
+ * If an urgent message is already on screen, queue the new one behind it
+ */
+function showUrgentNotification(payload: MessagePayload): void {
+  if (dropIfExpired(payload)) return;
+
+  if (currentUrgentPayload) {
+    if (currentUrgentPayload.id !== payload.id && !urgentQueue.some((queued) => queued.id === payload.id)) {
+      urgentQueue.push(payload);
+      console.log(`[Main] Urgent message queued: ${payload.id} (${urgentQueue.length} in queue)`);
+    }
+    return;
+  }
+
+  console.log(`[Main] Displaying urgent message: ${payload.id}`);
+  currentUrgentPayload = payload;
+  urgentWindow = createUrgentWindow(payload);
+}
+
+/**
+ * Close the urgent window after acknowledgement and show the next urgent message if any
+ */
+function acknowledgeUrgentNotification(messageId: string): void {
+  if (!currentUrgentPayload || currentUrgentPayload.id !== messageId) return;
+
+  acknowledgeMessage(messageId);
+
+  if (urgentWindow && !urgentWindow.isDestroyed()) {
+    urgentWindow.destroy();
+  }
+  urgentWindow = null;
+  currentUrgentPayload = null;
+
+  console.log(`[Main] Urgent message acknowledged: ${messageId}`);
+
+  showNextUrgentNotification();
+}
+
+/**
+ * Show the next queued urgent message, skipping any that expired while waiting
+ */
+function showNextUrgentNotification(): void {
+  let next = urgentQueue.shift();
+  while (next && dropIfExpired(next)) {
+    next = urgentQueue.shift();
+  }
+  if (next) {
+    showUrgentNotification(next);
+  }
+}
+
 /**
  * Hide the current notification and show the next queued one if any
  */
@@ -194,24 +437,125 @@ export function hideNotification(): void {
   // Hide the window
   notificationWindow.hide();
   isNotificationVisible = false;
+  currentPayload = null;
+  currentDisplayedAt = null;
 
   // Tell renderer to clear content
   notificationWindow.webContents.send('notification:hide');
 
   console.log('[Main] Notification hidden');
 
-  // Process next notification in queue
-  if (notificationQueue.length > 0) {
-    const next = notificationQueue.shift()!;
-    console.log(`[Main] Processing next queued notification: ${next.payload.id}`);
+  // Process next notification in queue, skipping any that expired while waiting
+  let next = notificationQueue.shift();
+  while (next && dropIfExpired(next.payload)) {
+    next = notificationQueue.shift();
+  }
+  if (next) {
+    const { payload } = next;
+    console.log(`[Main] Processing next queued notification: ${payload.id}`);
 
     // Small delay before showing next notification
     setTimeout(() => {
-      displayNotification(next.payload);
+      displayNotification(payload);
     }, 300);
   }
 }
 
+/**
+ * Close the current notification and report how long it was visible
+ * @param reason - 'dismissed' (close button) or 'auto-expired' (left unattended)
+ */
+function closeCurrentNotification(reason: 'dismissed' | 'auto-expired'): void {
+  if (currentPayload && currentDisplayedAt !== null && !currentPayload.reopened) {
+    reportNotificationEvent(reason, currentPayload.id, Date.now() - currentDisplayedAt);
+  }
+
+  hideNotification();
+}
+
+/**
+ * Take back a recalled message: drop it from the queues or hide it if it is on screen
+ * Nothing is reported to the server, which already recorded the recall
+ */
+export function recallNotification(messageId: string): void {
+  forgetNotification(messageId);
+  notificationQueue = notificationQueue.filter((queued) => queued.payload.id !== messageId);
+
+  const urgentIndex = urgentQueue.findIndex((queued) => queued.id === messageId);
+  if (urgentIndex !== -1) {
+    urgentQueue.splice(urgentIndex, 1);
+  }
+
+  if (currentPayload?.id === messageId) {
+    console.log(`[Main] Hiding recalled notification: ${messageId}`);
+    hideNotification();
+  }
+
+  if (currentUrgentPayload?.id === messageId) {
+    console.log(`[Main] Closing recalled urgent message: ${messageId}`);
+    if (urgentWindow && !urgentWindow.isDestroyed()) {
+      urgentWindow.destroy();
+    }
+    urgentWindow = null;
+    currentUrgentPayload = null;
+
+    showNextUrgentNotification();
+  }
+}
+
+/**
+ * Apply an edit to a message: replace the queued payload or update the notification on screen
+ * in place. Messages the device no longer has are ignored, nothing is reported to the server
+ */
+export function updateNotification(message: MessagePayload): void {
+  const payload = resolveMediaUrls(message);
+  updateRememberedNotification(payload);
+  const queued = notificationQueue.find((entry) => entry.payload.id === payload.id);
+  if (queued) {
+    queued.payload = payload;
+  }
+
+  const urgentIndex = urgentQueue.findIndex((entry) => entry.id === payload.id);
+  if (urgentIndex !== -1) {
+    urgentQueue[urgentIndex] = payload;
+  }
+
+  if (currentPayload?.id === payload.id && notificationWindow) {
+    console.log(`[Main] Updating notification: ${payload.id}`);
+    currentPayload = payload;
+    notificationWindow.webContents.send('notification:update', payload);
+  }
+
+  if (currentUrgentPayload?.id === payload.id) {
+    console.log(`[Main] Updating urgent message: ${payload.id}`);
+    currentUrgentPayload = payload;
+    if (urgentWindow && !urgentWindow.isDestroyed()) {
+      urgentWindow.webContents.send('notification:update', payload);
+    }
+  }
+}
+
+/**
+ * Show a recent notification again (picked from the tray menu)
+ * Its media comes from the cache, so this also works offline. Urgent messages were
+ * acknowledged already and come back as regular notifications
+ */
+export function reopenNotification(messageId: string): void {
+  const payload = getRecentNotifications<MessagePayload>().find((recent) => recent.id === messageId);
+  if (!payload) return;
+
+  const isShown =
+    currentPayload?.id === messageId || notificationQueue.some((queued) => queued.payload.id === messageId);
+  if (isShown) return;
+
+  console.log(`[Main] Re-opening notification: ${messageId}`);
+  showNotification({
+    ...payload,
+    priority: payload.priority === 'urgent' ? 'high' : payload.priority,
+    reopened: true,
+  });
+}
+
 /**
  * Clear all queued notifications
  */
@@ -228,7 +572,7 @@ function updateWindowSize(width: number, height: number): void {
 
   const { width: screenWidth } = screen.getPrimaryDisplay().workAreaSize;
   const newWidth = Math.min(width, NOTIFICATION_WIDTH_MEDIA);
-  const newHeight = Math.min(height, NOTIFICATION_HEIGHT_IMAGE);
+  const newHeight = Math.min(height, NOTIFICATION_HEIGHT_IMAGE + NOTIFICATION_HEIGHT_REPLY);
 
   notificationWindow.setSize(newWidth, newHeight);
   notificationWindow.setPosition(
@@ -298,7 +642,7 @@ function showSettingsWindow(): void {
 function setupIPCHandlers(): void {
   // Handle close button click from renderer
   ipcMain.on('notification:close', () => {
-    hideNotification();
+    closeCurrentNotification('dismissed');
   });
 
   // Handle preload complete - show window after media is loaded
@@ -306,9 +650,42 @@ function setupIPCHandlers(): void {
     if (notificationWindow && isNotificationVisible) {
       console.log('[Main] Preload complete, showing notification window');
       notificationWindow.show();
+
+      // Report read receipt once the notification is actually visible
+      if (currentPayload && currentDisplayedAt === null) {
+        currentDisplayedAt = Date.now();
+        if (!currentPayload.reopened) {
+          reportNotificationEvent('displayed', currentPayload.id);
+        }
+
+        currentNotificationTimeout = setTimeout(() => {
+          console.log('[Main] Notification auto-expired');
+          closeCurrentNotification('auto-expired');
+        }, NOTIFICATION_AUTO_EXPIRE);
+      }
     }
   });
 
+  // Handle reply button / free-text submit from renderer
+  ipcMain.on('notification:reply', (_event, { messageId, response }) => {
+    if (!currentPayload || currentPayload.id !== messageId) return;
+
+    sendReply(messageId, response);
+    closeCurrentNotification('dismissed');
+  });
+
+  // Handle poll vote from renderer - the notification stays open so the vote can be changed
+  ipcMain.on('notification:vote', (_event, { messageId, optionIndex }) => {
+    if (!currentPayload || currentPayload.id !== messageId) return;
+
+    sendPollVote(messageId, optionIndex);
+  });
+
+  // Handle acknowledge button in the urgent full-screen window
+  ipcMain.on('urgent:acknowledge', (_event, { messageId }) => {
+    acknowledgeUrgentNotification(messageId);
+  });
+
   // Handle window resize request from renderer
   ipcMain.on('notification:resize', (_event, { width, height }) => {
     updateWindowSize(width, height);
@@ -343,10 +720,11 @@ function setupIPCHandlers(): void {
       serverUrl: getServerUrl(),
       connectionStatus: getConnectionStatus(),
       openAtLogin: getOpenAtLogin(),
+      enrolled: isEnrolled(),
     };
   });
 
-  ipcMain.handle('settings:save', (_event, settings: { deviceName?: string; serverUrl: string; openAtLogin?: boolean }) => {
+  ipcMain.handle('settings:save', (_event, settings: { deviceName?: string; serverUrl: string; openAtLogin?: boolean; enrollmentCode?: string }) => {
     const currentDeviceName = getDeviceName();
     const currentUrl = getServerUrl();
     const currentOpenAtLogin = getOpenAtLogin();
@@ -362,6 +740,11 @@ function setupIPCHandlers(): void {
       needsReconnect = true;
     }
 
+    if (settings.enrollmentCode) {
+      setEnrollmentCode(settings.enrollmentCode);
+      needsReconnect = true;
+    }
+
     if (needsReconnect) {
       reconnect();
     }
@@ -421,25 +804,21 @@ function createAppMenu(): void {
 }
 
 /**
- * Check and display scheduled messages from Supabase
+ * Check and display scheduled messages from the dashboard server
+ * Re-arms itself for the next timed occurrence or the next local date
  */
 async function checkScheduledMessages(): Promise<void> {
-  // Skip if Supabase is not configured
-  if (!SUPABASE_URL || !SUPABASE_ANON_KEY) {
-    console.log('[Main] Supabase not configured, skipping scheduled messages');
-    return;
-  }
+  if (checkingScheduledMessages) return;
+  checkingScheduledMessages = true;
+  let nextDueAt: number | null = null;
 
   try {
-    // Initialize Supabase client
-    initSupabase(SUPABASE_URL, SUPABASE_ANON_KEY);
+    console.log(`[Main] Checking scheduled messages for device: ${getDeviceInfo().id}`);
 
-    // Get device ID
-    const deviceInfo = getDeviceInfo();
-    console.log(`[Main] Checking scheduled messages for device: ${deviceInfo.id}`);
-
-    // Process scheduled messages
-    const payloads = await processScheduledMessages(deviceInfo.id);
+    // Process scheduled messages (the server skips occurrences already shown here)
+    const result = await processScheduledMessages();
+    const payloads = result.payloads;
+    nextDueAt = result.nextDueAt;
 
     if (payloads.length === 0) {
       console.log('[Main] No scheduled messages for today');
@@ -474,7 +853,23 @@ async function checkScheduledMessages(): Promise<void> {
     }
   } catch (error) {
     console.error('[Main] Error checking scheduled messages:', error);
+  } finally {
+    checkingScheduledMessages = false;
+    scheduleScheduledMessagesCheck(nextDueAt);
+  }
+}
+
+/**
+ * Run the next scheduled messages check when the next occurrence is due
+ */
+function scheduleScheduledMessagesCheck(nextDueAt: number | null): void {
+  if (scheduledCheckTimeout) {
+    clearTimeout(scheduledCheckTimeout);
   }
+  scheduledCheckTimeout = setTimeout(() => {
+    scheduledCheckTimeout = null;
+    checkScheduledMessages();
+  }, getNextCheckDelay(nextDueAt));
 }
 
 /**
@@ -492,6 +887,12 @@ async function initialize(): Promise<void> {
   // Setup IPC handlers
   setupIPCHandlers();
 
+  // Authenticate downloads of uploaded media
+  setupMediaAuth();
+
+  // Serve cached media to the notification windows
+  setupMediaCache();
+
   // Create application menu
   createAppMenu();
 
@@ -499,7 +900,7 @@ async function initialize(): Promise<void> {
   notificationWindow = createNotificationWindow();
 
   // Initialize system tray
-  initializeTray();
+  initializeTray(reopenNotification);
 
   // Only show settings window on first run
   if (isFirstRun()) {
@@ -507,15 +908,19 @@ async function initialize(): Promise<void> {
     settingsWindow = createSettingsWindow();
   }
 
+  // Check for scheduled messages once the device is authenticated, then on a timer
+  // (short delay gives the notification window time to fully initialize)
+  onStatusChange((status) => {
+    if (status === 'connected') {
+      setTimeout(() => {
+        checkScheduledMessages();
+      }, 3000);
+    }
+  });
+
   // Connect to dashboard WebSocket server
   connect();
 
-  // Check for scheduled messages after a short delay
-  // (gives the notification window time to fully initialize)
-  setTimeout(() => {
-    checkScheduledMessages();
-  }, 3000);
-
   console.log('[Main] CreaBomber client initialized');
 }
 
@@ -528,6 +933,9 @@ declare global {
   }
 }
 
+// Custom protocols must be registered before the app is ready
+registerMediaCacheScheme();
+
 /**
  * App lifecycle events
  */
@@ -561,6 +969,9 @@ app.on('will-quit', () => {
   if (currentNotificationTimeout) {
     clearTimeout(currentNotificationTimeout);
   }
+  if (scheduledCheckTimeout) {
+    clearTimeout(scheduledCheckTimeout);
+  }
   destroyTray();
 });
 
@@ -0,0 +1,348 @@
+/**
+ * Crea-Bomber Media Cache
+ * Media of received messages, downloaded by the main process as soon as a message arrives
+ * - Kept on disk (userData/media-cache) in a size-bounded LRU cache, files named by the
+ *   SHA-256 of their URL
+ * - Served to the renderers through the creabomber-media: protocol, with byte ranges so
+ *   cached audio and video can seek
+ * - Lets recent notifications be re-opened while the device is offline
+ */
+
+import { app, net, protocol } from 'electron';
+import { createHash } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { Readable } from 'stream';
+import { getMediaAuthHeaders } from './media';
+
+const MEDIA_CACHE_SCHEME = 'creabomber-media';
+const MEDIA_CACHE_HOST = 'media';
+const MEDIA_CACHE_MAX_SIZE = 256 * 1024 * 1024; // 256 MB on disk
+const MEDIA_CACHE_MAX_ENTRY_SIZE = 64 * 1024 * 1024; // Larger files (long videos) are streamed from their source
+const INDEX_SAVE_DELAY = 1000; // Batch index writes when several files arrive at once
+
+// Cache keys are SHA-256 hashes, anything else must not reach the file system
+const CACHE_KEY_PATTERN = /^[a-f0-9]{64}$/;
+
+// Media fields of a message payload (mirrors MessagePayload in main.ts)
+interface MediaPayload {
+  type: string;
+  imageUrl?: string;
+  videoUrl?: string;
+  audioUrl?: string;
+}
+
+interface CacheEntry {
+  url: string;
+  mimeType: string;
+  size: number;
+  lastUsed: number;
+}
+
+let cacheDir: string | null = null;
+let entries = new Map<string, CacheEntry>(); // by cache key, in least recently used order
+const downloads = new Map<string, Promise<void>>(); // in-flight downloads by cache key
+let indexSaveTimeout: NodeJS.Timeout | null = null;
+
+/**
+ * Cache key of a URL
+ */
+function getCacheKey(url: string): string {
+  return createHash('sha256').update(url).digest('hex');
+}
+
+function getIndexPath(): string {
+  return path.join(cacheDir!, 'index.json');
+}
+
+function getEntryPath(key: string): string {
+  return path.join(cacheDir!, key);
+}
+
+/**
+ * Load the cache index, dropping entries whose file is gone and files without an entry
+ * (left behind by an interrupted download)
+ */
+function loadIndex(): void {
+  fs.mkdirSync(cacheDir!, { recursive: true });
+
+  let saved: Record<string, CacheEntry> = {};
+  try {
+    if (fs.existsSync(getIndexPath())) {
+      saved = JSON.parse(fs.readFileSync(getIndexPath(), 'utf-8'));
+    }
+  } catch (error) {
+    console.error('[MediaCache] Error loading index:', error);
+  }
+
+  entries = new Map(
+    Object.entries(saved)
+      .filter(([key]) => CACHE_KEY_PATTERN.test(key) && fs.existsSync(getEntryPath(key)))
+      .sort(([, a], [, b]) => a.lastUsed - b.lastUsed)
+  );
+
+  for (const file of fs.readdirSync(cacheDir!)) {
+    if (file !== 'index.json' && !entries.has(file)) {
+      fs.rmSync(path.join(cacheDir!, file), { force: true });
+    }
+  }
+}
+
+/**
+ * Write the cache index soon (writes are batched)
+ */
+function scheduleIndexSave(): void {
+  if (indexSaveTimeout) return;
+
+  indexSaveTimeout = setTimeout(() => {
+    indexSaveTimeout = null;
+    try {
+      fs.writeFileSync(getIndexPath(), JSON.stringify(Object.fromEntries(entries)));
+    } catch (error) {
+      console.error('[MediaCache] Error saving index:', error);
+    }
+  }, INDEX_SAVE_DELAY);
+}
+
+/**
+ * Mark an entry as used (moves it to the end of the LRU order)
+ */
+function touchEntry(key: string, entry: CacheEntry): void {
+  entries.delete(key);
+  entry.lastUsed = Date.now();
+  entries.set(key, entry);
+  scheduleIndexSave();
+}
+
+/**
+ * Remove least recently used files until the cache fits its size limit
+ */
+function evictEntries(): void {
+  let totalSize = 0;
+  for (const entry of entries.values()) {
+    totalSize += entry.size;
+  }
+
+  for (const [key, entry] of entries) {
+    if (totalSize <= MEDIA_CACHE_MAX_SIZE) break;
+
+    entries.delete(key);
+    fs.rmSync(getEntryPath(key), { force: true });
+    totalSize -= entry.size;
+    console.log(`[MediaCache] Evicted: ${entry.url}`);
+  }
+}
+
+/**
+ * Download a URL into the cache
+ * Failures are logged only, the renderer then loads the media from its source
+ */
+async function downloadMedia(key: string, url: string): Promise<void> {
+  try {
+    const response = await net.fetch(url, { headers: getMediaAuthHeaders(url) });
+    if (!response.ok) {
+      console.warn(`[MediaCache] Download failed (${response.status}): ${url}`);
+      return;
+    }
+
+    const contentLength = Number(response.headers.get('content-length'));
+    if (contentLength > MEDIA_CACHE_MAX_ENTRY_SIZE) {
+      await response.body?.cancel();
+      console.log(`[MediaCache] Too large to cache: ${url}`);
+      return;
+    }
+
+    const content = Buffer.from(await response.arrayBuffer());
+    if (content.length > MEDIA_CACHE_MAX_ENTRY_SIZE) {
+      console.log(`[MediaCache] Too large to cache: ${url}`);
+      return;
+    }
+
+    // Write next to the target and rename, so the protocol never serves a partial file
+    const tempPath = `${getEntryPath(key)}.tmp`;
+    await fs.promises.writeFile(tempPath, content);
+    await fs.promises.rename(tempPath, getEntryPath(key));
+
+    touchEntry(key, {
+      url,
+      mimeType: response.headers.get('content-type') ?? 'application/octet-stream',
+      size: content.length,
+      lastUsed: Date.now(),
+    });
+    evictEntries();
+    console.log(`[MediaCache] Cached: ${url}`);
+  } catch (error) {
+    console.warn(`[MediaCache] Download failed: ${url}`, error);
+  }
+}
+
+/**
+ * Download a URL unless it is cached or already downloading
+ */
+function cacheMedia(url: string): Promise<void> {
+  const key = getCacheKey(url);
+  const entry = entries.get(key);
+  if (entry) {
+    touchEntry(key, entry);
+    return Promise.resolve();
+  }
+
+  let download = downloads.get(key);
+  if (!download) {
+    download = downloadMedia(key, url).finally(() => downloads.delete(key));
+    downloads.set(key, download);
+  }
+  return download;
+}
+
+/**
+ * Thumbnail URLs the renderer shows for an embedded video (mirrors getThumbnailUrl and
+ * getFallbackThumbnailUrl in notification.js)
+ */
+function getVideoThumbnailUrls(videoUrl: string): string[] {
+  const youtubeMatch = [
+    /(?:youtube\.com\/watch\?v=|youtu\.be\/)([^&\s]+)/,
+    /youtube\.com\/embed\/([^?\s]+)/,
+    /youtube\.com\/v\/([^?\s]+)/,
+  ]
+    .map((pattern) => videoUrl.match(pattern))
+    .find((match) => match);
+  if (youtubeMatch) {
+    const videoId = youtubeMatch[1];
+    return [
+      `https://img.youtube.com/vi/${videoId}/maxresdefault.jpg`,
+      `https://img.youtube.com/vi/${videoId}/hqdefault.jpg`,
+    ];
+  }
+
+  const loomMatch = videoUrl.match(/loom\.com\/share\/([a-zA-Z0-9]+)/);
+  if (loomMatch) {
+    return [`https://cdn.loom.com/sessions/thumbnails/${loomMatch[1]}-with-play.gif`];
+  }
+
+  return [];
+}
+
+/**
+ * URLs of the media a notification loads
+ * Embedded players (YouTube, Loom, Vimeo) stream from their sites, only their thumbnails are cached
+ */
+function getMediaUrls(payload: MediaPayload): string[] {
+  const urls: string[] = [];
+
+  // The urgent window shows the image of any message type
+  if (payload.imageUrl) {
+    urls.push(payload.imageUrl);
+  }
+
+  if (payload.type === 'VIDEO' && payload.videoUrl) {
+    const isVideoFile =
+      payload.videoUrl.includes('/api/media/') || /\.(mp4|webm|mov)(\?.*)?$/i.test(payload.videoUrl);
+    urls.push(...(isVideoFile ? [payload.videoUrl] : getVideoThumbnailUrls(payload.videoUrl)));
+  }
+
+  if (payload.type === 'AUDIO' && payload.audioUrl) {
+    urls.push(payload.audioUrl);
+  }
+
+  return urls.filter((url) => /^https?:\/\//.test(url));
+}
+
+/**
+ * Download the media of a message into the cache
+ * @returns resolves once all downloads finished or failed (never rejects)
+ */
+export function prefetchMedia(payload: MediaPayload): Promise<void> {
+  if (!cacheDir) return Promise.resolve();
+
+  return Promise.all(getMediaUrls(payload).map(cacheMedia)).then(() => undefined);
+}
+
+/**
+ * Cached copies of the media of a message, by original URL
+ * Media that isn't cached (yet) is left out, the renderer loads it from its source
+ */
+export function getCachedMediaUrls(payload: MediaPayload): Record<string, string> {
+  const cachedMedia: Record<string, string> = {};
+  for (const url of getMediaUrls(payload)) {
+    const key = getCacheKey(url);
+    if (entries.has(key)) {
+      cachedMedia[url] = `${MEDIA_CACHE_SCHEME}://${MEDIA_CACHE_HOST}/${key}`;
+    }
+  }
+  return cachedMedia;
+}
+
+/**
+ * Serve a cached file, with single byte range support for seeking
+ */
+function handleCacheRequest(request: Request): Response {
+  const key = new URL(request.url).pathname.slice(1);
+  const entry = CACHE_KEY_PATTERN.test(key) ? entries.get(key) : undefined;
+  if (!entry || !fs.existsSync(getEntryPath(key))) {
+    return new Response(null, { status: 404 });
+  }
+  touchEntry(key, entry);
+
+  const { size, mimeType } = entry;
+  const headers: Record<string, string> = {
+    'Content-Type': mimeType,
+    'Accept-Ranges': 'bytes',
+  };
+
+  let start = 0;
+  let end = size - 1;
+  const range = request.headers.get('range')?.match(/^bytes=(\d*)-(\d*)$/);
+  const isRange = !!range && (range[1] !== '' || range[2] !== '');
+  if (range && isRange) {
+    if (range[1] === '') {
+      start = Math.max(size - Number(range[2]), 0);
+    } else {
+      start = Number(range[1]);
+      end = range[2] === '' ? size - 1 : Math.min(Number(range[2]), size - 1);
+    }
+    if (start >= size || start > end) {
+      return new Response(null, { status: 416, headers: { ...headers, 'Content-Range': `bytes */${size}` } });
+    }
+  }
+
+  const stream = Readable.toWeb(fs.createReadStream(getEntryPath(key), { start, end })) as ReadableStream<Uint8Array>;
+  return new Response(stream, {
+    status: isRange ? 206 : 200,
+    headers: {
+      ...headers,
+      'Content-Length': String(end - start + 1),
+      ...(isRange && { 'Content-Range': `bytes ${start}-${end}/${size}` }),
+    },
+  });
+}
+
+/**
+ * Register the cache protocol as a secure, streamable scheme
+ * Must be called before the app is ready
+ */
+export function registerMediaCacheScheme(): void {
+  protocol.registerSchemesAsPrivileged([
+    {
+      scheme: MEDIA_CACHE_SCHEME,
+      privileges: { standard: true, secure: true, supportFetchAPI: true, stream: true },
+    },
+  ]);
+}
+
+/**
+ * Load the media cache and serve it to the renderers
+ */
+export function setupMediaCache(): void {
+  cacheDir = path.join(app.getPath('userData'), 'media-cache');
+  try {
+    loadIndex();
+    console.log(`[MediaCache] ${entries.size} cached file(s)`);
+  } catch (error) {
+    console.error('[MediaCache] Error loading cache:', error);
+    cacheDir = null;
+    return;
+  }
+
+  protocol.handle(MEDIA_CACHE_SCHEME, handleCacheRequest);
+}
@@ -0,0 +1,83 @@
+/**
+ * Crea-Bomber Uploaded Media
+ * Files uploaded to the dashboard are sent as server-relative URLs (/api/media/<id>)
+ * and downloaded with the device credentials
+ */
+
+import { session } from 'electron';
+import { getServerUrl, getDeviceCredentials } from './socket';
+
+const MEDIA_PATH_PREFIX = '/api/media/';
+
+interface MediaUrls {
+  imageUrl?: string;
+  videoUrl?: string;
+  audioUrl?: string;
+}
+
+/**
+ * Resolve an uploaded media URL against the server URL (other URLs are returned as is)
+ */
+function resolveMediaUrl(url: string | undefined): string | undefined {
+  if (!url?.startsWith(MEDIA_PATH_PREFIX)) {
+    return url;
+  }
+  try {
+    return new URL(url, getServerUrl()).toString();
+  } catch {
+    return url;
+  }
+}
+
+/**
+ * Make the media URLs of a payload absolute so the renderer can load them
+ */
+export function resolveMediaUrls<T extends MediaUrls>(payload: T): T {
+  return {
+    ...payload,
+    imageUrl: resolveMediaUrl(payload.imageUrl),
+    videoUrl: resolveMediaUrl(payload.videoUrl),
+    audioUrl: resolveMediaUrl(payload.audioUrl),
+  };
+}
+
+/**
+ * Device credential headers for a media download (empty unless it goes to this device's server)
+ */
+export function getMediaAuthHeaders(url: string): Record<string, string> {
+  const credentials = getDeviceCredentials();
+  let isServerRequest = false;
+  try {
+    isServerRequest = new URL(url).origin === new URL(getServerUrl()).origin;
+  } catch {
+    // Invalid server URL - never send credentials
+  }
+
+  if (!credentials || !isServerRequest) {
+    return {};
+  }
+
+  return {
+    'X-Device-Id': credentials.deviceId,
+    Authorization: `Bearer ${credentials.deviceSecret}`,
+  };
+}
+
+/**
+ * Add the device credentials to media downloads from the server
+ * (image, audio and video elements can't send headers themselves; range requests
+ * for seeking go through here too)
+ */
+export function setupMediaAuth(): void {
+  session.defaultSession.webRequest.onBeforeSendHeaders(
+    { urls: ['*://*/api/media/*'] },
+    (details, callback) => {
+      callback({
+        requestHeaders: {
+          ...details.requestHeaders,
+          ...getMediaAuthHeaders(details.url),
+        },
+      });
+    }
+  );
+}
@@ -0,0 +1,99 @@
+/**
+ * Crea-Bomber Recent Notifications
+ * The last notifications shown on this device, kept on disk so they can be re-opened
+ * from the tray (their media is loaded from the media cache, also while offline)
+ */
+
+import { app } from 'electron';
+import * as fs from 'fs';
+import * as path from 'path';
+
+const MAX_RECENT_NOTIFICATIONS = 10;
+
+// Fields the recent list needs (the full message payload is stored)
+export interface RecentPayload {
+  id: string;
+  type: string;
+  content: string;
+  expiresAt?: number;
+  timestamp: number;
+}
+
+type RecentChangeCallback = () => void;
+
+let recentPayloads: RecentPayload[] | null = null; // newest first, loaded lazily
+const changeCallbacks: RecentChangeCallback[] = [];
+
+function getRecentPath(): string {
+  return path.join(app.getPath('userData'), 'recent-notifications.json');
+}
+
+function getRecent(): RecentPayload[] {
+  if (!recentPayloads) {
+    recentPayloads = [];
+    try {
+      if (fs.existsSync(getRecentPath())) {
+        recentPayloads = JSON.parse(fs.readFileSync(getRecentPath(), 'utf-8'));
+      }
+    } catch (error) {
+      console.error('[Recent] Error loading recent notifications:', error);
+    }
+  }
+  return recentPayloads!;
+}
+
+function saveRecent(): void {
+  try {
+    fs.writeFileSync(getRecentPath(), JSON.stringify(getRecent(), null, 2));
+  } catch (error) {
+    console.error('[Recent] Error saving recent notifications:', error);
+  }
+  changeCallbacks.forEach((callback) => callback());
+}
+
+/**
+ * Add a shown notification to the top of the list
+ */
+export function rememberNotification<T extends RecentPayload>(payload: T): void {
+  recentPayloads = [payload, ...getRecent().filter((recent) => recent.id !== payload.id)].slice(
+    0,
+    MAX_RECENT_NOTIFICATIONS
+  );
+  saveRecent();
+}
+
+/**
+ * Replace a remembered notification after the sender edited it
+ */
+export function updateRememberedNotification<T extends RecentPayload>(payload: T): void {
+  const index = getRecent().findIndex((recent) => recent.id === payload.id);
+  if (index === -1) return;
+
+  getRecent()[index] = payload;
+  saveRecent();
+}
+
+/**
+ * Remove a notification from the list (after it was recalled)
+ */
+export function forgetNotification(messageId: string): void {
+  if (!getRecent().some((recent) => recent.id === messageId)) return;
+
+  recentPayloads = getRecent().filter((recent) => recent.id !== messageId);
+  saveRecent();
+}
+
+/**
+ * Recent notifications that haven't expired, newest first
+ */
+export function getRecentNotifications<T extends RecentPayload = RecentPayload>(): T[] {
+  const now = Date.now();
+  return getRecent().filter((recent) => recent.expiresAt === undefined || recent.expiresAt > now) as T[];
+}
+
+/**
+ * Subscribe to changes of the list
+ */
+export function onRecentNotificationsChange(callback: RecentChangeCallback): void {
+  changeCallbacks.push(callback);
+}
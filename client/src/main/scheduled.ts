@@ -1,26 +1,34 @@
 /**
  * Crea-Bomber Scheduled Messages
- * Queries Supabase for scheduled/recurring messages on client startup
+ * Fetches today's scheduled/recurring messages from the dashboard server
+ * (device-authenticated, the server expands recurrences and tracks what was shown)
+ * Checked again at the next local midnight, when the next timed occurrence is due,
+ * and at least hourly (timers stop while the computer sleeps)
  */
 
-import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { getServerUrl, getDeviceCredentials } from './socket';
 
-// Types
+const MAX_CHECK_DELAY = 60 * 60 * 1000; // 1 hour
+const MIN_CHECK_DELAY = 1000;
+
+// Types (mirror the server's ScheduledMessage JSON)
 export interface ScheduledMessage {
   id: string;
   date: string;
-  recurring: boolean;
   type: 'TEXT' | 'TEXT_IMAGE' | 'VIDEO' | 'AUDIO';
   content: string;
-  image_url: string | null;
-  video_url: string | null;
-  audio_url: string | null;
-  video_autoplay: boolean;
-  audio_autoplay: boolean;
-  target_devices: string[] | null;
-  created_at: string;
-  updated_at: string;
-  last_shown_year: number | null;
+  imageUrl?: string;
+  videoUrl?: string;
+  audioUrl?: string;
+  videoAutoplay?: boolean;
+  audioAutoplay?: boolean;
+  occurrenceDate?: string;  // date the occurrence is shown for (rule's time zone for timed rules)
+}
+
+// Due messages and when the next timed occurrence becomes due (ms)
+export interface ScheduledCheckResult {
+  messages: ScheduledMessage[];
+  nextDueAt: number | null;
 }
 
 export interface NotificationPayload {
@@ -34,124 +42,79 @@ export interface NotificationPayload {
   audioAutoplay?: boolean;
 }
 
-// Supabase client singleton
-let supabase: SupabaseClient | null = null;
-
 /**
- * Initialize Supabase client with environment variables
+ * Today's date in the device's local time zone (YYYY-MM-DD)
  */
-export function initSupabase(url: string, anonKey: string): SupabaseClient {
-  if (!supabase) {
-    supabase = createClient(url, anonKey);
-    console.log('[Scheduled] Supabase client initialized');
-  }
-  return supabase;
+function localDateString(date: Date): string {
+  const month = (date.getMonth() + 1).toString().padStart(2, '0');
+  const day = date.getDate().toString().padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
 }
 
 /**
- * Get the Supabase client instance
+ * Build the device authentication headers
  */
-export function getSupabaseClient(): SupabaseClient | null {
-  return supabase;
+function authHeaders(credentials: { deviceId: string; deviceSecret: string }): Record<string, string> {
+  return {
+    'X-Device-Id': credentials.deviceId,
+    Authorization: `Bearer ${credentials.deviceSecret}`,
+  };
 }
 
 /**
- * Check for scheduled messages for today
- * Handles both one-time and recurring messages
+ * Check for scheduled messages due now on this device
  */
-export async function checkScheduledMessages(deviceId: string): Promise<ScheduledMessage[]> {
-  if (!supabase) {
-    console.error('[Scheduled] Supabase client not initialized');
-    return [];
+export async function checkScheduledMessages(date: string): Promise<ScheduledCheckResult> {
+  const credentials = getDeviceCredentials();
+  if (!credentials) {
+    console.log('[Scheduled] Device not enrolled, skipping scheduled messages');
+    return { messages: [], nextDueAt: null };
   }
 
-  const today = new Date();
-  const dateStr = today.toISOString().split('T')[0]; // YYYY-MM-DD
-  const thisYear = today.getFullYear();
-  const month = (today.getMonth() + 1).toString().padStart(2, '0');
-  const day = today.getDate().toString().padStart(2, '0');
-
-  console.log(`[Scheduled] Checking messages for date: ${dateStr}, device: ${deviceId}`);
+  console.log(`[Scheduled] Checking messages for date: ${date}, device: ${credentials.deviceId}`);
 
   try {
-    // Query for today's messages (exact date match or recurring with same month-day)
-    const { data, error } = await supabase
-      .from('scheduled_messages')
-      .select('*')
-      .or(`date.eq.${dateStr},and(recurring.eq.true)`);
-
-    if (error) {
-      console.error('[Scheduled] Query error:', error);
-      return [];
-    }
+    const response = await fetch(`${getServerUrl()}/api/client/scheduled?date=${date}`, {
+      headers: authHeaders(credentials),
+    });
 
-    if (!data || data.length === 0) {
-      console.log('[Scheduled] No messages found for today');
-      return [];
+    if (!response.ok) {
+      console.error(`[Scheduled] Query error: ${response.status} ${response.statusText}`);
+      return { messages: [], nextDueAt: null };
     }
 
-    // Filter messages
-    const filteredMessages = data.filter((msg: ScheduledMessage) => {
-      // For recurring messages, check if same month-day
-      if (msg.recurring) {
-        const msgDate = new Date(msg.date);
-        const msgMonth = (msgDate.getMonth() + 1).toString().padStart(2, '0');
-        const msgDay = msgDate.getDate().toString().padStart(2, '0');
-
-        // Check if same month and day
-        if (msgMonth !== month || msgDay !== day) {
-          return false;
-        }
-
-        // Check if already shown this year
-        if (msg.last_shown_year && msg.last_shown_year >= thisYear) {
-          console.log(`[Scheduled] Recurring message ${msg.id} already shown this year`);
-          return false;
-        }
-      }
-
-      // Check target devices
-      if (msg.target_devices && msg.target_devices.length > 0) {
-        if (!msg.target_devices.includes(deviceId)) {
-          console.log(`[Scheduled] Message ${msg.id} not targeted at this device`);
-          return false;
-        }
-      }
-
-      return true;
-    });
-
-    console.log(`[Scheduled] Found ${filteredMessages.length} message(s) for today`);
-    return filteredMessages;
+    const { messages, nextDueAt } = (await response.json()) as {
+      messages: ScheduledMessage[];
+      nextDueAt?: number | null;
+    };
+    console.log(`[Scheduled] Found ${messages.length} message(s) for today`);
+    return { messages, nextDueAt: nextDueAt ?? null };
   } catch (err) {
     console.error('[Scheduled] Unexpected error:', err);
-    return [];
+    return { messages: [], nextDueAt: null };
   }
 }
 
 /**
- * Mark a recurring message as shown for this year
+ * Record today's occurrence of a message as shown on this device
  */
-export async function markAsShown(messageId: string): Promise<boolean> {
-  if (!supabase) {
-    console.error('[Scheduled] Supabase client not initialized');
-    return false;
-  }
-
-  const thisYear = new Date().getFullYear();
+export async function markOccurrenceShown(messageId: string, date: string): Promise<boolean> {
+  const credentials = getDeviceCredentials();
+  if (!credentials) return false;
 
   try {
-    const { error } = await supabase
-      .from('scheduled_messages')
-      .update({ last_shown_year: thisYear })
-      .eq('id', messageId);
+    const response = await fetch(`${getServerUrl()}/api/client/scheduled/${messageId}/shown`, {
+      method: 'POST',
+      headers: { ...authHeaders(credentials), 'Content-Type': 'application/json' },
+      body: JSON.stringify({ date }),
+    });
 
-    if (error) {
-      console.error('[Scheduled] Error marking as shown:', error);
+    if (!response.ok) {
+      console.error(`[Scheduled] Error marking as shown: ${response.status} ${response.statusText}`);
       return false;
     }
 
-    console.log(`[Scheduled] Marked message ${messageId} as shown for year ${thisYear}`);
+    console.log(`[Scheduled] Marked message ${messageId} as shown for ${date}`);
     return true;
   } catch (err) {
     console.error('[Scheduled] Unexpected error marking as shown:', err);
@@ -167,32 +130,36 @@ export function toNotificationPayload(msg: ScheduledMessage): NotificationPayloa
     id: `scheduled-${msg.id}`,
     type: msg.type,
     content: msg.content,
-    imageUrl: msg.image_url || undefined,
-    videoUrl: msg.video_url || undefined,
-    audioUrl: msg.audio_url || undefined,
-    videoAutoplay: msg.video_autoplay,
-    audioAutoplay: msg.audio_autoplay,
+    imageUrl: msg.imageUrl,
+    videoUrl: msg.videoUrl,
+    audioUrl: msg.audioUrl,
+    videoAutoplay: msg.videoAutoplay,
+    audioAutoplay: msg.audioAutoplay,
   };
 }
 
 /**
- * Process all scheduled messages for today
- * Returns notification payloads ready to display
+ * Process all scheduled messages due now
+ * Returns notification payloads ready to display and when to check again
  */
-export async function processScheduledMessages(
-  deviceId: string
-): Promise<NotificationPayload[]> {
-  const messages = await checkScheduledMessages(deviceId);
+export async function processScheduledMessages(): Promise<{ payloads: NotificationPayload[]; nextDueAt: number | null }> {
+  const date = localDateString(new Date());
+  const { messages, nextDueAt } = await checkScheduledMessages(date);
   const payloads: NotificationPayload[] = [];
 
   for (const msg of messages) {
     payloads.push(toNotificationPayload(msg));
-
-    // Mark recurring messages as shown
-    if (msg.recurring) {
-      await markAsShown(msg.id);
-    }
+    await markOccurrenceShown(msg.id, msg.occurrenceDate ?? date);
   }
 
-  return payloads;
+  return { payloads, nextDueAt };
+}
+
+/**
+ * Delay until the next check: the next timed occurrence or local midnight, whichever comes first
+ */
+export function getNextCheckDelay(nextDueAt: number | null, now = new Date()): number {
+  const midnight = new Date(now.getFullYear(), now.getMonth(), now.getDate() + 1).getTime();
+  const next = Math.min(midnight, nextDueAt ?? Infinity);
+  return Math.min(MAX_CHECK_DELAY, Math.max(MIN_CHECK_DELAY, next - now.getTime()));
 }
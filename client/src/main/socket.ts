@@ -9,7 +9,7 @@ import { v4 as uuidv4 } from 'uuid';
 import * as os from 'os';
 import * as fs from 'fs';
 import * as path from 'path';
-import { showNotification } from './main';
+import { showNotification, recallNotification, updateNotification } from './main';
 
 // Flag to disable logging during shutdown (prevents EPIPE errors)
 let isShuttingDown = false;
@@ -37,6 +37,7 @@ interface BundledConfig {
   deviceId?: string;
   deviceName?: string;
   serverUrl?: string;
+  enrollmentCode?: string;
 }
 
 function loadBundledConfig(): BundledConfig {
@@ -69,12 +70,16 @@ const DEFAULT_SERVER_URL = bundledConfig.serverUrl || process.env.SERVER_URL ||
 const HEARTBEAT_INTERVAL = 30000; // 30 seconds
 const INITIAL_RECONNECT_DELAY = 1000; // 1 second
 const MAX_RECONNECT_DELAY = 30000; // 30 seconds
+const MAX_SHOWN_MESSAGE_IDS = 200; // Remembered IDs for duplicate detection
 
 // Pre-configured device settings (from bundled config or environment variables)
 // If these are set, the client is considered "pre-configured" and won't show settings
 const PRECONFIGURED_DEVICE_ID = bundledConfig.deviceId || process.env.DEVICE_ID || '';
 const PRECONFIGURED_DEVICE_NAME = bundledConfig.deviceName || process.env.DEVICE_NAME || '';
 
+// One-time enrollment code issued from the dashboard (exchanged for a device secret)
+const PRECONFIGURED_ENROLLMENT_CODE = bundledConfig.enrollmentCode || process.env.DEVICE_ENROLLMENT_CODE || '';
+
 /**
  * Check if this client is pre-configured (has hardcoded device ID/name)
  */
@@ -90,6 +95,9 @@ interface StoreSchema {
   notificationDuration: number;
   soundEnabled: boolean;
   openAtLogin: boolean;
+  deviceSecret: string;
+  enrollmentCode: string;
+  doNotDisturb: boolean;
 }
 
 // Device info interface
@@ -101,21 +109,31 @@ export interface DeviceInfo {
   connected: boolean;
 }
 
+// Message priority (mirrors server MessagePriority)
+type MessagePriority = 'low' | 'normal' | 'high' | 'urgent';
+
 // Message payload interface (mirrors server types)
 interface MessagePayload {
   id: string;
-  type: 'TEXT' | 'TEXT_IMAGE' | 'VIDEO' | 'AUDIO';
-  content: string;
+  type: 'TEXT' | 'TEXT_IMAGE' | 'VIDEO' | 'AUDIO' | 'POLL';
+  content: string;  // plain text, also for clients that don't render Markdown
+  markdown?: string;  // TEXT messages with formatting
   imageUrl?: string;
   videoUrl?: string;
   audioUrl?: string;
   audioAutoplay?: boolean;
+  replyOptions?: string[];
+  allowFreeText?: boolean;
+  pollOptions?: string[];
+  pollClosesAt?: number;
+  expiresAt?: number;  // drop instead of showing after this time
+  priority?: MessagePriority;
   targetDevices: string[];
   timestamp: number;
 }
 
 // Connection status type
-export type ConnectionStatus = 'connected' | 'disconnected' | 'connecting' | 'error';
+export type ConnectionStatus = 'connected' | 'disconnected' | 'connecting' | 'error' | 'unenrolled';
 
 // Connection status change callback
 type StatusCallback = (status: ConnectionStatus) => void;
@@ -179,6 +197,9 @@ function getStore(): SimpleStore {
       notificationDuration: 8000,
       soundEnabled: true,
       openAtLogin: false,
+      deviceSecret: '',
+      enrollmentCode: '',
+      doNotDisturb: false,
     });
   }
   return store;
@@ -192,6 +213,25 @@ let reconnectDelay = INITIAL_RECONNECT_DELAY;
 let connectionStatus: ConnectionStatus = 'disconnected';
 let statusCallbacks: StatusCallback[] = [];
 
+// Read receipt event names (mirrors server DeliveryLifecycleEvent)
+export type NotificationLifecycleEvent = 'displayed' | 'dismissed' | 'auto-expired';
+
+// Read receipts and replies waiting for a connection (sent after registering)
+interface PendingReceipt {
+  event: NotificationLifecycleEvent | 'reply' | 'vote' | 'acknowledged' | 'expired';
+  messageId: string;
+  timestamp: number;
+  visibleMs?: number;
+  response?: string;
+  optionIndex?: number;
+}
+const pendingReceipts: PendingReceipt[] = [];
+const MAX_PENDING_RECEIPTS = 100;
+
+// Recently shown message IDs - the server replays unacknowledged messages on reconnect,
+// so a message whose ack got lost may arrive twice
+const shownMessageIds: string[] = [];
+
 /**
  * Get or create a persistent device ID
  * If preconfigured, always use the hardcoded ID
@@ -339,6 +379,68 @@ export function setOpenAtLogin(enabled: boolean): void {
   safeLog(`[Socket] Open at login updated: ${enabled}`);
 }
 
+/**
+ * Get the do-not-disturb setting (tray menu)
+ */
+export function getDoNotDisturb(): boolean {
+  return getStore().get('doNotDisturb');
+}
+
+/**
+ * Switch do-not-disturb on or off and report it to the server
+ * While it is on the server holds messages; when disconnected, the state is sent with the next registration
+ */
+export function setDoNotDisturb(enabled: boolean): void {
+  getStore().set('doNotDisturb', enabled);
+  safeLog(`[Socket] Do not disturb updated: ${enabled}`);
+
+  if (socket?.connected && connectionStatus === 'connected') {
+    socket.emit('device:dnd', { deviceId: getDeviceId(), enabled });
+  }
+}
+
+/**
+ * Get the pending enrollment code (entered in settings or bundled)
+ */
+export function getEnrollmentCode(): string {
+  return getStore().get('enrollmentCode') || PRECONFIGURED_ENROLLMENT_CODE;
+}
+
+/**
+ * Set the enrollment code to redeem on next connect
+ * Drops any existing secret so the device re-enrolls with the new code
+ */
+export function setEnrollmentCode(code: string): void {
+  const storage = getStore();
+  storage.set('enrollmentCode', code.trim().toUpperCase());
+  storage.set('deviceSecret', '');
+  safeLog('[Socket] Enrollment code updated');
+}
+
+/**
+ * Check whether this device holds credentials from a completed enrollment
+ */
+export function isEnrolled(): boolean {
+  return !!getStore().get('deviceSecret');
+}
+
+/**
+ * Get the credentials for authenticated HTTP requests to the server
+ * @returns null until the device is enrolled
+ */
+export function getDeviceCredentials(): { deviceId: string; deviceSecret: string } | null {
+  const deviceSecret = getStore().get('deviceSecret');
+  return deviceSecret ? { deviceId: getDeviceId(), deviceSecret } : null;
+}
+
+/**
+ * Forget the stored device secret (revoked or rejected by the server)
+ */
+function clearDeviceSecret(): void {
+  getStore().set('deviceSecret', '');
+  safeLog('[Socket] Device secret cleared');
+}
+
 /**
  * Check if this is the first run (no device name has been set by user)
  * Preconfigured clients are never considered "first run"
@@ -432,50 +534,112 @@ export function connect(): void {
 
   const serverUrl = getServerUrl();
   const deviceInfo = getDeviceInfo();
+  const storage = getStore();
 
   safeLog(`[Socket] Connecting to ${serverUrl}...`);
   setConnectionStatus('connecting');
 
-  // Create socket connection
+  // Create socket connection (credentials are checked during the handshake)
+  const deviceSecret = storage.get('deviceSecret');
   socket = io(serverUrl, {
     transports: ['websocket', 'polling'],
     reconnection: false, // We handle reconnection manually
     timeout: 10000,
+    auth: deviceSecret ? { deviceId: deviceInfo.id, deviceSecret } : {},
   });
 
   // Connection established
   socket.on('connect', () => {
     safeLog('[Socket] Connected to server');
-    setConnectionStatus('connected');
     resetReconnectDelay();
 
-    // Register device
-    socket!.emit('device:register', {
-      deviceId: deviceInfo.id,
-      deviceName: deviceInfo.name,
-      hostname: deviceInfo.hostname,
-    });
+    if (isEnrolled()) {
+      setConnectionStatus('connected');
+      registerDevice();
+      startHeartbeat();
+      return;
+    }
 
-    safeLog(`[Socket] Device registered: ${deviceInfo.id}`);
+    // Not enrolled yet - redeem the enrollment code if we have one
+    const code = getEnrollmentCode();
+    if (code) {
+      safeLog('[Socket] Enrolling device with code');
+      socket!.emit('device:enroll', {
+        code,
+        deviceId: deviceInfo.id,
+        deviceName: deviceInfo.name,
+        hostname: deviceInfo.hostname,
+      });
+      return;
+    }
+
+    safeLog('[Socket] Device is not enrolled and no enrollment code is set');
+    setUnenrolled();
+  });
 
-    // Start heartbeat
+  // Enrollment succeeded - persist the secret and register
+  socket.on('device:enrolled', (data: { deviceId: string; deviceSecret: string }) => {
+    safeLog('[Socket] Device enrolled');
+    storage.set('deviceSecret', data.deviceSecret);
+    storage.set('enrollmentCode', '');
+    if (socket) {
+      socket.auth = { deviceId: data.deviceId, deviceSecret: data.deviceSecret };
+    }
+    setConnectionStatus('connected');
+    registerDevice();
     startHeartbeat();
   });
 
+  // Enrollment rejected (invalid, used or expired code)
+  socket.on('device:enroll:error', (data: { error: string }) => {
+    console.error('[Socket] Enrollment failed:', data.error);
+    storage.set('enrollmentCode', '');
+    setUnenrolled();
+  });
+
+  // Server refused to register this device
+  socket.on('device:auth:error', (data: { error: string }) => {
+    console.error('[Socket] Device authentication failed:', data.error);
+    clearDeviceSecret();
+    setUnenrolled();
+  });
+
+  // Device was removed from the dashboard - its secret is no longer valid
+  socket.on('device:revoked', () => {
+    safeLog('[Socket] Device credentials revoked by server');
+    clearDeviceSecret();
+  });
+
   // Connection error
   socket.on('connect_error', (error) => {
     console.error('[Socket] Connection error:', error.message);
-    setConnectionStatus('error');
     stopHeartbeat();
+
+    // Stored secret was rejected - drop it and try enrolling again if possible
+    if (error.message === 'Invalid device credentials') {
+      clearDeviceSecret();
+      if (!getEnrollmentCode()) {
+        setUnenrolled();
+        return;
+      }
+    }
+
+    setConnectionStatus('error');
     scheduleReconnect();
   });
 
   // Disconnected
   socket.on('disconnect', (reason) => {
     safeLog(`[Socket] Disconnected: ${reason}`);
-    setConnectionStatus('disconnected');
     stopHeartbeat();
 
+    // Stay unenrolled until new settings are saved
+    if (connectionStatus === 'unenrolled') {
+      return;
+    }
+
+    setConnectionStatus('disconnected');
+
     // Reconnect unless intentionally disconnected
     if (reason !== 'io client disconnect') {
       scheduleReconnect();
@@ -489,7 +653,15 @@ export function connect(): void {
     // Check if this device is a target
     const deviceId = getDeviceId();
     if (payload.targetDevices.length === 0 || payload.targetDevices.includes(deviceId)) {
-      showNotification(payload);
+      if (shownMessageIds.includes(payload.id)) {
+        safeLog(`[Socket] Message ${payload.id} already shown, re-acknowledging`);
+      } else {
+        shownMessageIds.push(payload.id);
+        if (shownMessageIds.length > MAX_SHOWN_MESSAGE_IDS) {
+          shownMessageIds.shift();
+        }
+        showNotification(payload);
+      }
 
       // Acknowledge delivery to server
       socket!.emit('message:delivered', {
@@ -503,6 +675,18 @@ export function connect(): void {
     }
   });
 
+  // Message recalled by the sender (also re-sent after reconnecting)
+  socket.on('message:recall', (data: { messageId: string }) => {
+    safeLog(`[Socket] Message recalled: ${data.messageId}`);
+    recallNotification(data.messageId);
+  });
+
+  // Edited message: update it in place, never shown as a new notification
+  socket.on('message:update', (payload: MessagePayload) => {
+    safeLog(`[Socket] Message updated: ${payload.id}`);
+    updateNotification(payload);
+  });
+
   // Device registration acknowledged (server sends { device } object on success)
   socket.on('device:registered', (data: { device?: unknown }) => {
     if (data.device) {
@@ -515,13 +699,137 @@ export function connect(): void {
   // Server requesting re-registration (e.g., after server restart)
   socket.on('device:reregister', () => {
     safeLog('[Socket] Server requested re-registration');
-    const info = getDeviceInfo();
-    socket!.emit('device:register', {
-      deviceId: info.id,
-      deviceName: info.name,
-      hostname: info.hostname,
-    });
+    registerDevice();
+  });
+}
+
+/**
+ * Register this device with the server (requires an authenticated socket)
+ */
+function registerDevice(): void {
+  if (!socket) return;
+
+  const info = getDeviceInfo();
+  socket.emit('device:register', {
+    deviceId: info.id,
+    deviceName: info.name,
+    hostname: info.hostname,
+    dnd: getDoNotDisturb(),
+  });
+
+  safeLog(`[Socket] Device registered: ${info.id}`);
+
+  flushPendingReceipts();
+}
+
+/**
+ * Report a notification lifecycle event (read receipt) to the server
+ * Receipts are held while disconnected and sent after the next registration
+ */
+export function reportNotificationEvent(
+  event: NotificationLifecycleEvent,
+  messageId: string,
+  visibleMs?: number
+): void {
+  // Locally scheduled messages have no server-side delivery record
+  if (messageId.startsWith('scheduled-')) return;
+
+  sendOrQueueReceipt({ event, messageId, timestamp: Date.now(), visibleMs });
+}
+
+/**
+ * Send the user's reply (chosen option or free text) for a notification
+ * Replies are held while disconnected like read receipts
+ */
+export function sendReply(messageId: string, response: string): void {
+  if (messageId.startsWith('scheduled-')) return;
+
+  sendOrQueueReceipt({ event: 'reply', messageId, timestamp: Date.now(), response });
+}
+
+/**
+ * Send the user's vote for a poll notification (voting again changes the vote)
+ */
+export function sendPollVote(messageId: string, optionIndex: number): void {
+  if (messageId.startsWith('scheduled-')) return;
+
+  sendOrQueueReceipt({ event: 'vote', messageId, timestamp: Date.now(), optionIndex });
+}
+
+/**
+ * Acknowledge an urgent message from the full-screen window
+ */
+export function acknowledgeMessage(messageId: string): void {
+  if (messageId.startsWith('scheduled-')) return;
+
+  sendOrQueueReceipt({ event: 'acknowledged', messageId, timestamp: Date.now() });
+}
+
+/**
+ * Report a message that was dropped because it expired before it could be shown
+ */
+export function reportMessageExpired(messageId: string): void {
+  if (messageId.startsWith('scheduled-')) return;
+
+  sendOrQueueReceipt({ event: 'expired', messageId, timestamp: Date.now() });
+}
+
+/**
+ * Send a receipt now, or queue it until the next registration
+ */
+function sendOrQueueReceipt(receipt: PendingReceipt): void {
+  if (socket && socket.connected && connectionStatus === 'connected') {
+    emitReceipt(receipt);
+    return;
+  }
+
+  pendingReceipts.push(receipt);
+  if (pendingReceipts.length > MAX_PENDING_RECEIPTS) {
+    pendingReceipts.shift();
+  }
+  safeLog(`[Socket] Read receipt queued: ${receipt.event} ${receipt.messageId}`);
+}
+
+/**
+ * Send a single read receipt or reply
+ */
+function emitReceipt(receipt: PendingReceipt): void {
+  socket!.emit(`message:${receipt.event}`, {
+    messageId: receipt.messageId,
+    deviceId: getDeviceId(),
+    timestamp: receipt.timestamp,
+    visibleMs: receipt.visibleMs,
+    response: receipt.response,
+    optionIndex: receipt.optionIndex,
   });
+  safeLog(`[Socket] Read receipt sent: ${receipt.event} ${receipt.messageId}`);
+}
+
+/**
+ * Send read receipts collected while disconnected
+ */
+function flushPendingReceipts(): void {
+  while (socket && pendingReceipts.length > 0) {
+    emitReceipt(pendingReceipts.shift()!);
+  }
+}
+
+/**
+ * Stop connecting until the user provides an enrollment code
+ */
+function setUnenrolled(): void {
+  setConnectionStatus('unenrolled');
+  stopHeartbeat();
+
+  if (reconnectTimeout) {
+    clearTimeout(reconnectTimeout);
+    reconnectTimeout = null;
+  }
+
+  if (socket) {
+    socket.disconnect();
+    socket = null;
+  }
 }
 
 /**
@@ -13,11 +13,14 @@ import {
   setDeviceName,
   getOpenAtLogin,
   setOpenAtLogin,
+  getDoNotDisturb,
+  setDoNotDisturb,
   onStatusChange,
   reconnect,
   ConnectionStatus,
   prepareForShutdown,
 } from './socket';
+import { getRecentNotifications, onRecentNotificationsChange, RecentPayload } from './recent';
 
 // Flag to disable logging during shutdown
 let isShuttingDown = false;
@@ -35,9 +38,13 @@ function safeLog(...args: unknown[]): void {
 // Tray icon size (macOS standard)
 const ICON_SIZE = 22;
 
+// Longest message text shown in the Recent Notifications menu
+const RECENT_LABEL_LENGTH = 40;
+
 // Tray instance
 let tray: Tray | null = null;
 let settingsWindow: BrowserWindow | null = null;
+let openRecentNotification: ((messageId: string) => void) | null = null;
 
 /**
  * Create a colored circle icon for connection status
@@ -67,6 +74,8 @@ function getIconColorForStatus(status: ConnectionStatus): string {
       return '#6b7280'; // Gray
     case 'error':
       return '#ef4444'; // Red
+    case 'unenrolled':
+      return '#f97316'; // Orange
     default:
       return '#6b7280'; // Gray
   }
@@ -85,11 +94,21 @@ function getTooltipForStatus(status: ConnectionStatus): string {
       return 'CreaBomber - Disconnected';
     case 'error':
       return 'CreaBomber - Connection Error';
+    case 'unenrolled':
+      return 'CreaBomber - Enrollment Required';
     default:
       return 'CreaBomber';
   }
 }
 
+/**
+ * Get tooltip text for the tray icon, noting do-not-disturb
+ */
+function getTrayTooltip(status: ConnectionStatus): string {
+  const tooltip = getTooltipForStatus(status);
+  return getDoNotDisturb() ? `${tooltip} (Do Not Disturb)` : tooltip;
+}
+
 /**
  * Get status text for menu item
  */
@@ -104,11 +123,47 @@ function getStatusText(status: ConnectionStatus): string {
       return 'Disconnected';
     case 'error':
       return 'Connection Error';
+    case 'unenrolled':
+      return 'Not enrolled - enter code in Settings';
     default:
       return 'Unknown Status';
   }
 }
 
+/**
+ * Get the menu label of a recent notification: time and the start of its text
+ */
+function getRecentLabel(payload: RecentPayload): string {
+  const time = new Date(payload.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+  const fallback: Record<string, string> = {
+    TEXT_IMAGE: 'Image',
+    VIDEO: 'Video',
+    AUDIO: 'Audio',
+    POLL: 'Poll',
+  };
+  const text = payload.content.replace(/\s+/g, ' ').trim() || fallback[payload.type] || 'Message';
+  const label = text.length > RECENT_LABEL_LENGTH ? `${text.slice(0, RECENT_LABEL_LENGTH - 3)}...` : text;
+  return `${time}  ${label}`;
+}
+
+/**
+ * Build the Recent Notifications submenu
+ */
+function buildRecentMenu(): Electron.MenuItemConstructorOptions[] {
+  const recent = getRecentNotifications();
+  if (recent.length === 0) {
+    return [{ label: 'No recent notifications', enabled: false }];
+  }
+
+  return recent.map((payload) => ({
+    label: getRecentLabel(payload),
+    click: () => {
+      safeLog(`[Tray] Re-opening notification: ${payload.id}`);
+      openRecentNotification?.(payload.id);
+    },
+  }));
+}
+
 /**
  * Build the tray context menu
  */
@@ -132,6 +187,22 @@ function buildTrayMenu(): Menu {
       enabled: status !== 'connecting',
     },
     { type: 'separator' },
+    {
+      label: 'Do Not Disturb',
+      type: 'checkbox',
+      checked: getDoNotDisturb(),
+      click: (item) => {
+        safeLog(`[Tray] Do Not Disturb ${item.checked ? 'enabled' : 'disabled'}`);
+        setDoNotDisturb(item.checked);
+        updateTrayIcon(getConnectionStatus());
+      },
+    },
+    { type: 'separator' },
+    {
+      label: 'Recent Notifications',
+      submenu: buildRecentMenu(),
+    },
+    { type: 'separator' },
     {
       label: 'Settings...',
       click: () => {
@@ -165,7 +236,7 @@ function updateTrayIcon(status: ConnectionStatus): void {
 
   const icon = createStatusIcon(getIconColorForStatus(status));
   tray.setImage(icon);
-  tray.setToolTip(getTooltipForStatus(status));
+  tray.setToolTip(getTrayTooltip(status));
 
   // Also update the context menu
   tray.setContextMenu(buildTrayMenu());
@@ -233,16 +304,18 @@ function applyLoginItemSetting(enabled: boolean): void {
 
 /**
  * Initialize the system tray
+ * @param onOpenRecent - Re-opens a notification picked from the Recent Notifications menu
  */
-export function initializeTray(): void {
+export function initializeTray(onOpenRecent: (messageId: string) => void): void {
   safeLog('[Tray] Initializing system tray...');
+  openRecentNotification = onOpenRecent;
 
   // Create initial tray icon
   const initialStatus = getConnectionStatus();
   const icon = createStatusIcon(getIconColorForStatus(initialStatus));
 
   tray = new Tray(icon);
-  tray.setToolTip(getTooltipForStatus(initialStatus));
+  tray.setToolTip(getTrayTooltip(initialStatus));
   tray.setContextMenu(buildTrayMenu());
 
   // On macOS, clicking the tray icon shows the menu
@@ -254,6 +327,11 @@ export function initializeTray(): void {
     updateTrayIcon(status);
   });
 
+  // Keep the Recent Notifications menu current
+  onRecentNotificationsChange(() => {
+    tray?.setContextMenu(buildTrayMenu());
+  });
+
   safeLog('[Tray] System tray initialized');
 }
 
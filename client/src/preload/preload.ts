@@ -8,18 +8,28 @@
 
 import { contextBridge, ipcRenderer, IpcRendererEvent } from 'electron';
 
+type MessagePriority = 'low' | 'normal' | 'high' | 'urgent';
+
 // Message payload interface (mirrors server types)
 interface MessagePayload {
   id: string;
-  type: 'TEXT' | 'TEXT_IMAGE' | 'VIDEO' | 'AUDIO';
-  content: string;
+  type: 'TEXT' | 'TEXT_IMAGE' | 'VIDEO' | 'AUDIO' | 'POLL';
+  content: string;  // plain text, also for clients that don't render Markdown
+  markdown?: string;  // TEXT messages with formatting
   imageUrl?: string;
   videoUrl?: string;
   audioUrl?: string;
   videoAutoplay?: boolean;
   audioAutoplay?: boolean;
+  replyOptions?: string[];
+  allowFreeText?: boolean;
+  pollOptions?: string[];
+  pollClosesAt?: number;
+  expiresAt?: number;  // drop instead of showing after this time
+  priority?: MessagePriority;
   targetDevices: string[];
   timestamp: number;
+  cachedMedia?: Record<string, string>;  // cached copies by original URL
 }
 
 // Device info interface
@@ -32,7 +42,7 @@ interface DeviceInfo {
 }
 
 // Connection status type
-type ConnectionStatus = 'connected' | 'disconnected' | 'connecting' | 'error';
+type ConnectionStatus = 'connected' | 'disconnected' | 'connecting' | 'error' | 'unenrolled';
 
 // Notification callback type
 type NotificationCallback = (payload: MessagePayload) => void;
@@ -41,6 +51,7 @@ type HideCallback = () => void;
 // Store callbacks for cleanup
 let notificationCallback: NotificationCallback | null = null;
 let hideCallback: HideCallback | null = null;
+let updateCallback: NotificationCallback | null = null;
 
 /**
  * CreaBomber API exposed to the renderer
@@ -90,6 +101,29 @@ const creaBomberAPI = {
     };
   },
 
+  /**
+   * Register a callback for edits to the notification on screen
+   * The payload carries the new content; the notification is updated in place
+   * Returns an unsubscribe function
+   */
+  onUpdate: (callback: NotificationCallback): (() => void) => {
+    updateCallback = callback;
+
+    const handler = (_event: IpcRendererEvent, payload: MessagePayload) => {
+      if (updateCallback) {
+        updateCallback(payload);
+      }
+    };
+
+    ipcRenderer.on('notification:update', handler);
+
+    // Return unsubscribe function
+    return () => {
+      updateCallback = null;
+      ipcRenderer.removeListener('notification:update', handler);
+    };
+  },
+
   /**
    * Close/dismiss the current notification
    * Called when user clicks the close button
@@ -98,6 +132,28 @@ const creaBomberAPI = {
     ipcRenderer.send('notification:close');
   },
 
+  /**
+   * Send a reply for the current notification
+   * Called when user clicks a reply button or submits free text
+   */
+  sendReply: (messageId: string, response: string): void => {
+    ipcRenderer.send('notification:reply', { messageId, response });
+  },
+
+  /**
+   * Cast (or change) the vote on the current poll notification
+   */
+  sendPollVote: (messageId: string, optionIndex: number): void => {
+    ipcRenderer.send('notification:vote', { messageId, optionIndex });
+  },
+
+  /**
+   * Acknowledge the urgent message shown in the full-screen window
+   */
+  acknowledgeUrgent: (messageId: string): void => {
+    ipcRenderer.send('urgent:acknowledge', { messageId });
+  },
+
   /**
    * Request window resize from renderer
    * Used when displaying media content that needs different dimensions
@@ -148,7 +204,7 @@ const creaBomberAPI = {
   /**
    * Save settings (for settings window)
    */
-  saveSettings: async (settings: { deviceName?: string; serverUrl: string; openAtLogin?: boolean }): Promise<{ success: boolean }> => {
+  saveSettings: async (settings: { deviceName?: string; serverUrl: string; openAtLogin?: boolean; enrollmentCode?: string }): Promise<{ success: boolean }> => {
     return ipcRenderer.invoke('settings:save', settings);
   },
 
@@ -3,17 +3,27 @@
  * This file provides TypeScript types for the API exposed via contextBridge
  */
 
+type MessagePriority = 'low' | 'normal' | 'high' | 'urgent';
+
 // Message payload interface (mirrors server types)
 interface MessagePayload {
   id: string;
-  type: 'TEXT' | 'TEXT_IMAGE' | 'VIDEO' | 'AUDIO';
-  content: string;
+  type: 'TEXT' | 'TEXT_IMAGE' | 'VIDEO' | 'AUDIO' | 'POLL';
+  content: string;  // plain text, also for clients that don't render Markdown
+  markdown?: string;  // TEXT messages with formatting
   imageUrl?: string;
   videoUrl?: string;
   audioUrl?: string;
   audioAutoplay?: boolean;
+  replyOptions?: string[];
+  allowFreeText?: boolean;
+  pollOptions?: string[];
+  pollClosesAt?: number;
+  expiresAt?: number;  // drop instead of showing after this time
+  priority?: MessagePriority;
   targetDevices: string[];
   timestamp: number;
+  cachedMedia?: Record<string, string>;  // cached copies by original URL
 }
 
 // Device info interface
@@ -26,7 +36,7 @@ interface DeviceInfo {
 }
 
 // Connection status type
-type ConnectionStatus = 'connected' | 'disconnected' | 'connecting' | 'error';
+type ConnectionStatus = 'connected' | 'disconnected' | 'connecting' | 'error' | 'unenrolled';
 
 // Notification callback type
 type NotificationCallback = (payload: MessagePayload) => void;
@@ -51,12 +61,39 @@ interface CreaBomberAPI {
    */
   onHide: (callback: HideCallback) => () => void;
 
+  /**
+   * Register a callback for edits to the notification on screen
+   * @param callback Function called with the edited payload (update in place, don't show anew)
+   * @returns Unsubscribe function
+   */
+  onUpdate: (callback: NotificationCallback) => () => void;
+
   /**
    * Close/dismiss the current notification
    * Called when user clicks the close button
    */
   closeNotification: () => void;
 
+  /**
+   * Send a reply for the current notification
+   * @param messageId ID of the message being replied to
+   * @param response Chosen reply option or typed free text
+   */
+  sendReply: (messageId: string, response: string) => void;
+
+  /**
+   * Cast (or change) the vote on the current poll notification
+   * @param messageId ID of the poll message
+   * @param optionIndex Index of the chosen option
+   */
+  sendPollVote: (messageId: string, optionIndex: number) => void;
+
+  /**
+   * Acknowledge the urgent message shown in the full-screen window
+   * @param messageId ID of the urgent message
+   */
+  acknowledgeUrgent: (messageId: string) => void;
+
   /**
    * Request window resize from renderer
    * @param width Desired window width
@@ -86,16 +123,16 @@ interface CreaBomberAPI {
 
   /**
    * Get all settings (for settings window)
-   * @returns Promise resolving to settings object with serverUrl, connectionStatus, and openAtLogin
+   * @returns Promise resolving to settings object with serverUrl, connectionStatus, openAtLogin, and enrolled
    */
-  getSettings: () => Promise<{ serverUrl: string; connectionStatus: ConnectionStatus; openAtLogin: boolean }>;
+  getSettings: () => Promise<{ serverUrl: string; connectionStatus: ConnectionStatus; openAtLogin: boolean; enrolled: boolean }>;
 
   /**
    * Save settings (for settings window)
    * @param settings Object containing settings to save
    * @returns Promise resolving to success indicator
    */
-  saveSettings: (settings: { serverUrl: string; openAtLogin?: boolean }) => Promise<{ success: boolean }>;
+  saveSettings: (settings: { deviceName?: string; serverUrl: string; openAtLogin?: boolean; enrollmentCode?: string }) => Promise<{ success: boolean }>;
 
   /**
    * Close settings window
@@ -111,6 +148,7 @@ declare global {
 }
 
 export {
+  MessagePriority,
   MessagePayload,
   DeviceInfo,
   ConnectionStatus,
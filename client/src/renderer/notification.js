@@ -40,7 +40,7 @@ class MediaPreloader {
         resolve(img);
       };
       img.onerror = () => reject(new Error(`Failed to load image: ${url}`));
-      img.src = url;
+      img.src = mediaSrc(url);
     });
   }
 
@@ -62,7 +62,7 @@ class MediaPreloader {
         resolve(audio);
       };
       audio.onerror = () => reject(new Error(`Failed to load audio: ${url}`));
-      audio.src = url;
+      audio.src = mediaSrc(url);
     });
   }
 
@@ -149,7 +149,7 @@ class MediaPreloader {
 // ============================================================
 
 /**
- * VideoEmbedder - Creates embedded video players for YouTube, Loom, Vimeo
+ * VideoEmbedder - Creates embedded video players for YouTube, Loom, Vimeo and video files
  */
 class VideoEmbedder {
   constructor(options = {}) {
@@ -192,6 +192,14 @@ class VideoEmbedder {
     return match ? match[1] : null;
   }
 
+  /**
+   * Check if URL points to a video file (uploaded to the server or linked directly)
+   */
+  isVideoFile(url) {
+    if (!url) return false;
+    return url.includes('/api/media/') || /\.(mp4|webm|mov)(\?.*)?$/i.test(url);
+  }
+
   /**
    * Detect video platform
    */
@@ -199,6 +207,7 @@ class VideoEmbedder {
     if (this.getYouTubeId(url)) return 'youtube';
     if (this.getLoomId(url)) return 'loom';
     if (this.getVimeoId(url)) return 'vimeo';
+    if (this.isVideoFile(url)) return 'file';
     return 'unknown';
   }
 
@@ -269,6 +278,23 @@ class VideoEmbedder {
     return iframe;
   }
 
+  /**
+   * Create video element for video files (seeking uses range requests)
+   */
+  createFileEmbed(url, autoplay = false) {
+    const video = document.createElement('video');
+    video.src = mediaSrc(url);
+    video.controls = true;
+    video.playsInline = true;
+    video.autoplay = autoplay;
+    video.muted = autoplay && this.muted;
+    video.preload = 'metadata';
+    video.style.width = '100%';
+    video.style.height = '100%';
+
+    return video;
+  }
+
   /**
    * Create embedded video element
    */
@@ -282,6 +308,8 @@ class VideoEmbedder {
         return this.createLoomEmbed(this.getLoomId(url), autoplay);
       case 'vimeo':
         return this.createVimeoEmbed(this.getVimeoId(url), autoplay);
+      case 'file':
+        return this.createFileEmbed(url, autoplay);
       default:
         return null;
     }
@@ -295,6 +323,14 @@ class VideoEmbedder {
   }
 }
 
+// ============================================================
+// LAYOUT
+// ============================================================
+
+// Image area of the media window (mirrors NOTIFICATION_IMAGE_WIDTH / _MAX_HEIGHT in main.ts)
+const IMAGE_WIDTH = 546;
+const IMAGE_MAX_HEIGHT = 420;
+
 // ============================================================
 // DOM ELEMENTS
 // ============================================================
@@ -316,6 +352,13 @@ const audioPlayer = document.getElementById('audio-player');
 const timestamp = document.getElementById('timestamp');
 const closeBtn = document.getElementById('close-btn');
 const progressBar = document.getElementById('progress-bar');
+const pollContainer = document.getElementById('poll-container');
+const pollOptions = document.getElementById('poll-options');
+const pollStatus = document.getElementById('poll-status');
+const replyContainer = document.getElementById('reply-container');
+const replyOptions = document.getElementById('reply-options');
+const replyForm = document.getElementById('reply-form');
+const replyInput = document.getElementById('reply-input');
 
 // ============================================================
 // INSTANCES
@@ -333,6 +376,7 @@ let progressInterval = null;
 let startTime = null;
 let duration = 0;
 let isVideoEmbedded = false;
+let cachedMedia = {}; // Cached copies of the current notification's media, by original URL
 
 // ============================================================
 // UTILITY FUNCTIONS
@@ -350,6 +394,14 @@ function formatTime(date) {
   return `${hours}:${minutes} ${ampm}`;
 }
 
+/**
+ * URL to load a media file from: the copy in the client's media cache if there is one
+ * (also works offline), otherwise the original
+ */
+function mediaSrc(url) {
+  return cachedMedia[url] || url;
+}
+
 /**
  * Get YouTube video ID from URL
  */
@@ -483,20 +535,6 @@ function stopProgress() {
   }
 }
 
-/**
- * Render text with proper line breaks
- */
-function renderText(text) {
-  if (!text) return '';
-  const escaped = text
-    .replace(/&/g, '&amp;')
-    .replace(/</g, '&lt;')
-    .replace(/>/g, '&gt;')
-    .replace(/"/g, '&quot;')
-    .replace(/'/g, '&#039;');
-  return escaped.replace(/\n/g, '<br>');
-}
-
 /**
  * Create video placeholder SVG
  */
@@ -510,6 +548,241 @@ function createVideoPlaceholder(text = 'Video') {
   return `data:image/svg+xml;base64,${btoa(svg)}`;
 }
 
+// ============================================================
+// MARKDOWN RENDERER
+// ============================================================
+
+// Restricted Markdown of TEXT messages (mirrors src/lib/markdown.ts on the server):
+// **bold**, *italic*, `code`, [links](https://...), - bulleted and 1. numbered lists.
+// The text is turned into DOM nodes, never into HTML, so it can't add markup or scripts.
+
+const MD_BULLET_ITEM = /^\s*[-*+]\s+(.*)$/;
+const MD_ORDERED_ITEM = /^\s*(\d{1,9})[.)]\s+(.*)$/;
+const MD_ESCAPABLE = /[\\`*_[\]()~#+\-.!>]/;
+const MD_SAFE_LINK = /^(https?:\/\/|mailto:)/i;
+const MD_WORD_CHAR = /[\p{L}\p{N}]/u;
+
+/**
+ * Find the closing emphasis delimiter for an opener (single * skips ** runs)
+ */
+function findMarkdownCloser(text, from, delimiter) {
+  const char = delimiter[0];
+  for (let i = from; i < text.length; i++) {
+    if (text[i] === '\\') {
+      i++;
+      continue;
+    }
+    if (text[i] === '`') {
+      const end = text.indexOf('`', i + 1);
+      if (end !== -1) i = end;
+      continue;
+    }
+    if (!text.startsWith(delimiter, i)) continue;
+
+    if (delimiter.length === 1 && text[i + 1] === char) {
+      i++;
+      continue;
+    }
+    const isClosing = i > from && !/\s/.test(text[i - 1]);
+    const isWordBoundary = char !== '_' || !MD_WORD_CHAR.test(text[i + delimiter.length] || '');
+    if (isClosing && isWordBoundary) return i;
+  }
+  return -1;
+}
+
+/**
+ * Parse inline formatting into nodes: text, bold, italic, code, link
+ */
+function parseMarkdownInline(text) {
+  const nodes = [];
+  let buffer = '';
+
+  const flush = () => {
+    if (buffer) nodes.push({ type: 'text', text: buffer });
+    buffer = '';
+  };
+
+  let i = 0;
+  while (i < text.length) {
+    const char = text[i];
+
+    if (char === '\\' && MD_ESCAPABLE.test(text[i + 1] || '')) {
+      buffer += text[i + 1];
+      i += 2;
+      continue;
+    }
+
+    if (char === '`') {
+      const end = text.indexOf('`', i + 1);
+      if (end > i + 1) {
+        flush();
+        nodes.push({ type: 'code', text: text.slice(i + 1, end) });
+        i = end + 1;
+        continue;
+      }
+    }
+
+    if (char === '*' || char === '_') {
+      const delimiter = text[i + 1] === char ? char + char : char;
+      const start = i + delimiter.length;
+      const opens =
+        start < text.length && !/\s/.test(text[start]) && (char !== '_' || !MD_WORD_CHAR.test(text[i - 1] || ''));
+      const end = opens ? findMarkdownCloser(text, start, delimiter) : -1;
+      if (end !== -1) {
+        flush();
+        nodes.push({
+          type: delimiter.length === 2 ? 'bold' : 'italic',
+          children: parseMarkdownInline(text.slice(start, end))
+        });
+        i = end + delimiter.length;
+        continue;
+      }
+      buffer += delimiter;
+      i = start;
+      continue;
+    }
+
+    if (char === '[') {
+      const match = text.slice(i).match(/^\[([^\]]+)\]\(([^()\s]+)\)/);
+      if (match && MD_SAFE_LINK.test(match[2])) {
+        flush();
+        nodes.push({ type: 'link', href: match[2], children: parseMarkdownInline(match[1]) });
+        i += match[0].length;
+        continue;
+      }
+    }
+
+    buffer += char;
+    i++;
+  }
+
+  flush();
+  return nodes;
+}
+
+/**
+ * Parse a message into paragraph and list blocks
+ */
+function parseMarkdown(text) {
+  const blocks = [];
+  let paragraph = [];
+  let list = null;
+
+  const endParagraph = () => {
+    if (paragraph.length > 0) {
+      blocks.push({ type: 'paragraph', lines: paragraph.map(parseMarkdownInline) });
+    }
+    paragraph = [];
+  };
+
+  const endList = () => {
+    if (list) {
+      blocks.push({ type: 'list', ordered: list.ordered, start: list.start, items: list.items.map(parseMarkdownInline) });
+    }
+    list = null;
+  };
+
+  for (const line of text.replace(/\r\n?/g, '\n').split('\n')) {
+    const bullet = line.match(MD_BULLET_ITEM);
+    const ordered = bullet ? null : line.match(MD_ORDERED_ITEM);
+
+    if (bullet || ordered) {
+      endParagraph();
+      const isOrdered = ordered !== null;
+      if (list && list.ordered !== isOrdered) {
+        endList();
+      }
+      if (!list) {
+        list = { ordered: isOrdered, start: ordered ? Number(ordered[1]) : 1, items: [] };
+      }
+      list.items.push(bullet ? bullet[1] : ordered[2]);
+    } else if (line.trim() === '') {
+      endParagraph();
+      endList();
+    } else {
+      endList();
+      paragraph.push(line);
+    }
+  }
+
+  endParagraph();
+  endList();
+  return blocks;
+}
+
+/**
+ * Append inline nodes to an element
+ * Links open in the default browser (the main process only lets http(s) and mailto URLs out)
+ */
+function appendMarkdownInline(parent, nodes) {
+  for (const node of nodes) {
+    if (node.type === 'text') {
+      parent.appendChild(document.createTextNode(node.text));
+    } else if (node.type === 'code') {
+      const code = document.createElement('code');
+      code.textContent = node.text;
+      parent.appendChild(code);
+    } else if (node.type === 'link') {
+      const link = document.createElement('a');
+      link.href = node.href;
+      link.rel = 'noopener noreferrer';
+      link.addEventListener('click', (event) => {
+        event.preventDefault();
+        window.open(node.href, '_blank');
+      });
+      appendMarkdownInline(link, node.children);
+      parent.appendChild(link);
+    } else {
+      const element = document.createElement(node.type === 'bold' ? 'strong' : 'em');
+      appendMarkdownInline(element, node.children);
+      parent.appendChild(element);
+    }
+  }
+}
+
+/**
+ * Render Markdown into DOM nodes
+ */
+function renderMarkdown(text) {
+  const fragment = document.createDocumentFragment();
+
+  for (const block of parseMarkdown(text)) {
+    if (block.type === 'paragraph') {
+      const paragraph = document.createElement('p');
+      block.lines.forEach((line, index) => {
+        if (index > 0) paragraph.appendChild(document.createElement('br'));
+        appendMarkdownInline(paragraph, line);
+      });
+      fragment.appendChild(paragraph);
+    } else {
+      const list = document.createElement(block.ordered ? 'ol' : 'ul');
+      if (block.ordered && block.start !== 1) list.start = block.start;
+      for (const item of block.items) {
+        const listItem = document.createElement('li');
+        appendMarkdownInline(listItem, item);
+        list.appendChild(listItem);
+      }
+      fragment.appendChild(list);
+    }
+  }
+
+  return fragment;
+}
+
+/**
+ * Show the text of a message: its Markdown if it has any, otherwise the plain content
+ */
+function setTextContent(payload) {
+  textContent.replaceChildren();
+  textContent.classList.toggle('markdown', !!payload.markdown);
+
+  if (payload.markdown) {
+    textContent.appendChild(renderMarkdown(payload.markdown));
+  } else {
+    textContent.textContent = payload.content || '';
+  }
+}
+
 // ============================================================
 // PRELOAD OVERLAY
 // ============================================================
@@ -541,7 +814,7 @@ function resetContent() {
   hidePreloadOverlay();
 
   // Reset text
-  textContent.innerHTML = '';
+  textContent.replaceChildren();
 
   // Reset image
   if (!imageContainer.querySelector('.notification-image')) {
@@ -600,6 +873,17 @@ function resetContent() {
   audioContainer.onclick = null;
   audioContainer.style.cursor = '';
 
+  // Reset poll
+  pollContainer.classList.add('hidden');
+  pollOptions.innerHTML = '';
+  pollStatus.textContent = '';
+
+  // Reset replies
+  replyContainer.classList.add('hidden');
+  replyForm.classList.add('hidden');
+  replyOptions.innerHTML = '';
+  replyInput.value = '';
+
   // Reset progress
   stopProgress();
   progressBar.style.transform = 'scaleX(1)';
@@ -625,9 +909,10 @@ async function showNotification(payload) {
 
   // Store current payload
   currentPayload = payload;
+  cachedMedia = payload.cachedMedia || {};
 
   // Show preload overlay for media types
-  if (payload.type !== 'TEXT') {
+  if (payload.type !== 'TEXT' && payload.type !== 'POLL') {
     showPreloadOverlay();
   }
 
@@ -646,11 +931,7 @@ async function showNotification(payload) {
   timestamp.textContent = formatTime(new Date());
 
   // Set text content
-  if (payload.content) {
-    textContent.innerHTML = renderText(payload.content);
-  } else {
-    textContent.innerHTML = '';
-  }
+  setTextContent(payload);
 
   // Handle different message types
   switch (payload.type) {
@@ -659,7 +940,7 @@ async function showNotification(payload) {
 
     case 'TEXT_IMAGE':
       if (payload.imageUrl) {
-        showImage(payload.imageUrl);
+        showImage(payload.imageUrl, payload.imageWidth, payload.imageHeight);
       }
       break;
 
@@ -674,15 +955,22 @@ async function showNotification(payload) {
         showAudio(payload.audioUrl, payload.audioAutoplay);
       }
       break;
+
+    case 'POLL':
+      showPoll(payload);
+      break;
   }
 
+  // Reply buttons / free-text input
+  const hasReplies = showReplies(payload);
+
   // Show notification with animation
   notification.classList.remove('hidden', 'hiding');
   void notification.offsetWidth;
   notification.classList.add('visible', 'animate-in');
 
   // Request appropriate window size
-  requestWindowResize(payload.type);
+  requestWindowResize(payload, hasReplies);
 
   // Signal main process that preload is complete and window can be shown
   if (window.creaBomber && window.creaBomber.notifyPreloadComplete) {
@@ -706,6 +994,21 @@ function hideNotification() {
   }, 300);
 }
 
+/**
+ * Replace the text of the notification on screen after the sender edited it
+ * Media, reply buttons and the auto-close timer stay as they are
+ */
+function updateNotification(payload) {
+  if (!currentPayload || currentPayload.id !== payload.id) return;
+
+  console.log('[Renderer] Updating notification:', payload.id);
+
+  // showNotification may still be preloading and reads the same object afterwards
+  currentPayload.content = payload.content;
+  currentPayload.markdown = payload.markdown;
+  setTextContent(payload);
+}
+
 // ============================================================
 // CONTENT DISPLAY FUNCTIONS
 // ============================================================
@@ -713,15 +1016,18 @@ function hideNotification() {
 /**
  * Show image content
  */
-function showImage(imageUrl) {
+function showImage(imageUrl, width, height) {
   imageContainer.classList.remove('hidden');
 
+  // Reserve the image's space while it loads (size is sent for uploaded images)
+  imageContent.style.aspectRatio = width && height ? `${width} / ${height}` : '';
+
   // Check if preloaded
   const preloadedImg = mediaPreloader.getAsset(imageUrl);
 
   if (preloadedImg) {
     imageLoading.classList.add('hidden');
-    imageContent.src = imageUrl;
+    imageContent.src = mediaSrc(imageUrl);
     imageContent.classList.remove('loading');
     imageContent.classList.add('loaded');
     console.log('[Renderer] Using preloaded image');
@@ -737,7 +1043,7 @@ function showImage(imageUrl) {
 
   tempImg.onload = () => {
     imageLoading.classList.add('hidden');
-    imageContent.src = imageUrl;
+    imageContent.src = mediaSrc(imageUrl);
     imageContent.classList.remove('loading');
     imageContent.classList.add('loaded');
   };
@@ -759,7 +1065,7 @@ function showImage(imageUrl) {
     `;
   };
 
-  tempImg.src = imageUrl;
+  tempImg.src = mediaSrc(imageUrl);
 }
 
 /**
@@ -780,14 +1086,14 @@ function showVideo(videoUrl, autoplay = false) {
       if (thumbnailUrl) {
         const preloadedThumb = mediaPreloader.getAsset(thumbnailUrl);
         if (preloadedThumb) {
-          videoThumbImg.src = thumbnailUrl;
+          videoThumbImg.src = mediaSrc(thumbnailUrl);
           videoThumbImg.classList.remove('loading');
           console.log('[Renderer] Using preloaded thumbnail');
         } else {
           videoThumbImg.classList.add('loading');
           const tempThumb = new Image();
           tempThumb.onload = () => {
-            videoThumbImg.src = thumbnailUrl;
+            videoThumbImg.src = mediaSrc(thumbnailUrl);
             videoThumbImg.classList.remove('loading');
             console.log('[Renderer] Thumbnail loaded:', thumbnailUrl);
           };
@@ -797,20 +1103,20 @@ function showVideo(videoUrl, autoplay = false) {
               console.log('[Renderer] Trying fallback thumbnail');
               const fallbackThumb = new Image();
               fallbackThumb.onload = () => {
-                videoThumbImg.src = fallbackUrl;
+                videoThumbImg.src = mediaSrc(fallbackUrl);
                 videoThumbImg.classList.remove('loading');
               };
               fallbackThumb.onerror = () => {
                 videoThumbImg.src = createVideoPlaceholder('Click to play');
                 videoThumbImg.classList.remove('loading');
               };
-              fallbackThumb.src = fallbackUrl;
+              fallbackThumb.src = mediaSrc(fallbackUrl);
             } else {
               videoThumbImg.src = createVideoPlaceholder('Click to play');
               videoThumbImg.classList.remove('loading');
             }
           };
-          tempThumb.src = thumbnailUrl;
+          tempThumb.src = mediaSrc(thumbnailUrl);
         }
       } else {
         videoThumbImg.src = createVideoPlaceholder('Click to play');
@@ -845,7 +1151,7 @@ function showVideo(videoUrl, autoplay = false) {
 }
 
 /**
- * Embed video in iframe
+ * Embed video in iframe (or video element for video files)
  */
 function embedVideo(videoUrl, autoplay = false) {
   if (isVideoEmbedded) return;
@@ -883,7 +1189,7 @@ function showAudio(audioUrl, autoplay = false) {
   // Check if preloaded
   const preloadedAudio = mediaPreloader.getAsset(audioUrl);
   if (preloadedAudio) {
-    audioPlayer.src = audioUrl;
+    audioPlayer.src = mediaSrc(audioUrl);
     if (audioLabel) {
       audioLabel.textContent = 'Audio message';
     }
@@ -893,7 +1199,7 @@ function showAudio(audioUrl, autoplay = false) {
       });
     }
   } else {
-    audioPlayer.src = audioUrl;
+    audioPlayer.src = mediaSrc(audioUrl);
   }
 
   audioPlayer.oncanplaythrough = () => {
@@ -973,21 +1279,101 @@ function showAudio(audioUrl, autoplay = false) {
   audioContainer.style.cursor = 'pointer';
 }
 
+/**
+ * Show poll option buttons
+ * The vote can be changed by clicking another option until the poll closes
+ */
+function showPoll(payload) {
+  const options = payload.pollOptions || [];
+  const isClosed = payload.pollClosesAt && Date.now() > payload.pollClosesAt;
+
+  options.forEach((option, index) => {
+    const button = document.createElement('button');
+    button.type = 'button';
+    button.className = 'poll-option';
+    button.textContent = option;
+    button.disabled = !!isClosed;
+    button.addEventListener('click', () => {
+      if (!currentPayload || !window.creaBomber) return;
+      if (currentPayload.pollClosesAt && Date.now() > currentPayload.pollClosesAt) {
+        pollStatus.textContent = 'Abstimmung beendet';
+        return;
+      }
+
+      window.creaBomber.sendPollVote(currentPayload.id, index);
+      pollOptions.querySelectorAll('.poll-option').forEach((el) => el.classList.remove('selected'));
+      button.classList.add('selected');
+      pollStatus.textContent = 'Stimme abgegeben - Auswahl kann geändert werden';
+    });
+    pollOptions.appendChild(button);
+  });
+
+  if (isClosed) {
+    pollStatus.textContent = 'Abstimmung beendet';
+  } else if (payload.pollClosesAt) {
+    pollStatus.textContent = `Abstimmung bis ${formatTime(new Date(payload.pollClosesAt))}`;
+  }
+
+  pollContainer.classList.remove('hidden');
+}
+
+/**
+ * Show reply buttons and the free-text input if the message asks for a reply
+ * @returns true if reply actions are shown
+ */
+function showReplies(payload) {
+  const options = payload.replyOptions || [];
+  if (options.length === 0 && !payload.allowFreeText) return false;
+
+  options.forEach((option) => {
+    const button = document.createElement('button');
+    button.type = 'button';
+    button.className = 'reply-option';
+    button.textContent = option;
+    button.addEventListener('click', () => submitReply(option));
+    replyOptions.appendChild(button);
+  });
+
+  if (payload.allowFreeText) {
+    replyForm.classList.remove('hidden');
+  }
+
+  replyContainer.classList.remove('hidden');
+  return true;
+}
+
+/**
+ * Send a reply for the current notification (main process closes it)
+ */
+function submitReply(response) {
+  if (!currentPayload || !window.creaBomber) return;
+  window.creaBomber.sendReply(currentPayload.id, response);
+}
+
 /**
  * Request window resize based on content type
+ * (image notifications fit the image when the server sent its size)
  */
-function requestWindowResize(type) {
+function requestWindowResize(payload, hasReplies = false) {
   if (!window.creaBomber) return;
 
   const sizes = {
     'TEXT': { width: 450, height: 200 },
     'TEXT_IMAGE': { width: 600, height: 550 },
     'VIDEO': { width: 600, height: 500 },
-    'AUDIO': { width: 450, height: 250 }
+    'AUDIO': { width: 450, height: 250 },
+    'POLL': { width: 450, height: 420 }
   };
 
-  const size = sizes[type] || sizes['TEXT'];
-  window.creaBomber.requestResize(size.width, size.height);
+  const size = sizes[payload.type] || sizes['TEXT'];
+  let height = size.height;
+  if (payload.type === 'TEXT_IMAGE' && payload.imageWidth && payload.imageHeight) {
+    const imageHeight = Math.min(IMAGE_MAX_HEIGHT, Math.round(IMAGE_WIDTH * payload.imageHeight / payload.imageWidth));
+    height = height - IMAGE_MAX_HEIGHT + imageHeight;
+  }
+
+  const replyHeight = hasReplies ? 60 : 0;
+  window.creaBomber.requestResize(size.width, height + replyHeight);
 }
 
 // ============================================================
@@ -1003,6 +1389,14 @@ function init() {
     }
   });
 
+  replyForm.addEventListener('submit', (event) => {
+    event.preventDefault();
+    const text = replyInput.value.trim();
+    if (text) {
+      submitReply(text);
+    }
+  });
+
   if (window.creaBomber) {
     window.creaBomber.onNotification((payload) => {
       showNotification(payload);
@@ -1012,6 +1406,10 @@ function init() {
       hideNotification();
     });
 
+    window.creaBomber.onUpdate((payload) => {
+      updateNotification(payload);
+    });
+
     console.log('[Renderer] Subscribed to notification events');
   } else {
     console.warn('[Renderer] creaBomber API not available - running outside Electron?');
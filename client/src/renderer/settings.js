@@ -9,6 +9,8 @@ const statusText = document.getElementById('statusText');
 const deviceNameInput = document.getElementById('deviceName');
 const serverUrlInput = document.getElementById('serverUrl');
 const openAtLoginCheckbox = document.getElementById('openAtLogin');
+const enrollmentCodeInput = document.getElementById('enrollmentCode');
+const enrollmentHelp = document.getElementById('enrollmentHelp');
 const settingsForm = document.getElementById('settingsForm');
 const cancelBtn = document.getElementById('cancelBtn');
 const saveBtn = document.getElementById('saveBtn');
@@ -19,6 +21,7 @@ const statusMessages = {
   connecting: 'Connecting...',
   disconnected: 'Disconnected',
   error: 'Connection Error',
+  unenrolled: 'Enrollment Required',
 };
 
 /**
@@ -45,6 +48,9 @@ async function loadSettings() {
       deviceNameInput.value = settings.deviceName || '';
       serverUrlInput.value = settings.serverUrl || '';
       openAtLoginCheckbox.checked = settings.openAtLogin || false;
+      if (settings.enrolled) {
+        enrollmentHelp.textContent = 'This device is enrolled. Enter a new code only to re-enroll.';
+      }
       updateStatusUI(settings.connectionStatus);
     }
   } catch (error) {
@@ -98,7 +104,8 @@ async function saveSettings(event) {
 
   try {
     const openAtLogin = openAtLoginCheckbox.checked;
-    const result = await window.creaBomber.saveSettings({ deviceName, serverUrl, openAtLogin });
+    const enrollmentCode = enrollmentCodeInput.value.trim() || undefined;
+    const result = await window.creaBomber.saveSettings({ deviceName, serverUrl, openAtLogin, enrollmentCode });
 
     if (result && result.success) {
       // Settings saved successfully, close window
@@ -0,0 +1,111 @@
+/**
+ * CreaBomber Urgent Notification Renderer
+ * Shows an urgent message full-screen until the user acknowledges it
+ */
+
+// ============================================================
+// DOM ELEMENTS
+// ============================================================
+
+const container = document.getElementById('urgent');
+const timeEl = document.getElementById('urgent-time');
+const textEl = document.getElementById('urgent-text');
+const imageEl = document.getElementById('urgent-image');
+const linkEl = document.getElementById('urgent-link');
+const acknowledgeBtn = document.getElementById('acknowledge-btn');
+
+let currentPayload = null;
+
+// ============================================================
+// UTILITY FUNCTIONS
+// ============================================================
+
+/**
+ * Format timestamp to "h:mm a" format
+ */
+function formatTime(date) {
+  let hours = date.getHours();
+  const minutes = date.getMinutes().toString().padStart(2, '0');
+  const ampm = hours >= 12 ? 'PM' : 'AM';
+  hours = hours % 12;
+  hours = hours ? hours : 12;
+  return `${hours}:${minutes} ${ampm}`;
+}
+
+// ============================================================
+// DISPLAY
+// ============================================================
+
+/**
+ * Render the urgent message
+ * Media that can't be embedded full-screen (video, audio) is shown as a link
+ */
+function showUrgent(payload) {
+  currentPayload = payload;
+
+  timeEl.textContent = formatTime(new Date(payload.timestamp || Date.now()));
+  textEl.textContent = payload.content;
+
+  if (payload.imageUrl) {
+    // Cached copy if the client's media cache has one
+    imageEl.src = (payload.cachedMedia && payload.cachedMedia[payload.imageUrl]) || payload.imageUrl;
+    imageEl.classList.remove('hidden');
+  } else {
+    imageEl.classList.add('hidden');
+  }
+
+  const mediaUrl = payload.videoUrl || payload.audioUrl;
+  if (mediaUrl) {
+    linkEl.href = mediaUrl;
+    linkEl.textContent = mediaUrl;
+    linkEl.classList.remove('hidden');
+  } else {
+    linkEl.classList.add('hidden');
+  }
+
+  container.classList.remove('hidden');
+  acknowledgeBtn.disabled = false;
+  acknowledgeBtn.focus();
+}
+
+/**
+ * Replace the text after the sender edited the message
+ */
+function updateUrgent(payload) {
+  if (!currentPayload || currentPayload.id !== payload.id) return;
+
+  currentPayload = payload;
+  textEl.textContent = payload.content;
+}
+
+// ============================================================
+// INITIALIZATION
+// ============================================================
+
+function init() {
+  acknowledgeBtn.addEventListener('click', () => {
+    if (!currentPayload || !window.creaBomber) return;
+
+    acknowledgeBtn.disabled = true;
+    window.creaBomber.acknowledgeUrgent(currentPayload.id);
+  });
+
+  if (window.creaBomber) {
+    window.creaBomber.onNotification((payload) => {
+      showUrgent(payload);
+    });
+
+    window.creaBomber.onUpdate((payload) => {
+      updateUrgent(payload);
+    });
+  } else {
+    console.warn('[Urgent] creaBomber API not available - running outside Electron?');
+    window.showTestUrgent = showUrgent;
+  }
+}
+
+if (document.readyState === 'loading') {
+  document.addEventListener('DOMContentLoaded', init);
+} else {
+  init();
+}
@@ -1,7 +1,11 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  experimental: {
+    // Request bodies pass through the middleware, which cuts them off at 10 MB by default;
+    // media uploads (POST /api/media) go up to 100 MB
+    proxyClientMaxBodySize: "110mb",
+  },
 };
 
 export default nextConfig;
@@ -0,0 +1,464 @@
+/**
+ * CreaBomber Command-Line Sender
+ * Sends messages, lists devices, tails the history and watches deliveries from
+ * shell scripts and cron jobs. Authenticates with an API key (see /admin/api-keys)
+ * and prints JSON (one object per line for streaming commands).
+ *
+ *   npm run creabomber -- send --device <id> "Build failed"
+ *   npm run creabomber -- watch <messageId>
+ */
+
+import { parseArgs } from 'util';
+import { homedir } from 'os';
+import { dirname, join } from 'path';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { io } from 'socket.io-client';
+import { fetchWithRetry, type RetryConfig } from '../src/lib/fetch-with-retry';
+import { validateMessageBody, type CreateMessageBody } from '../src/lib/message-validation';
+import type { DeliveryStatusUpdate, Device, Message, MessageStatus } from '../src/types';
+
+const USAGE = `Usage: creabomber [--profile <name>] [--server <url>] [--api-key <key>] [--pretty] <command> [options]
+
+Commands:
+  send [content]     Send a message (content "-" reads stdin)
+                       --type TEXT|TEXT_IMAGE|VIDEO|AUDIO|POLL   (default TEXT)
+                       --device <id>  --group <id>  --tag <tag>   (repeatable, at least one)
+                       --priority low|normal|high|urgent  --override-dnd
+                       --image-url <url>  --video-url <url>  --audio-url <url>  --autoplay
+                       --reply <option> (repeatable)  --free-text
+                       --poll-option <option> (repeatable)  --poll-closes-at <iso>
+                       --send-at <iso with offset>  --expires-at <iso>  --timezone <iana>
+                       --value <name=value> (repeatable, fills {{name}})
+                       --dry-run (validate and print the request body only)
+  devices            List devices and their status   [--status online|offline] [--tag <tag>]
+  history            Show the latest messages         [--limit <n>] [--type <type>] [--search <text>]
+                                                      [--follow] [--interval <seconds>]
+  watch [id ...]     Stream delivery updates over Socket.io, until the given messages
+                     are delivered or failed          [--timeout <seconds>]
+  login              Save --server and --api-key as a profile (--profile, default "default")
+  profiles           List saved profiles
+
+Environment: CREABOMBER_SERVER, CREABOMBER_API_KEY, CREABOMBER_PROFILE, CREABOMBER_CONFIG`;
+
+const DEFAULT_SERVER = 'http://localhost:3000';
+const DEFAULT_PROFILE = 'default';
+const DEFAULT_HISTORY_LIMIT = 20;
+const DEFAULT_FOLLOW_INTERVAL = 5;
+
+// Exit codes: 1 = request failed, 2 = invalid usage or message
+const EXIT_FAILED = 1;
+const EXIT_USAGE = 2;
+
+// A send that reached the server may have been stored, so only retry where it was not
+const SEND_RETRY_CONFIG: RetryConfig = {
+  retryStatusCodes: [429, 502, 503, 504],
+  maxDelay: 60000,
+};
+
+// Overall statuses after which a message gets no more delivery updates worth waiting for
+const FINAL_STATUSES: MessageStatus[] = ['delivered', 'failed'];
+
+interface Profile {
+  server: string;
+  apiKey: string;
+}
+
+interface ConfigFile {
+  defaultProfile?: string;
+  profiles: Record<string, Profile>;
+}
+
+const { values: options, positionals } = parseOptions();
+
+function parseOptions() {
+  try {
+    return parseArgs({
+      allowPositionals: true,
+      options: {
+        // Global
+        profile: { type: 'string' },
+        server: { type: 'string' },
+        'api-key': { type: 'string' },
+        pretty: { type: 'boolean' },
+        help: { type: 'boolean', short: 'h' },
+        // send
+        type: { type: 'string' },
+        content: { type: 'string' },
+        device: { type: 'string', multiple: true },
+        group: { type: 'string', multiple: true },
+        tag: { type: 'string', multiple: true },
+        priority: { type: 'string' },
+        'override-dnd': { type: 'boolean' },
+        'image-url': { type: 'string' },
+        'video-url': { type: 'string' },
+        'audio-url': { type: 'string' },
+        autoplay: { type: 'boolean' },
+        reply: { type: 'string', multiple: true },
+        'free-text': { type: 'boolean' },
+        'poll-option': { type: 'string', multiple: true },
+        'poll-closes-at': { type: 'string' },
+        'send-at': { type: 'string' },
+        'expires-at': { type: 'string' },
+        timezone: { type: 'string' },
+        value: { type: 'string', multiple: true },
+        'dry-run': { type: 'boolean' },
+        // devices, history, watch
+        status: { type: 'string' },
+        limit: { type: 'string' },
+        search: { type: 'string' },
+        follow: { type: 'boolean' },
+        interval: { type: 'string' },
+        timeout: { type: 'string' },
+      },
+    });
+  } catch (error) {
+    fail(`${error instanceof Error ? error.message : String(error)} (see creabomber --help)`, EXIT_USAGE);
+  }
+}
+
+/**
+ * Print a result as JSON on stdout
+ */
+function print(data: unknown): void {
+  process.stdout.write(`${JSON.stringify(data, null, options.pretty ? 2 : undefined)}\n`);
+}
+
+/**
+ * Print an error as JSON on stderr and exit
+ */
+function fail(error: string, exitCode = EXIT_FAILED, details?: Record<string, unknown>): never {
+  process.stderr.write(`${JSON.stringify({ error, ...details })}\n`);
+  process.exit(exitCode);
+}
+
+/**
+ * Parse a positive whole number option
+ */
+function parseCount(value: string | undefined, name: string, fallback: number): number {
+  if (value === undefined) {
+    return fallback;
+  }
+  const count = Number(value);
+  if (!Number.isInteger(count) || count < 1) {
+    fail(`--${name} must be a positive whole number`, EXIT_USAGE);
+  }
+  return count;
+}
+
+// ============================================
+// Profiles
+// ============================================
+
+function getConfigPath(): string {
+  return process.env.CREABOMBER_CONFIG || join(homedir(), '.creabomber', 'config.json');
+}
+
+function readConfig(): ConfigFile {
+  const path = getConfigPath();
+  if (!existsSync(path)) {
+    return { profiles: {} };
+  }
+  try {
+    return JSON.parse(readFileSync(path, 'utf8')) as ConfigFile;
+  } catch (error) {
+    fail(`Failed to read ${path}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+function writeConfig(config: ConfigFile): void {
+  const path = getConfigPath();
+  mkdirSync(dirname(path), { recursive: true });
+  // The file holds API keys, so only the owner may read it
+  writeFileSync(path, `${JSON.stringify(config, null, 2)}\n`, { mode: 0o600 });
+}
+
+/**
+ * Server and API key from flags, then environment, then the selected profile
+ */
+function resolveProfile(): Profile {
+  const config = readConfig();
+  const profileName = options.profile ?? process.env.CREABOMBER_PROFILE ?? config.defaultProfile ?? DEFAULT_PROFILE;
+  const profile = config.profiles[profileName];
+
+  if (options.profile && !profile) {
+    fail(`Unknown profile: ${options.profile}`, EXIT_USAGE);
+  }
+
+  const server = options.server ?? process.env.CREABOMBER_SERVER ?? profile?.server ?? DEFAULT_SERVER;
+  const apiKey = options['api-key'] ?? process.env.CREABOMBER_API_KEY ?? profile?.apiKey;
+  if (!apiKey) {
+    fail('No API key: pass --api-key, set CREABOMBER_API_KEY or run "creabomber login"', EXIT_USAGE);
+  }
+
+  return { server: server.replace(/\/+$/, ''), apiKey };
+}
+
+// ============================================
+// API
+// ============================================
+
+async function request<T>(
+  profile: Profile,
+  method: 'GET' | 'POST',
+  path: string,
+  body?: unknown,
+  retryConfig: RetryConfig = {}
+): Promise<T> {
+  const { data, error, status } = await fetchWithRetry<T>(
+    `${profile.server}/api${path}`,
+    {
+      method,
+      headers: {
+        Authorization: `Bearer ${profile.apiKey}`,
+        ...(body !== undefined ? { 'Content-Type': 'application/json' } : {}),
+      },
+      body: body !== undefined ? JSON.stringify(body) : undefined,
+    },
+    {
+      ...retryConfig,
+      onRetry: (attempt, retryError, delay) => {
+        process.stderr.write(`${JSON.stringify({ retry: attempt, error: retryError.message, delayMs: delay })}\n`);
+      },
+    }
+  );
+
+  if (error || data === null) {
+    fail(error?.message ?? 'Empty response', EXIT_FAILED, status !== undefined ? { status } : undefined);
+  }
+  return data;
+}
+
+// ============================================
+// Commands
+// ============================================
+
+async function readStdin(): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks).toString('utf8').replace(/\n$/, '');
+}
+
+/**
+ * Turn repeated --value name=value flags into placeholder values
+ */
+function parsePlaceholderValues(values: string[] | undefined): Record<string, string> | undefined {
+  if (!values?.length) {
+    return undefined;
+  }
+  const result: Record<string, string> = {};
+  for (const value of values) {
+    const separator = value.indexOf('=');
+    if (separator < 1) {
+      fail(`--value must look like name=value: ${value}`, EXIT_USAGE);
+    }
+    result[value.slice(0, separator)] = value.slice(separator + 1);
+  }
+  return result;
+}
+
+async function sendCommand(args: string[]): Promise<void> {
+  let content = options.content ?? args.join(' ');
+  if (content === '-') {
+    content = await readStdin();
+  }
+
+  const body: CreateMessageBody = {
+    type: options.type ?? 'TEXT',
+    content,
+    targetDevices: options.device,
+    targetGroups: options.group,
+    targetTags: options.tag,
+    priority: options.priority,
+    overrideDnd: options['override-dnd'],
+    imageUrl: options['image-url'],
+    videoUrl: options['video-url'],
+    audioUrl: options['audio-url'],
+    audioAutoplay: options.autoplay,
+    replyOptions: options.reply,
+    allowFreeText: options['free-text'],
+    pollOptions: options['poll-option'],
+    pollClosesAt: options['poll-closes-at'],
+    sendAt: options['send-at'],
+    expiresAt: options['expires-at'],
+    timezone: options.timezone ?? Intl.DateTimeFormat().resolvedOptions().timeZone,
+    placeholderValues: parsePlaceholderValues(options.value),
+  };
+
+  // Same rules as the server, so mistakes fail before anything is sent
+  const validation = validateMessageBody(body);
+  if (!validation.valid) {
+    fail(validation.errors.map((error) => error.message).join('; '), EXIT_USAGE, { fields: validation.errors });
+  }
+
+  if (options['dry-run']) {
+    print(body);
+    return;
+  }
+
+  print(await request<{ message?: Message; scheduledSend?: unknown }>(getProfile(), 'POST', '/messages', body, SEND_RETRY_CONFIG));
+}
+
+async function devicesCommand(): Promise<void> {
+  if (options.status && options.status !== 'online' && options.status !== 'offline') {
+    fail('--status must be online or offline', EXIT_USAGE);
+  }
+
+  const { devices } = await request<{ devices: Device[] }>(getProfile(), 'GET', '/devices');
+  print({
+    devices: devices.filter(
+      (device) =>
+        (!options.status || device.status === options.status) &&
+        (!options.tag?.length || options.tag.every((tag) => device.tags.includes(tag)))
+    ),
+  });
+}
+
+async function historyCommand(): Promise<void> {
+  const limit = parseCount(options.limit, 'limit', DEFAULT_HISTORY_LIMIT);
+  const interval = parseCount(options.interval, 'interval', DEFAULT_FOLLOW_INTERVAL);
+  const query = new URLSearchParams({ limit: String(limit) });
+  if (options.type) query.set('type', options.type);
+  if (options.search) query.set('search', options.search);
+
+  const fetchLatest = async () =>
+    (await request<{ messages: Message[] }>(getProfile(), 'GET', `/messages?${query}`)).messages;
+
+  // Oldest first, like tail
+  const messages = await fetchLatest();
+  if (!options.follow) {
+    print({ messages: [...messages].reverse() });
+    return;
+  }
+
+  const seen = new Set(messages.map((message) => message.id));
+  [...messages].reverse().forEach(print);
+
+  for (;;) {
+    await new Promise((resolve) => setTimeout(resolve, interval * 1000));
+    const latest = await fetchLatest();
+    for (const message of [...latest].reverse()) {
+      if (!seen.has(message.id)) {
+        seen.add(message.id);
+        print(message);
+      }
+    }
+  }
+}
+
+async function watchCommand(messageIds: string[]): Promise<void> {
+  const { server, apiKey } = getProfile();
+  const timeout = options.timeout !== undefined ? parseCount(options.timeout, 'timeout', 0) : null;
+  const pending = new Set(messageIds);
+
+  // Delivery updates are sent to dashboard clients, which for API keys needs the history scope
+  const socket = io(server, { auth: { apiKey }, reconnectionAttempts: 5 });
+
+  const stop = (exitCode = 0) => {
+    socket.close();
+    process.exit(exitCode);
+  };
+
+  // Rejected handshakes (e.g. an invalid key) are not retried
+  socket.on('connect_error', (error) => {
+    if (!socket.active) {
+      fail(`Socket connection failed: ${error.message}`);
+    }
+  });
+
+  socket.io.on('reconnect_failed', () => {
+    fail('Socket connection failed: server unreachable');
+  });
+
+  socket.on('socket:error', (data: { event: string; error: string }) => {
+    process.stderr.write(`${JSON.stringify(data)}\n`);
+  });
+
+  socket.on('message:delivery:update', (update: DeliveryStatusUpdate) => {
+    if (messageIds.length > 0 && !messageIds.includes(update.messageId)) {
+      return;
+    }
+    print(update);
+
+    if (pending.has(update.messageId) && FINAL_STATUSES.includes(update.overallStatus)) {
+      pending.delete(update.messageId);
+      if (pending.size === 0) {
+        stop(0);
+      }
+    }
+  });
+
+  if (timeout !== null) {
+    setTimeout(() => {
+      if (pending.size > 0) {
+        fail('Timed out waiting for deliveries', EXIT_FAILED, { pending: [...pending] });
+      }
+      stop(0);
+    }, timeout * 1000);
+  }
+}
+
+function loginCommand(): void {
+  if (!options.server || !options['api-key']) {
+    fail('login needs --server and --api-key', EXIT_USAGE);
+  }
+
+  const config = readConfig();
+  const name = options.profile ?? DEFAULT_PROFILE;
+  config.profiles[name] = { server: options.server.replace(/\/+$/, ''), apiKey: options['api-key'] };
+  config.defaultProfile ??= name;
+  writeConfig(config);
+
+  print({ profile: name, server: config.profiles[name].server, path: getConfigPath() });
+}
+
+function profilesCommand(): void {
+  const config = readConfig();
+  print({
+    defaultProfile: config.defaultProfile ?? null,
+    profiles: Object.entries(config.profiles).map(([name, { server, apiKey }]) => ({
+      name,
+      server,
+      // Same prefix the admin page shows, never the whole key
+      apiKey: `${apiKey.slice(0, 11)}...`,
+    })),
+  });
+}
+
+// Resolved on first use, so login and profiles work without a key
+let resolvedProfile: Profile | null = null;
+function getProfile(): Profile {
+  resolvedProfile ??= resolveProfile();
+  return resolvedProfile;
+}
+
+async function main(): Promise<void> {
+  const [command, ...args] = positionals;
+
+  if (options.help || !command) {
+    process.stdout.write(`${USAGE}\n`);
+    return;
+  }
+
+  switch (command) {
+    case 'send':
+      return sendCommand(args);
+    case 'devices':
+      return devicesCommand();
+    case 'history':
+      return historyCommand();
+    case 'watch':
+      return watchCommand(args);
+    case 'login':
+      return loginCommand();
+    case 'profiles':
+      return profilesCommand();
+    default:
+      fail(`Unknown command: ${command} (see creabomber --help)`, EXIT_USAGE);
+  }
+}
+
+main().catch((error) => {
+  fail(error instanceof Error ? error.message : String(error));
+});
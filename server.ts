@@ -7,6 +7,8 @@ import { createServer } from 'http';
 import { parse } from 'url';
 import next from 'next';
 import { initSocketServer } from './src/lib/socket-server';
+import { startDeliverySweeper } from './src/lib/delivery-sweeper';
+import { startSendScheduler } from './src/lib/send-scheduler';
 
 // Load environment variables
 const dev = process.env.NODE_ENV !== 'production';
@@ -32,6 +34,12 @@ app.prepare().then(() => {
   // Initialize Socket.io server with CORS configuration
   initSocketServer(httpServer, corsOrigins);
 
+  // Fail deliveries that will never be acknowledged
+  startDeliverySweeper();
+
+  // Send scheduled one-off messages when they are due
+  startSendScheduler();
+
   // Start listening
   httpServer.listen(port, hostname, () => {
     const displayHost = hostname === '0.0.0.0' ? 'localhost' : hostname;
@@ -0,0 +1,373 @@
+/**
+ * CreaBomber - Admin API Keys Page
+ * Allows admins to issue and revoke API keys for scripts and CI
+ */
+
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { format } from 'date-fns';
+import { de } from 'date-fns/locale';
+import { clsx } from 'clsx';
+import { KeyRound, RefreshCw, Copy, Trash2, Shield } from 'lucide-react';
+import { Button, PageTransition, Card, Badge, Input, Toggle } from '@/components/ui';
+import { AccessDenied } from '@/components/ui/AccessDenied';
+import { useAuth, useDevices } from '@/hooks';
+import { useToast } from '@/contexts';
+import type { ApiKey, ApiKeyScope } from '@/types';
+
+const SCOPES: { scope: ApiKeyScope; label: string; description: string }[] = [
+  { scope: 'send', label: 'Senden', description: 'Nachrichten senden, bearbeiten und zurueckrufen' },
+  { scope: 'history', label: 'Verlauf lesen', description: 'Alle Nachrichten und Zustellungen lesen' },
+  { scope: 'devices', label: 'Geraete verwalten', description: 'Geraete und Gruppen lesen und aendern' },
+];
+
+const SCOPE_LABELS: Record<ApiKeyScope, string> = {
+  send: 'Senden',
+  history: 'Verlauf',
+  devices: 'Geraete',
+};
+
+export default function AdminApiKeysPage() {
+  const { canManage, loading: authLoading } = useAuth();
+  const { devices } = useDevices({ socket: null, autoFetch: canManage });
+  const toast = useToast();
+
+  const [apiKeys, setApiKeys] = useState<ApiKey[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [scopes, setScopes] = useState<ApiKeyScope[]>(['send']);
+  const [restrictDevices, setRestrictDevices] = useState(false);
+  const [deviceIds, setDeviceIds] = useState<string[]>([]);
+  const [expiresOn, setExpiresOn] = useState('');
+  const [creating, setCreating] = useState(false);
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+  // Token shown once after issuing a key
+  const [issuedToken, setIssuedToken] = useState<{ name: string; token: string } | null>(null);
+
+  // Fetch API keys
+  const fetchApiKeys = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/admin/api-keys');
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to fetch API keys');
+      }
+
+      setApiKeys(data.apiKeys);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch API keys');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  // Initial fetch
+  useEffect(() => {
+    if (canManage) {
+      fetchApiKeys();
+    }
+  }, [canManage, fetchApiKeys]);
+
+  const toggleItem = <T,>(list: T[], item: T): T[] =>
+    list.includes(item) ? list.filter((i) => i !== item) : [...list, item];
+
+  // Issue key
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setCreating(true);
+
+    try {
+      const response = await fetch('/api/admin/api-keys', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name,
+          scopes,
+          deviceIds: restrictDevices ? deviceIds : null,
+          // Valid through the chosen day (browser time zone)
+          expiresAt: expiresOn ? new Date(`${expiresOn}T23:59:59`).toISOString() : null,
+        }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to create API key');
+      }
+
+      setApiKeys((prev) => [...prev, data.apiKey]);
+      setIssuedToken({ name: data.apiKey.name, token: data.token });
+      setName('');
+      setExpiresOn('');
+      toast.success('API-Key erstellt');
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to create API key');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  // Revoke key
+  const handleRevoke = async (apiKey: ApiKey) => {
+    if (!window.confirm(`API-Key "${apiKey.name}" wirklich widerrufen? Skripte damit funktionieren sofort nicht mehr.`)) {
+      return;
+    }
+    setRevokingId(apiKey.id);
+
+    try {
+      const response = await fetch(`/api/admin/api-keys/${apiKey.id}`, { method: 'DELETE' });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to revoke API key');
+      }
+
+      setApiKeys((prev) => prev.filter((k) => k.id !== apiKey.id));
+      toast.success('API-Key widerrufen');
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to revoke API key');
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  const handleCopyToken = async (token: string) => {
+    try {
+      await navigator.clipboard.writeText(token);
+      toast.success('Token kopiert');
+    } catch {
+      // Clipboard not available - token is still visible for manual copy
+    }
+  };
+
+  const getDeviceName = (deviceId: string) => devices.find((d) => d.id === deviceId)?.name ?? deviceId;
+
+  // Permission check
+  if (!authLoading && !canManage) {
+    return (
+      <PageTransition>
+        <AccessDenied
+          message="Du hast keine Berechtigung fuer die API-Keys."
+          requiredRole="Admin"
+        />
+      </PageTransition>
+    );
+  }
+
+  const canCreate = name.trim() !== '' && scopes.length > 0 && (!restrictDevices || deviceIds.length > 0);
+
+  return (
+    <PageTransition>
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 bg-purple-500/20 rounded-lg flex items-center justify-center">
+              <KeyRound className="w-5 h-5 text-purple-400" />
+            </div>
+            <div>
+              <h1 className="text-2xl font-semibold text-white">API-Keys</h1>
+              <p className="text-slate-400 text-sm">
+                Zugriff fuer Skripte, Cronjobs und CI
+              </p>
+            </div>
+          </div>
+          <Button
+            variant="secondary"
+            size="sm"
+            onClick={fetchApiKeys}
+            loading={loading}
+            iconLeft={<RefreshCw className={clsx('w-4 h-4', loading && 'animate-spin')} />}
+          >
+            Aktualisieren
+          </Button>
+        </div>
+
+        {/* Issued token (shown once) */}
+        {issuedToken && (
+          <div className="p-4 bg-amber-500/10 border border-amber-500/30 rounded-lg space-y-2">
+            <p className="text-amber-300 text-sm">
+              Token fuer &quot;{issuedToken.name}&quot; - wird nur jetzt angezeigt:
+            </p>
+            <div className="flex items-center gap-2">
+              <code className="flex-1 text-xs text-white bg-slate-900 rounded px-2 py-1.5 break-all">
+                {issuedToken.token}
+              </code>
+              <Button
+                variant="secondary"
+                size="sm"
+                onClick={() => handleCopyToken(issuedToken.token)}
+                iconLeft={<Copy className="w-3.5 h-3.5" />}
+              >
+                Kopieren
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {/* Create */}
+        <Card header={<h2 className="text-white font-medium">Neuer API-Key</h2>}>
+          <form onSubmit={handleCreate} className="space-y-4">
+            <div className="grid gap-4 md:grid-cols-2">
+              <Input
+                id="api-key-name"
+                label="Name (erscheint als Absender)"
+                placeholder="z.B. Nightly Build"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+              />
+              <Input
+                id="api-key-expires"
+                type="date"
+                label="Gueltig bis (optional)"
+                value={expiresOn}
+                onChange={(e) => setExpiresOn(e.target.value)}
+              />
+            </div>
+
+            <div className="space-y-2">
+              {SCOPES.map(({ scope, label, description }) => (
+                <label key={scope} className="flex items-center gap-2 text-sm text-slate-300 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={scopes.includes(scope)}
+                    onChange={() => setScopes((prev) => toggleItem(prev, scope))}
+                    className="rounded border-slate-600 bg-slate-700 text-blue-500 focus:ring-blue-500"
+                  />
+                  <span className="text-white">{label}</span>
+                  <span className="text-slate-500">- {description}</span>
+                </label>
+              ))}
+            </div>
+
+            <div className="space-y-3">
+              <Toggle
+                checked={restrictDevices}
+                onChange={setRestrictDevices}
+                label="Nur an bestimmte Geraete senden"
+              />
+              {restrictDevices && (
+                <div className="flex flex-wrap gap-3 pl-1">
+                  {devices.length === 0 ? (
+                    <p className="text-slate-500 text-sm">Keine Geraete vorhanden</p>
+                  ) : (
+                    devices.map((device) => (
+                      <label key={device.id} className="flex items-center gap-2 text-sm text-slate-300 cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={deviceIds.includes(device.id)}
+                          onChange={() => setDeviceIds((prev) => toggleItem(prev, device.id))}
+                          className="rounded border-slate-600 bg-slate-700 text-blue-500 focus:ring-blue-500"
+                        />
+                        {device.name}
+                      </label>
+                    ))
+                  )}
+                </div>
+              )}
+            </div>
+
+            <div className="flex justify-end">
+              <Button type="submit" loading={creating} disabled={!canCreate}>
+                Erstellen
+              </Button>
+            </div>
+          </form>
+        </Card>
+
+        {/* Error State */}
+        {error && (
+          <div className="bg-red-500/10 border border-red-500/30 rounded-lg p-4">
+            <p className="text-red-400">{error}</p>
+          </div>
+        )}
+
+        {/* Key List */}
+        <Card>
+          {loading && apiKeys.length === 0 ? (
+            <div className="space-y-4">
+              {[1, 2].map((i) => (
+                <div key={i} className="animate-pulse flex items-center gap-4">
+                  <div className="flex-1">
+                    <div className="h-4 bg-slate-700 rounded w-1/3 mb-2" />
+                    <div className="h-3 bg-slate-700 rounded w-1/4" />
+                  </div>
+                  <div className="h-8 bg-slate-700 rounded w-24" />
+                </div>
+              ))}
+            </div>
+          ) : apiKeys.length === 0 ? (
+            <div className="text-center py-8">
+              <p className="text-slate-400">Keine API-Keys vorhanden</p>
+            </div>
+          ) : (
+            <div className="divide-y divide-slate-700">
+              {apiKeys.map((apiKey) => {
+                const expired = !!apiKey.expiresAt && new Date(apiKey.expiresAt) <= new Date();
+
+                return (
+                  <div key={apiKey.id} className="flex items-center justify-between gap-4 py-4 first:pt-0 last:pb-0">
+                    <div className="min-w-0 space-y-1">
+                      <p className="text-white font-medium flex items-center gap-2">
+                        {apiKey.name}
+                        <code className="text-xs text-slate-500">{apiKey.prefix}...</code>
+                        {expired && <Badge variant="danger" size="sm">abgelaufen</Badge>}
+                      </p>
+                      <div className="flex flex-wrap items-center gap-1.5">
+                        {apiKey.scopes.map((scope) => (
+                          <Badge key={scope} variant="info" size="sm">{SCOPE_LABELS[scope]}</Badge>
+                        ))}
+                        {apiKey.deviceIds && (
+                          <span className="text-xs text-slate-400 truncate" title={apiKey.deviceIds.map(getDeviceName).join(', ')}>
+                            nur {apiKey.deviceIds.map(getDeviceName).join(', ')}
+                          </span>
+                        )}
+                      </div>
+                      <p className="text-slate-500 text-xs">
+                        Erstellt: {format(new Date(apiKey.createdAt), 'PPp', { locale: de })}
+                        {apiKey.expiresAt && (
+                          <> • Gueltig bis: {format(new Date(apiKey.expiresAt), 'PP', { locale: de })}</>
+                        )}
+                        {' • '}
+                        {apiKey.lastUsedAt
+                          ? <>Zuletzt benutzt: {format(new Date(apiKey.lastUsedAt), 'PPp', { locale: de })}</>
+                          : 'Nie benutzt'}
+                      </p>
+                    </div>
+                    <Button
+                      variant="danger"
+                      size="sm"
+                      loading={revokingId === apiKey.id}
+                      onClick={() => handleRevoke(apiKey)}
+                      iconLeft={<Trash2 className="w-3.5 h-3.5" />}
+                    >
+                      Widerrufen
+                    </Button>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </Card>
+
+        {/* Info */}
+        <div className="flex items-start gap-3 p-4 bg-slate-800/50 rounded-lg border border-slate-700">
+          <Shield className="w-5 h-5 text-slate-400 mt-0.5" />
+          <div className="text-sm text-slate-400">
+            <p className="font-medium text-slate-300 mb-1">Verwendung</p>
+            <p>
+              Den Token als Header &quot;Authorization: Bearer cb_...&quot; an /api/messages, /api/devices und
+              /api/device-groups senden. Gespeichert wird nur ein Hash - verlorene Tokens neu erstellen.
+            </p>
+          </div>
+        </div>
+      </div>
+    </PageTransition>
+  );
+}
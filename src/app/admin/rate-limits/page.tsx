@@ -0,0 +1,279 @@
+/**
+ * CreaBomber - Admin Rate Limits Page
+ * Allows admins to adjust the spam limits and watch their current usage
+ */
+
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { clsx } from 'clsx';
+import { Gauge, RefreshCw, Info } from 'lucide-react';
+import { Button, PageTransition, Card, Badge, Input, Toggle } from '@/components/ui';
+import { AccessDenied } from '@/components/ui/AccessDenied';
+import { useAuth } from '@/hooks';
+import { useToast } from '@/contexts';
+import type { RateLimitScope, RateLimitSettings, RateLimitUsage } from '@/types';
+
+const USAGE_REFRESH_INTERVAL = 10000;
+
+const SCOPES: { scope: RateLimitScope; title: string; description: string }[] = [
+  { scope: 'sender', title: 'Pro Sender', description: 'Nachrichten, die ein einzelner Benutzer senden darf' },
+  { scope: 'device', title: 'Pro Geraet', description: 'Nachrichten, die ein einzelnes Geraet erhalten darf' },
+  { scope: 'global', title: 'Global', description: 'Alle Nachrichten zusammen' },
+];
+
+const SCOPE_LABELS: Record<RateLimitScope, string> = {
+  sender: 'Sender',
+  device: 'Geraet',
+  global: 'Global',
+};
+
+export default function AdminRateLimitsPage() {
+  const { canManage, loading: authLoading } = useAuth();
+  const toast = useToast();
+
+  const [settings, setSettings] = useState<RateLimitSettings | null>(null);
+  const [usage, setUsage] = useState<RateLimitUsage[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Fetch limits and usage (only usage when refreshing in the background, so edits are kept)
+  const fetchRateLimits = useCallback(async (usageOnly = false) => {
+    if (!usageOnly) {
+      setLoading(true);
+      setError(null);
+    }
+
+    try {
+      const response = await fetch('/api/admin/rate-limits');
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to fetch rate limits');
+      }
+
+      setUsage(data.usage);
+      if (!usageOnly) {
+        setSettings(data.settings);
+      }
+    } catch (err) {
+      if (!usageOnly) {
+        setError(err instanceof Error ? err.message : 'Failed to fetch rate limits');
+      }
+    } finally {
+      if (!usageOnly) {
+        setLoading(false);
+      }
+    }
+  }, []);
+
+  // Initial fetch and periodic usage refresh
+  useEffect(() => {
+    if (!canManage) {
+      return;
+    }
+    fetchRateLimits();
+    const interval = setInterval(() => fetchRateLimits(true), USAGE_REFRESH_INTERVAL);
+    return () => clearInterval(interval);
+  }, [canManage, fetchRateLimits]);
+
+  const updateLimit = (scope: RateLimitScope, changes: Partial<RateLimitSettings[RateLimitScope]>) => {
+    setSettings((prev) => (prev ? { ...prev, [scope]: { ...prev[scope], ...changes } } : prev));
+  };
+
+  // Save all limits
+  const handleSave = async () => {
+    if (!settings) {
+      return;
+    }
+    setSaving(true);
+
+    try {
+      const response = await fetch('/api/admin/rate-limits', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(settings),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save rate limits');
+      }
+
+      setSettings(data.settings);
+      setUsage(data.usage);
+      toast.success('Rate-Limits gespeichert');
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to save rate limits');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Permission check
+  if (!authLoading && !canManage) {
+    return (
+      <PageTransition>
+        <AccessDenied
+          message="Du hast keine Berechtigung fuer die Rate-Limits."
+          requiredRole="Admin"
+        />
+      </PageTransition>
+    );
+  }
+
+  return (
+    <PageTransition>
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 bg-purple-500/20 rounded-lg flex items-center justify-center">
+              <Gauge className="w-5 h-5 text-purple-400" />
+            </div>
+            <div>
+              <h1 className="text-2xl font-semibold text-white">Rate-Limits</h1>
+              <p className="text-slate-400 text-sm">
+                Schutz vor Benachrichtigungs-Spam
+              </p>
+            </div>
+          </div>
+          <Button
+            variant="secondary"
+            size="sm"
+            onClick={() => fetchRateLimits()}
+            loading={loading}
+            iconLeft={<RefreshCw className={clsx('w-4 h-4', loading && 'animate-spin')} />}
+          >
+            Aktualisieren
+          </Button>
+        </div>
+
+        {/* Error State */}
+        {error && (
+          <div className="bg-red-500/10 border border-red-500/30 rounded-lg p-4">
+            <p className="text-red-400">{error}</p>
+          </div>
+        )}
+
+        {/* Limits */}
+        {loading && !settings ? (
+          <div className="grid gap-4 md:grid-cols-3">
+            {[1, 2, 3].map((i) => (
+              <Card key={i}>
+                <div className="animate-pulse space-y-3">
+                  <div className="h-4 bg-slate-700 rounded w-1/2" />
+                  <div className="h-3 bg-slate-700 rounded w-3/4" />
+                  <div className="h-9 bg-slate-700 rounded" />
+                  <div className="h-9 bg-slate-700 rounded" />
+                </div>
+              </Card>
+            ))}
+          </div>
+        ) : settings && (
+          <>
+            <div className="grid gap-4 md:grid-cols-3">
+              {SCOPES.map(({ scope, title, description }) => {
+                const limit = settings[scope];
+
+                return (
+                  <Card key={scope}>
+                    <div className="space-y-4">
+                      <div className="flex items-start justify-between gap-3">
+                        <div>
+                          <h2 className="text-white font-medium">{title}</h2>
+                          <p className="text-slate-500 text-xs">{description}</p>
+                        </div>
+                        <Toggle
+                          checked={limit.enabled}
+                          onChange={(enabled) => updateLimit(scope, { enabled })}
+                        />
+                      </div>
+                      <Input
+                        id={`${scope}-burst`}
+                        type="number"
+                        min={1}
+                        label="Maximal am Stueck"
+                        value={limit.burst}
+                        disabled={!limit.enabled}
+                        onChange={(e) => updateLimit(scope, { burst: Number(e.target.value) })}
+                      />
+                      <Input
+                        id={`${scope}-per-minute`}
+                        type="number"
+                        min={1}
+                        label="Danach pro Minute"
+                        value={limit.perMinute}
+                        disabled={!limit.enabled}
+                        onChange={(e) => updateLimit(scope, { perMinute: Number(e.target.value) })}
+                      />
+                    </div>
+                  </Card>
+                );
+              })}
+            </div>
+
+            <div className="flex justify-end">
+              <Button onClick={handleSave} loading={saving}>
+                Speichern
+              </Button>
+            </div>
+          </>
+        )}
+
+        {/* Usage */}
+        <Card header={<h2 className="text-white font-medium">Aktuelle Auslastung</h2>}>
+          {usage.length === 0 ? (
+            <div className="text-center py-8">
+              <p className="text-slate-400">Alle Limits sind frei</p>
+            </div>
+          ) : (
+            <div className="divide-y divide-slate-700">
+              {usage.map((entry) => {
+                const percent = Math.min(100, Math.round((entry.used / entry.burst) * 100));
+
+                return (
+                  <div
+                    key={`${entry.scope}:${entry.key}`}
+                    className="flex items-center gap-4 py-3 first:pt-0 last:pb-0"
+                  >
+                    <Badge variant="neutral" size="sm">{SCOPE_LABELS[entry.scope]}</Badge>
+                    <span className="text-white text-sm truncate w-48" title={entry.key}>
+                      {entry.label}
+                    </span>
+                    <div className="flex-1 h-2 bg-slate-700 rounded-full overflow-hidden">
+                      <div
+                        className={clsx(
+                          'h-full rounded-full transition-all',
+                          percent >= 100 ? 'bg-red-500' : percent >= 75 ? 'bg-amber-500' : 'bg-blue-500'
+                        )}
+                        style={{ width: `${percent}%` }}
+                      />
+                    </div>
+                    <span className="text-slate-400 text-xs tabular-nums w-20 text-right">
+                      {entry.used} / {entry.burst}
+                    </span>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </Card>
+
+        {/* Info */}
+        <div className="flex items-start gap-3 p-4 bg-slate-800/50 rounded-lg border border-slate-700">
+          <Info className="w-5 h-5 text-slate-400 mt-0.5" />
+          <div className="text-sm text-slate-400">
+            <p className="font-medium text-slate-300 mb-1">So funktionieren die Limits</p>
+            <p>
+              Jede Nachricht zaehlt fuer den Sender, jedes Zielgeraet und global. Ist ein Limit erreicht,
+              wird die Nachricht abgelehnt, bis es sich wieder aufgefuellt hat. Aenderungen gelten sofort.
+            </p>
+          </div>
+        </div>
+      </div>
+    </PageTransition>
+  );
+}
@@ -0,0 +1,442 @@
+/**
+ * CreaBomber - Admin Webhooks Page
+ * Allows admins to manage webhook endpoints and inspect their delivery logs
+ */
+
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { format } from 'date-fns';
+import { de } from 'date-fns/locale';
+import { clsx } from 'clsx';
+import { Webhook as WebhookIcon, RefreshCw, Copy, KeyRound, Trash2, ChevronDown, Shield } from 'lucide-react';
+import { Button, PageTransition, Card, Badge, Input, Toggle } from '@/components/ui';
+import { AccessDenied } from '@/components/ui/AccessDenied';
+import { useAuth } from '@/hooks';
+import { useToast } from '@/contexts';
+import type { Webhook, WebhookDelivery, WebhookEvent } from '@/types';
+
+const EVENTS: { event: WebhookEvent; label: string }[] = [
+  { event: 'message.created', label: 'Nachricht erstellt' },
+  { event: 'delivery.delivered', label: 'Zugestellt' },
+  { event: 'delivery.failed', label: 'Zustellung fehlgeschlagen' },
+  { event: 'device.online', label: 'Geraet online' },
+  { event: 'device.offline', label: 'Geraet offline' },
+];
+
+/**
+ * Delivery log of one endpoint (loaded when expanded)
+ */
+function WebhookDeliveryLog({ webhookId }: { webhookId: string }) {
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchDeliveries = useCallback(async () => {
+    setError(null);
+    try {
+      const response = await fetch(`/api/admin/webhooks/${webhookId}/deliveries`);
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to fetch deliveries');
+      }
+
+      setDeliveries(data.deliveries);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch deliveries');
+    }
+  }, [webhookId]);
+
+  useEffect(() => {
+    fetchDeliveries();
+  }, [fetchDeliveries]);
+
+  if (error) {
+    return <p className="text-red-400 text-sm">{error}</p>;
+  }
+  if (!deliveries) {
+    return <div className="animate-pulse h-4 bg-slate-700 rounded w-1/2" />;
+  }
+  if (deliveries.length === 0) {
+    return <p className="text-slate-500 text-sm">Noch keine Zustellungen</p>;
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex justify-end">
+        <Button variant="ghost" size="sm" onClick={fetchDeliveries} iconLeft={<RefreshCw className="w-3.5 h-3.5" />}>
+          Neu laden
+        </Button>
+      </div>
+      <div className="divide-y divide-slate-700/60 text-sm">
+        {deliveries.map((delivery) => (
+          <div key={delivery.id} className="flex items-center gap-3 py-2">
+            <Badge variant={delivery.success ? 'success' : 'danger'} size="sm">
+              {delivery.statusCode ?? (delivery.success ? 'OK' : 'Fehler')}
+            </Badge>
+            <span className="text-slate-300 font-mono text-xs w-36">{delivery.event}</span>
+            <span className="text-slate-500 text-xs flex-1 truncate" title={delivery.error}>
+              {delivery.error ?? `${delivery.attempts} Versuch${delivery.attempts !== 1 ? 'e' : ''}, ${delivery.durationMs} ms`}
+            </span>
+            <span className="text-slate-500 text-xs">
+              {format(new Date(delivery.createdAt), 'PPp', { locale: de })}
+            </span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export default function AdminWebhooksPage() {
+  const { canManage, loading: authLoading } = useAuth();
+  const toast = useToast();
+
+  const [webhooks, setWebhooks] = useState<Webhook[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [url, setUrl] = useState('');
+  const [events, setEvents] = useState<WebhookEvent[]>(EVENTS.map(({ event }) => event));
+  const [creating, setCreating] = useState(false);
+  const [updatingId, setUpdatingId] = useState<string | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  // Secret shown once after creating an endpoint or rotating its secret
+  const [revealedSecret, setRevealedSecret] = useState<{ webhookId: string; secret: string } | null>(null);
+
+  // Fetch webhooks
+  const fetchWebhooks = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/admin/webhooks');
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to fetch webhooks');
+      }
+
+      setWebhooks(data.webhooks);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch webhooks');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  // Initial fetch
+  useEffect(() => {
+    if (canManage) {
+      fetchWebhooks();
+    }
+  }, [canManage, fetchWebhooks]);
+
+  const toggleEvent = (list: WebhookEvent[], event: WebhookEvent): WebhookEvent[] =>
+    list.includes(event) ? list.filter((e) => e !== event) : [...list, event];
+
+  // Create endpoint
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setCreating(true);
+
+    try {
+      const response = await fetch('/api/admin/webhooks', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ url, events }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to create webhook');
+      }
+
+      setWebhooks((prev) => [...prev, data.webhook]);
+      setRevealedSecret({ webhookId: data.webhook.id, secret: data.secret });
+      setUrl('');
+      toast.success('Webhook hinzugefuegt');
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to create webhook');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  // Update endpoint (events, enabled or secret rotation)
+  const handleUpdate = async (
+    webhookId: string,
+    changes: { events?: WebhookEvent[]; enabled?: boolean; rotateSecret?: boolean }
+  ) => {
+    setUpdatingId(webhookId);
+
+    try {
+      const response = await fetch(`/api/admin/webhooks/${webhookId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(changes),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to update webhook');
+      }
+
+      setWebhooks((prev) => prev.map((w) => (w.id === webhookId ? data.webhook : w)));
+      if (data.secret) {
+        setRevealedSecret({ webhookId, secret: data.secret });
+        toast.success('Neues Secret erstellt');
+      }
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to update webhook');
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  // Delete endpoint
+  const handleDelete = async (webhook: Webhook) => {
+    if (!window.confirm(`Webhook ${webhook.url} wirklich loeschen?`)) {
+      return;
+    }
+    setUpdatingId(webhook.id);
+
+    try {
+      const response = await fetch(`/api/admin/webhooks/${webhook.id}`, { method: 'DELETE' });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to delete webhook');
+      }
+
+      setWebhooks((prev) => prev.filter((w) => w.id !== webhook.id));
+      toast.success('Webhook geloescht');
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to delete webhook');
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  const handleCopySecret = async (secret: string) => {
+    try {
+      await navigator.clipboard.writeText(secret);
+      toast.success('Secret kopiert');
+    } catch {
+      // Clipboard not available - secret is still visible for manual copy
+    }
+  };
+
+  // Permission check
+  if (!authLoading && !canManage) {
+    return (
+      <PageTransition>
+        <AccessDenied
+          message="Du hast keine Berechtigung fuer die Webhooks."
+          requiredRole="Admin"
+        />
+      </PageTransition>
+    );
+  }
+
+  return (
+    <PageTransition>
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 bg-purple-500/20 rounded-lg flex items-center justify-center">
+              <WebhookIcon className="w-5 h-5 text-purple-400" />
+            </div>
+            <div>
+              <h1 className="text-2xl font-semibold text-white">Webhooks</h1>
+              <p className="text-slate-400 text-sm">
+                Andere Systeme ueber Nachrichten und Geraete informieren
+              </p>
+            </div>
+          </div>
+          <Button
+            variant="secondary"
+            size="sm"
+            onClick={fetchWebhooks}
+            loading={loading}
+            iconLeft={<RefreshCw className={clsx('w-4 h-4', loading && 'animate-spin')} />}
+          >
+            Aktualisieren
+          </Button>
+        </div>
+
+        {/* Create */}
+        <Card header={<h2 className="text-white font-medium">Neuer Webhook</h2>}>
+          <form onSubmit={handleCreate} className="space-y-4">
+            <Input
+              id="webhook-url"
+              type="url"
+              label="URL"
+              placeholder="https://example.com/creabomber"
+              value={url}
+              onChange={(e) => setUrl(e.target.value)}
+            />
+            <div className="flex flex-wrap gap-3">
+              {EVENTS.map(({ event, label }) => (
+                <label key={event} className="flex items-center gap-2 text-sm text-slate-300 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={events.includes(event)}
+                    onChange={() => setEvents((prev) => toggleEvent(prev, event))}
+                    className="rounded border-slate-600 bg-slate-700 text-blue-500 focus:ring-blue-500"
+                  />
+                  {label}
+                </label>
+              ))}
+            </div>
+            <div className="flex justify-end">
+              <Button type="submit" loading={creating} disabled={!url.trim() || events.length === 0}>
+                Hinzufuegen
+              </Button>
+            </div>
+          </form>
+        </Card>
+
+        {/* Error State */}
+        {error && (
+          <div className="bg-red-500/10 border border-red-500/30 rounded-lg p-4">
+            <p className="text-red-400">{error}</p>
+          </div>
+        )}
+
+        {/* Webhook List */}
+        {loading && webhooks.length === 0 ? (
+          <Card>
+            <div className="animate-pulse space-y-3">
+              <div className="h-4 bg-slate-700 rounded w-1/2" />
+              <div className="h-3 bg-slate-700 rounded w-1/3" />
+            </div>
+          </Card>
+        ) : webhooks.length === 0 ? (
+          <Card>
+            <div className="text-center py-8">
+              <p className="text-slate-400">Keine Webhooks eingerichtet</p>
+            </div>
+          </Card>
+        ) : (
+          webhooks.map((webhook) => {
+            const isUpdating = updatingId === webhook.id;
+            const isExpanded = expandedId === webhook.id;
+            const secret = revealedSecret?.webhookId === webhook.id ? revealedSecret.secret : null;
+
+            return (
+              <Card key={webhook.id}>
+                <div className="space-y-4">
+                  <div className="flex items-start justify-between gap-4">
+                    <div className="min-w-0">
+                      <p className="text-white font-medium truncate" title={webhook.url}>
+                        {webhook.url}
+                      </p>
+                      <p className="text-slate-500 text-xs">
+                        Erstellt: {format(new Date(webhook.createdAt), 'PPp', { locale: de })}
+                      </p>
+                    </div>
+                    <Toggle
+                      checked={webhook.enabled}
+                      disabled={isUpdating}
+                      label={webhook.enabled ? 'Aktiv' : 'Pausiert'}
+                      onChange={(enabled) => handleUpdate(webhook.id, { enabled })}
+                    />
+                  </div>
+
+                  <div className="flex flex-wrap gap-3">
+                    {EVENTS.map(({ event, label }) => (
+                      <label key={event} className="flex items-center gap-2 text-sm text-slate-300 cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={webhook.events.includes(event)}
+                          disabled={isUpdating || (webhook.events.length === 1 && webhook.events.includes(event))}
+                          onChange={() => handleUpdate(webhook.id, { events: toggleEvent(webhook.events, event) })}
+                          className="rounded border-slate-600 bg-slate-700 text-blue-500 focus:ring-blue-500"
+                        />
+                        {label}
+                      </label>
+                    ))}
+                  </div>
+
+                  {secret && (
+                    <div className="p-3 bg-amber-500/10 border border-amber-500/30 rounded-lg space-y-2">
+                      <p className="text-amber-300 text-sm">
+                        Signing-Secret - wird nur jetzt angezeigt:
+                      </p>
+                      <div className="flex items-center gap-2">
+                        <code className="flex-1 text-xs text-white bg-slate-900 rounded px-2 py-1.5 break-all">
+                          {secret}
+                        </code>
+                        <Button
+                          variant="secondary"
+                          size="sm"
+                          onClick={() => handleCopySecret(secret)}
+                          iconLeft={<Copy className="w-3.5 h-3.5" />}
+                        >
+                          Kopieren
+                        </Button>
+                      </div>
+                    </div>
+                  )}
+
+                  <div className="flex items-center justify-between">
+                    <button
+                      type="button"
+                      onClick={() => setExpandedId(isExpanded ? null : webhook.id)}
+                      className="flex items-center gap-1 text-sm text-slate-400 hover:text-white"
+                    >
+                      <ChevronDown className={clsx('w-4 h-4 transition-transform', isExpanded && 'rotate-180')} />
+                      Zustellungen
+                    </button>
+                    <div className="flex items-center gap-2">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        disabled={isUpdating}
+                        onClick={() => handleUpdate(webhook.id, { rotateSecret: true })}
+                        iconLeft={<KeyRound className="w-3.5 h-3.5" />}
+                      >
+                        Secret erneuern
+                      </Button>
+                      <Button
+                        variant="danger"
+                        size="sm"
+                        disabled={isUpdating}
+                        onClick={() => handleDelete(webhook)}
+                        iconLeft={<Trash2 className="w-3.5 h-3.5" />}
+                      >
+                        Loeschen
+                      </Button>
+                    </div>
+                  </div>
+
+                  {isExpanded && (
+                    <div className="pt-3 border-t border-slate-700">
+                      <WebhookDeliveryLog webhookId={webhook.id} />
+                    </div>
+                  )}
+                </div>
+              </Card>
+            );
+          })
+        )}
+
+        {/* Info */}
+        <div className="flex items-start gap-3 p-4 bg-slate-800/50 rounded-lg border border-slate-700">
+          <Shield className="w-5 h-5 text-slate-400 mt-0.5" />
+          <div className="text-sm text-slate-400">
+            <p className="font-medium text-slate-300 mb-1">Signatur pruefen</p>
+            <p>
+              Jeder Aufruf enthaelt den Header X-CreaBomber-Signature mit sha256=HMAC-SHA256 ueber
+              &quot;Timestamp.Body&quot; (Timestamp aus X-CreaBomber-Timestamp). Fehlgeschlagene Aufrufe werden
+              mit wachsendem Abstand wiederholt.
+            </p>
+          </div>
+        </div>
+      </div>
+    </PageTransition>
+  );
+}
@@ -0,0 +1,38 @@
+/**
+ * CreaBomber API - Admin API Key
+ * DELETE /api/admin/api-keys/[id] - Revokes an API key
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth/getUser';
+import { canManage } from '@/lib/auth';
+import { apiError, NotFoundError } from '@/lib/errors';
+import { deleteApiKey } from '@/lib/db';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+
+    // Check authentication and admin permission
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    if (!canManage(user.role)) {
+      return NextResponse.json({ error: 'Forbidden - Admin role required' }, { status: 403 });
+    }
+
+    if (!deleteApiKey(id)) {
+      return apiError(new NotFoundError('API key', id), `DELETE /api/admin/api-keys/${id}`);
+    }
+
+    console.log(`[Admin API] API key ${id} revoked by ${user.email}`);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return apiError(error, 'DELETE /api/admin/api-keys/[id]');
+  }
+}
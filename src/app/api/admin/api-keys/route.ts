@@ -0,0 +1,81 @@
+/**
+ * CreaBomber API - Admin API Keys
+ * GET /api/admin/api-keys - Returns all API keys (without tokens)
+ * POST /api/admin/api-keys - Issues a key (the token is only returned here)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth/getUser';
+import { canManage } from '@/lib/auth';
+import { apiError, ValidationError, DatabaseError, safeJsonParse } from '@/lib/errors';
+import { getApiKeys } from '@/lib/db';
+import { issueApiKey, validateApiKeyData } from '@/lib/api-keys';
+import type { ApiKeyScope } from '@/types';
+
+interface CreateApiKeyBody {
+  name?: string;
+  scopes?: ApiKeyScope[];
+  deviceIds?: string[] | null;
+  expiresAt?: string | null;
+}
+
+export async function GET() {
+  try {
+    // Check authentication and admin permission
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    if (!canManage(user.role)) {
+      return NextResponse.json({ error: 'Forbidden - Admin role required' }, { status: 403 });
+    }
+
+    return NextResponse.json({ apiKeys: getApiKeys() });
+  } catch (error) {
+    return apiError(error, 'GET /api/admin/api-keys');
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    // Check authentication and admin permission
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    if (!canManage(user.role)) {
+      return NextResponse.json({ error: 'Forbidden - Admin role required' }, { status: 403 });
+    }
+
+    const { data: body, error: parseError } = await safeJsonParse<CreateApiKeyBody>(request);
+    if (parseError || !body) {
+      return apiError(parseError ?? new ValidationError('Request body is required'), 'POST /api/admin/api-keys');
+    }
+
+    const errors = validateApiKeyData(body);
+    if (errors.length > 0) {
+      return apiError(
+        new ValidationError(errors.map((error) => error.message).join('; ')),
+        'POST /api/admin/api-keys'
+      );
+    }
+
+    let issued;
+    try {
+      issued = issueApiKey({
+        name: body.name!.trim(),
+        scopes: [...new Set(body.scopes!)],
+        deviceIds: body.deviceIds ? [...new Set(body.deviceIds)] : undefined,
+        expiresAt: body.expiresAt ? new Date(body.expiresAt) : undefined,
+        createdBy: user.id,
+      });
+    } catch (dbError) {
+      throw new DatabaseError('Failed to create API key', dbError);
+    }
+
+    console.log(`[Admin API] API key "${issued.apiKey.name}" (${issued.apiKey.scopes.join(', ')}) issued by ${user.email}`);
+    return NextResponse.json({ apiKey: issued.apiKey, token: issued.token }, { status: 201 });
+  } catch (error) {
+    return apiError(error, 'POST /api/admin/api-keys');
+  }
+}
@@ -0,0 +1,74 @@
+/**
+ * CreaBomber API - Admin Rate Limits
+ * GET /api/admin/rate-limits - Returns the rate limits and current usage
+ * PUT /api/admin/rate-limits - Updates the rate limits (any subset of sender, device, global)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth/getUser';
+import { canManage } from '@/lib/auth';
+import { apiError, ValidationError, DatabaseError, safeJsonParse } from '@/lib/errors';
+import {
+  getRateLimitSettings,
+  setRateLimitSettings,
+  getRateLimitUsage,
+  validateRateLimitSettings,
+} from '@/lib/rate-limit';
+import type { RateLimitSettings } from '@/types';
+
+export async function GET() {
+  try {
+    // Check authentication and admin permission
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    if (!canManage(user.role)) {
+      return NextResponse.json({ error: 'Forbidden - Admin role required' }, { status: 403 });
+    }
+
+    return NextResponse.json({ settings: getRateLimitSettings(), usage: getRateLimitUsage() });
+  } catch (error) {
+    return apiError(error, 'GET /api/admin/rate-limits');
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    // Check authentication and admin permission
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    if (!canManage(user.role)) {
+      return NextResponse.json({ error: 'Forbidden - Admin role required' }, { status: 403 });
+    }
+
+    const { data: body, error: parseError } =
+      await safeJsonParse<Partial<RateLimitSettings>>(request);
+
+    if (parseError) {
+      return apiError(parseError, 'PUT /api/admin/rate-limits');
+    }
+
+    const errors = validateRateLimitSettings(body);
+    if (errors.length > 0) {
+      return apiError(
+        new ValidationError(errors.map((error) => error.message).join('; ')),
+        'PUT /api/admin/rate-limits'
+      );
+    }
+
+    const settings = { ...getRateLimitSettings(), ...body };
+    try {
+      setRateLimitSettings(settings, user.id);
+    } catch (dbError) {
+      throw new DatabaseError('Failed to save rate limits', dbError);
+    }
+
+    console.log(`[Admin API] Rate limits updated by ${user.email}`);
+    return NextResponse.json({ settings, usage: getRateLimitUsage() });
+  } catch (error) {
+    return apiError(error, 'PUT /api/admin/rate-limits');
+  }
+}
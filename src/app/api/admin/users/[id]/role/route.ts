@@ -4,27 +4,10 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { createClient } from '@supabase/supabase-js';
 import { getCurrentUser } from '@/lib/auth/getUser';
+import { createAdminClient } from '@/lib/supabase/admin';
 import { canManage, type UserRole } from '@/lib/auth';
 
-// Create admin client with service role key for user management
-function createAdminClient() {
-  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
-  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
-
-  if (!supabaseUrl || !serviceRoleKey) {
-    throw new Error('Supabase admin credentials not configured');
-  }
-
-  return createClient(supabaseUrl, serviceRoleKey, {
-    auth: {
-      autoRefreshToken: false,
-      persistSession: false,
-    },
-  });
-}
-
 const VALID_ROLES: UserRole[] = ['admin', 'sender', 'viewer'];
 
 interface RouteParams {
@@ -0,0 +1,37 @@
+/**
+ * CreaBomber API - Webhook Delivery Log
+ * GET /api/admin/webhooks/[id]/deliveries - Returns the latest deliveries to an endpoint, newest first
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth/getUser';
+import { canManage } from '@/lib/auth';
+import { apiError, NotFoundError } from '@/lib/errors';
+import { getWebhook, getWebhookDeliveries } from '@/lib/db';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+
+    // Check authentication and admin permission
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    if (!canManage(user.role)) {
+      return NextResponse.json({ error: 'Forbidden - Admin role required' }, { status: 403 });
+    }
+
+    if (!getWebhook(id)) {
+      return apiError(new NotFoundError('Webhook', id), `GET /api/admin/webhooks/${id}/deliveries`);
+    }
+
+    return NextResponse.json({ deliveries: getWebhookDeliveries(id) });
+  } catch (error) {
+    return apiError(error, 'GET /api/admin/webhooks/[id]/deliveries');
+  }
+}
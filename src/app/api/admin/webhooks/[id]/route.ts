@@ -0,0 +1,107 @@
+/**
+ * CreaBomber API - Admin Webhook
+ * PATCH /api/admin/webhooks/[id] - Updates url, events or enabled, or rotates the secret
+ * DELETE /api/admin/webhooks/[id] - Deletes an endpoint and its delivery log
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth/getUser';
+import { canManage } from '@/lib/auth';
+import { apiError, NotFoundError, ValidationError, DatabaseError, safeJsonParse } from '@/lib/errors';
+import { updateWebhook, deleteWebhook } from '@/lib/db';
+import { generateWebhookSecret, validateWebhookUrl, validateWebhookEvents } from '@/lib/webhooks';
+import type { WebhookEvent } from '@/types';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+interface UpdateWebhookBody {
+  url?: string;
+  events?: WebhookEvent[];
+  enabled?: boolean;
+  rotateSecret?: boolean;
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+
+    // Check authentication and admin permission
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    if (!canManage(user.role)) {
+      return NextResponse.json({ error: 'Forbidden - Admin role required' }, { status: 403 });
+    }
+
+    const { data: body, error: parseError } = await safeJsonParse<UpdateWebhookBody>(request);
+    if (parseError || !body) {
+      return apiError(parseError ?? new ValidationError('Request body is required'), `PATCH /api/admin/webhooks/${id}`);
+    }
+
+    const { url, events, enabled, rotateSecret } = body;
+    const errors = [
+      ...(url !== undefined ? validateWebhookUrl(url, 'url') : []),
+      ...(events !== undefined ? validateWebhookEvents(events, 'events') : []),
+    ];
+    if (enabled !== undefined && typeof enabled !== 'boolean') {
+      errors.push({ field: 'enabled', message: 'enabled must be a boolean' });
+    }
+    if (rotateSecret !== undefined && typeof rotateSecret !== 'boolean') {
+      errors.push({ field: 'rotateSecret', message: 'rotateSecret must be a boolean' });
+    }
+    if (errors.length > 0) {
+      return apiError(
+        new ValidationError(errors.map((error) => error.message).join('; ')),
+        `PATCH /api/admin/webhooks/${id}`
+      );
+    }
+
+    const secret = rotateSecret ? generateWebhookSecret() : undefined;
+    let webhook;
+    try {
+      webhook = updateWebhook(id, {
+        url,
+        events: events ? [...new Set(events)] : undefined,
+        enabled,
+        secret,
+      });
+    } catch (dbError) {
+      throw new DatabaseError('Failed to update webhook', dbError);
+    }
+
+    if (!webhook) {
+      return apiError(new NotFoundError('Webhook', id), `PATCH /api/admin/webhooks/${id}`);
+    }
+
+    return NextResponse.json(secret ? { webhook, secret } : { webhook });
+  } catch (error) {
+    return apiError(error, 'PATCH /api/admin/webhooks/[id]');
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+
+    // Check authentication and admin permission
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    if (!canManage(user.role)) {
+      return NextResponse.json({ error: 'Forbidden - Admin role required' }, { status: 403 });
+    }
+
+    if (!deleteWebhook(id)) {
+      return apiError(new NotFoundError('Webhook', id), `DELETE /api/admin/webhooks/${id}`);
+    }
+
+    console.log(`[Admin API] Webhook ${id} deleted by ${user.email}`);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return apiError(error, 'DELETE /api/admin/webhooks/[id]');
+  }
+}
@@ -0,0 +1,77 @@
+/**
+ * CreaBomber API - Admin Webhooks
+ * GET /api/admin/webhooks - Returns all webhook endpoints
+ * POST /api/admin/webhooks - Creates an endpoint (the signing secret is only returned here)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth/getUser';
+import { canManage } from '@/lib/auth';
+import { apiError, ValidationError, DatabaseError, safeJsonParse } from '@/lib/errors';
+import { getWebhooks, createWebhook } from '@/lib/db';
+import { generateWebhookSecret, validateWebhookUrl, validateWebhookEvents } from '@/lib/webhooks';
+import type { WebhookEvent } from '@/types';
+
+interface CreateWebhookBody {
+  url?: string;
+  events?: WebhookEvent[];
+}
+
+export async function GET() {
+  try {
+    // Check authentication and admin permission
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    if (!canManage(user.role)) {
+      return NextResponse.json({ error: 'Forbidden - Admin role required' }, { status: 403 });
+    }
+
+    return NextResponse.json({ webhooks: getWebhooks() });
+  } catch (error) {
+    return apiError(error, 'GET /api/admin/webhooks');
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    // Check authentication and admin permission
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    if (!canManage(user.role)) {
+      return NextResponse.json({ error: 'Forbidden - Admin role required' }, { status: 403 });
+    }
+
+    const { data: body, error: parseError } = await safeJsonParse<CreateWebhookBody>(request);
+    if (parseError || !body) {
+      return apiError(parseError ?? new ValidationError('Request body is required'), 'POST /api/admin/webhooks');
+    }
+
+    const errors = [
+      ...validateWebhookUrl(body.url, 'url'),
+      ...validateWebhookEvents(body.events, 'events'),
+    ];
+    if (errors.length > 0) {
+      return apiError(
+        new ValidationError(errors.map((error) => error.message).join('; ')),
+        'POST /api/admin/webhooks'
+      );
+    }
+
+    const secret = generateWebhookSecret();
+    let webhook;
+    try {
+      webhook = createWebhook(body.url!, [...new Set(body.events!)], secret, user.id);
+    } catch (dbError) {
+      throw new DatabaseError('Failed to create webhook', dbError);
+    }
+
+    console.log(`[Admin API] Webhook ${webhook.id} created for ${webhook.url} by ${user.email}`);
+    return NextResponse.json({ webhook, secret }, { status: 201 });
+  } catch (error) {
+    return apiError(error, 'POST /api/admin/webhooks');
+  }
+}
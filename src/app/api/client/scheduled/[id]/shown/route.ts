@@ -0,0 +1,47 @@
+/**
+ * CreaBomber API - Scheduled Message Shown on a Device
+ * POST /api/client/scheduled/[id]/shown - Records that an occurrence was shown
+ *
+ * Authenticated with the device secret (X-Device-Id + Authorization: Bearer).
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { apiError, ValidationError, safeJsonParse } from '@/lib/errors';
+import { authenticateDeviceRequest } from '@/lib/device-auth';
+import { markOccurrenceShown, validateDeviceDate } from '@/lib/scheduled-messages';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+interface MarkShownBody {
+  date?: string;
+}
+
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const deviceId = authenticateDeviceRequest(request);
+    if (!deviceId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    // Parse JSON body safely
+    const { data: body, error: parseError } = await safeJsonParse<MarkShownBody>(request);
+
+    if (parseError || !body) {
+      return apiError(parseError ?? new ValidationError('Request body is required'), `POST /api/client/scheduled/${id}/shown`);
+    }
+
+    const dateError = validateDeviceDate(body.date);
+    if (dateError) {
+      return apiError(dateError, `POST /api/client/scheduled/${id}/shown`);
+    }
+
+    await markOccurrenceShown(id, body.date!, deviceId);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return apiError(error, 'POST /api/client/scheduled/[id]/shown');
+  }
+}
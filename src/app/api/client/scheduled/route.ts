@@ -0,0 +1,33 @@
+/**
+ * CreaBomber API - Scheduled Messages for Device Clients
+ * GET /api/client/scheduled?date=YYYY-MM-DD - Returns the messages due now on the device's local date
+ *                                             and when to ask again (nextDueAt, timed rules)
+ *
+ * Authenticated with the device secret (X-Device-Id + Authorization: Bearer),
+ * not with a dashboard session.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { apiError } from '@/lib/errors';
+import { authenticateDeviceRequest } from '@/lib/device-auth';
+import { getDueScheduledMessages, validateDeviceDate } from '@/lib/scheduled-messages';
+
+export async function GET(request: NextRequest) {
+  try {
+    const deviceId = authenticateDeviceRequest(request);
+    if (!deviceId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const date = request.nextUrl.searchParams.get('date');
+    const dateError = validateDeviceDate(date);
+    if (dateError) {
+      return apiError(dateError, 'GET /api/client/scheduled');
+    }
+
+    const { messages, nextDueAt } = await getDueScheduledMessages(deviceId, date!);
+    return NextResponse.json({ messages, nextDueAt });
+  } catch (error) {
+    return apiError(error, 'GET /api/client/scheduled');
+  }
+}
@@ -0,0 +1,114 @@
+/**
+ * CreaBomber API - Single Device Group
+ * PATCH /api/device-groups/[id] - Renames a group and/or replaces its members
+ * DELETE /api/device-groups/[id] - Deletes a group (its devices are kept)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getDeviceGroup, getDeviceGroups, updateDeviceGroup, deleteDeviceGroup } from '@/lib/db';
+import {
+  apiError,
+  NotFoundError,
+  ValidationError,
+  DatabaseError,
+  validationResultToError,
+  safeJsonParse,
+} from '@/lib/errors';
+import { getCurrentUser, userHasPermission } from '@/lib/auth/getUser';
+import { emitToDashboard } from '@/lib/socket-server';
+import { validateDeviceGroupData, type DeviceGroupData } from '@/lib/device-groups';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    // Check authentication and permission
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    if (!userHasPermission(user, 'manage_devices')) {
+      return NextResponse.json({ error: 'Forbidden - Admin role required' }, { status: 403 });
+    }
+
+    const { id } = await params;
+
+    // Parse JSON body safely
+    const { data: body, error: parseError } =
+      await safeJsonParse<DeviceGroupData>(request);
+
+    if (parseError) {
+      return apiError(parseError, `PATCH /api/device-groups/${id}`);
+    }
+    if (!body || (body.name === undefined && body.deviceIds === undefined)) {
+      return apiError(
+        new ValidationError('No fields provided to update'),
+        `PATCH /api/device-groups/${id}`
+      );
+    }
+
+    if (!getDeviceGroup(id)) {
+      return apiError(new NotFoundError('Device group', id), `PATCH /api/device-groups/${id}`);
+    }
+
+    const validationError = validationResultToError(validateDeviceGroupData(body, id));
+    if (validationError) {
+      return apiError(validationError, `PATCH /api/device-groups/${id}`);
+    }
+
+    let group;
+    try {
+      group = updateDeviceGroup(id, {
+        name: body.name?.trim(),
+        deviceIds: body.deviceIds && [...new Set(body.deviceIds)],
+      });
+    } catch (dbError) {
+      throw new DatabaseError('Failed to update device group', dbError);
+    }
+
+    if (!group) {
+      return apiError(new NotFoundError('Device group', id), `PATCH /api/device-groups/${id}`);
+    }
+
+    emitToDashboard('device-groups:update', { groups: getDeviceGroups() });
+
+    return NextResponse.json({ group });
+  } catch (error) {
+    return apiError(error, 'PATCH /api/device-groups/[id]');
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    // Check authentication and permission
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    if (!userHasPermission(user, 'manage_devices')) {
+      return NextResponse.json({ error: 'Forbidden - Admin role required' }, { status: 403 });
+    }
+
+    const { id } = await params;
+
+    let deleted;
+    try {
+      deleted = deleteDeviceGroup(id);
+    } catch (dbError) {
+      throw new DatabaseError('Failed to delete device group', dbError);
+    }
+
+    if (!deleted) {
+      return apiError(new NotFoundError('Device group', id), `DELETE /api/device-groups/${id}`);
+    }
+
+    // Pending scheduled sends targeting this group resolve without it
+    emitToDashboard('device-groups:update', { groups: getDeviceGroups() });
+
+    return NextResponse.json({ success: true, deletedId: id });
+  } catch (error) {
+    return apiError(error, 'DELETE /api/device-groups/[id]');
+  }
+}
@@ -0,0 +1,79 @@
+/**
+ * CreaBomber API - Device Groups Collection
+ * GET /api/device-groups - Returns all device groups with their members
+ * POST /api/device-groups - Creates a device group
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getDeviceGroups, createDeviceGroup } from '@/lib/db';
+import {
+  apiError,
+  ValidationError,
+  DatabaseError,
+  validationResultToError,
+  safeJsonParse,
+} from '@/lib/errors';
+import { getCurrentUser, userHasPermission } from '@/lib/auth/getUser';
+import { emitToDashboard } from '@/lib/socket-server';
+import { validateDeviceGroupData, type DeviceGroupData } from '@/lib/device-groups';
+
+export async function GET() {
+  try {
+    // Check authentication and permission
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    if (!userHasPermission(user, 'view')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const groups = getDeviceGroups();
+    return NextResponse.json({ groups });
+  } catch (error) {
+    return apiError(
+      new DatabaseError('Failed to fetch device groups', error),
+      'GET /api/device-groups'
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    // Check authentication and permission
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    if (!userHasPermission(user, 'manage_devices')) {
+      return NextResponse.json({ error: 'Forbidden - Admin role required' }, { status: 403 });
+    }
+
+    // Parse JSON body safely
+    const { data: body, error: parseError } =
+      await safeJsonParse<DeviceGroupData>(request);
+
+    if (parseError || !body) {
+      return apiError(parseError ?? new ValidationError('Request body is required'), 'POST /api/device-groups');
+    }
+
+    const validationError = validationResultToError(validateDeviceGroupData(body));
+    if (validationError) {
+      return apiError(validationError, 'POST /api/device-groups');
+    }
+
+    let group;
+    try {
+      group = createDeviceGroup(body.name!.trim(), [...new Set(body.deviceIds ?? [])]);
+    } catch (dbError) {
+      throw new DatabaseError('Failed to create device group', dbError);
+    }
+
+    emitToDashboard('device-groups:update', { groups: getDeviceGroups() });
+    console.log(`[API] Device group "${group.name}" created by ${user.email}`);
+
+    return NextResponse.json({ group }, { status: 201 });
+  } catch (error) {
+    return apiError(error, 'POST /api/device-groups');
+  }
+}
@@ -1,13 +1,13 @@
 /**
  * CreaBomber API - Single Device
  * GET /api/devices/[id] - Returns a single device
- * PATCH /api/devices/[id] - Updates a device
- * DELETE /api/devices/[id] - Removes a device
+ * PATCH /api/devices/[id] - Updates a device (tags and quiet hours require the admin role)
+ * DELETE /api/devices/[id] - Removes a device and revokes its credentials
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { getDevice, db } from '@/lib/db';
-import type { DeviceStatus } from '@/types';
+import { getDevice, setDeviceTags, setDeviceQuietHours, deleteDevice, db } from '@/lib/db';
+import type { DeviceStatus, QuietHours } from '@/types';
 import {
   apiError,
   NotFoundError,
@@ -17,8 +17,11 @@ import {
   validateEnum,
   safeJsonParse,
 } from '@/lib/errors';
-import { getCurrentUser } from '@/lib/auth/getUser';
-import { canManage } from '@/lib/auth';
+import { getCurrentUser, userHasPermission } from '@/lib/auth/getUser';
+import { disconnectDevice, broadcastDeviceList } from '@/lib/socket-server';
+import { normalizeTags, validateTags } from '@/lib/device-targets';
+import { validateQuietHours } from '@/lib/quiet-hours';
+import { releaseHeldMessages } from '@/lib/message-dispatch';
 
 const MAX_NAME_LENGTH = 100;
 const MAX_HOSTNAME_LENGTH = 255;
@@ -30,6 +33,15 @@ interface RouteParams {
 
 export async function GET(request: NextRequest, { params }: RouteParams) {
   try {
+    // Check authentication and permission
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    if (!userHasPermission(user, 'view')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
     const { id } = await params;
     const device = getDevice(id);
 
@@ -47,6 +59,8 @@ interface UpdateDeviceBody {
   name?: string;
   hostname?: string;
   status?: string;
+  tags?: string[];
+  quietHours?: QuietHours | null;
 }
 
 export async function PATCH(request: NextRequest, { params }: RouteParams) {
@@ -69,7 +83,18 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
       );
     }
 
-    const { name, hostname, status } = body;
+    const { name, hostname, status, tags, quietHours } = body;
+
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Tags decide who receives tag-targeted messages and quiet hours when, so only admins may change them
+    // (API keys need the devices scope for any change)
+    if ((tags !== undefined || quietHours !== undefined || user.apiKey) && !userHasPermission(user, 'manage_devices')) {
+      return NextResponse.json({ error: 'Forbidden - Admin role required' }, { status: 403 });
+    }
 
     // Check if device exists
     const existingDevice = getDevice(id);
@@ -101,6 +126,14 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
       if (statusError) errors.push(statusError.message);
     }
 
+    if (tags !== undefined) {
+      errors.push(...validateTags(tags, 'tags').map((error) => error.message));
+    }
+
+    if (quietHours !== undefined) {
+      errors.push(...validateQuietHours(quietHours, 'quietHours').map((error) => error.message));
+    }
+
     if (errors.length > 0) {
       return apiError(
         new ValidationError(errors.join('; ')),
@@ -130,14 +163,32 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
     }
 
     try {
-      values.push(id);
-      const sql = `UPDATE devices SET ${updates.join(', ')} WHERE id = ?`;
-      const stmt = db.prepare(sql);
-      stmt.run(...values);
+      if (updates.length > 0) {
+        values.push(id);
+        const sql = `UPDATE devices SET ${updates.join(', ')} WHERE id = ?`;
+        const stmt = db.prepare(sql);
+        stmt.run(...values);
+      }
+      if (tags !== undefined) {
+        setDeviceTags(id, normalizeTags(tags));
+      }
+      if (quietHours !== undefined) {
+        setDeviceQuietHours(
+          id,
+          quietHours && { start: quietHours.start, end: quietHours.end, timezone: quietHours.timezone }
+        );
+      }
     } catch (dbError) {
       throw new DatabaseError('Failed to update device in database', dbError);
     }
 
+    // Changed quiet hours may end do-not-disturb right away
+    if (quietHours !== undefined) {
+      releaseHeldMessages();
+    }
+
+    broadcastDeviceList();
+
     const updatedDevice = getDevice(id);
     return NextResponse.json({ device: updatedDevice });
   } catch (error) {
@@ -152,7 +203,7 @@ export async function DELETE(request: NextRequest, { params }: RouteParams) {
     if (!user) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
-    if (!canManage(user.role)) {
+    if (!userHasPermission(user, 'manage_devices')) {
       return NextResponse.json({ error: 'Forbidden - Admin role required' }, { status: 403 });
     }
 
@@ -164,12 +215,15 @@ export async function DELETE(request: NextRequest, { params }: RouteParams) {
     }
 
     try {
-      const stmt = db.prepare('DELETE FROM devices WHERE id = ?');
-      stmt.run(id);
+      // Deleting the row also drops the device secret, so the client must re-enroll
+      deleteDevice(id);
     } catch (dbError) {
       throw new DatabaseError('Failed to delete device from database', dbError);
     }
 
+    // Kick the live connection - reconnects will fail the handshake
+    disconnectDevice(id);
+
     return NextResponse.json({ success: true, deletedId: id });
   } catch (error) {
     return apiError(error, 'DELETE /api/devices/[id]');
@@ -0,0 +1,29 @@
+/**
+ * CreaBomber API - Device Enrollment
+ * POST /api/devices/enrollment - Issues a one-time enrollment code for a new client
+ */
+
+import { NextResponse } from 'next/server';
+import { apiError } from '@/lib/errors';
+import { getCurrentUser, getSenderName, userHasPermission } from '@/lib/auth/getUser';
+import { issueEnrollmentCode } from '@/lib/device-auth';
+
+export async function POST() {
+  try {
+    // Check authentication and permission
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    if (!userHasPermission(user, 'manage_devices')) {
+      return NextResponse.json({ error: 'Forbidden - Admin role required' }, { status: 403 });
+    }
+
+    const enrollment = issueEnrollmentCode(user.id);
+    console.log(`[API] Enrollment code issued by ${getSenderName(user)}, expires ${enrollment.expiresAt.toISOString()}`);
+
+    return NextResponse.json({ enrollment }, { status: 201 });
+  } catch (error) {
+    return apiError(error, 'POST /api/devices/enrollment');
+  }
+}
@@ -15,12 +15,22 @@ import {
   validationResultToError,
   safeJsonParse,
 } from '@/lib/errors';
+import { getCurrentUser, userHasPermission } from '@/lib/auth/getUser';
 
 const MAX_NAME_LENGTH = 100;
 const MAX_HOSTNAME_LENGTH = 255;
 
 export async function GET() {
   try {
+    // Check authentication and permission
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    if (!userHasPermission(user, 'view')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
     const devices = getDevices();
     return NextResponse.json({ devices });
   } catch (error) {
@@ -39,6 +49,15 @@ interface CreateDeviceBody {
 
 export async function POST(request: NextRequest) {
   try {
+    // Check authentication and permission
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    if (!userHasPermission(user, 'manage_devices')) {
+      return NextResponse.json({ error: 'Forbidden - Admin role required' }, { status: 403 });
+    }
+
     // Parse JSON body safely
     const { data: body, error: parseError } =
       await safeJsonParse<CreateDeviceBody>(request);
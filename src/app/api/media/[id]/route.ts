@@ -0,0 +1,88 @@
+/**
+ * CreaBomber API - Media Download
+ * GET /api/media/[id] - Streams an uploaded file, with single byte range support (206)
+ * GET /api/media/[id]?variant=display|thumb - Streams a resized copy of an uploaded image
+ *                                            (the original if the image needed none)
+ *
+ * Readable by dashboard users who may view messages and by device clients
+ * (X-Device-Id + Authorization: Bearer <device secret>).
+ */
+
+import fs from 'fs';
+import { Readable } from 'stream';
+import { NextRequest, NextResponse } from 'next/server';
+import { apiError, NotFoundError, ValidationError } from '@/lib/errors';
+import { getCurrentUser, userCanReadHistory } from '@/lib/auth/getUser';
+import { authenticateDeviceRequest } from '@/lib/device-auth';
+import { getStoredMedia, parseRangeHeader } from '@/lib/media-storage';
+import { MEDIA_VARIANTS } from '@/lib/media';
+import type { MediaVariant } from '@/types';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    // Device clients send their device secret, everyone else is checked like a history reader
+    if (request.headers.has('x-device-id')) {
+      if (!authenticateDeviceRequest(request)) {
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+      }
+    } else {
+      const user = await getCurrentUser();
+      if (!user) {
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+      }
+      if (!userCanReadHistory(user)) {
+        return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+      }
+    }
+
+    const variant = request.nextUrl.searchParams.get('variant');
+    if (variant !== null && !MEDIA_VARIANTS.includes(variant as MediaVariant)) {
+      return apiError(
+        new ValidationError(`variant must be one of: ${MEDIA_VARIANTS.join(', ')}`),
+        'GET /api/media/[id]'
+      );
+    }
+
+    const { id } = await params;
+    const stored = getStoredMedia(id, variant ? (variant as MediaVariant) : undefined);
+    if (!stored) {
+      return apiError(new NotFoundError('Media', id), 'GET /api/media/[id]');
+    }
+    const { filePath, mimeType, size } = stored;
+
+    // Files never change (the ID is their content hash)
+    const headers: Record<string, string> = {
+      'Content-Type': mimeType,
+      'Content-Disposition': 'inline',
+      'Accept-Ranges': 'bytes',
+      'Cache-Control': 'private, max-age=31536000, immutable',
+      'X-Content-Type-Options': 'nosniff',
+    };
+
+    const range = parseRangeHeader(request.headers.get('range'), size);
+    if (range === 'unsatisfiable') {
+      return new NextResponse(null, {
+        status: 416,
+        headers: { ...headers, 'Content-Range': `bytes */${size}` },
+      });
+    }
+
+    const { start, end } = range ?? { start: 0, end: size - 1 };
+    const stream = Readable.toWeb(fs.createReadStream(filePath, { start, end })) as ReadableStream<Uint8Array>;
+
+    return new NextResponse(stream, {
+      status: range ? 206 : 200,
+      headers: {
+        ...headers,
+        'Content-Length': String(end - start + 1),
+        ...(range && { 'Content-Range': `bytes ${start}-${end}/${size}` }),
+      },
+    });
+  } catch (error) {
+    return apiError(error, 'GET /api/media/[id]');
+  }
+}
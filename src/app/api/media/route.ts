@@ -0,0 +1,48 @@
+/**
+ * CreaBomber API - Media Uploads
+ * POST /api/media - Uploads an image, video or audio file (multipart/form-data, field "file")
+ *
+ * Returns the stored file with its download URL (/api/media/<id>), which can be used as
+ * imageUrl, videoUrl or audioUrl of a message.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { apiError, ValidationError } from '@/lib/errors';
+import { getCurrentUser, getSenderName, userHasPermission } from '@/lib/auth/getUser';
+import { storeMedia } from '@/lib/media-storage';
+
+export async function POST(request: NextRequest) {
+  try {
+    // Check authentication and permission
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    if (!userHasPermission(user, 'send')) {
+      return NextResponse.json({ error: 'Forbidden - Sender or Admin role required' }, { status: 403 });
+    }
+
+    let file: FormDataEntryValue | null;
+    try {
+      file = (await request.formData()).get('file');
+    } catch {
+      return apiError(new ValidationError('Request body must be multipart/form-data'), 'POST /api/media');
+    }
+    if (!(file instanceof File)) {
+      return apiError(new ValidationError('file is required'), 'POST /api/media');
+    }
+
+    const media = await storeMedia(
+      Buffer.from(await file.arrayBuffer()),
+      file.type,
+      file.name || undefined,
+      user.id
+    );
+
+    console.log(`[API] Media ${media.id} (${media.mimeType}, ${media.size} bytes) uploaded by ${getSenderName(user)}`);
+
+    return NextResponse.json({ media }, { status: 201 });
+  } catch (error) {
+    return apiError(error, 'POST /api/media');
+  }
+}
@@ -0,0 +1,61 @@
+/**
+ * CreaBomber API - Recall Message
+ * POST /api/messages/[id]/recall - Takes a message back from devices that have not closed it
+ *                                  (sender or admin)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getMessage, getMessageWithDeliveries } from '@/lib/db';
+import { apiError, NotFoundError, ValidationError, DatabaseError } from '@/lib/errors';
+import { getCurrentUser, getSenderName, userHasPermission } from '@/lib/auth/getUser';
+import { canManage } from '@/lib/auth';
+import { recallFromDevices } from '@/lib/message-dispatch';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    // Check authentication and permission
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    if (!userHasPermission(user, 'send')) {
+      return NextResponse.json({ error: 'Forbidden - Sender or Admin role required' }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const existing = getMessage(id);
+
+    if (!existing) {
+      return apiError(new NotFoundError('Message', id), `POST /api/messages/${id}/recall`);
+    }
+
+    // Senders can only recall their own messages
+    if (existing.senderId !== user.id && !canManage(user.role)) {
+      return NextResponse.json({ error: 'Forbidden - Not the sender of this message' }, { status: 403 });
+    }
+
+    let deviceIds;
+    try {
+      deviceIds = recallFromDevices(id);
+    } catch (dbError) {
+      throw new DatabaseError('Failed to recall message', dbError);
+    }
+
+    if (!deviceIds) {
+      return apiError(new ValidationError('Message was already recalled'), `POST /api/messages/${id}/recall`);
+    }
+
+    console.log(`[API] Message ${id} recalled by ${getSenderName(user)}`);
+
+    return NextResponse.json({
+      message: getMessageWithDeliveries(id),
+      recalledDevices: deviceIds,
+    });
+  } catch (error) {
+    return apiError(error, 'POST /api/messages/[id]/recall');
+  }
+}
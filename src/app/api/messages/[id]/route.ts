@@ -1,11 +1,29 @@
 /**
  * CreaBomber API - Single Message
- * GET /api/messages/[id] - Returns a single message with full details
+ * GET /api/messages/[id] - Returns a single message with full details (deliveries, replies, poll results, edits)
+ * PATCH /api/messages/[id] - Edits the content of a sent message and pushes it to the devices
+ *                            that still have it (sender or admin)
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { getMessage, getDevice } from '@/lib/db';
-import { apiError, NotFoundError } from '@/lib/errors';
+import { getMessage, getMessageWithDeliveries, getDevice, editMessageContent } from '@/lib/db';
+import {
+  apiError,
+  NotFoundError,
+  ValidationError,
+  DatabaseError,
+  validateRequired,
+  validateString,
+  combineValidation,
+  validationResultToError,
+  safeJsonParse,
+} from '@/lib/errors';
+import { getCurrentUser, getSenderName, userCanReadHistory, userHasPermission } from '@/lib/auth/getUser';
+import { canManage } from '@/lib/auth';
+import { pushMessageEdit } from '@/lib/message-dispatch';
+import { createPlaceholderContext, isValidTimeZone, validatePlaceholderValues } from '@/lib/placeholders';
+
+const MAX_CONTENT_LENGTH = 10000;
 
 interface RouteParams {
   params: Promise<{ id: string }>;
@@ -13,13 +31,23 @@ interface RouteParams {
 
 export async function GET(request: NextRequest, { params }: RouteParams) {
   try {
+    // Check authentication (API keys without the history scope only see their own messages)
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
     const { id } = await params;
-    const message = getMessage(id);
+    const message = getMessageWithDeliveries(id);
 
     if (!message) {
       return apiError(new NotFoundError('Message', id), `GET /api/messages/${id}`);
     }
 
+    if (!userCanReadHistory(user) && message.senderId !== user.id) {
+      return NextResponse.json({ error: 'Forbidden - Not the sender of this message' }, { status: 403 });
+    }
+
     // Enrich with device details
     const targetDevicesDetails = message.targetDevices.map((deviceId) => {
       const device = getDevice(deviceId);
@@ -48,3 +76,106 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
     return apiError(error, 'GET /api/messages/[id]');
   }
 }
+
+// Request body interface
+interface EditMessageBody {
+  content: string;
+  placeholderValues?: Record<string, string>;
+  timezone?: string;
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    // Check authentication and permission
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    if (!userHasPermission(user, 'send')) {
+      return NextResponse.json({ error: 'Forbidden - Sender or Admin role required' }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const existing = getMessage(id);
+
+    if (!existing) {
+      return apiError(new NotFoundError('Message', id), `PATCH /api/messages/${id}`);
+    }
+
+    // Senders can only edit their own messages
+    if (existing.senderId !== user.id && !canManage(user.role)) {
+      return NextResponse.json({ error: 'Forbidden - Not the sender of this message' }, { status: 403 });
+    }
+
+    if (existing.recalledAt) {
+      return apiError(new ValidationError('Recalled messages cannot be edited'), `PATCH /api/messages/${id}`);
+    }
+
+    // Parse JSON body safely
+    const { data: body, error: parseError } = await safeJsonParse<EditMessageBody>(request);
+
+    if (parseError || !body) {
+      return apiError(parseError ?? new ValidationError('Request body is required'), `PATCH /api/messages/${id}`);
+    }
+
+    const { content, placeholderValues, timezone = existing.placeholders?.timezone ?? 'UTC' } = body;
+
+    const validation = combineValidation(
+      validateRequired(content, 'content'),
+      validateString(content, 'content', { minLength: 1, maxLength: MAX_CONTENT_LENGTH })
+    );
+
+    if (typeof timezone !== 'string' || !isValidTimeZone(timezone)) {
+      validation.errors.push({ field: 'timezone', message: 'timezone must be an IANA time zone name' });
+    }
+
+    // New values are merged with the ones the message was sent with
+    const isValueObject =
+      typeof placeholderValues === 'object' && placeholderValues !== null && !Array.isArray(placeholderValues);
+    const values = isValueObject
+      ? { ...existing.placeholders?.values, ...placeholderValues }
+      : placeholderValues ?? existing.placeholders?.values;
+    if (typeof content === 'string') {
+      validation.errors.push(...validatePlaceholderValues(content, values, 'placeholderValues'));
+    }
+
+    // Return validation errors if any
+    validation.valid = validation.errors.length === 0;
+    const validationError = validationResultToError(validation);
+    if (validationError) {
+      return apiError(validationError, `PATCH /api/messages/${id}`);
+    }
+
+    // Nothing to push if the content is unchanged
+    if (content === existing.content && placeholderValues === undefined) {
+      return NextResponse.json({ message: getMessageWithDeliveries(id) });
+    }
+
+    const placeholders = createPlaceholderContext(
+      content,
+      values,
+      existing.placeholders?.senderEmail ?? getSenderName(user),
+      timezone
+    );
+
+    let edited: boolean;
+    try {
+      edited = editMessageContent(id, content, placeholders, user.id);
+    } catch (dbError) {
+      throw new DatabaseError('Failed to edit message', dbError);
+    }
+
+    // Recalled between the check above and the update
+    if (!edited) {
+      return apiError(new ValidationError('Recalled messages cannot be edited'), `PATCH /api/messages/${id}`);
+    }
+
+    const message = pushMessageEdit(id);
+
+    console.log(`[API] Message ${id} edited by ${getSenderName(user)}`);
+
+    return NextResponse.json({ message });
+  } catch (error) {
+    return apiError(error, 'PATCH /api/messages/[id]');
+  }
+}
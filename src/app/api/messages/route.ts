@@ -1,34 +1,37 @@
 /**
  * CreaBomber API - Messages Collection
  * GET /api/messages - Returns paginated message history
- * POST /api/messages - Creates a new message and triggers WebSocket broadcast
+ * POST /api/messages - Creates a new message and triggers WebSocket broadcast,
+ *                      or schedules it for later when sendAt is given
+ *                      (devices, groups and tags are resolved at send time,
+ *                      {{placeholders}} are filled in per device)
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { db, getMessage, createMessageDeliveries, updateMessageStatus } from '@/lib/db';
+import {
+  db,
+  getMessage,
+  getRepliesByMessage,
+  getEditsByMessage,
+  getPollVotesByMessage,
+  attachPollResults,
+  createScheduledSend,
+} from '@/lib/db';
 import { v4 as uuidv4 } from 'uuid';
-import type { Message, MessageRow, MessageType, MessageStatus, MessageDeliveryRow, MessageDelivery, DeviceDeliveryStatus } from '@/types';
+import type { Message, MessageRow, MessageType, MessageStatus, MessagePriority, MessageDeliveryRow, MessageDelivery, DeviceDeliveryStatus } from '@/types';
 import {
   apiError,
   ValidationError,
   DatabaseError,
-  validateRequired,
-  validateString,
-  validateArray,
-  validateEnum,
-  validateUrl,
-  combineValidation,
-  validationResultToError,
   safeJsonParse,
 } from '@/lib/errors';
-import { getCurrentUser } from '@/lib/auth/getUser';
+import { getCurrentUser, getSenderName, userCanReadHistory, userHasPermission } from '@/lib/auth/getUser';
 import { canSend, canManage } from '@/lib/auth';
-import { getSocketServer } from '@/lib/socket-server';
-
-// Valid message types
-const VALID_MESSAGE_TYPES = ['TEXT', 'TEXT_IMAGE', 'VIDEO', 'AUDIO'] as const;
-const MAX_CONTENT_LENGTH = 10000;
-const MAX_URL_LENGTH = 2048;
+import { dispatchMessage } from '@/lib/message-dispatch';
+import { normalizeTags } from '@/lib/device-targets';
+import { VALID_MESSAGE_TYPES, type CreateMessageBody } from '@/lib/message-validation';
+import { prepareMessageRequest } from '@/lib/message-request';
+import { consumeRateLimit } from '@/lib/rate-limit';
 
 // Helper: Convert MessageDeliveryRow to MessageDelivery
 function rowToDelivery(row: MessageDeliveryRow): MessageDelivery {
@@ -38,6 +41,12 @@ function rowToDelivery(row: MessageDeliveryRow): MessageDelivery {
     deliveredAt: row.delivered_at ? new Date(row.delivered_at) : undefined,
     failedAt: row.failed_at ? new Date(row.failed_at) : undefined,
     failureReason: row.failure_reason ?? undefined,
+    displayedAt: row.displayed_at ? new Date(row.displayed_at) : undefined,
+    dismissedAt: row.dismissed_at ? new Date(row.dismissed_at) : undefined,
+    autoExpiredAt: row.auto_expired_at ? new Date(row.auto_expired_at) : undefined,
+    visibleMs: row.visible_ms ?? undefined,
+    acknowledgedAt: row.acknowledged_at ? new Date(row.acknowledged_at) : undefined,
+    recalledAt: row.recalled_at ? new Date(row.recalled_at) : undefined,
   };
 }
 
@@ -47,13 +56,25 @@ function rowToMessage(row: MessageRow): Message {
     id: row.id,
     type: row.type as MessageType,
     content: row.content,
+    priority: (row.priority ?? 'normal') as MessagePriority,
     imageUrl: row.image_url ?? undefined,
     videoUrl: row.video_url ?? undefined,
     audioUrl: row.audio_url ?? undefined,
     audioAutoplay: row.audio_autoplay === 1,
     targetDevices: JSON.parse(row.target_devices),
     status: row.status as MessageStatus,
+    replyOptions: row.reply_options ? JSON.parse(row.reply_options) : undefined,
+    allowFreeText: row.allow_free_text === 1,
+    pollOptions: row.poll_options ? JSON.parse(row.poll_options) : undefined,
+    pollClosesAt: row.poll_closes_at ? new Date(row.poll_closes_at) : undefined,
+    expiresAt: row.expires_at ? new Date(row.expires_at) : undefined,
+    overrideDnd: row.override_dnd === 1,
+    target: row.target_expression ? JSON.parse(row.target_expression) : undefined,
+    placeholders: row.placeholder_data ? JSON.parse(row.placeholder_data) : undefined,
+    recalledAt: row.recalled_at ? new Date(row.recalled_at) : undefined,
+    editedAt: row.edited_at ? new Date(row.edited_at) : undefined,
     senderId: row.sender_id ?? undefined,
+    senderName: row.sender_name ?? undefined,
     createdAt: new Date(row.created_at),
   };
 }
@@ -117,8 +138,8 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
-    // Viewers see no messages
-    if (!canSend(user.role)) {
+    // Viewers see no messages (API keys need the history scope)
+    if (user.apiKey ? !userCanReadHistory(user) : !canSend(user.role)) {
       return NextResponse.json({
         messages: [],
         pagination: {
@@ -143,8 +164,8 @@ export async function GET(request: NextRequest) {
     const conditions: string[] = [];
     const params: (string | number)[] = [];
 
-    // Admins see all messages, Senders see only their own
-    if (!canManage(user.role)) {
+    // Admins and API keys see all messages, Senders see only their own
+    if (!user.apiKey && !canManage(user.role)) {
       conditions.push('sender_id = ?');
       params.push(user.id);
     }
@@ -188,9 +209,15 @@ export async function GET(request: NextRequest) {
         deliveriesByMessage.set(row.message_id, existing);
       }
 
-      // Attach deliveries to messages
+      // Attach deliveries, replies and edits to messages
+      const repliesByMessage = getRepliesByMessage(messageIds);
+      const editsByMessage = getEditsByMessage(messageIds);
+      const votesByMessage = getPollVotesByMessage(messageIds);
       for (const message of messages) {
         message.deliveries = deliveriesByMessage.get(message.id) || [];
+        message.replies = repliesByMessage.get(message.id) || [];
+        message.edits = editsByMessage.get(message.id) || [];
+        attachPollResults(message, votesByMessage.get(message.id) || []);
       }
     }
 
@@ -216,17 +243,6 @@ export async function GET(request: NextRequest) {
   }
 }
 
-// Request body interface
-interface CreateMessageBody {
-  type: string;
-  content: string;
-  targetDevices: string[];
-  imageUrl?: string;
-  videoUrl?: string;
-  audioUrl?: string;
-  audioAutoplay?: boolean;
-}
-
 export async function POST(request: NextRequest) {
   try {
     // Check authentication and permission
@@ -234,9 +250,10 @@ export async function POST(request: NextRequest) {
     if (!user) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
-    if (!canSend(user.role)) {
+    if (!userHasPermission(user, 'send')) {
       return NextResponse.json({ error: 'Forbidden - Sender or Admin role required' }, { status: 403 });
     }
+    const senderName = getSenderName(user);
 
     // Parse JSON body safely
     const { data: body, error: parseError } =
@@ -246,50 +263,79 @@ export async function POST(request: NextRequest) {
       return apiError(parseError ?? new ValidationError('Request body is required'), 'POST /api/messages');
     }
 
-    const { type, content, targetDevices, imageUrl, videoUrl, audioUrl, audioAutoplay } = body;
-
-    // Comprehensive validation
-    const validation = combineValidation(
-      validateRequired(type, 'type'),
-      validateRequired(content, 'content'),
-      validateRequired(targetDevices, 'targetDevices'),
-      validateEnum(type, 'type', [...VALID_MESSAGE_TYPES]),
-      validateString(content, 'content', { minLength: 1, maxLength: MAX_CONTENT_LENGTH }),
-      validateArray(targetDevices, 'targetDevices', { minLength: 1 })
-    );
-
-    // Type-specific validation
-    if (type === 'TEXT_IMAGE') {
-      const imageValidation = combineValidation(
-        validateRequired(imageUrl, 'imageUrl'),
-        validateUrl(imageUrl, 'imageUrl'),
-        validateString(imageUrl ?? '', 'imageUrl', { maxLength: MAX_URL_LENGTH })
-      );
-      validation.errors.push(...imageValidation.errors);
-    }
+    const {
+      type,
+      content,
+      targetDevices = [],
+      targetGroups = [],
+      targetTags = [],
+      imageUrl,
+      videoUrl,
+      audioUrl,
+      audioAutoplay,
+      replyOptions,
+      allowFreeText,
+      pollOptions,
+      overrideDnd = false,
+      priority = 'normal',
+      timezone = 'UTC',
+    } = body;
+
+    // Body rules, targets and permissions shared with socket 'message:send'
+    const {
+      pollClosesAt: pollClosesAtMs,
+      sendAt: sendAtMs,
+      expiresAt: expiresAtMs,
+      targetDevices: resolvedDevices,
+      target,
+      placeholders,
+    } = prepareMessageRequest(body, user, senderName);
+
+    if (sendAtMs !== null) {
+      // Target devices are only known at send time, so scheduling counts against the sender alone
+      const rateLimitError = consumeRateLimit({ senderId: user.id, senderLabel: senderName, deviceIds: [] });
+      if (rateLimitError) {
+        return apiError(rateLimitError, 'POST /api/messages');
+      }
 
-    if (type === 'VIDEO') {
-      const videoValidation = combineValidation(
-        validateRequired(videoUrl, 'videoUrl'),
-        validateUrl(videoUrl, 'videoUrl'),
-        validateString(videoUrl ?? '', 'videoUrl', { maxLength: MAX_URL_LENGTH })
-      );
-      validation.errors.push(...videoValidation.errors);
-    }
+      let scheduledSend;
+      try {
+        scheduledSend = createScheduledSend(
+          {
+            type: type as MessageType,
+            content,
+            priority: priority as MessagePriority,
+            imageUrl,
+            videoUrl,
+            audioUrl,
+            audioAutoplay,
+            replyOptions: replyOptions?.length ? replyOptions : undefined,
+            allowFreeText,
+            pollOptions: type === 'POLL' ? pollOptions : undefined,
+            pollClosesAt: type === 'POLL' ? pollClosesAtMs ?? undefined : undefined,
+            expiresAt: expiresAtMs ?? undefined,
+            overrideDnd: overrideDnd || undefined,
+            targetDevices,
+            targetGroups: targetGroups.length ? targetGroups : undefined,
+            targetTags: targetTags.length ? normalizeTags(targetTags) : undefined,
+            placeholders,
+            senderName,
+          },
+          sendAtMs,
+          timezone,
+          user.id
+        );
+      } catch (dbError) {
+        throw new DatabaseError('Failed to schedule message', dbError);
+      }
 
-    if (type === 'AUDIO') {
-      const audioValidation = combineValidation(
-        validateRequired(audioUrl, 'audioUrl'),
-        validateUrl(audioUrl, 'audioUrl'),
-        validateString(audioUrl ?? '', 'audioUrl', { maxLength: MAX_URL_LENGTH })
-      );
-      validation.errors.push(...audioValidation.errors);
+      console.log(`[API] Message scheduled for ${scheduledSend.sendAt.toISOString()} (${timezone})`);
+      return NextResponse.json({ scheduledSend }, { status: 202 });
     }
 
-    // Return validation errors if any
-    const validationError = validationResultToError(validation);
-    if (validationError) {
-      return apiError(validationError, 'POST /api/messages');
+    const rateLimitError = consumeRateLimit({ senderId: user.id, senderLabel: senderName, deviceIds: resolvedDevices });
+    if (rateLimitError) {
+      return apiError(rateLimitError, 'POST /api/messages');
     }
 
     // Create message in database
@@ -298,20 +344,30 @@ export async function POST(request: NextRequest) {
 
     try {
       const stmt = db.prepare(`
-        INSERT INTO messages (id, type, content, image_url, video_url, audio_url, audio_autoplay, target_devices, status, sender_id, created_at)
-        VALUES (?, ?, ?, ?, ?, ?, ?, ?, 'pending', ?, ?)
+        INSERT INTO messages (id, type, content, priority, image_url, video_url, audio_url, audio_autoplay, reply_options, allow_free_text, poll_options, poll_closes_at, expires_at, override_dnd, target_devices, target_expression, placeholder_data, status, sender_id, sender_name, created_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 'pending', ?, ?, ?)
       `);
 
       stmt.run(
         id,
         type,
         content,
+        priority,
         imageUrl ?? null,
         videoUrl ?? null,
         audioUrl ?? null,
         audioAutoplay ? 1 : 0,
-        JSON.stringify(targetDevices),
+        replyOptions?.length ? JSON.stringify(replyOptions) : null,
+        allowFreeText ? 1 : 0,
+        type === 'POLL' ? JSON.stringify(pollOptions) : null,
+        type === 'POLL' ? pollClosesAtMs : null,
+        expiresAtMs,
+        overrideDnd ? 1 : 0,
+        JSON.stringify(resolvedDevices),
+        JSON.stringify(target),
+        placeholders ? JSON.stringify(placeholders) : null,
         user.id,
+        senderName,
         now
       );
     } catch (dbError) {
@@ -324,31 +380,9 @@ export async function POST(request: NextRequest) {
       throw new DatabaseError('Message was created but could not be retrieved');
     }
 
-    // Create delivery records for each target device
-    createMessageDeliveries(id, targetDevices, 'sent');
-
-    // Broadcast message to target devices via WebSocket
-    const io = getSocketServer();
-    if (io) {
-      for (const deviceId of targetDevices) {
-        io.to(`device:${deviceId}`).emit('message:receive', {
-          id: message.id,
-          type,
-          content,
-          targetDevices,
-          imageUrl,
-          videoUrl,
-          audioUrl,
-          audioAutoplay,
-          timestamp: now,
-        });
-      }
-      // Update message status to sent
-      updateMessageStatus(id, 'sent');
-      message.status = 'sent';
-      console.log(`[API] Message ${id} broadcasted to ${targetDevices.length} devices`);
-    } else {
-      console.warn('[API] Socket server not available, message saved but not broadcasted');
+    // Create delivery records, queue for offline devices and broadcast via WebSocket
+    if (dispatchMessage(message)) {
+      console.log(`[API] Message ${id} broadcasted to ${resolvedDevices.length} devices`);
     }
 
     return NextResponse.json({ message }, { status: 201 });
@@ -0,0 +1,113 @@
+/**
+ * CreaBomber API - Single Scheduled Message
+ * GET /api/scheduled/[id] - Returns a scheduled message
+ * PATCH /api/scheduled/[id] - Updates a scheduled message
+ * DELETE /api/scheduled/[id] - Deletes a scheduled message
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import type { ScheduledMessageFormData } from '@/types';
+import {
+  apiError,
+  ValidationError,
+  validationResultToError,
+  safeJsonParse,
+} from '@/lib/errors';
+import { getCurrentUser, userHasPermission } from '@/lib/auth/getUser';
+import {
+  getScheduledMessage,
+  updateScheduledMessage,
+  deleteScheduledMessage,
+  validateScheduledMessageData,
+} from '@/lib/scheduled-messages';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    // Check authentication and permission
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    if (!userHasPermission(user, 'view')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const message = await getScheduledMessage(id);
+
+    return NextResponse.json({ message });
+  } catch (error) {
+    return apiError(error, 'GET /api/scheduled/[id]');
+  }
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    // Check authentication and permission
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    if (!userHasPermission(user, 'manage_scheduled')) {
+      return NextResponse.json({ error: 'Forbidden - Admin role required' }, { status: 403 });
+    }
+
+    const { id } = await params;
+
+    // Parse JSON body safely
+    const { data: body, error: parseError } =
+      await safeJsonParse<Partial<ScheduledMessageFormData>>(request);
+
+    if (parseError) {
+      return apiError(parseError, `PATCH /api/scheduled/${id}`);
+    }
+
+    if (!body || Object.keys(body).length === 0) {
+      return apiError(
+        new ValidationError('No fields provided to update'),
+        `PATCH /api/scheduled/${id}`
+      );
+    }
+
+    // Check against the stored message so partial updates stay consistent
+    const existing = await getScheduledMessage(id);
+    const validation = validateScheduledMessageData(
+      { date: existing.date, ...body },
+      true
+    );
+
+    const validationError = validationResultToError(validation);
+    if (validationError) {
+      return apiError(validationError, `PATCH /api/scheduled/${id}`);
+    }
+
+    const message = await updateScheduledMessage(id, body);
+    return NextResponse.json({ message });
+  } catch (error) {
+    return apiError(error, 'PATCH /api/scheduled/[id]');
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    // Check authentication and permission
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    if (!userHasPermission(user, 'manage_scheduled')) {
+      return NextResponse.json({ error: 'Forbidden - Admin role required' }, { status: 403 });
+    }
+
+    const { id } = await params;
+    await deleteScheduledMessage(id);
+
+    return NextResponse.json({ success: true, deletedId: id });
+  } catch (error) {
+    return apiError(error, 'DELETE /api/scheduled/[id]');
+  }
+}
@@ -0,0 +1,71 @@
+/**
+ * CreaBomber API - Scheduled Messages Collection
+ * GET /api/scheduled - Returns all scheduled messages
+ * POST /api/scheduled - Creates a scheduled message
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import type { ScheduledMessageFormData } from '@/types';
+import {
+  apiError,
+  ValidationError,
+  validationResultToError,
+  safeJsonParse,
+} from '@/lib/errors';
+import { getCurrentUser, userHasPermission } from '@/lib/auth/getUser';
+import {
+  listScheduledMessages,
+  createScheduledMessage,
+  validateScheduledMessageData,
+} from '@/lib/scheduled-messages';
+
+export async function GET() {
+  try {
+    // Check authentication and permission
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    if (!userHasPermission(user, 'view')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const messages = await listScheduledMessages();
+    return NextResponse.json({ messages });
+  } catch (error) {
+    return apiError(error, 'GET /api/scheduled');
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    // Check authentication and permission
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    if (!userHasPermission(user, 'manage_scheduled')) {
+      return NextResponse.json({ error: 'Forbidden - Admin role required' }, { status: 403 });
+    }
+
+    // Parse JSON body safely
+    const { data: body, error: parseError } =
+      await safeJsonParse<ScheduledMessageFormData>(request);
+
+    if (parseError || !body) {
+      return apiError(parseError ?? new ValidationError('Request body is required'), 'POST /api/scheduled');
+    }
+
+    const validationError = validationResultToError(validateScheduledMessageData(body, false));
+    if (validationError) {
+      return apiError(validationError, 'POST /api/scheduled');
+    }
+
+    const message = await createScheduledMessage(body);
+    console.log(`[API] Scheduled message ${message.id} created by ${user.email} for ${message.date}`);
+
+    return NextResponse.json({ message }, { status: 201 });
+  } catch (error) {
+    return apiError(error, 'POST /api/scheduled');
+  }
+}
@@ -0,0 +1,157 @@
+/**
+ * CreaBomber API - Single Message Template
+ * GET /api/templates/[id] - Returns a template
+ * PATCH /api/templates/[id] - Updates a template (creator or admin)
+ * DELETE /api/templates/[id] - Deletes a template (creator or admin)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getTemplate, updateTemplate, deleteTemplate } from '@/lib/db';
+import {
+  apiError,
+  NotFoundError,
+  ValidationError,
+  DatabaseError,
+  validationResultToError,
+  safeJsonParse,
+} from '@/lib/errors';
+import { getCurrentUser, userHasPermission } from '@/lib/auth/getUser';
+import { canManage } from '@/lib/auth';
+import { validateTemplateData, toTemplateFields } from '@/lib/templates';
+import type { MessageTemplateFormData } from '@/types';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    // Check authentication and permission
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    if (!userHasPermission(user, 'send')) {
+      return NextResponse.json({ error: 'Forbidden - Sender or Admin role required' }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const template = getTemplate(id);
+
+    if (!template) {
+      return apiError(new NotFoundError('Template', id), `GET /api/templates/${id}`);
+    }
+
+    return NextResponse.json({ template });
+  } catch (error) {
+    return apiError(error, 'GET /api/templates/[id]');
+  }
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    // Check authentication and permission
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    if (!userHasPermission(user, 'send')) {
+      return NextResponse.json({ error: 'Forbidden - Sender or Admin role required' }, { status: 403 });
+    }
+
+    const { id } = await params;
+
+    // Parse JSON body safely
+    const { data: body, error: parseError } =
+      await safeJsonParse<Partial<MessageTemplateFormData>>(request);
+
+    if (parseError) {
+      return apiError(parseError, `PATCH /api/templates/${id}`);
+    }
+    if (!body || Object.keys(body).length === 0) {
+      return apiError(
+        new ValidationError('No fields provided to update'),
+        `PATCH /api/templates/${id}`
+      );
+    }
+
+    const existing = getTemplate(id);
+    if (!existing) {
+      return apiError(new NotFoundError('Template', id), `PATCH /api/templates/${id}`);
+    }
+
+    // Senders can only change their own templates
+    if (existing.createdBy !== user.id && !canManage(user.role)) {
+      return NextResponse.json({ error: 'Forbidden - Not the creator of this template' }, { status: 403 });
+    }
+
+    const merged: MessageTemplateFormData = {
+      name: existing.name,
+      type: existing.type,
+      content: existing.content,
+      imageUrl: existing.imageUrl,
+      videoUrl: existing.videoUrl,
+      audioUrl: existing.audioUrl,
+      audioAutoplay: existing.audioAutoplay,
+      targetDevices: existing.targetDevices,
+      targetGroups: existing.targetGroups,
+      targetTags: existing.targetTags,
+      ...body,
+    };
+
+    const validationError = validationResultToError(validateTemplateData(merged, id));
+    if (validationError) {
+      return apiError(validationError, `PATCH /api/templates/${id}`);
+    }
+
+    let template;
+    try {
+      template = updateTemplate(id, toTemplateFields(merged));
+    } catch (dbError) {
+      throw new DatabaseError('Failed to update template', dbError);
+    }
+
+    if (!template) {
+      return apiError(new NotFoundError('Template', id), `PATCH /api/templates/${id}`);
+    }
+
+    return NextResponse.json({ template });
+  } catch (error) {
+    return apiError(error, 'PATCH /api/templates/[id]');
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    // Check authentication and permission
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    if (!userHasPermission(user, 'send')) {
+      return NextResponse.json({ error: 'Forbidden - Sender or Admin role required' }, { status: 403 });
+    }
+
+    const { id } = await params;
+
+    const existing = getTemplate(id);
+    if (!existing) {
+      return apiError(new NotFoundError('Template', id), `DELETE /api/templates/${id}`);
+    }
+
+    // Senders can only delete their own templates
+    if (existing.createdBy !== user.id && !canManage(user.role)) {
+      return NextResponse.json({ error: 'Forbidden - Not the creator of this template' }, { status: 403 });
+    }
+
+    try {
+      deleteTemplate(id);
+    } catch (dbError) {
+      throw new DatabaseError('Failed to delete template', dbError);
+    }
+
+    return NextResponse.json({ success: true, deletedId: id });
+  } catch (error) {
+    return apiError(error, 'DELETE /api/templates/[id]');
+  }
+}
@@ -0,0 +1,78 @@
+/**
+ * CreaBomber API - Message Templates Collection
+ * GET /api/templates - Returns all message templates
+ * POST /api/templates - Creates a message template
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getTemplates, createTemplate } from '@/lib/db';
+import {
+  apiError,
+  ValidationError,
+  DatabaseError,
+  validationResultToError,
+  safeJsonParse,
+} from '@/lib/errors';
+import { getCurrentUser, userHasPermission } from '@/lib/auth/getUser';
+import { validateTemplateData, toTemplateFields } from '@/lib/templates';
+import type { MessageTemplateFormData } from '@/types';
+
+export async function GET() {
+  try {
+    // Check authentication and permission
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    if (!userHasPermission(user, 'send')) {
+      return NextResponse.json({ error: 'Forbidden - Sender or Admin role required' }, { status: 403 });
+    }
+
+    const templates = getTemplates();
+    return NextResponse.json({ templates });
+  } catch (error) {
+    return apiError(
+      new DatabaseError('Failed to fetch templates', error),
+      'GET /api/templates'
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    // Check authentication and permission
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    if (!userHasPermission(user, 'send')) {
+      return NextResponse.json({ error: 'Forbidden - Sender or Admin role required' }, { status: 403 });
+    }
+
+    // Parse JSON body safely
+    const { data: body, error: parseError } =
+      await safeJsonParse<MessageTemplateFormData>(request);
+
+    if (parseError || !body) {
+      return apiError(parseError ?? new ValidationError('Request body is required'), 'POST /api/templates');
+    }
+
+    const validationError = validationResultToError(validateTemplateData(body));
+    if (validationError) {
+      return apiError(validationError, 'POST /api/templates');
+    }
+
+    let template;
+    try {
+      template = createTemplate({ ...toTemplateFields(body), createdBy: user.id });
+    } catch (dbError) {
+      throw new DatabaseError('Failed to create template', dbError);
+    }
+
+    console.log(`[API] Template "${template.name}" created by ${user.email}`);
+
+    return NextResponse.json({ template }, { status: 201 });
+  } catch (error) {
+    return apiError(error, 'POST /api/templates');
+  }
+}
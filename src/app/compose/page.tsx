@@ -1,23 +1,27 @@
 'use client';
 
-import { useState, useRef, useCallback } from 'react';
+import { useState, useRef, useCallback, useMemo } from 'react';
 import { useRouter } from 'next/navigation';
 import { MessageComposer, MessageComposerRef, MessageData } from '@/components/messages';
 import { PreviewModal } from '@/components/preview';
-import { DeviceSelector } from '@/components/devices';
+import { DeviceSelector, TargetGroupSelector } from '@/components/devices';
 import { Card, Badge, PageTransition, SuccessAnimation, SkeletonDeviceCard } from '@/components/ui';
 import { AccessDenied } from '@/components/ui/AccessDenied';
-import { useSocket, useDevices, useMessages, useSoundNotification, useKeyboardShortcuts, useAuth } from '@/hooks';
+import { useSocket, useDevices, useDeviceGroups, useMessages, useTemplates, useSoundNotification, useKeyboardShortcuts, useAuth } from '@/hooks';
 import { useToast } from '@/contexts';
 import { BroadcastToggle, DeviceStatusPanel } from '@/components/devices';
+import { resolveTargetDevices } from '@/lib/device-targets';
+import type { MessageTemplate } from '@/types';
 
 export default function ComposePage() {
-  const { canSend: userCanSend, loading: authLoading } = useAuth();
+  const { user, canSend: userCanSend, canManage: userCanManage, loading: authLoading } = useAuth();
   const router = useRouter();
   const composerRef = useRef<MessageComposerRef>(null);
   const toast = useToast();
   const { playSend, playSuccess, playError } = useSoundNotification();
   const [selectedDevices, setSelectedDevices] = useState<string[]>([]);
+  const [selectedGroups, setSelectedGroups] = useState<string[]>([]);
+  const [selectedTags, setSelectedTags] = useState<string[]>([]);
   const [broadcastMode, setBroadcastMode] = useState<'all' | 'selected'>('all');
   const [previewOpen, setPreviewOpen] = useState(false);
   const [previewMessage, setPreviewMessage] = useState<MessageData | null>(null);
@@ -27,16 +31,74 @@ export default function ComposePage() {
   // Use real hooks for data management
   const { socket, status: socketStatus, isConnected } = useSocket();
   const { devices, loading: devicesLoading, error: devicesError } = useDevices({ socket });
-  const { createMessage, creating } = useMessages({ socket, autoFetch: false });
+  const { groups } = useDeviceGroups({ socket });
+  const { createMessage, scheduleMessage, creating } = useMessages({ socket, autoFetch: false });
+  const { templates, create: createTemplate, remove: removeTemplate } = useTemplates();
+
+  // All tags in use, for the tag chips
+  const availableTags = useMemo(
+    () => [...new Set(devices.flatMap((d) => d.tags))].sort(),
+    [devices]
+  );
 
   // Get the effective target devices based on broadcast mode
+  // Groups and tags are resolved here for the count; the server resolves them again when sending
   const getTargetDevices = useCallback(() => {
     if (broadcastMode === 'all') {
       // In broadcast mode, target all online devices
       return devices.filter((d) => d.status === 'online').map((d) => d.id);
     }
-    return selectedDevices;
-  }, [broadcastMode, devices, selectedDevices]);
+    return resolveTargetDevices(
+      { deviceIds: selectedDevices, groupIds: selectedGroups, tags: selectedTags },
+      devices,
+      groups
+    );
+  }, [broadcastMode, devices, groups, selectedDevices, selectedGroups, selectedTags]);
+
+  // Apply a template's default targets (none = all online devices)
+  const handleTemplateApply = useCallback((template: MessageTemplate) => {
+    const deviceIds = template.targetDevices.filter((id) => devices.some((d) => d.id === id));
+    const groupIds = template.targetGroups.filter((id) => groups.some((g) => g.id === id));
+    const hasTargets = deviceIds.length > 0 || groupIds.length > 0 || template.targetTags.length > 0;
+
+    setBroadcastMode(hasTargets ? 'selected' : 'all');
+    setSelectedDevices(deviceIds);
+    setSelectedGroups(groupIds);
+    setSelectedTags(template.targetTags);
+  }, [devices, groups]);
+
+  // Save the composed message with the current targets as defaults
+  const handleSaveTemplate = useCallback(async (name: string, data: MessageData) => {
+    const isSelected = broadcastMode === 'selected';
+    try {
+      await createTemplate({
+        name,
+        type: data.type,
+        content: data.content,
+        imageUrl: data.imageUrl,
+        videoUrl: data.videoUrl,
+        audioUrl: data.audioUrl,
+        audioAutoplay: data.audioAutoplay,
+        targetDevices: isSelected ? selectedDevices : [],
+        targetGroups: isSelected ? selectedGroups : [],
+        targetTags: isSelected ? selectedTags : [],
+      });
+      toast.success(`Template "${name}" saved`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save template');
+      throw error;
+    }
+  }, [broadcastMode, selectedDevices, selectedGroups, selectedTags, createTemplate, toast]);
+
+  const handleDeleteTemplate = useCallback(async (id: string) => {
+    try {
+      await removeTemplate(id);
+      toast.success('Template deleted');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to delete template');
+      throw error;
+    }
+  }, [removeTemplate, toast]);
 
   const handlePreview = (data: MessageData) => {
     // Preview is always allowed - user can see the notification
@@ -52,7 +114,7 @@ export default function ComposePage() {
       toast.error(
         broadcastMode === 'all'
           ? 'No devices are online'
-          : 'Please select at least one device'
+          : 'Please select at least one device, group or tag'
       );
       playError();
       return;
@@ -62,15 +124,34 @@ export default function ComposePage() {
     playSend();
 
     try {
-      await createMessage({
+      const isSelected = broadcastMode === 'selected';
+      const payload = {
         type: data.type,
         content: data.content,
-        targetDevices: targetDevices,
+        targetDevices: isSelected ? selectedDevices : targetDevices,
+        targetGroups: isSelected && selectedGroups.length > 0 ? selectedGroups : undefined,
+        targetTags: isSelected && selectedTags.length > 0 ? selectedTags : undefined,
         imageUrl: data.imageUrl,
         videoUrl: data.videoUrl,
         audioUrl: data.audioUrl,
         audioAutoplay: data.audioAutoplay,
-      });
+        replyOptions: data.replyOptions,
+        allowFreeText: data.allowFreeText,
+        pollOptions: data.pollOptions,
+        pollClosesAt: data.pollClosesAt,
+        expiresAt: data.expiresAt,
+        priority: data.priority,
+        overrideDnd: data.overrideDnd,
+        placeholderValues: data.placeholderValues,
+        timezone: data.timezone,
+      };
+
+      if (data.sendAt && data.timezone) {
+        const scheduled = await scheduleMessage({ ...payload, sendAt: data.sendAt, timezone: data.timezone });
+        toast.success(`Message scheduled for ${scheduled.sendAt.toLocaleString()}`);
+      } else {
+        await createMessage(payload);
+      }
 
       setIsSending(false);
       setShowSuccess(true);
@@ -86,7 +167,7 @@ export default function ComposePage() {
       playError();
       setIsSending(false);
     }
-  }, [getTargetDevices, broadcastMode, toast, playError, playSend, playSuccess, createMessage, router]);
+  }, [getTargetDevices, broadcastMode, selectedDevices, selectedGroups, selectedTags, toast, playError, playSend, playSuccess, createMessage, scheduleMessage, router]);
 
   // Handler to trigger send via keyboard shortcut
   const handleKeyboardSend = useCallback(() => {
@@ -163,9 +244,15 @@ export default function ComposePage() {
           <div className="lg:col-span-2">
             <MessageComposer
               ref={composerRef}
-              selectedDeviceCount={selectedDevices.length}
+              selectedDeviceCount={getTargetDevices().length}
               onPreview={handlePreview}
               onSend={handleSend}
+              templates={templates}
+              onTemplateApply={handleTemplateApply}
+              onSaveTemplate={handleSaveTemplate}
+              onDeleteTemplate={handleDeleteTemplate}
+              canDeleteTemplate={(template) => userCanManage || template.createdBy === user?.id}
+              canOverrideDnd={userCanManage}
             />
 
             {/* Loading overlay during send */}
@@ -199,7 +286,7 @@ export default function ComposePage() {
                 mode={broadcastMode}
                 onChange={setBroadcastMode}
                 onlineCount={devices.filter((d) => d.status === 'online').length}
-                selectedCount={selectedDevices.length}
+                selectedCount={getTargetDevices().length}
               />
             </Card>
 
@@ -247,11 +334,21 @@ export default function ComposePage() {
                   {broadcastMode === 'all' ? (
                     <DeviceStatusPanel devices={devices} />
                   ) : (
-                    <DeviceSelector
-                      devices={devices}
-                      selectedIds={selectedDevices}
-                      onChange={setSelectedDevices}
-                    />
+                    <div className="space-y-4">
+                      <TargetGroupSelector
+                        groups={groups}
+                        tags={availableTags}
+                        selectedGroupIds={selectedGroups}
+                        selectedTags={selectedTags}
+                        onGroupsChange={setSelectedGroups}
+                        onTagsChange={setSelectedTags}
+                      />
+                      <DeviceSelector
+                        devices={devices}
+                        selectedIds={selectedDevices}
+                        onChange={setSelectedDevices}
+                      />
+                    </div>
                   )}
                 </div>
               )}
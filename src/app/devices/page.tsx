@@ -2,11 +2,11 @@
 
 import { useState, useCallback, useEffect, useRef } from 'react';
 import { clsx } from 'clsx';
-import { useSocket, useDevices, useSoundNotification, useAuth } from '@/hooks';
-import { DeviceList, DeviceDetailModal } from '@/components/devices';
+import { useSocket, useDevices, useDeviceGroups, useSoundNotification, useAuth, type DeviceGroupInput } from '@/hooks';
+import { DeviceList, DeviceDetailModal, DeviceGroupsPanel, EnrollmentCodeModal } from '@/components/devices';
 import { Button, PageTransition, DeviceListSkeleton } from '@/components/ui';
 import { useToast } from '@/contexts';
-import type { Device } from '@/types';
+import type { EnrollmentCode, QuietHours } from '@/types';
 
 type FilterTab = 'all' | 'online' | 'offline';
 
@@ -23,11 +23,16 @@ export default function DevicesPage() {
   const { devices, loading, error, refresh, onlineCount, offlineCount } = useDevices({
     socket,
   });
+  const { groups, create: createGroup, update: updateGroup, remove: removeGroup } = useDeviceGroups({
+    socket,
+  });
   const { canManage } = useAuth();
 
   const [activeFilter, setActiveFilter] = useState<FilterTab>('all');
-  const [selectedDevice, setSelectedDevice] = useState<Device | null>(null);
+  const [selectedDeviceId, setSelectedDeviceId] = useState<string | null>(null);
   const [isRefreshing, setIsRefreshing] = useState(false);
+  const [enrollment, setEnrollment] = useState<EnrollmentCode | null>(null);
+  const [isIssuingCode, setIsIssuingCode] = useState(false);
   const wasConnectedRef = useRef(true);
 
   // Show warning toast when connection is lost
@@ -75,6 +80,116 @@ export default function DevicesPage() {
     [refresh, toast, playSuccess, playError]
   );
 
+  // Replace a device's tags (the list updates via devices:update)
+  const handleTagsChange = useCallback(
+    async (deviceId: string, tags: string[]) => {
+      try {
+        const response = await fetch(`/api/devices/${deviceId}`, {
+          method: 'PATCH',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ tags }),
+        });
+
+        if (!response.ok) {
+          const data = await response.json();
+          throw new Error(data.error || 'Failed to update tags');
+        }
+
+        await refresh();
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Failed to update tags';
+        toast.error(message);
+        playError();
+        throw err;
+      }
+    },
+    [refresh, toast, playError]
+  );
+
+  // Set or clear a device's quiet hours (the list updates via devices:update)
+  const handleQuietHoursChange = useCallback(
+    async (deviceId: string, quietHours: QuietHours | null) => {
+      try {
+        const response = await fetch(`/api/devices/${deviceId}`, {
+          method: 'PATCH',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ quietHours }),
+        });
+
+        if (!response.ok) {
+          const data = await response.json();
+          throw new Error(data.error || 'Failed to update quiet hours');
+        }
+
+        toast.success(quietHours ? 'Quiet hours saved' : 'Quiet hours cleared');
+        await refresh();
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Failed to update quiet hours';
+        toast.error(message);
+        playError();
+        throw err;
+      }
+    },
+    [refresh, toast, playError]
+  );
+
+  // Group changes share the toast and sound feedback
+  const withGroupFeedback = useCallback(
+    async (action: () => Promise<unknown>, successMessage: string) => {
+      try {
+        await action();
+        toast.success(successMessage);
+        playSuccess();
+      } catch (err) {
+        toast.error(err instanceof Error ? err.message : 'Failed to save group');
+        playError();
+        throw err;
+      }
+    },
+    [toast, playSuccess, playError]
+  );
+
+  const handleCreateGroup = useCallback(
+    (data: Required<DeviceGroupInput>) => withGroupFeedback(() => createGroup(data), 'Group created'),
+    [withGroupFeedback, createGroup]
+  );
+
+  const handleUpdateGroup = useCallback(
+    (id: string, data: DeviceGroupInput) => withGroupFeedback(() => updateGroup(id, data), 'Group saved'),
+    [withGroupFeedback, updateGroup]
+  );
+
+  const handleDeleteGroup = useCallback(
+    (id: string) => withGroupFeedback(() => removeGroup(id), 'Group deleted'),
+    [withGroupFeedback, removeGroup]
+  );
+
+  // Issue a one-time enrollment code for a new client
+  const handleIssueEnrollmentCode = useCallback(async () => {
+    setIsIssuingCode(true);
+    try {
+      const response = await fetch('/api/devices/enrollment', {
+        method: 'POST',
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to create enrollment code');
+      }
+
+      setEnrollment(data.enrollment);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to create enrollment code';
+      toast.error(message);
+      playError();
+    } finally {
+      setIsIssuingCode(false);
+    }
+  }, [toast, playError]);
+
+  // Look up the selected device so tag changes show up in the open modal
+  const selectedDevice = devices.find((d) => d.id === selectedDeviceId) ?? null;
+
   // Get count for each filter tab
   const getTabCount = (filter: FilterTab): number => {
     switch (filter) {
@@ -115,6 +230,17 @@ export default function DevicesPage() {
                 {socketStatus}
               </span>
             </div>
+            {/* Enroll Button (admins only) */}
+            {canManage && (
+              <Button
+                variant="primary"
+                size="sm"
+                onClick={handleIssueEnrollmentCode}
+                loading={isIssuingCode}
+              >
+                Enroll Device
+              </Button>
+            )}
             {/* Refresh Button */}
             <Button
               variant="secondary"
@@ -193,18 +319,41 @@ export default function DevicesPage() {
             <DeviceList
               devices={devices}
               activeFilter={activeFilter}
-              onDeviceClick={setSelectedDevice}
+              onDeviceClick={(device) => setSelectedDeviceId(device.id)}
             />
           </div>
         )}
 
+        {/* Device Groups */}
+        {!loading && (
+          <DeviceGroupsPanel
+            groups={groups}
+            devices={devices}
+            onCreate={canManage ? handleCreateGroup : undefined}
+            onUpdate={canManage ? handleUpdateGroup : undefined}
+            onDelete={canManage ? handleDeleteGroup : undefined}
+          />
+        )}
+
         {/* Device Detail Modal */}
         {selectedDevice && (
           <DeviceDetailModal
             device={selectedDevice}
+            groups={groups}
             isOpen={!!selectedDevice}
-            onClose={() => setSelectedDevice(null)}
+            onClose={() => setSelectedDeviceId(null)}
             onRemove={canManage ? handleRemoveDevice : undefined}
+            onTagsChange={canManage ? handleTagsChange : undefined}
+            onQuietHoursChange={canManage ? handleQuietHoursChange : undefined}
+          />
+        )}
+
+        {/* Enrollment Code Modal */}
+        {enrollment && (
+          <EnrollmentCodeModal
+            enrollment={enrollment}
+            isOpen={!!enrollment}
+            onClose={() => setEnrollment(null)}
           />
         )}
       </div>
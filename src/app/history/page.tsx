@@ -16,10 +16,11 @@ const MESSAGE_TYPE_OPTIONS = [
   { value: MessageType.TEXT_IMAGE, label: 'Image' },
   { value: MessageType.VIDEO, label: 'Video' },
   { value: MessageType.AUDIO, label: 'Audio' },
+  { value: MessageType.POLL, label: 'Poll' },
 ];
 
 export default function HistoryPage() {
-  const { canSend: userCanSend, loading: authLoading } = useAuth();
+  const { user, canSend: userCanSend, canManage: userCanManage, loading: authLoading } = useAuth();
   const toast = useToast();
   const { socket, status: socketStatus, isConnected } = useSocket();
   const { devices } = useDevices({ socket });
@@ -68,6 +69,8 @@ export default function HistoryPage() {
     pagination,
     refresh,
     loadMore,
+    recallMessage,
+    editMessage,
   } = useMessages({
     socket,
     type: typeFilter || undefined,
@@ -78,6 +81,11 @@ export default function HistoryPage() {
   const [selectedMessage, setSelectedMessage] = useState<Message | null>(null);
   const [isRefreshing, setIsRefreshing] = useState(false);
 
+  // Keep the open modal in sync with live delivery and read receipt updates
+  const liveSelectedMessage = selectedMessage
+    ? messages.find((m) => m.id === selectedMessage.id) ?? selectedMessage
+    : null;
+
   // Handle manual refresh
   const handleRefresh = useCallback(async () => {
     setIsRefreshing(true);
@@ -88,6 +96,28 @@ export default function HistoryPage() {
     }
   }, [refresh]);
 
+  // Recall the open message from devices that have not closed it
+  const handleRecall = async (id: string) => {
+    try {
+      await recallMessage(id);
+      toast.success('Message recalled');
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to recall message');
+      throw err;
+    }
+  };
+
+  // Edit the open message; devices that still have it update it in place
+  const handleEdit = async (id: string, content: string, placeholderValues: Record<string, string>) => {
+    try {
+      await editMessage(id, { content, placeholderValues });
+      toast.success('Message updated');
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to update message');
+      throw err;
+    }
+  };
+
   // Handle filter reset
   const handleResetFilters = useCallback(() => {
     setTypeFilter('');
@@ -225,12 +255,22 @@ export default function HistoryPage() {
         )}
 
         {/* Message Detail Modal */}
-        {selectedMessage && (
+        {liveSelectedMessage && (
           <MessageDetailModal
-            message={selectedMessage}
+            message={liveSelectedMessage}
             devices={devices}
             isOpen={!!selectedMessage}
             onClose={() => setSelectedMessage(null)}
+            onRecall={
+              userCanManage || (userCanSend && liveSelectedMessage.senderId === user?.id)
+                ? handleRecall
+                : undefined
+            }
+            onEdit={
+              userCanManage || (userCanSend && liveSelectedMessage.senderId === user?.id)
+                ? handleEdit
+                : undefined
+            }
           />
         )}
       </div>
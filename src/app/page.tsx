@@ -20,6 +20,8 @@ function getMessageTypeIcon(type: MessageType): string {
       return '🎬';
     case MessageType.AUDIO:
       return '🔊';
+    case MessageType.POLL:
+      return '📊';
     default:
       return '📩';
   }
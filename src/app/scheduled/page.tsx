@@ -2,7 +2,7 @@
 
 import { useState, useCallback } from 'react';
 import { Plus, Calendar, AlertCircle, RefreshCw } from 'lucide-react';
-import { useSocket, useDevices, useScheduledMessages } from '@/hooks';
+import { useSocket, useDevices, useDeviceGroups, useScheduledMessages, useAuth } from '@/hooks';
 import { ScheduledMessageForm, ScheduledMessageList } from '@/components/scheduled';
 import { Button, PageTransition, Card } from '@/components/ui';
 import { useToast } from '@/contexts';
@@ -12,6 +12,8 @@ export default function ScheduledPage() {
   const toast = useToast();
   const { socket } = useSocket();
   const { devices } = useDevices({ socket });
+  const { groups } = useDeviceGroups({ socket });
+  const { canManage } = useAuth();
   const {
     messages,
     loading,
@@ -118,15 +120,15 @@ export default function ScheduledPage() {
                 </h3>
                 <p className="text-slate-300 text-sm mb-4">
                   Um geplante Nachrichten zu nutzen, muessen die Supabase-Umgebungsvariablen
-                  konfiguriert werden:
+                  auf dem Server konfiguriert werden:
                 </p>
                 <div className="bg-slate-900/50 rounded-lg p-4 font-mono text-sm text-slate-400">
                   <p>NEXT_PUBLIC_SUPABASE_URL=https://xxx.supabase.co</p>
-                  <p>NEXT_PUBLIC_SUPABASE_ANON_KEY=eyJ...</p>
+                  <p>SUPABASE_SERVICE_ROLE_KEY=eyJ...</p>
                 </div>
                 <p className="text-slate-400 text-sm mt-4">
-                  Fuehre ausserdem die Migration in{' '}
-                  <code className="text-blue-400">supabase/migrations/001_scheduled_messages.sql</code>{' '}
+                  Fuehre ausserdem die Migrationen in{' '}
+                  <code className="text-blue-400">supabase/migrations/</code>{' '}
                   aus.
                 </p>
               </div>
@@ -167,13 +169,15 @@ export default function ScheduledPage() {
               Aktualisieren
             </Button>
             {/* Add Button */}
-            <Button
-              variant="primary"
-              onClick={handleOpenCreate}
-              iconLeft={<Plus className="w-4 h-4" />}
-            >
-              Neue Nachricht
-            </Button>
+            {canManage && (
+              <Button
+                variant="primary"
+                onClick={handleOpenCreate}
+                iconLeft={<Plus className="w-4 h-4" />}
+              >
+                Neue Nachricht
+              </Button>
+            )}
           </div>
         </div>
 
@@ -184,7 +188,7 @@ export default function ScheduledPage() {
           </span>
           <span className="text-slate-600">|</span>
           <span>
-            {messages.filter((m) => m.recurring).length} jaehrlich wiederkehrend
+            {messages.filter((m) => m.recurrence).length} wiederkehrend
           </span>
         </div>
 
@@ -206,8 +210,8 @@ export default function ScheduledPage() {
         {/* Message List */}
         <ScheduledMessageList
           messages={messages}
-          onEdit={handleEdit}
-          onDelete={handleDelete}
+          onEdit={canManage ? handleEdit : undefined}
+          onDelete={canManage ? handleDelete : undefined}
           isLoading={loading}
         />
 
@@ -217,11 +221,12 @@ export default function ScheduledPage() {
           onClose={handleCloseForm}
           onSubmit={editingMessage ? handleUpdate : handleCreate}
           devices={devices}
+          groups={groups}
           initialData={
             editingMessage
               ? {
                   date: editingMessage.date,
-                  recurring: editingMessage.recurring,
+                  recurrence: editingMessage.recurrence,
                   type: editingMessage.type,
                   content: editingMessage.content,
                   imageUrl: editingMessage.imageUrl,
@@ -230,6 +235,8 @@ export default function ScheduledPage() {
                   videoAutoplay: editingMessage.videoAutoplay,
                   audioAutoplay: editingMessage.audioAutoplay,
                   targetDevices: editingMessage.targetDevices,
+                  targetGroups: editingMessage.targetGroups,
+                  targetTags: editingMessage.targetTags,
                 }
               : undefined
           }
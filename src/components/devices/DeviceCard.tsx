@@ -3,6 +3,7 @@
 import { clsx } from 'clsx';
 import { formatDistanceToNow } from 'date-fns';
 import { Badge } from '@/components/ui';
+import { DND_HOLD_RULE } from '@/lib/quiet-hours';
 import type { Device } from '@/types';
 
 interface DeviceCardProps {
@@ -37,10 +38,28 @@ export function DeviceCard({ device, onClick, className }: DeviceCardProps) {
           <h3 className="font-medium text-white truncate">{device.name}</h3>
           <p className="text-sm text-slate-400 truncate">{device.hostname}</p>
         </div>
-        <Badge variant={isOnline ? 'success' : 'neutral'} size="sm">
-          {isOnline ? 'Online' : 'Offline'}
-        </Badge>
+        <div className="flex flex-shrink-0 items-center gap-1">
+          {device.doNotDisturb && (
+            <span title={`Do not disturb: ${DND_HOLD_RULE}`}>
+              <Badge variant="warning" size="sm">
+                DND
+              </Badge>
+            </span>
+          )}
+          <Badge variant={isOnline ? 'success' : 'neutral'} size="sm">
+            {isOnline ? 'Online' : 'Offline'}
+          </Badge>
+        </div>
       </div>
+      {device.tags.length > 0 && (
+        <div className="mt-3 flex flex-wrap gap-1">
+          {device.tags.map((tag) => (
+            <span key={tag} className="px-1.5 py-0.5 rounded bg-slate-700 text-xs text-slate-300">
+              #{tag}
+            </span>
+          ))}
+        </div>
+      )}
       <p className="mt-3 text-xs text-slate-500">Last seen {lastSeenRelative}</p>
     </Component>
   );
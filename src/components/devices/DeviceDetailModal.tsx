@@ -6,23 +6,36 @@ import { clsx } from 'clsx';
 import { Button } from '@/components/ui/Button';
 import { Badge } from '@/components/ui/Badge';
 import { useEscapeKey } from '@/hooks';
-import type { Device } from '@/types';
+import { normalizeTag, MAX_TAG_LENGTH, MAX_TAGS_PER_DEVICE } from '@/lib/device-targets';
+import { describeQuietHours, DND_HOLD_RULE } from '@/lib/quiet-hours';
+import type { Device, DeviceGroup, QuietHours } from '@/types';
 
 interface DeviceDetailModalProps {
   device: Device;
+  groups?: DeviceGroup[];
   isOpen: boolean;
   onClose: () => void;
   onRemove?: (deviceId: string) => Promise<void>;
+  onTagsChange?: (deviceId: string, tags: string[]) => Promise<void>;  // omitted = read-only tags
+  onQuietHoursChange?: (deviceId: string, quietHours: QuietHours | null) => Promise<void>;  // omitted = read-only
 }
 
 export function DeviceDetailModal({
   device,
+  groups = [],
   isOpen,
   onClose,
   onRemove,
+  onTagsChange,
+  onQuietHoursChange,
 }: DeviceDetailModalProps) {
   const [isRemoving, setIsRemoving] = useState(false);
   const [showConfirmRemove, setShowConfirmRemove] = useState(false);
+  const [tagInput, setTagInput] = useState('');
+  const [isSavingTags, setIsSavingTags] = useState(false);
+  const [quietStart, setQuietStart] = useState(device.quietHours?.start ?? '22:00');
+  const [quietEnd, setQuietEnd] = useState(device.quietHours?.end ?? '07:00');
+  const [isSavingQuietHours, setIsSavingQuietHours] = useState(false);
 
   // Close on Escape key
   useEscapeKey(onClose, isOpen);
@@ -39,6 +52,52 @@ export function DeviceDetailModal({
   const createdAtFormatted = format(createdAtDate, 'PPpp');
 
   const isOnline = device.status === 'online';
+  const deviceGroups = groups.filter((group) => group.deviceIds.includes(device.id));
+
+  const saveTags = async (tags: string[]) => {
+    if (!onTagsChange) return;
+    setIsSavingTags(true);
+    try {
+      await onTagsChange(device.id, tags);
+      setTagInput('');
+    } catch {
+      // Error handling is done in parent
+    } finally {
+      setIsSavingTags(false);
+    }
+  };
+
+  const handleAddTag = (e: React.FormEvent) => {
+    e.preventDefault();
+    const tag = normalizeTag(tagInput);
+    if (!tag || device.tags.includes(tag)) {
+      setTagInput('');
+      return;
+    }
+    saveTags([...device.tags, tag]);
+  };
+
+  const saveQuietHours = async (quietHours: QuietHours | null) => {
+    if (!onQuietHoursChange) return;
+    setIsSavingQuietHours(true);
+    try {
+      await onQuietHoursChange(device.id, quietHours);
+    } catch {
+      // Error handling is done in parent
+    } finally {
+      setIsSavingQuietHours(false);
+    }
+  };
+
+  const handleSaveQuietHours = (e: React.FormEvent) => {
+    e.preventDefault();
+    saveQuietHours({
+      start: quietStart,
+      end: quietEnd,
+      // Times are in the zone they were entered in, kept when editing
+      timezone: device.quietHours?.timezone ?? Intl.DateTimeFormat().resolvedOptions().timeZone,
+    });
+  };
 
   const handleRemove = async () => {
     if (!onRemove) return;
@@ -119,6 +178,116 @@ export function DeviceDetailModal({
               subvalue={lastSeenFormatted}
             />
             <DetailRow label="Registered" value={createdAtFormatted} />
+            {deviceGroups.length > 0 && (
+              <DetailRow label="Groups" value={deviceGroups.map((group) => group.name).join(', ')} />
+            )}
+          </div>
+
+          {/* Tags */}
+          <div className="flex flex-col gap-2">
+            <span className="text-xs text-slate-500 uppercase tracking-wide">Tags</span>
+            {device.tags.length > 0 ? (
+              <div className="flex flex-wrap gap-1">
+                {device.tags.map((tag) => (
+                  <span
+                    key={tag}
+                    className="flex items-center gap-1 px-2 py-0.5 rounded-md bg-slate-700 text-sm text-slate-200"
+                  >
+                    #{tag}
+                    {onTagsChange && (
+                      <button
+                        type="button"
+                        onClick={() => saveTags(device.tags.filter((t) => t !== tag))}
+                        disabled={isSavingTags}
+                        className="text-slate-400 hover:text-white disabled:opacity-50"
+                        aria-label={`Remove tag ${tag}`}
+                      >
+                        ×
+                      </button>
+                    )}
+                  </span>
+                ))}
+              </div>
+            ) : (
+              <span className="text-sm text-slate-500">No tags</span>
+            )}
+            {onTagsChange && device.tags.length < MAX_TAGS_PER_DEVICE && (
+              <form onSubmit={handleAddTag} className="flex gap-2">
+                <input
+                  type="text"
+                  value={tagInput}
+                  onChange={(e) => setTagInput(e.target.value)}
+                  maxLength={MAX_TAG_LENGTH}
+                  placeholder="Add tag, e.g. office"
+                  className="flex-1 px-3 py-1.5 bg-slate-900 border border-slate-700 rounded-md text-sm text-white placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+                <Button type="submit" variant="secondary" size="sm" loading={isSavingTags} disabled={!tagInput.trim()}>
+                  Add
+                </Button>
+              </form>
+            )}
+          </div>
+
+          {/* Do Not Disturb */}
+          <div className="flex flex-col gap-2">
+            <span className="text-xs text-slate-500 uppercase tracking-wide">Do Not Disturb</span>
+            <div className="flex items-center gap-2">
+              <Badge variant={device.doNotDisturb ? 'warning' : 'neutral'} size="sm">
+                {device.doNotDisturb ? 'Active' : 'Off'}
+              </Badge>
+              {device.doNotDisturb && (
+                <span className="text-sm text-slate-400">
+                  {device.dndEnabled ? 'Switched on at the device' : 'Quiet hours'}
+                </span>
+              )}
+            </div>
+            <span className="text-sm text-white">
+              {device.quietHours ? `Quiet hours ${describeQuietHours(device.quietHours)}` : 'No quiet hours'}
+            </span>
+            {onQuietHoursChange && (
+              <form onSubmit={handleSaveQuietHours} className="flex items-center gap-2">
+                <input
+                  type="time"
+                  value={quietStart}
+                  onChange={(e) => setQuietStart(e.target.value)}
+                  required
+                  aria-label="Quiet hours start"
+                  className="px-3 py-1.5 bg-slate-900 border border-slate-700 rounded-md text-sm text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+                <span className="text-sm text-slate-400">to</span>
+                <input
+                  type="time"
+                  value={quietEnd}
+                  onChange={(e) => setQuietEnd(e.target.value)}
+                  required
+                  aria-label="Quiet hours end"
+                  className="px-3 py-1.5 bg-slate-900 border border-slate-700 rounded-md text-sm text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+                <Button
+                  type="submit"
+                  variant="secondary"
+                  size="sm"
+                  loading={isSavingQuietHours}
+                  disabled={!quietStart || !quietEnd || quietStart === quietEnd}
+                >
+                  Save
+                </Button>
+                {device.quietHours && (
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => saveQuietHours(null)}
+                    disabled={isSavingQuietHours}
+                  >
+                    Clear
+                  </Button>
+                )}
+              </form>
+            )}
+            <span className="text-xs text-slate-500">
+              {DND_HOLD_RULE}
+            </span>
           </div>
         </div>
 
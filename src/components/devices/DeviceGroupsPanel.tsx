@@ -0,0 +1,197 @@
+'use client';
+
+import { useState } from 'react';
+import { clsx } from 'clsx';
+import { Button, Card, Input } from '@/components/ui';
+import { MAX_GROUP_NAME_LENGTH } from '@/lib/device-targets';
+import type { DeviceGroupInput } from '@/hooks';
+import type { Device, DeviceGroup } from '@/types';
+
+interface DeviceGroupsPanelProps {
+  groups: DeviceGroup[];
+  devices: Device[];
+  onCreate?: (data: Required<DeviceGroupInput>) => Promise<void>;  // omitted = read-only
+  onUpdate?: (id: string, data: DeviceGroupInput) => Promise<void>;
+  onDelete?: (id: string) => Promise<void>;
+}
+
+// null = closed, 'new' = create form, otherwise the id of the group being edited
+type EditingState = null | 'new' | string;
+
+export function DeviceGroupsPanel({
+  groups,
+  devices,
+  onCreate,
+  onUpdate,
+  onDelete,
+}: DeviceGroupsPanelProps) {
+  const [editing, setEditing] = useState<EditingState>(null);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+
+  const deviceNames = new Map(devices.map((device) => [device.id, device.name]));
+  const editingGroup = editing && editing !== 'new' ? groups.find((g) => g.id === editing) : undefined;
+
+  const handleDelete = async (id: string) => {
+    if (!onDelete) return;
+    setDeletingId(id);
+    try {
+      await onDelete(id);
+    } catch {
+      // Error handling is done in parent
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
+  const handleSubmit = async (data: Required<DeviceGroupInput>) => {
+    if (editingGroup) {
+      await onUpdate?.(editingGroup.id, data);
+    } else {
+      await onCreate?.(data);
+    }
+    setEditing(null);
+  };
+
+  return (
+    <Card
+      header={
+        <div className="flex items-center justify-between">
+          <div>
+            <h2 className="text-lg font-medium text-white">Groups</h2>
+            <p className="text-sm text-slate-400">Send to a group instead of picking devices one by one</p>
+          </div>
+          {onCreate && editing === null && (
+            <Button variant="secondary" size="sm" onClick={() => setEditing('new')}>
+              New Group
+            </Button>
+          )}
+        </div>
+      }
+    >
+      {editing !== null && (
+        <GroupForm
+          key={editing}
+          group={editingGroup}
+          devices={devices}
+          onSubmit={handleSubmit}
+          onCancel={() => setEditing(null)}
+        />
+      )}
+
+      {groups.length === 0 && editing === null ? (
+        <p className="text-sm text-slate-500">No groups yet</p>
+      ) : (
+        <ul className="divide-y divide-slate-700">
+          {groups.map((group) => (
+            <li key={group.id} className="flex items-center justify-between gap-3 py-3">
+              <div className="min-w-0">
+                <p className="text-white font-medium">
+                  {group.name}
+                  <span className="ml-2 text-xs text-slate-500">
+                    {group.deviceIds.length} device{group.deviceIds.length !== 1 ? 's' : ''}
+                  </span>
+                </p>
+                <p className="text-sm text-slate-400 truncate">
+                  {group.deviceIds.map((id) => deviceNames.get(id) ?? id).join(', ') || 'No devices'}
+                </p>
+              </div>
+              {(onUpdate || onDelete) && (
+                <div className="flex gap-2 flex-shrink-0">
+                  {onUpdate && (
+                    <Button variant="ghost" size="sm" onClick={() => setEditing(group.id)}>
+                      Edit
+                    </Button>
+                  )}
+                  {onDelete && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="text-red-400 hover:text-red-300"
+                      loading={deletingId === group.id}
+                      onClick={() => handleDelete(group.id)}
+                    >
+                      Delete
+                    </Button>
+                  )}
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </Card>
+  );
+}
+
+interface GroupFormProps {
+  group?: DeviceGroup;
+  devices: Device[];
+  onSubmit: (data: Required<DeviceGroupInput>) => Promise<void>;
+  onCancel: () => void;
+}
+
+function GroupForm({ group, devices, onSubmit, onCancel }: GroupFormProps) {
+  const [name, setName] = useState(group?.name ?? '');
+  const [deviceIds, setDeviceIds] = useState<string[]>(group?.deviceIds ?? []);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const toggleDevice = (id: string) => {
+    setDeviceIds((prev) => (prev.includes(id) ? prev.filter((d) => d !== id) : [...prev, id]));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    try {
+      await onSubmit({ name: name.trim(), deviceIds });
+    } catch {
+      // Error handling is done in parent
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="mb-4 p-4 bg-slate-900/50 rounded-lg border border-slate-700 space-y-3">
+      <Input
+        label="Group name"
+        value={name}
+        maxLength={MAX_GROUP_NAME_LENGTH}
+        onChange={(e) => setName(e.target.value)}
+        placeholder="e.g. Kids"
+      />
+      <div>
+        <span className="block text-sm font-medium text-slate-300 mb-1.5">Devices</span>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+          {devices.map((device) => (
+            <label
+              key={device.id}
+              className={clsx(
+                'flex items-center gap-2 px-3 py-2 rounded-md border cursor-pointer text-sm transition-colors',
+                deviceIds.includes(device.id)
+                  ? 'border-blue-500 bg-blue-500/10 text-white'
+                  : 'border-slate-700 text-slate-300 hover:border-slate-600'
+              )}
+            >
+              <input
+                type="checkbox"
+                checked={deviceIds.includes(device.id)}
+                onChange={() => toggleDevice(device.id)}
+                className="rounded border-slate-600 bg-slate-700 text-blue-600 focus:ring-blue-500"
+              />
+              <span className="truncate">{device.name}</span>
+            </label>
+          ))}
+        </div>
+      </div>
+      <div className="flex justify-end gap-2">
+        <Button type="button" variant="ghost" size="sm" onClick={onCancel} disabled={isSaving}>
+          Cancel
+        </Button>
+        <Button type="submit" variant="primary" size="sm" loading={isSaving} disabled={!name.trim()}>
+          {group ? 'Save Group' : 'Create Group'}
+        </Button>
+      </div>
+    </form>
+  );
+}
@@ -1,7 +1,8 @@
 'use client';
 
 import { clsx } from 'clsx';
-import { Button } from '@/components/ui';
+import { Button, Badge } from '@/components/ui';
+import { DND_HOLD_RULE } from '@/lib/quiet-hours';
 import type { Device } from '@/types';
 
 interface DeviceSelectorProps {
@@ -98,6 +99,13 @@ export function DeviceSelector({
                   {device.hostname}
                 </p>
               </div>
+              {device.doNotDisturb && (
+                <span title={`Do not disturb: ${DND_HOLD_RULE}`}>
+                  <Badge variant="warning" size="sm">
+                    DND
+                  </Badge>
+                </span>
+              )}
               <span
                 className={clsx(
                   'w-2 h-2 rounded-full',
@@ -0,0 +1,100 @@
+'use client';
+
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { Button } from '@/components/ui/Button';
+import { useEscapeKey } from '@/hooks';
+import type { EnrollmentCode } from '@/types';
+
+interface EnrollmentCodeModalProps {
+  enrollment: EnrollmentCode;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+export function EnrollmentCodeModal({ enrollment, isOpen, onClose }: EnrollmentCodeModalProps) {
+  const [copied, setCopied] = useState(false);
+
+  // Close on Escape key
+  useEscapeKey(onClose, isOpen);
+
+  if (!isOpen) return null;
+
+  const expiresAt =
+    typeof enrollment.expiresAt === 'string' ? new Date(enrollment.expiresAt) : enrollment.expiresAt;
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(enrollment.code);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch {
+      // Clipboard not available - code is still visible for manual copy
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center">
+      {/* Backdrop */}
+      <div
+        className="absolute inset-0 bg-black/60 backdrop-blur-sm"
+        onClick={onClose}
+        aria-hidden="true"
+      />
+
+      {/* Modal */}
+      <div className="relative bg-slate-800 rounded-lg border border-slate-700 shadow-xl w-full max-w-md mx-4 overflow-hidden">
+        {/* Header */}
+        <div className="flex items-center justify-between px-6 py-4 border-b border-slate-700">
+          <h2 className="text-lg font-semibold text-white">Enroll Device</h2>
+          <button
+            onClick={onClose}
+            className="text-slate-400 hover:text-white transition-colors p-1"
+            aria-label="Close modal"
+          >
+            <svg
+              className="w-5 h-5"
+              fill="none"
+              viewBox="0 0 24 24"
+              stroke="currentColor"
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M6 18L18 6M6 6l12 12"
+              />
+            </svg>
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="px-6 py-4 space-y-4">
+          <p className="text-sm text-slate-400">
+            Enter this code in the client&apos;s settings window. It can be used once.
+          </p>
+          <div className="bg-slate-900 rounded-lg border border-slate-700 py-6 text-center">
+            <code className="text-3xl font-mono tracking-widest text-white select-all">
+              {enrollment.code}
+            </code>
+          </div>
+          <p className="text-xs text-slate-500">
+            Expires at {format(expiresAt, 'p')}
+          </p>
+        </div>
+
+        {/* Footer */}
+        <div className="px-6 py-4 border-t border-slate-700 bg-slate-800/50">
+          <div className="flex gap-2 justify-end">
+            <Button variant="ghost" size="sm" onClick={onClose}>
+              Close
+            </Button>
+            <Button variant="secondary" size="sm" onClick={handleCopy}>
+              {copied ? 'Copied!' : 'Copy Code'}
+            </Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,86 @@
+'use client';
+
+import { clsx } from 'clsx';
+import type { DeviceGroup } from '@/types';
+
+interface TargetGroupSelectorProps {
+  groups: DeviceGroup[];
+  tags: string[];
+  selectedGroupIds: string[];
+  selectedTags: string[];
+  onGroupsChange: (groupIds: string[]) => void;
+  onTagsChange: (tags: string[]) => void;
+  groupsLabel?: string;
+  tagsLabel?: string;
+  className?: string;
+}
+
+function toggle(values: string[], value: string): string[] {
+  return values.includes(value) ? values.filter((v) => v !== value) : [...values, value];
+}
+
+/**
+ * Group and tag chips for targeting; the server resolves them to devices when sending
+ */
+export function TargetGroupSelector({
+  groups,
+  tags,
+  selectedGroupIds,
+  selectedTags,
+  onGroupsChange,
+  onTagsChange,
+  groupsLabel = 'Groups',
+  tagsLabel = 'Tags',
+  className,
+}: TargetGroupSelectorProps) {
+  if (groups.length === 0 && tags.length === 0) return null;
+
+  const chipClass = (selected: boolean) =>
+    clsx(
+      'px-2.5 py-1 rounded-full border text-xs font-medium transition-colors',
+      selected
+        ? 'border-blue-500 bg-blue-500/20 text-white'
+        : 'border-slate-700 bg-slate-800 text-slate-400 hover:border-slate-600 hover:text-white'
+    );
+
+  return (
+    <div className={clsx('space-y-3', className)}>
+      {groups.length > 0 && (
+        <div>
+          <p className="text-xs text-slate-500 uppercase tracking-wide mb-1.5">{groupsLabel}</p>
+          <div className="flex flex-wrap gap-1.5">
+            {groups.map((group) => (
+              <button
+                key={group.id}
+                type="button"
+                onClick={() => onGroupsChange(toggle(selectedGroupIds, group.id))}
+                className={chipClass(selectedGroupIds.includes(group.id))}
+              >
+                {group.name}
+                <span className="ml-1 text-slate-500">{group.deviceIds.length}</span>
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {tags.length > 0 && (
+        <div>
+          <p className="text-xs text-slate-500 uppercase tracking-wide mb-1.5">{tagsLabel}</p>
+          <div className="flex flex-wrap gap-1.5">
+            {tags.map((tag) => (
+              <button
+                key={tag}
+                type="button"
+                onClick={() => onTagsChange(toggle(selectedTags, tag))}
+                className={chipClass(selectedTags.includes(tag))}
+              >
+                #{tag}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -4,3 +4,6 @@ export { DeviceSelector } from './DeviceSelector';
 export { DeviceDetailModal } from './DeviceDetailModal';
 export { DeviceStatusPanel } from './DeviceStatusPanel';
 export { BroadcastToggle } from './BroadcastToggle';
+export { EnrollmentCodeModal } from './EnrollmentCodeModal';
+export { DeviceGroupsPanel } from './DeviceGroupsPanel';
+export { TargetGroupSelector } from './TargetGroupSelector';
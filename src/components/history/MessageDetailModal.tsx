@@ -1,24 +1,34 @@
 'use client';
 
+import { useState } from 'react';
 import { format, formatDistanceToNow } from 'date-fns';
 import { clsx } from 'clsx';
 import { Button } from '@/components/ui/Button';
 import { Badge } from '@/components/ui/Badge';
+import { Textarea } from '@/components/ui/Textarea';
+import { PlaceholderFields } from '@/components/messages/PlaceholderFields';
 import { useEscapeKey } from '@/hooks';
-import { MessageType, type Message, type Device, type DeviceDeliveryStatus } from '@/types';
+import { describeTarget } from '@/lib/device-targets';
+import { getCustomPlaceholders } from '@/lib/placeholders';
+import { MessageType, type Message, type MessageDelivery, type Device, type DeviceDeliveryStatus } from '@/types';
 
 interface MessageDetailModalProps {
   message: Message;
   devices?: Device[];
   isOpen: boolean;
   onClose: () => void;
+  onRecall?: (id: string) => Promise<void>;  // omitted = no recall action
+  onEdit?: (id: string, content: string, placeholderValues: Record<string, string>) => Promise<void>;  // omitted = read-only
 }
 
+const MAX_CONTENT_LENGTH = 10000;
+
 const MESSAGE_TYPE_ICONS: Record<MessageType, string> = {
   [MessageType.TEXT]: '💬',
   [MessageType.TEXT_IMAGE]: '🖼️',
   [MessageType.VIDEO]: '🎬',
   [MessageType.AUDIO]: '🔊',
+  [MessageType.POLL]: '📊',
 };
 
 const MESSAGE_TYPE_LABELS: Record<MessageType, string> = {
@@ -26,6 +36,7 @@ const MESSAGE_TYPE_LABELS: Record<MessageType, string> = {
   [MessageType.TEXT_IMAGE]: 'Image Message',
   [MessageType.VIDEO]: 'Video Message',
   [MessageType.AUDIO]: 'Audio Message',
+  [MessageType.POLL]: 'Poll',
 };
 
 const STATUS_VARIANTS: Record<string, 'success' | 'warning' | 'info' | 'neutral'> = {
@@ -37,18 +48,63 @@ const STATUS_VARIANTS: Record<string, 'success' | 'warning' | 'info' | 'neutral'
 };
 
 const DELIVERY_STATUS_ICONS: Record<DeviceDeliveryStatus, string> = {
+  acknowledged: '✓✓',
   delivered: '✓',
   sent: '↗',
   pending: '•',
   failed: '✕',
 };
 
+// Format how long a notification was visible (e.g. "45s", "3m 10s", "1h 5m")
+function formatVisibleDuration(ms: number): string {
+  const totalSeconds = Math.round(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  if (minutes > 0) return `${minutes}m ${seconds}s`;
+  return `${seconds}s`;
+}
+
+// Describe what happened to the notification on the device (read receipt)
+function getReceiptLabel(delivery?: MessageDelivery): string | null {
+  if (!delivery) return null;
+
+  const duration =
+    delivery.visibleMs !== undefined ? ` after ${formatVisibleDuration(delivery.visibleMs)}` : '';
+
+  if (delivery.acknowledgedAt) {
+    const acknowledgedAt =
+      typeof delivery.acknowledgedAt === 'string' ? new Date(delivery.acknowledgedAt) : delivery.acknowledgedAt;
+    return `Acknowledged ${formatDistanceToNow(acknowledgedAt, { addSuffix: true })}`;
+  }
+  if (delivery.recalledAt) return 'Recalled';
+  if (delivery.dismissedAt) return `Dismissed${duration}`;
+  if (delivery.autoExpiredAt) return `Auto-expired${duration}`;
+  if (delivery.displayedAt) {
+    const displayedAt =
+      typeof delivery.displayedAt === 'string' ? new Date(delivery.displayedAt) : delivery.displayedAt;
+    return `Seen ${formatDistanceToNow(displayedAt, { addSuffix: true })}`;
+  }
+  if (delivery.status === 'delivered') return 'Not seen yet';
+  return null;
+}
+
 export function MessageDetailModal({
   message,
   devices = [],
   isOpen,
   onClose,
+  onRecall,
+  onEdit,
 }: MessageDetailModalProps) {
+  const [isRecalling, setIsRecalling] = useState(false);
+  const [isEditing, setIsEditing] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [draftContent, setDraftContent] = useState('');
+  const [draftValues, setDraftValues] = useState<Record<string, string>>({});
+
   // Close on Escape key
   useEscapeKey(onClose, isOpen);
 
@@ -68,9 +124,87 @@ export function MessageDetailModal({
       connectionStatus: device?.status || 'offline',
       deliveryStatus: delivery?.status || 'pending',
       deliveredAt: delivery?.deliveredAt,
+      failureReason: delivery?.failureReason,
+      receipt: getReceiptLabel(delivery),
+      seen: !!delivery?.displayedAt || !!delivery?.acknowledgedAt,
     };
   });
 
+  // Tally replies per option; free-text replies are listed individually
+  const replies = message.replies ?? [];
+  const hasReplyOptions = (message.replyOptions?.length ?? 0) > 0 || !!message.allowFreeText;
+  const replyCounts = (message.replyOptions ?? []).map((option) => ({
+    option,
+    count: replies.filter((r) => !r.isFreeText && r.response === option).length,
+  }));
+  const freeTextReplies = replies
+    .filter((r) => r.isFreeText)
+    .map((r) => ({
+      ...r,
+      deviceName: devices.find((d) => d.id === r.deviceId)?.name || 'Unknown Device',
+    }));
+
+  // Poll results (live until the poll closes)
+  const pollResults = message.pollResults ?? [];
+  const totalVotes = pollResults.reduce((sum, r) => sum + r.votes, 0);
+  const pollClosesAt =
+    typeof message.pollClosesAt === 'string' ? new Date(message.pollClosesAt) : message.pollClosesAt;
+
+  // Devices that still have the message open or queued
+  const openCount = (message.deliveries ?? []).filter(
+    (d) => d.status !== 'failed' && !d.dismissedAt && !d.autoExpiredAt && !d.acknowledgedAt
+  ).length;
+
+  const handleRecall = async () => {
+    if (!onRecall) return;
+    setIsRecalling(true);
+    try {
+      await onRecall(message.id);
+    } catch {
+      // Error handling is done in parent
+    } finally {
+      setIsRecalling(false);
+    }
+  };
+
+  const startEditing = () => {
+    setDraftContent(message.content);
+    setDraftValues(message.placeholders?.values ?? {});
+    setIsEditing(true);
+  };
+
+  // Every custom placeholder in the new content needs a value
+  const canSaveEdit =
+    draftContent.trim().length > 0 &&
+    getCustomPlaceholders(draftContent).every((name) => draftValues[name]?.trim());
+
+  const handleSaveEdit = async () => {
+    if (!onEdit || !canSaveEdit) return;
+    setIsSaving(true);
+    try {
+      await onEdit(message.id, draftContent, draftValues);
+      setIsEditing(false);
+    } catch {
+      // Error handling is done in parent
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // Earlier versions, newest first
+  const edits = [...(message.edits ?? [])].reverse();
+
+  // Download the message record (including poll tallies) as JSON
+  const handleExport = () => {
+    const blob = new Blob([JSON.stringify(message, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `message-${message.id}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center">
       {/* Backdrop */}
@@ -90,7 +224,10 @@ export function MessageDetailModal({
               <h2 className="text-lg font-semibold text-white">
                 {MESSAGE_TYPE_LABELS[message.type]}
               </h2>
-              <span className="text-xs text-slate-500">{formattedDate}</span>
+              <span className="text-xs text-slate-500">
+                {formattedDate}
+                {message.senderName && <> &middot; by {message.senderName}</>}
+              </span>
             </div>
           </div>
           <button
@@ -121,19 +258,82 @@ export function MessageDetailModal({
             <span className="text-xs text-slate-500 uppercase tracking-wide block mb-2">
               Status
             </span>
-            <Badge
-              variant={STATUS_VARIANTS[message.status] || 'neutral'}
-              size="md"
-            >
-              {message.status}
-            </Badge>
+            <div className="flex items-center gap-2">
+              <Badge
+                variant={STATUS_VARIANTS[message.status] || 'neutral'}
+                size="md"
+              >
+                {message.status}
+              </Badge>
+              {message.priority && message.priority !== 'normal' && (
+                <Badge
+                  variant={message.priority === 'urgent' ? 'danger' : message.priority === 'high' ? 'warning' : 'neutral'}
+                  size="md"
+                >
+                  {message.priority} priority
+                </Badge>
+              )}
+              {message.recalledAt && (
+                <Badge variant="neutral" size="md">
+                  recalled {formatDistanceToNow(
+                    typeof message.recalledAt === 'string' ? new Date(message.recalledAt) : message.recalledAt,
+                    { addSuffix: true }
+                  )}
+                </Badge>
+              )}
+              {message.expiresAt && (
+                <Badge variant="neutral" size="md">
+                  valid until {format(
+                    typeof message.expiresAt === 'string' ? new Date(message.expiresAt) : message.expiresAt,
+                    'PPp'
+                  )}
+                </Badge>
+              )}
+            </div>
           </div>
 
           {/* Text Content */}
-          {message.content && (
+          {isEditing ? (
+            <div className="space-y-3">
+              <Textarea
+                label="Message Content"
+                value={draftContent}
+                maxLength={MAX_CONTENT_LENGTH}
+                showCount
+                onChange={(e) => setDraftContent(e.target.value)}
+              />
+              <PlaceholderFields content={draftContent} values={draftValues} onChange={setDraftValues} />
+              <p className="text-xs text-slate-500">
+                Devices that still show or queue this message update it in place.
+              </p>
+              <div className="flex gap-2 justify-end">
+                <Button variant="ghost" size="sm" onClick={() => setIsEditing(false)} disabled={isSaving}>
+                  Cancel
+                </Button>
+                <Button
+                  variant="primary"
+                  size="sm"
+                  loading={isSaving}
+                  disabled={!canSaveEdit}
+                  onClick={handleSaveEdit}
+                >
+                  Save Changes
+                </Button>
+              </div>
+            </div>
+          ) : message.content && (
             <div>
               <span className="text-xs text-slate-500 uppercase tracking-wide block mb-2">
                 Message Content
+                {message.editedAt && (
+                  <span className="normal-case tracking-normal">
+                    {' • edited '}
+                    {formatDistanceToNow(
+                      typeof message.editedAt === 'string' ? new Date(message.editedAt) : message.editedAt,
+                      { addSuffix: true }
+                    )}
+                  </span>
+                )}
               </span>
               <div className="bg-slate-900 rounded-lg p-4 border border-slate-700">
                 <p className="text-white whitespace-pre-wrap">{message.content}</p>
@@ -141,6 +341,32 @@ export function MessageDetailModal({
             </div>
           )}
 
+          {/* Edit History */}
+          {edits.length > 0 && (
+            <div>
+              <span className="text-xs text-slate-500 uppercase tracking-wide block mb-2">
+                Earlier Versions ({edits.length})
+              </span>
+              <div className="space-y-2">
+                {edits.map((edit, index) => (
+                  <div
+                    key={`${index}-${String(edit.editedAt)}`}
+                    className="bg-slate-900 rounded-lg p-3 border border-slate-700"
+                  >
+                    <p className="text-slate-300 text-sm whitespace-pre-wrap">{edit.previousContent}</p>
+                    <span className="text-xs text-slate-500">
+                      Replaced{' '}
+                      {formatDistanceToNow(
+                        typeof edit.editedAt === 'string' ? new Date(edit.editedAt) : edit.editedAt,
+                        { addSuffix: true }
+                      )}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Image Preview */}
           {message.imageUrl && (
             <div>
@@ -213,6 +439,100 @@ export function MessageDetailModal({
             </div>
           )}
 
+          {/* Poll Results */}
+          {message.type === MessageType.POLL && (
+            <div>
+              <span className="text-xs text-slate-500 uppercase tracking-wide block mb-2">
+                Poll Results ({totalVotes} of {targetDeviceDetails.length} voted)
+              </span>
+              <div className="space-y-2">
+                {pollResults.map(({ option, votes }) => (
+                  <div
+                    key={option}
+                    className="bg-slate-900 rounded-lg p-3 border border-slate-700"
+                  >
+                    <div className="flex items-center justify-between text-sm">
+                      <span className="text-white truncate">{option}</span>
+                      <span className="text-slate-400">
+                        {votes} ({totalVotes > 0 ? Math.round((votes / totalVotes) * 100) : 0}%)
+                      </span>
+                    </div>
+                    <div className="mt-2 h-1.5 rounded-full bg-slate-700 overflow-hidden">
+                      <div
+                        className="h-full bg-purple-500 transition-all"
+                        style={{ width: `${totalVotes > 0 ? (votes / totalVotes) * 100 : 0}%` }}
+                      />
+                    </div>
+                  </div>
+                ))}
+              </div>
+              {pollClosesAt && (
+                <p className="mt-2 text-xs text-slate-500">
+                  Voting ends {format(pollClosesAt, 'PPp')}
+                </p>
+              )}
+            </div>
+          )}
+
+          {/* Replies */}
+          {hasReplyOptions && (
+            <div>
+              <span className="text-xs text-slate-500 uppercase tracking-wide block mb-2">
+                Replies ({replies.length} of {targetDeviceDetails.length})
+              </span>
+              <div className="space-y-2">
+                {replyCounts.map(({ option, count }) => (
+                  <div
+                    key={option}
+                    className="bg-slate-900 rounded-lg p-3 border border-slate-700"
+                  >
+                    <div className="flex items-center justify-between text-sm">
+                      <span className="text-white truncate">{option}</span>
+                      <span className="text-slate-400">{count}</span>
+                    </div>
+                    <div className="mt-2 h-1.5 rounded-full bg-slate-700 overflow-hidden">
+                      <div
+                        className="h-full bg-blue-500"
+                        style={{
+                          width: `${targetDeviceDetails.length > 0 ? (count / targetDeviceDetails.length) * 100 : 0}%`,
+                        }}
+                      />
+                    </div>
+                  </div>
+                ))}
+                {freeTextReplies.map((reply) => (
+                  <div
+                    key={reply.deviceId}
+                    className="bg-slate-900 rounded-lg p-3 border border-slate-700"
+                  >
+                    <p className="text-white text-sm whitespace-pre-wrap">{reply.response}</p>
+                    <span className="text-xs text-slate-500">
+                      {reply.deviceName}
+                      {' • '}
+                      {formatDistanceToNow(
+                        typeof reply.repliedAt === 'string' ? new Date(reply.repliedAt) : reply.repliedAt,
+                        { addSuffix: true }
+                      )}
+                    </span>
+                  </div>
+                ))}
+                {message.allowFreeText && freeTextReplies.length === 0 && replyCounts.length === 0 && (
+                  <p className="text-sm text-slate-500">No replies yet</p>
+                )}
+              </div>
+            </div>
+          )}
+
+          {/* Target expression (groups and tags as sent, resolved to the devices below) */}
+          {message.target && (message.target.groups.length > 0 || message.target.tags.length > 0) && (
+            <div>
+              <span className="text-xs text-slate-500 uppercase tracking-wide block mb-1">
+                Sent To
+              </span>
+              <p className="text-sm text-white">{describeTarget(message.target)}</p>
+            </div>
+          )}
+
           {/* Target Devices with Delivery Status */}
           <div>
             <span className="text-xs text-slate-500 uppercase tracking-wide block mb-2">
@@ -237,12 +557,23 @@ export function MessageDetailModal({
                     <span className="text-xs text-slate-500 font-mono">
                       {device.id.slice(0, 8)}...
                     </span>
+                    {device.receipt && (
+                      <span
+                        className={clsx(
+                          'text-xs block',
+                          device.seen ? 'text-green-400' : 'text-slate-500'
+                        )}
+                      >
+                        {device.receipt}
+                      </span>
+                    )}
                   </div>
                   {/* Delivery status */}
                   <div className="flex items-center gap-2">
                     <span
                       className={clsx(
                         'inline-flex items-center justify-center w-5 h-5 rounded-full text-xs font-medium',
+                        device.deliveryStatus === 'acknowledged' && 'bg-green-500/30 text-green-300',
                         device.deliveryStatus === 'delivered' && 'bg-green-500/20 text-green-400',
                         device.deliveryStatus === 'sent' && 'bg-blue-500/20 text-blue-400',
                         device.deliveryStatus === 'pending' && 'bg-yellow-500/20 text-yellow-400',
@@ -252,6 +583,9 @@ export function MessageDetailModal({
                     >
                       {DELIVERY_STATUS_ICONS[device.deliveryStatus]}
                     </span>
+                    {device.deliveryStatus === 'failed' && device.failureReason && (
+                      <span className="text-xs text-red-400">{device.failureReason}</span>
+                    )}
                     {device.deliveredAt && (
                       <span className="text-xs text-slate-500">
                         {formatDistanceToNow(
@@ -269,8 +603,16 @@ export function MessageDetailModal({
             {/* Delivery summary */}
             {message.deliveries && message.deliveries.length > 0 && (
               <div className="mt-3 text-xs text-slate-500">
-                {message.deliveries.filter(d => d.status === 'delivered').length} of{' '}
+                {message.deliveries.filter(d => d.status === 'delivered' || d.status === 'acknowledged').length} of{' '}
                 {targetDeviceDetails.length} delivered
+                {' • '}
+                {targetDeviceDetails.filter(d => d.seen).length} seen
+                {message.priority === 'urgent' && (
+                  <>
+                    {' • '}
+                    {message.deliveries.filter(d => d.status === 'acknowledged').length} acknowledged
+                  </>
+                )}
               </div>
             )}
           </div>
@@ -288,10 +630,31 @@ export function MessageDetailModal({
 
         {/* Footer */}
         <div className="px-6 py-4 border-t border-slate-700 bg-slate-800/50">
-          <div className="flex justify-end">
+          <div className="flex gap-2 justify-end">
             <Button variant="ghost" size="sm" onClick={onClose}>
               Close
             </Button>
+            {onEdit && !message.recalledAt && !isEditing && (
+              <Button variant="ghost" size="sm" onClick={startEditing}>
+                Edit
+              </Button>
+            )}
+            {onRecall && !message.recalledAt && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="text-red-400 hover:text-red-300"
+                loading={isRecalling}
+                disabled={openCount === 0}
+                title={openCount === 0 ? 'Every device has already closed this message' : undefined}
+                onClick={handleRecall}
+              >
+                Recall{openCount > 0 && ` from ${openCount} device${openCount !== 1 ? 's' : ''}`}
+              </Button>
+            )}
+            <Button variant="secondary" size="sm" onClick={handleExport}>
+              Export
+            </Button>
           </div>
         </div>
       </div>
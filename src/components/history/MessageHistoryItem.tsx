@@ -1,9 +1,12 @@
 'use client';
 
+import Image from 'next/image';
 import { formatDistanceToNow } from 'date-fns';
 import { clsx } from 'clsx';
 import { Badge } from '@/components/ui/Badge';
-import { MessageType, type Message } from '@/types';
+import { describeTarget } from '@/lib/device-targets';
+import { getMediaVariantUrl, isUploadedMediaUrl } from '@/lib/media';
+import { MessageType, type Message, type MessagePriority } from '@/types';
 
 interface MessageHistoryItemProps {
   message: Message;
@@ -15,6 +18,7 @@ const MESSAGE_TYPE_ICONS: Record<MessageType, string> = {
   [MessageType.TEXT_IMAGE]: '🖼️',
   [MessageType.VIDEO]: '🎬',
   [MessageType.AUDIO]: '🔊',
+  [MessageType.POLL]: '📊',
 };
 
 const MESSAGE_TYPE_LABELS: Record<MessageType, string> = {
@@ -22,6 +26,7 @@ const MESSAGE_TYPE_LABELS: Record<MessageType, string> = {
   [MessageType.TEXT_IMAGE]: 'Image',
   [MessageType.VIDEO]: 'Video',
   [MessageType.AUDIO]: 'Audio',
+  [MessageType.POLL]: 'Poll',
 };
 
 const STATUS_VARIANTS: Record<string, 'success' | 'warning' | 'info' | 'neutral'> = {
@@ -32,10 +37,20 @@ const STATUS_VARIANTS: Record<string, 'success' | 'warning' | 'info' | 'neutral'
   failed: 'neutral',
 };
 
+// Priority badges (normal is the default and not shown)
+const PRIORITY_VARIANTS: Record<MessagePriority, 'danger' | 'warning' | 'neutral' | null> = {
+  urgent: 'danger',
+  high: 'warning',
+  normal: null,
+  low: 'neutral',
+};
+
 // Get status label with delivery count for partial status
 function getStatusLabel(message: Message): string {
   if (message.status === 'partial' && message.deliveries) {
-    const delivered = message.deliveries.filter(d => d.status === 'delivered').length;
+    const delivered = message.deliveries.filter(
+      d => d.status === 'delivered' || d.status === 'acknowledged'
+    ).length;
     const total = message.targetDevices.length;
     return `${delivered}/${total}`;
   }
@@ -51,6 +66,13 @@ export function MessageHistoryItem({ message, onClick }: MessageHistoryItemProps
     message.content.length > 80 ? `${message.content.substring(0, 80)}...` : message.content;
 
   const deviceCount = message.targetDevices.length;
+  const hasTargetExpression = !!message.target && (message.target.groups.length > 0 || message.target.tags.length > 0);
+  const priorityVariant = PRIORITY_VARIANTS[message.priority];
+  // Only uploaded images have a thumbnail, external images would be loaded at full size
+  const thumbnailUrl =
+    message.imageUrl && isUploadedMediaUrl(message.imageUrl)
+      ? getMediaVariantUrl(message.imageUrl, 'thumb')
+      : null;
 
   return (
     <button
@@ -62,10 +84,21 @@ export function MessageHistoryItem({ message, onClick }: MessageHistoryItemProps
       )}
     >
       <div className="flex items-start gap-4">
-        {/* Type Icon */}
-        <div className="flex-shrink-0 w-10 h-10 rounded-lg bg-slate-700 flex items-center justify-center text-xl">
-          {MESSAGE_TYPE_ICONS[message.type]}
-        </div>
+        {/* Type Icon (thumbnail for uploaded images) */}
+        {thumbnailUrl ? (
+          <Image
+            src={thumbnailUrl}
+            alt=""
+            width={40}
+            height={40}
+            unoptimized
+            className="flex-shrink-0 w-10 h-10 rounded-lg bg-slate-700 object-cover"
+          />
+        ) : (
+          <div className="flex-shrink-0 w-10 h-10 rounded-lg bg-slate-700 flex items-center justify-center text-xl">
+            {MESSAGE_TYPE_ICONS[message.type]}
+          </div>
+        )}
 
         {/* Content */}
         <div className="flex-1 min-w-0">
@@ -79,6 +112,21 @@ export function MessageHistoryItem({ message, onClick }: MessageHistoryItemProps
             >
               {getStatusLabel(message)}
             </Badge>
+            {priorityVariant && (
+              <Badge variant={priorityVariant} size="sm">
+                {message.priority}
+              </Badge>
+            )}
+            {message.recalledAt && (
+              <Badge variant="neutral" size="sm">
+                recalled
+              </Badge>
+            )}
+            {message.editedAt && !message.recalledAt && (
+              <Badge variant="neutral" size="sm">
+                edited
+              </Badge>
+            )}
           </div>
 
           <p className="text-white text-sm line-clamp-2 mb-2">
@@ -97,6 +145,12 @@ export function MessageHistoryItem({ message, onClick }: MessageHistoryItemProps
               </svg>
               {deviceCount} device{deviceCount !== 1 ? 's' : ''}
             </span>
+            {hasTargetExpression && (
+              <span className="truncate">via {describeTarget(message.target!)}</span>
+            )}
+            {message.senderName && (
+              <span className="truncate">by {message.senderName}</span>
+            )}
             <span>{timeAgo}</span>
           </div>
         </div>
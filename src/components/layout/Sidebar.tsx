@@ -4,7 +4,7 @@ import Link from 'next/link';
 import { usePathname, useRouter } from 'next/navigation';
 import { clsx } from 'clsx';
 import { createClient } from '@/lib/supabase/client';
-import { LogOut, Shield, Users } from 'lucide-react';
+import { Gauge, KeyRound, LogOut, Shield, Users, Webhook } from 'lucide-react';
 import { useAuth } from '@/hooks';
 import { ROLE_LABELS } from '@/lib/auth';
 
@@ -128,7 +128,7 @@ export function Sidebar() {
 
       {/* Admin Section (only for admins) */}
       {canManage && (
-        <div className="px-3 py-2 border-t border-slate-700">
+        <div className="px-3 py-2 border-t border-slate-700 space-y-1">
           <Link
             href="/admin/users"
             className={clsx(
@@ -141,6 +141,42 @@ export function Sidebar() {
             <Users className="w-5 h-5" />
             <span className="font-medium">User-Verwaltung</span>
           </Link>
+          <Link
+            href="/admin/api-keys"
+            className={clsx(
+              'flex items-center gap-3 px-3 py-2.5 rounded-lg transition-colors',
+              pathname === '/admin/api-keys'
+                ? 'bg-purple-500/20 text-purple-400 border border-purple-500/30'
+                : 'text-slate-400 hover:bg-slate-700 hover:text-white'
+            )}
+          >
+            <KeyRound className="w-5 h-5" />
+            <span className="font-medium">API-Keys</span>
+          </Link>
+          <Link
+            href="/admin/rate-limits"
+            className={clsx(
+              'flex items-center gap-3 px-3 py-2.5 rounded-lg transition-colors',
+              pathname === '/admin/rate-limits'
+                ? 'bg-purple-500/20 text-purple-400 border border-purple-500/30'
+                : 'text-slate-400 hover:bg-slate-700 hover:text-white'
+            )}
+          >
+            <Gauge className="w-5 h-5" />
+            <span className="font-medium">Rate-Limits</span>
+          </Link>
+          <Link
+            href="/admin/webhooks"
+            className={clsx(
+              'flex items-center gap-3 px-3 py-2.5 rounded-lg transition-colors',
+              pathname === '/admin/webhooks'
+                ? 'bg-purple-500/20 text-purple-400 border border-purple-500/30'
+                : 'text-slate-400 hover:bg-slate-700 hover:text-white'
+            )}
+          >
+            <Webhook className="w-5 h-5" />
+            <span className="font-medium">Webhooks</span>
+          </Link>
         </div>
       )}
 
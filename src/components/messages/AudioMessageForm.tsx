@@ -2,6 +2,7 @@
 
 import { Textarea, Input, Toggle } from '@/components/ui';
 import { Volume2 } from 'lucide-react';
+import { MediaUploadZone } from './MediaUploadZone';
 
 interface AudioMessagePayload {
   content: string;
@@ -34,6 +35,11 @@ export function AudioMessageForm({ value, onChange }: AudioMessageFormProps) {
         onChange={(e) => onChange({ ...value, audioUrl: e.target.value })}
       />
 
+      <MediaUploadZone
+        kind="audio"
+        onUploaded={(media) => onChange({ ...value, audioUrl: media.url })}
+      />
+
       <Toggle
         checked={value.autoplay}
         onChange={(checked) => onChange({ ...value, autoplay: checked })}
@@ -0,0 +1,72 @@
+'use client';
+
+import { clsx } from 'clsx';
+
+export type MessageExpiry = 'none' | '10m' | '1h' | 'today';
+
+interface ExpiryOption {
+  value: MessageExpiry;
+  label: string;
+}
+
+const expiries: ExpiryOption[] = [
+  { value: 'none', label: 'No expiry' },
+  { value: '10m', label: '10 min' },
+  { value: '1h', label: '1 hour' },
+  { value: 'today', label: 'Today' },
+];
+
+/**
+ * Expiry time for a message sent at `from` ('today' = end of that day, in the browser's time zone)
+ */
+export function getExpiresAt(expiry: MessageExpiry, from: Date): Date | undefined {
+  switch (expiry) {
+    case '10m':
+      return new Date(from.getTime() + 10 * 60 * 1000);
+    case '1h':
+      return new Date(from.getTime() + 60 * 60 * 1000);
+    case 'today': {
+      const endOfDay = new Date(from);
+      endOfDay.setHours(23, 59, 59, 999);
+      return endOfDay;
+    }
+    default:
+      return undefined;
+  }
+}
+
+interface ExpirySelectorProps {
+  value: MessageExpiry;
+  onChange: (expiry: MessageExpiry) => void;
+}
+
+export function ExpirySelector({ value, onChange }: ExpirySelectorProps) {
+  return (
+    <div className="space-y-3">
+      <span className="block text-sm font-medium text-slate-300">Valid for</span>
+      <div className="grid grid-cols-4 gap-2">
+        {expiries.map((option) => (
+          <button
+            key={option.value}
+            type="button"
+            onClick={() => onChange(option.value)}
+            className={clsx(
+              'px-3 py-2 rounded-lg border-2 text-sm font-medium transition-all',
+              'focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 focus:ring-offset-slate-900',
+              value === option.value
+                ? 'border-blue-500 bg-blue-500/10 text-white'
+                : 'border-slate-700 bg-slate-800 text-slate-300 hover:border-slate-600'
+            )}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+      {value !== 'none' && (
+        <p className="text-xs text-slate-500">
+          Counted from the send time. Devices that have not shown the message by then drop it.
+        </p>
+      )}
+    </div>
+  );
+}
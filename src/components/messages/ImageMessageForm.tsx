@@ -3,6 +3,7 @@
 import { useState, useEffect } from 'react';
 import { Textarea, Input } from '@/components/ui';
 import { ImageOff } from 'lucide-react';
+import { MediaUploadZone } from './MediaUploadZone';
 
 interface ImageMessagePayload {
   content: string;
@@ -59,6 +60,11 @@ export function ImageMessageForm({ value, onChange }: ImageMessageFormProps) {
         onChange={(e) => onChange({ ...value, imageUrl: e.target.value })}
       />
 
+      <MediaUploadZone
+        kind="image"
+        onUploaded={(media) => onChange({ ...value, imageUrl: media.url })}
+      />
+
       {value.imageUrl && (
         <div className="mt-4">
           <p className="text-sm font-medium text-slate-300 mb-2">Image Preview</p>
@@ -0,0 +1,130 @@
+'use client';
+
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { clsx } from 'clsx';
+import { Upload, Loader2, AlertCircle } from 'lucide-react';
+import { useMediaUpload } from '@/hooks';
+import { MEDIA_LIMITS, formatMediaSize } from '@/lib/media';
+import type { MediaFile, MediaKind } from '@/types';
+
+interface MediaUploadZoneProps {
+  kind: MediaKind;
+  onUploaded: (media: MediaFile) => void;
+}
+
+// First file in a drop or paste that is accepted for this kind
+function findAcceptedFile(files: FileList | null | undefined, kind: MediaKind): File | null {
+  return Array.from(files ?? []).find((file) => MEDIA_LIMITS[kind].mimeTypes.includes(file.type)) ?? null;
+}
+
+export function MediaUploadZone({ kind, onUploaded }: MediaUploadZoneProps) {
+  const { uploading, error, upload, clearError } = useMediaUpload(kind);
+  const [dragActive, setDragActive] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const handleFile = useCallback(async (file: File) => {
+    const media = await upload(file);
+    if (media) {
+      onUploaded(media);
+    }
+  }, [upload, onUploaded]);
+
+  // Paste from clipboard anywhere on the page while the form is shown
+  // (only files of this kind are taken, text pastes go through untouched)
+  useEffect(() => {
+    const handlePaste = (e: ClipboardEvent) => {
+      const file = findAcceptedFile(e.clipboardData?.files, kind);
+      if (!file || uploading) return;
+      e.preventDefault();
+      handleFile(file);
+    };
+
+    document.addEventListener('paste', handlePaste);
+    return () => document.removeEventListener('paste', handlePaste);
+  }, [kind, uploading, handleFile]);
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setDragActive(false);
+    if (uploading) return;
+
+    const files = e.dataTransfer.files;
+    const file = findAcceptedFile(files, kind) ?? files[0];
+    if (file) {
+      // Unaccepted files are passed on so the user sees why they were rejected
+      handleFile(file);
+    }
+  };
+
+  const handleBrowse = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) {
+      handleFile(file);
+    }
+  };
+
+  const { mimeTypes, maxSize } = MEDIA_LIMITS[kind];
+
+  return (
+    <div>
+      <div
+        role="button"
+        tabIndex={0}
+        onClick={() => !uploading && inputRef.current?.click()}
+        onKeyDown={(e) => {
+          if ((e.key === 'Enter' || e.key === ' ') && !uploading) {
+            e.preventDefault();
+            inputRef.current?.click();
+          }
+        }}
+        onDragOver={(e) => {
+          e.preventDefault();
+          setDragActive(true);
+        }}
+        onDragLeave={() => setDragActive(false)}
+        onDrop={handleDrop}
+        className={clsx(
+          'flex items-center justify-center gap-3 rounded-lg border-2 border-dashed px-4 py-5 text-sm transition-colors',
+          'focus:outline-none focus:ring-2 focus:ring-blue-500',
+          dragActive
+            ? 'border-blue-500 bg-blue-500/10 text-blue-300'
+            : 'border-slate-700 text-slate-400 hover:border-slate-600 hover:text-slate-300',
+          uploading ? 'cursor-wait' : 'cursor-pointer'
+        )}
+      >
+        {uploading ? (
+          <>
+            <Loader2 className="w-5 h-5 animate-spin" />
+            <span>Uploading...</span>
+          </>
+        ) : (
+          <>
+            <Upload className="w-5 h-5" />
+            <span>
+              Drop, paste or <span className="text-blue-400">browse</span> a {kind} file
+              <span className="block text-xs text-slate-500">Up to {formatMediaSize(maxSize)}</span>
+            </span>
+          </>
+        )}
+        <input
+          ref={inputRef}
+          type="file"
+          accept={mimeTypes.join(',')}
+          onChange={handleBrowse}
+          className="hidden"
+        />
+      </div>
+
+      {error && (
+        <div className="mt-2 flex items-center gap-2 text-sm text-red-400">
+          <AlertCircle className="w-4 h-4 flex-shrink-0" />
+          <span className="flex-1">{error}</span>
+          <button type="button" onClick={clearError} className="text-xs text-slate-500 hover:text-slate-300">
+            Dismiss
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,14 +1,23 @@
 'use client';
 
 import { useState, useCallback, useImperativeHandle, forwardRef } from 'react';
-import { Eye, Send } from 'lucide-react';
-import { MessageType } from '@/types';
-import { Card, Button } from '@/components/ui';
+import { Eye, Send, Clock } from 'lucide-react';
+import { MessageType, type MessagePriority, type MessageTemplate } from '@/types';
+import { Card, Button, Toggle } from '@/components/ui';
 import { MessageTypeSelector } from './MessageTypeSelector';
 import { TextMessageForm } from './TextMessageForm';
 import { ImageMessageForm } from './ImageMessageForm';
 import { VideoMessageForm } from './VideoMessageForm';
 import { AudioMessageForm } from './AudioMessageForm';
+import { PollMessageForm } from './PollMessageForm';
+import { ReplyOptionsForm } from './ReplyOptionsForm';
+import { PrioritySelector } from './PrioritySelector';
+import { SendLaterForm } from './SendLaterForm';
+import { ExpirySelector, getExpiresAt, type MessageExpiry } from './ExpirySelector';
+import { TemplatePicker } from './TemplatePicker';
+import { PlaceholderFields } from './PlaceholderFields';
+import { extractPlaceholders, getCustomPlaceholders } from '@/lib/placeholders';
+import { DND_HOLD_RULE } from '@/lib/quiet-hours';
 
 // Payload types for each message type
 interface TextPayload {
@@ -31,6 +40,22 @@ interface AudioPayload {
   autoplay: boolean;
 }
 
+interface PollPayload {
+  content: string;
+  options: string[];
+  closesAt: string;
+}
+
+interface ReplyPayload {
+  options: string[];
+  allowFreeText: boolean;
+}
+
+interface SendLaterPayload {
+  enabled: boolean;
+  sendAt: string;
+}
+
 // Combined message data type
 export interface MessageData {
   type: MessageType;
@@ -39,6 +64,16 @@ export interface MessageData {
   videoUrl?: string;
   audioUrl?: string;
   audioAutoplay?: boolean;
+  replyOptions?: string[];
+  allowFreeText?: boolean;
+  pollOptions?: string[];
+  pollClosesAt?: string;
+  priority?: MessagePriority;
+  overrideDnd?: boolean;
+  sendAt?: string;
+  expiresAt?: string;
+  timezone?: string;
+  placeholderValues?: Record<string, string>;
 }
 
 // Ref handle for parent access
@@ -51,11 +86,32 @@ interface MessageComposerProps {
   selectedDeviceCount?: number;
   onPreview?: (data: MessageData) => void;
   onSend?: (data: MessageData) => void;
+  templates?: MessageTemplate[];  // omitted = no template picker
+  onTemplateApply?: (template: MessageTemplate) => void;  // e.g. to apply the default targets
+  onSaveTemplate?: (name: string, data: MessageData) => Promise<void>;
+  onDeleteTemplate?: (id: string) => Promise<void>;
+  canDeleteTemplate?: (template: MessageTemplate) => boolean;
+  canOverrideDnd?: boolean;  // admins may deliver urgent messages during do-not-disturb
 }
 
 export const MessageComposer = forwardRef<MessageComposerRef, MessageComposerProps>(
-  function MessageComposer({ selectedDeviceCount = 0, onPreview, onSend }, ref) {
+  function MessageComposer(
+    {
+      selectedDeviceCount = 0,
+      onPreview,
+      onSend,
+      templates,
+      onTemplateApply,
+      onSaveTemplate,
+      onDeleteTemplate,
+      canDeleteTemplate,
+      canOverrideDnd = false,
+    },
+    ref
+  ) {
     const [messageType, setMessageType] = useState<MessageType>(MessageType.TEXT);
+    const [selectedTemplateId, setSelectedTemplateId] = useState<string | null>(null);
+    const [placeholderValues, setPlaceholderValues] = useState<Record<string, string>>({});
 
     // Individual payload states
     const [textPayload, setTextPayload] = useState<TextPayload>({ content: '' });
@@ -72,9 +128,25 @@ export const MessageComposer = forwardRef<MessageComposerRef, MessageComposerPro
       audioUrl: '',
       autoplay: false,
     });
+    const [pollPayload, setPollPayload] = useState<PollPayload>({
+      content: '',
+      options: ['', ''],
+      closesAt: '',
+    });
+    const [priority, setPriority] = useState<MessagePriority>('normal');
+    const [overrideDnd, setOverrideDnd] = useState(false);
+    const [replyPayload, setReplyPayload] = useState<ReplyPayload>({
+      options: [],
+      allowFreeText: false,
+    });
+    const [sendLaterPayload, setSendLaterPayload] = useState<SendLaterPayload>({
+      enabled: false,
+      sendAt: '',
+    });
+    const [expiry, setExpiry] = useState<MessageExpiry>('none');
 
-    // Get current message data based on type
-    const getMessageData = useCallback((): MessageData => {
+    // Get content fields based on type
+    const getContentData = useCallback((): MessageData => {
       switch (messageType) {
         case MessageType.TEXT:
           return {
@@ -100,11 +172,94 @@ export const MessageComposer = forwardRef<MessageComposerRef, MessageComposerPro
             audioUrl: audioPayload.audioUrl,
             audioAutoplay: audioPayload.autoplay,
           };
+        case MessageType.POLL:
+          return {
+            type: messageType,
+            content: pollPayload.content,
+            pollOptions: pollPayload.options.map((option) => option.trim()).filter(Boolean),
+            // datetime-local is in the browser's time zone
+            pollClosesAt: pollPayload.closesAt ? new Date(pollPayload.closesAt).toISOString() : undefined,
+          };
       }
-    }, [messageType, textPayload, imagePayload, videoPayload, audioPayload]);
+    }, [messageType, textPayload, imagePayload, videoPayload, audioPayload, pollPayload]);
+
+    // Reply options apply to every message type except polls
+    const getReplyData = useCallback((): Pick<MessageData, 'replyOptions' | 'allowFreeText'> => {
+      if (messageType === MessageType.POLL) return {};
+
+      const replyOptions = replyPayload.options.map((option) => option.trim()).filter(Boolean);
+      return {
+        replyOptions: replyOptions.length > 0 ? replyOptions : undefined,
+        allowFreeText: replyPayload.allowFreeText || undefined,
+      };
+    }, [messageType, replyPayload]);
+
+    // Send later: datetime-local is in the browser's time zone
+    const getScheduleData = useCallback((): Pick<MessageData, 'sendAt'> => {
+      if (!sendLaterPayload.enabled || !sendLaterPayload.sendAt) return {};
+
+      return {
+        sendAt: new Date(sendLaterPayload.sendAt).toISOString(),
+      };
+    }, [sendLaterPayload]);
+
+    // Expiry counts from the send time (now, or the scheduled time)
+    const getExpiryData = useCallback((): Pick<MessageData, 'expiresAt'> => {
+      const sendAt = sendLaterPayload.enabled && sendLaterPayload.sendAt
+        ? new Date(sendLaterPayload.sendAt)
+        : new Date();
+      const expiresAt = getExpiresAt(expiry, sendAt);
+      return expiresAt ? { expiresAt: expiresAt.toISOString() } : {};
+    }, [expiry, sendLaterPayload]);
+
+    // Values for the custom placeholders in the current content
+    const getPlaceholderData = useCallback((): Pick<MessageData, 'placeholderValues'> => {
+      const custom = getCustomPlaceholders(getContentData().content);
+      if (custom.length === 0) return {};
+
+      return {
+        placeholderValues: Object.fromEntries(custom.map((name) => [name, placeholderValues[name] ?? ''])),
+      };
+    }, [getContentData, placeholderValues]);
+
+    // Get current message data (the time zone also formats {{time}} and {{date}})
+    const getMessageData = useCallback(
+      (): MessageData => ({
+        ...getContentData(),
+        ...getReplyData(),
+        ...getScheduleData(),
+        ...getExpiryData(),
+        ...getPlaceholderData(),
+        timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+        priority,
+        ...(canOverrideDnd && priority === 'urgent' && overrideDnd ? { overrideDnd: true } : {}),
+      }),
+      [getContentData, getReplyData, getScheduleData, getExpiryData, getPlaceholderData, priority, canOverrideDnd, overrideDnd]
+    );
 
     // Validate current message data
     const isValid = useCallback((): boolean => {
+      // Reply buttons must be distinguishable
+      const { replyOptions } = getReplyData();
+      if (replyOptions && new Set(replyOptions).size !== replyOptions.length) {
+        return false;
+      }
+
+      // Every custom placeholder needs a value
+      const { placeholderValues: values = {} } = getPlaceholderData();
+      if (Object.values(values).some((value) => !value.trim())) {
+        return false;
+      }
+
+      // A later send needs a time in the future (and a poll must not close before it is sent)
+      let sendAt = Date.now();
+      if (sendLaterPayload.enabled) {
+        sendAt = new Date(sendLaterPayload.sendAt).getTime();
+        if (!sendLaterPayload.sendAt || !(sendAt > Date.now())) {
+          return false;
+        }
+      }
+
       switch (messageType) {
         case MessageType.TEXT:
           return textPayload.content.trim().length > 0;
@@ -123,8 +278,17 @@ export const MessageComposer = forwardRef<MessageComposerRef, MessageComposerPro
             audioPayload.content.trim().length > 0 &&
             audioPayload.audioUrl.trim().length > 0
           );
+        case MessageType.POLL: {
+          const options = pollPayload.options.map((option) => option.trim()).filter(Boolean);
+          return (
+            pollPayload.content.trim().length > 0 &&
+            options.length >= 2 &&
+            new Set(options).size === options.length &&
+            (!pollPayload.closesAt || new Date(pollPayload.closesAt).getTime() > sendAt)
+          );
+        }
       }
-    }, [messageType, textPayload, imagePayload, videoPayload, audioPayload]);
+    }, [messageType, textPayload, imagePayload, videoPayload, audioPayload, pollPayload, sendLaterPayload, getReplyData, getPlaceholderData]);
 
     // Expose methods via ref
     useImperativeHandle(ref, () => ({
@@ -144,10 +308,65 @@ export const MessageComposer = forwardRef<MessageComposerRef, MessageComposerPro
       }
     };
 
+    // Fill the form from a template (custom placeholder values are kept for reuse)
+    const applyTemplate = (template: MessageTemplate) => {
+      setMessageType(template.type);
+      switch (template.type) {
+        case MessageType.TEXT:
+          setTextPayload({ content: template.content });
+          break;
+        case MessageType.TEXT_IMAGE:
+          setImagePayload({ content: template.content, imageUrl: template.imageUrl ?? '' });
+          break;
+        case MessageType.VIDEO:
+          setVideoPayload({ content: template.content, videoUrl: template.videoUrl ?? '' });
+          break;
+        case MessageType.AUDIO:
+          setAudioPayload({
+            content: template.content,
+            audioUrl: template.audioUrl ?? '',
+            autoplay: template.audioAutoplay,
+          });
+          break;
+      }
+      setSelectedTemplateId(template.id);
+      onTemplateApply?.(template);
+    };
+
+    const handleSaveTemplate = async (name: string) => {
+      await onSaveTemplate?.(name, getMessageData());
+    };
+
+    const handleDeleteTemplate = async (id: string) => {
+      await onDeleteTemplate?.(id);
+      setSelectedTemplateId(null);
+    };
+
     const canSend = isValid() && selectedDeviceCount > 0;
+    const content = getContentData().content;
+    // Polls are not templated; a template needs the content and media of its type
+    const canSaveTemplate =
+      messageType !== MessageType.POLL && content.trim().length > 0 &&
+      (messageType !== MessageType.TEXT_IMAGE || imagePayload.imageUrl.trim().length > 0) &&
+      (messageType !== MessageType.VIDEO || videoPayload.videoUrl.trim().length > 0) &&
+      (messageType !== MessageType.AUDIO || audioPayload.audioUrl.trim().length > 0);
 
     return (
       <div className="space-y-6">
+        {templates && (
+          <Card header={<span className="font-medium text-white">Templates</span>}>
+            <TemplatePicker
+              templates={templates}
+              selectedId={selectedTemplateId}
+              onSelect={applyTemplate}
+              onSave={onSaveTemplate && handleSaveTemplate}
+              onDelete={onDeleteTemplate && handleDeleteTemplate}
+              canDelete={canDeleteTemplate}
+              canSave={canSaveTemplate}
+            />
+          </Card>
+        )}
+
         <Card header={<span className="font-medium text-white">Message Type</span>}>
           <MessageTypeSelector value={messageType} onChange={setMessageType} />
         </Card>
@@ -165,6 +384,41 @@ export const MessageComposer = forwardRef<MessageComposerRef, MessageComposerPro
           {messageType === MessageType.AUDIO && (
             <AudioMessageForm value={audioPayload} onChange={setAudioPayload} />
           )}
+          {messageType === MessageType.POLL && (
+            <PollMessageForm value={pollPayload} onChange={setPollPayload} />
+          )}
+        </Card>
+
+        {extractPlaceholders(content).length > 0 && (
+          <Card header={<span className="font-medium text-white">Placeholders</span>}>
+            <PlaceholderFields content={content} values={placeholderValues} onChange={setPlaceholderValues} />
+          </Card>
+        )}
+
+        <Card header={<span className="font-medium text-white">Priority</span>}>
+          <PrioritySelector value={priority} onChange={setPriority} />
+          <p className="mt-3 text-xs text-slate-500">Devices in do-not-disturb: {DND_HOLD_RULE}</p>
+          {canOverrideDnd && priority === 'urgent' && (
+            <Toggle
+              checked={overrideDnd}
+              onChange={setOverrideDnd}
+              label="Deliver to devices in do-not-disturb"
+              className="mt-4"
+            />
+          )}
+        </Card>
+
+        {messageType !== MessageType.POLL && (
+          <Card header={<span className="font-medium text-white">Reply Options</span>}>
+            <ReplyOptionsForm value={replyPayload} onChange={setReplyPayload} />
+          </Card>
+        )}
+
+        <Card header={<span className="font-medium text-white">Delivery</span>}>
+          <div className="space-y-6">
+            <SendLaterForm value={sendLaterPayload} onChange={setSendLaterPayload} />
+            <ExpirySelector value={expiry} onChange={setExpiry} />
+          </div>
         </Card>
 
         <div className="flex gap-3">
@@ -180,9 +434,9 @@ export const MessageComposer = forwardRef<MessageComposerRef, MessageComposerPro
             variant="primary"
             onClick={handleSend}
             disabled={!canSend}
-            iconLeft={<Send className="w-4 h-4" />}
+            iconLeft={sendLaterPayload.enabled ? <Clock className="w-4 h-4" /> : <Send className="w-4 h-4" />}
           >
-            Send{selectedDeviceCount > 0 && ` to ${selectedDeviceCount} device${selectedDeviceCount !== 1 ? 's' : ''}`}
+            {sendLaterPayload.enabled ? 'Schedule' : 'Send'}{selectedDeviceCount > 0 && ` to ${selectedDeviceCount} device${selectedDeviceCount !== 1 ? 's' : ''}`}
           </Button>
         </div>
       </div>
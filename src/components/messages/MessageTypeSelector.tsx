@@ -1,7 +1,7 @@
 'use client';
 
 import { clsx } from 'clsx';
-import { MessageSquare, Image, Video, Volume2 } from 'lucide-react';
+import { MessageSquare, Image, Video, Volume2, BarChart3 } from 'lucide-react';
 import { MessageType } from '@/types';
 import type { ReactNode } from 'react';
 
@@ -37,6 +37,12 @@ const messageTypes: MessageTypeOption[] = [
     label: 'Audio',
     description: 'Voice message or sound',
   },
+  {
+    type: MessageType.POLL,
+    icon: <BarChart3 className="w-6 h-6" />,
+    label: 'Poll',
+    description: 'Question with live results',
+  },
 ];
 
 interface MessageTypeSelectorProps {
@@ -0,0 +1,39 @@
+'use client';
+
+import { Input } from '@/components/ui';
+import { BUILT_IN_PLACEHOLDERS, MAX_PLACEHOLDER_VALUE_LENGTH, extractPlaceholders } from '@/lib/placeholders';
+
+interface PlaceholderFieldsProps {
+  content: string;
+  values: Record<string, string>;
+  onChange: (values: Record<string, string>) => void;
+}
+
+const BUILT_IN = new Set<string>(BUILT_IN_PLACEHOLDERS);
+
+export function PlaceholderFields({ content, values, onChange }: PlaceholderFieldsProps) {
+  const names = extractPlaceholders(content);
+  const builtIn = names.filter((name) => BUILT_IN.has(name));
+  const custom = names.filter((name) => !BUILT_IN.has(name));
+
+  return (
+    <div className="space-y-4">
+      {builtIn.length > 0 && (
+        <p className="text-sm text-slate-400">
+          Filled in per device when sending: {builtIn.map((name) => `{{${name}}}`).join(', ')}
+        </p>
+      )}
+
+      {custom.map((name) => (
+        <Input
+          key={name}
+          label={`{{${name}}}`}
+          value={values[name] ?? ''}
+          maxLength={MAX_PLACEHOLDER_VALUE_LENGTH}
+          onChange={(e) => onChange({ ...values, [name]: e.target.value })}
+          placeholder={`Value for ${name}`}
+        />
+      ))}
+    </div>
+  );
+}
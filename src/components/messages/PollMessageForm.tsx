@@ -0,0 +1,90 @@
+'use client';
+
+import { Plus, X } from 'lucide-react';
+import { Textarea, Input, Button } from '@/components/ui';
+
+const MIN_POLL_OPTIONS = 2;
+const MAX_POLL_OPTIONS = 6;
+
+interface PollMessagePayload {
+  content: string;
+  options: string[];
+  closesAt: string;
+}
+
+interface PollMessageFormProps {
+  value: PollMessagePayload;
+  onChange: (payload: PollMessagePayload) => void;
+}
+
+export function PollMessageForm({ value, onChange }: PollMessageFormProps) {
+  const updateOption = (index: number, text: string) => {
+    const options = [...value.options];
+    options[index] = text;
+    onChange({ ...value, options });
+  };
+
+  const removeOption = (index: number) => {
+    onChange({ ...value, options: value.options.filter((_, i) => i !== index) });
+  };
+
+  const addOption = () => {
+    onChange({ ...value, options: [...value.options, ''] });
+  };
+
+  return (
+    <div className="space-y-4">
+      <Textarea
+        label="Question"
+        placeholder="What would you like to ask?"
+        value={value.content}
+        onChange={(e) => onChange({ ...value, content: e.target.value })}
+        maxLength={500}
+        showCount
+      />
+
+      <div className="space-y-2">
+        <p className="text-sm font-medium text-slate-300">Options</p>
+        {value.options.map((option, index) => (
+          <div key={index} className="flex items-center gap-2">
+            <div className="flex-1">
+              <Input
+                placeholder={`Option ${index + 1}`}
+                value={option}
+                onChange={(e) => updateOption(index, e.target.value)}
+                maxLength={80}
+              />
+            </div>
+            {value.options.length > MIN_POLL_OPTIONS && (
+              <button
+                type="button"
+                onClick={() => removeOption(index)}
+                className="text-slate-400 hover:text-white transition-colors p-1"
+                aria-label="Remove option"
+              >
+                <X className="w-4 h-4" />
+              </button>
+            )}
+          </div>
+        ))}
+        {value.options.length < MAX_POLL_OPTIONS && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={addOption}
+            iconLeft={<Plus className="w-4 h-4" />}
+          >
+            Add option
+          </Button>
+        )}
+      </div>
+
+      <Input
+        label="Voting closes (optional)"
+        type="datetime-local"
+        value={value.closesAt}
+        onChange={(e) => onChange({ ...value, closesAt: e.target.value })}
+      />
+    </div>
+  );
+}
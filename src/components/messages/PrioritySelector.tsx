@@ -0,0 +1,55 @@
+'use client';
+
+import { clsx } from 'clsx';
+import type { MessagePriority } from '@/types';
+
+interface PriorityOption {
+  value: MessagePriority;
+  label: string;
+  selectedClass: string;
+}
+
+const priorities: PriorityOption[] = [
+  { value: 'low', label: 'Low', selectedClass: 'border-slate-400 bg-slate-500/20 text-white' },
+  { value: 'normal', label: 'Normal', selectedClass: 'border-blue-500 bg-blue-500/10 text-white' },
+  { value: 'high', label: 'High', selectedClass: 'border-yellow-500 bg-yellow-500/10 text-white' },
+  { value: 'urgent', label: 'Urgent', selectedClass: 'border-red-500 bg-red-500/10 text-white' },
+];
+
+interface PrioritySelectorProps {
+  value: MessagePriority;
+  onChange: (priority: MessagePriority) => void;
+}
+
+export function PrioritySelector({ value, onChange }: PrioritySelectorProps) {
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-4 gap-2">
+        {priorities.map((option) => (
+          <button
+            key={option.value}
+            type="button"
+            onClick={() => onChange(option.value)}
+            className={clsx(
+              'px-3 py-2 rounded-lg border-2 text-sm font-medium transition-all',
+              'focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 focus:ring-offset-slate-900',
+              value === option.value
+                ? option.selectedClass
+                : 'border-slate-700 bg-slate-800 text-slate-300 hover:border-slate-600'
+            )}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+      {value === 'urgent' && (
+        <p className="text-xs text-red-400">
+          Opens full-screen on the device and stays until the recipient acknowledges it.
+        </p>
+      )}
+      {value === 'high' && (
+        <p className="text-xs text-slate-500">Shown before other queued notifications.</p>
+      )}
+    </div>
+  );
+}
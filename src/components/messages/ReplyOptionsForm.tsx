@@ -0,0 +1,79 @@
+'use client';
+
+import { Plus, X } from 'lucide-react';
+import { Input, Toggle, Button } from '@/components/ui';
+
+export const MAX_REPLY_OPTIONS = 4;
+const MAX_REPLY_OPTION_LENGTH = 40;
+
+interface ReplyOptionsPayload {
+  options: string[];
+  allowFreeText: boolean;
+}
+
+interface ReplyOptionsFormProps {
+  value: ReplyOptionsPayload;
+  onChange: (payload: ReplyOptionsPayload) => void;
+}
+
+export function ReplyOptionsForm({ value, onChange }: ReplyOptionsFormProps) {
+  const updateOption = (index: number, text: string) => {
+    const options = [...value.options];
+    options[index] = text;
+    onChange({ ...value, options });
+  };
+
+  const removeOption = (index: number) => {
+    onChange({ ...value, options: value.options.filter((_, i) => i !== index) });
+  };
+
+  const addOption = () => {
+    onChange({ ...value, options: [...value.options, ''] });
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-slate-400">
+        Buttons shown on the notification. The recipient&apos;s choice appears in the message history.
+      </p>
+
+      {value.options.map((option, index) => (
+        <div key={index} className="flex items-center gap-2">
+          <div className="flex-1">
+            <Input
+              placeholder={index === 0 ? 'e.g. Yes' : index === 1 ? 'e.g. No' : 'Reply option'}
+              value={option}
+              onChange={(e) => updateOption(index, e.target.value)}
+              maxLength={MAX_REPLY_OPTION_LENGTH}
+            />
+          </div>
+          <button
+            type="button"
+            onClick={() => removeOption(index)}
+            className="text-slate-400 hover:text-white transition-colors p-1"
+            aria-label="Remove reply option"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      ))}
+
+      {value.options.length < MAX_REPLY_OPTIONS && (
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={addOption}
+          iconLeft={<Plus className="w-4 h-4" />}
+        >
+          Add reply button
+        </Button>
+      )}
+
+      <Toggle
+        checked={value.allowFreeText}
+        onChange={(checked) => onChange({ ...value, allowFreeText: checked })}
+        label="Allow free-text reply"
+      />
+    </div>
+  );
+}
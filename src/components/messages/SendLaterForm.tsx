@@ -0,0 +1,41 @@
+'use client';
+
+import { Input, Toggle } from '@/components/ui';
+
+interface SendLaterPayload {
+  enabled: boolean;
+  sendAt: string;
+}
+
+interface SendLaterFormProps {
+  value: SendLaterPayload;
+  onChange: (payload: SendLaterPayload) => void;
+}
+
+export function SendLaterForm({ value, onChange }: SendLaterFormProps) {
+  const timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+  return (
+    <div className="space-y-4">
+      <Toggle
+        checked={value.enabled}
+        onChange={(enabled) => onChange({ ...value, enabled })}
+        label="Send later"
+      />
+
+      {value.enabled && (
+        <div className="space-y-2">
+          <Input
+            label="Send at"
+            type="datetime-local"
+            value={value.sendAt}
+            onChange={(e) => onChange({ ...value, sendAt: e.target.value })}
+          />
+          <p className="text-xs text-slate-500">
+            Time zone: {timeZone}. The server sends the message at this time, even if this page is closed.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,131 @@
+'use client';
+
+import { useState } from 'react';
+import { Save, Trash2 } from 'lucide-react';
+import { Button, Input, Select } from '@/components/ui';
+import type { MessageTemplate } from '@/types';
+
+const MAX_TEMPLATE_NAME_LENGTH = 50;
+
+interface TemplatePickerProps {
+  templates: MessageTemplate[];
+  selectedId: string | null;
+  onSelect: (template: MessageTemplate) => void;
+  onSave?: (name: string) => Promise<void>;  // omitted = no saving
+  onDelete?: (id: string) => Promise<void>;
+  canDelete?: (template: MessageTemplate) => boolean;
+  canSave?: boolean;
+}
+
+export function TemplatePicker({
+  templates,
+  selectedId,
+  onSelect,
+  onSave,
+  onDelete,
+  canDelete = () => true,
+  canSave = true,
+}: TemplatePickerProps) {
+  const [isNaming, setIsNaming] = useState(false);
+  const [name, setName] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [isDeleting, setIsDeleting] = useState(false);
+
+  const selected = templates.find((t) => t.id === selectedId);
+
+  const handleSelect = (id: string) => {
+    const template = templates.find((t) => t.id === id);
+    if (template) onSelect(template);
+  };
+
+  const handleSave = async () => {
+    if (!onSave || !name.trim()) return;
+    setIsSaving(true);
+    try {
+      await onSave(name.trim());
+      setIsNaming(false);
+      setName('');
+    } catch {
+      // Error handling is done in parent
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!onDelete || !selected) return;
+    setIsDeleting(true);
+    try {
+      await onDelete(selected.id);
+    } catch {
+      // Error handling is done in parent
+    } finally {
+      setIsDeleting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-end gap-2">
+        <div className="flex-1">
+          <Select
+            aria-label="Template"
+            value={selected ? selected.id : ''}
+            placeholder={templates.length > 0 ? 'Choose a template' : 'No templates yet'}
+            options={templates.map((t) => ({ value: t.id, label: t.name }))}
+            onChange={(e) => handleSelect(e.target.value)}
+            disabled={templates.length === 0}
+          />
+        </div>
+        {onDelete && selected && canDelete(selected) && (
+          <Button
+            type="button"
+            variant="ghost"
+            className="text-red-400 hover:text-red-300"
+            loading={isDeleting}
+            onClick={handleDelete}
+            iconLeft={<Trash2 className="w-4 h-4" />}
+          >
+            Delete
+          </Button>
+        )}
+      </div>
+
+      {onSave && (isNaming ? (
+        <div className="flex items-end gap-2">
+          <div className="flex-1">
+            <Input
+              label="Template name"
+              value={name}
+              maxLength={MAX_TEMPLATE_NAME_LENGTH}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. Dinner is ready"
+              autoFocus
+            />
+          </div>
+          <Button type="button" variant="ghost" onClick={() => setIsNaming(false)} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button type="button" variant="primary" onClick={handleSave} loading={isSaving} disabled={!name.trim()}>
+            Save
+          </Button>
+        </div>
+      ) : (
+        <Button
+          type="button"
+          variant="secondary"
+          size="sm"
+          onClick={() => setIsNaming(true)}
+          disabled={!canSave}
+          iconLeft={<Save className="w-4 h-4" />}
+        >
+          Save as template
+        </Button>
+      ))}
+      <p className="text-xs text-slate-500">
+        Templates keep the content, media and default targets. Use {'{{deviceName}}'}, {'{{senderEmail}}'}, {'{{time}}'},
+        {' '}{'{{date}}'} or your own fields like {'{{room}}'} in the text.
+      </p>
+    </div>
+  );
+}
@@ -1,6 +1,11 @@
 'use client';
 
-import { Textarea } from '@/components/ui';
+import { useRef } from 'react';
+import { Bold, Italic, Code, Link, List, ListOrdered, type LucideIcon } from 'lucide-react';
+import { Textarea, MarkdownText } from '@/components/ui';
+import { hasMarkdown } from '@/lib/markdown';
+
+const MAX_CONTENT_LENGTH = 500;
 
 interface TextMessagePayload {
   content: string;
@@ -11,17 +16,127 @@ interface TextMessageFormProps {
   onChange: (payload: TextMessagePayload) => void;
 }
 
+type TextFormat = 'bold' | 'italic' | 'code' | 'link' | 'bullets' | 'numbers';
+
+interface FormattedText {
+  text: string;
+  selectionStart: number;
+  selectionEnd: number;
+}
+
+const FORMAT_BUTTONS: { format: TextFormat; label: string; icon: LucideIcon }[] = [
+  { format: 'bold', label: 'Bold', icon: Bold },
+  { format: 'italic', label: 'Italic', icon: Italic },
+  { format: 'code', label: 'Inline code', icon: Code },
+  { format: 'link', label: 'Link', icon: Link },
+  { format: 'bullets', label: 'Bulleted list', icon: List },
+  { format: 'numbers', label: 'Numbered list', icon: ListOrdered },
+];
+
+const WRAP_MARKS: Partial<Record<TextFormat, string>> = { bold: '**', italic: '*', code: '`' };
+
+// Apply a toolbar format to the selection, keeping the formatted text selected
+function applyFormat(text: string, start: number, end: number, format: TextFormat): FormattedText {
+  const selected = text.slice(start, end);
+  const before = text.slice(0, start);
+  const after = text.slice(end);
+
+  const mark = WRAP_MARKS[format];
+  if (mark) {
+    const inner = selected || 'text';
+    return {
+      text: `${before}${mark}${inner}${mark}${after}`,
+      selectionStart: start + mark.length,
+      selectionEnd: start + mark.length + inner.length,
+    };
+  }
+
+  if (format === 'link') {
+    const label = selected || 'link text';
+    const url = 'https://';
+    const urlStart = start + label.length + 3;
+    return {
+      text: `${before}[${label}](${url})${after}`,
+      selectionStart: urlStart,
+      selectionEnd: urlStart + url.length,
+    };
+  }
+
+  // Lists: prefix every selected line (or the line with the cursor)
+  const lineStart = text.lastIndexOf('\n', start - 1) + 1;
+  const lineEnd = text.indexOf('\n', end) === -1 ? text.length : text.indexOf('\n', end);
+  const lines = text.slice(lineStart, lineEnd).split('\n');
+  const listed = lines.map((line, index) => `${format === 'numbers' ? `${index + 1}.` : '-'} ${line}`).join('\n');
+  return {
+    text: text.slice(0, lineStart) + listed + text.slice(lineEnd),
+    selectionStart: lineStart,
+    selectionEnd: lineStart + listed.length,
+  };
+}
+
 export function TextMessageForm({ value, onChange }: TextMessageFormProps) {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  const handleFormat = (format: TextFormat) => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+
+    const formatted = applyFormat(value.content, textarea.selectionStart, textarea.selectionEnd, format);
+    if (formatted.text.length > MAX_CONTENT_LENGTH) return;
+
+    onChange({ content: formatted.text });
+    // Restore the selection once React has rendered the new value
+    requestAnimationFrame(() => {
+      textarea.focus();
+      textarea.setSelectionRange(formatted.selectionStart, formatted.selectionEnd);
+    });
+  };
+
   return (
     <div className="space-y-4">
-      <Textarea
-        label="Message Content"
-        placeholder="Enter your notification message..."
-        value={value.content}
-        onChange={(e) => onChange({ content: e.target.value })}
-        maxLength={500}
-        showCount
-      />
+      <div>
+        <div className="flex items-center justify-between mb-1.5">
+          <label htmlFor="text-message-content" className="text-sm font-medium text-slate-300">
+            Message Content
+          </label>
+          <div className="flex items-center gap-0.5" role="toolbar" aria-label="Text formatting">
+            {FORMAT_BUTTONS.map(({ format, label, icon: Icon }) => (
+              <button
+                key={format}
+                type="button"
+                onClick={() => handleFormat(format)}
+                className="p-1.5 rounded-md text-slate-400 hover:text-white hover:bg-slate-700 transition-colors"
+                aria-label={label}
+                title={label}
+              >
+                <Icon className="w-4 h-4" />
+              </button>
+            ))}
+          </div>
+        </div>
+        <Textarea
+          ref={textareaRef}
+          id="text-message-content"
+          placeholder="Enter your notification message..."
+          value={value.content}
+          onChange={(e) => onChange({ content: e.target.value })}
+          maxLength={MAX_CONTENT_LENGTH}
+          showCount
+        />
+        <p className="text-xs text-slate-500">
+          Supports **bold**, *italic*, `code`, [links](https://...) and lists. Older clients show plain text.
+        </p>
+      </div>
+
+      {hasMarkdown(value.content) && (
+        <div>
+          <p className="text-sm font-medium text-slate-300 mb-1.5">Preview</p>
+          <MarkdownText
+            text={value.content}
+            className="rounded-lg border border-slate-700 bg-slate-900/50 px-3 py-2 text-sm text-slate-200 leading-relaxed"
+          />
+        </div>
+      )}
     </div>
   );
 }
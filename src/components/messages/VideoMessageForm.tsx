@@ -3,6 +3,7 @@
 import { Textarea, Input } from '@/components/ui';
 import { detectVideoType, getEmbedUrl } from '@/lib/video-utils';
 import { Video, AlertCircle } from 'lucide-react';
+import { MediaUploadZone } from './MediaUploadZone';
 
 interface VideoMessagePayload {
   content: string;
@@ -37,6 +38,11 @@ export function VideoMessageForm({ value, onChange }: VideoMessageFormProps) {
         onChange={(e) => onChange({ ...value, videoUrl: e.target.value })}
       />
 
+      <MediaUploadZone
+        kind="video"
+        onUploaded={(media) => onChange({ ...value, videoUrl: media.url })}
+      />
+
       {value.videoUrl && (
         <div className="mt-4">
           <p className="text-sm font-medium text-slate-300 mb-2">
@@ -53,9 +59,18 @@ export function VideoMessageForm({ value, onChange }: VideoMessageFormProps) {
                 <AlertCircle className="w-8 h-8" />
                 <p className="text-sm">Unsupported video URL</p>
                 <p className="text-xs text-slate-600">
-                  Supports YouTube and Loom URLs
+                  Supports YouTube and Loom URLs and MP4, WebM or MOV files
                 </p>
               </div>
+            ) : videoType === 'file' ? (
+              <video
+                controls
+                className="w-full max-h-64 bg-black"
+                src={value.videoUrl}
+                preload="metadata"
+              >
+                Your browser does not support the video element.
+              </video>
             ) : embedUrl ? (
               <div className="aspect-video">
                 <iframe
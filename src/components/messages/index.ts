@@ -3,5 +3,12 @@ export { TextMessageForm } from './TextMessageForm';
 export { ImageMessageForm } from './ImageMessageForm';
 export { VideoMessageForm } from './VideoMessageForm';
 export { AudioMessageForm } from './AudioMessageForm';
+export { PollMessageForm } from './PollMessageForm';
+export { ReplyOptionsForm } from './ReplyOptionsForm';
+export { PrioritySelector } from './PrioritySelector';
+export { SendLaterForm } from './SendLaterForm';
+export { ExpirySelector, type MessageExpiry } from './ExpirySelector';
+export { TemplatePicker } from './TemplatePicker';
+export { PlaceholderFields } from './PlaceholderFields';
 export { MessageComposer } from './MessageComposer';
 export type { MessageData, MessageComposerRef } from './MessageComposer';
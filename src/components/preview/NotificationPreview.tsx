@@ -5,6 +5,8 @@ import { format } from 'date-fns';
 import { Zap, Play, Volume2 } from 'lucide-react';
 import { MessageType } from '@/types';
 import { getThumbnailUrl } from '@/lib/video-utils';
+import { getMediaVariantUrl } from '@/lib/media';
+import { MarkdownText } from '@/components/ui';
 import type { MessageData } from '@/components/messages/MessageComposer';
 
 interface NotificationPreviewProps {
@@ -44,16 +46,20 @@ export function NotificationPreview({
 
       {/* Content */}
       <div className="p-4 space-y-3">
-        {/* Text Content */}
-        <p className="text-sm text-slate-200 whitespace-pre-wrap break-words leading-relaxed">
-          {message.content || 'No message content'}
-        </p>
+        {/* Text Content (TEXT messages are rendered as Markdown like on the client) */}
+        {message.type === MessageType.TEXT && message.content ? (
+          <MarkdownText text={message.content} className="text-sm text-slate-200 leading-relaxed" />
+        ) : (
+          <p className="text-sm text-slate-200 whitespace-pre-wrap break-words leading-relaxed">
+            {message.content || 'No message content'}
+          </p>
+        )}
 
         {/* Image Preview */}
         {message.type === MessageType.TEXT_IMAGE && message.imageUrl && (
           <div className="rounded-lg overflow-hidden bg-slate-900/50">
             <img
-              src={message.imageUrl}
+              src={getMediaVariantUrl(message.imageUrl, 'thumb')}
               alt="Notification image"
               className="w-full max-h-48 object-cover"
             />
@@ -105,6 +111,20 @@ export function NotificationPreview({
             </div>
           </div>
         )}
+
+        {/* Poll Options Preview */}
+        {message.type === MessageType.POLL && message.pollOptions && (
+          <div className="space-y-2">
+            {message.pollOptions.map((option) => (
+              <div
+                key={option}
+                className="px-3 py-2 rounded-lg border border-blue-500/40 bg-blue-500/10 text-sm text-blue-200"
+              >
+                {option}
+              </div>
+            ))}
+          </div>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,376 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { clsx } from 'clsx';
+import { Clock, Plus, Repeat, X } from 'lucide-react';
+import { Button, Input, Select } from '@/components/ui';
+import { WEEKDAYS, describeRecurrence, getOccurrences } from '@/lib/recurrence';
+import type { RecurrenceFrequency, RecurrenceRule, Weekday } from '@/types';
+
+interface RecurrenceEditorProps {
+  value: RecurrenceRule | undefined;
+  startDate: string;
+  onChange: (rule: RecurrenceRule | undefined) => void;
+}
+
+type EndMode = 'never' | 'until' | 'count';
+type MonthlyMode = 'monthDay' | 'weekday';
+
+const PREVIEW_COUNT = 5;
+
+const FREQUENCY_OPTIONS = [
+  { value: '', label: 'Keine (einmalig)' },
+  { value: 'DAILY', label: 'Taeglich' },
+  { value: 'WEEKLY', label: 'Woechentlich' },
+  { value: 'MONTHLY', label: 'Monatlich' },
+  { value: 'YEARLY', label: 'Jaehrlich' },
+];
+
+const INTERVAL_UNITS: Record<RecurrenceFrequency, string> = {
+  DAILY: 'Tag(e)',
+  WEEKLY: 'Woche(n)',
+  MONTHLY: 'Monat(e)',
+  YEARLY: 'Jahr(e)',
+};
+
+const WEEKDAY_SHORT: Record<Weekday, string> = {
+  MO: 'Mo',
+  TU: 'Di',
+  WE: 'Mi',
+  TH: 'Do',
+  FR: 'Fr',
+  SA: 'Sa',
+  SU: 'So',
+};
+
+const ORDINAL_OPTIONS = [
+  { value: '1', label: '1.' },
+  { value: '2', label: '2.' },
+  { value: '3', label: '3.' },
+  { value: '4', label: '4.' },
+  { value: '-1', label: 'letzten' },
+];
+
+const WEEKDAY_OPTIONS = WEEKDAYS.map((day) => ({ value: day, label: WEEKDAY_SHORT[day] }));
+
+const WORKDAYS: Weekday[] = ['MO', 'TU', 'WE', 'TH', 'FR'];
+
+function todayString(): string {
+  const now = new Date();
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
+}
+
+// Time zone of the browser, used for the time of day
+function localTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+function weekdayOfDate(date: string): Weekday {
+  const [year, month, day] = date.split('-').map(Number);
+  return WEEKDAYS[(new Date(Date.UTC(year, month - 1, day)).getUTCDay() + 6) % 7];
+}
+
+function formatOccurrence(date: string): string {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day)).toLocaleDateString('de-DE', {
+    weekday: 'short',
+    day: '2-digit',
+    month: '2-digit',
+    year: 'numeric',
+    timeZone: 'UTC',
+  });
+}
+
+export function RecurrenceEditor({ value, startDate, onChange }: RecurrenceEditorProps) {
+  const [exDateInput, setExDateInput] = useState('');
+
+  const preview = useMemo(() => {
+    if (!startDate) return [];
+    const today = todayString();
+    return getOccurrences(value, startDate, {
+      from: startDate > today ? startDate : today,
+      limit: PREVIEW_COUNT,
+    });
+  }, [value, startDate]);
+
+  const update = (changes: Partial<RecurrenceRule>) => {
+    if (value) onChange({ ...value, ...changes });
+  };
+
+  const handleFrequencyChange = (freq: string) => {
+    if (!freq) {
+      onChange(undefined);
+      return;
+    }
+
+    const rule: RecurrenceRule = { freq: freq as RecurrenceFrequency, interval: value?.interval ?? 1 };
+    if (freq === 'WEEKLY' && startDate) {
+      rule.byDay = [{ day: weekdayOfDate(startDate) }];
+    }
+    onChange({
+      ...rule,
+      until: value?.until,
+      count: value?.count,
+      exDates: value?.exDates,
+      time: value?.time,
+      timezone: value?.timezone,
+    });
+  };
+
+  const handleTimeChange = (time: string) => {
+    update({ time: time || undefined, timezone: time ? value?.timezone ?? localTimeZone() : undefined });
+  };
+
+  const toggleWeekday = (day: Weekday) => {
+    const current = value?.byDay ?? [];
+    const byDay = current.some((d) => d.day === day)
+      ? current.filter((d) => d.day !== day)
+      : WEEKDAYS.filter((w) => w === day || current.some((d) => d.day === w)).map((w) => ({ day: w }));
+    update({ byDay: byDay.length > 0 ? byDay : undefined });
+  };
+
+  const endMode: EndMode = value?.until ? 'until' : value?.count !== undefined ? 'count' : 'never';
+  const monthlyMode: MonthlyMode = value?.byDay?.length ? 'weekday' : 'monthDay';
+  const startDay = startDate ? Number(startDate.split('-')[2]) : 1;
+
+  const handleEndModeChange = (mode: EndMode) => {
+    update({
+      until: mode === 'until' ? value?.until ?? startDate : undefined,
+      count: mode === 'count' ? value?.count ?? 10 : undefined,
+    });
+  };
+
+  const handleMonthlyModeChange = (mode: MonthlyMode) => {
+    update({
+      byMonthDay: undefined,
+      byDay: mode === 'weekday' ? [{ day: weekdayOfDate(startDate), nth: Math.min(4, Math.ceil(startDay / 7)) }] : undefined,
+    });
+  };
+
+  const addExDate = () => {
+    if (!exDateInput || value?.exDates?.includes(exDateInput)) return;
+    update({ exDates: [...(value?.exDates ?? []), exDateInput].sort() });
+    setExDateInput('');
+  };
+
+  const removeExDate = (date: string) => {
+    const exDates = value?.exDates?.filter((d) => d !== date);
+    update({ exDates: exDates?.length ? exDates : undefined });
+  };
+
+  return (
+    <div className="space-y-3 p-3 bg-slate-900/50 rounded-lg border border-slate-700">
+      <div className="flex items-end gap-2">
+        <div className="flex-1">
+          <label className="block text-sm font-medium text-slate-300 mb-1">
+            <Repeat className="w-4 h-4 inline mr-1" />
+            Wiederholung
+          </label>
+          <Select
+            options={FREQUENCY_OPTIONS}
+            value={value?.freq ?? ''}
+            onChange={(e) => handleFrequencyChange(e.target.value)}
+          />
+        </div>
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          onClick={() =>
+            onChange({
+              freq: 'WEEKLY',
+              interval: 1,
+              byDay: WORKDAYS.map((day) => ({ day })),
+              time: value?.time,
+              timezone: value?.timezone,
+            })
+          }
+        >
+          Werktags
+        </Button>
+      </div>
+
+      {value && (
+        <>
+          {/* Interval */}
+          <div className="flex items-center gap-2 text-sm text-slate-300">
+            <span>Alle</span>
+            <div className="w-20">
+              <Input
+                type="number"
+                min={1}
+                max={99}
+                value={value.interval}
+                onChange={(e) => update({ interval: Math.max(1, Number(e.target.value) || 1) })}
+              />
+            </div>
+            <span>{INTERVAL_UNITS[value.freq]}</span>
+          </div>
+
+          {/* Weekdays (weekly, or as filter for daily) */}
+          {(value.freq === 'WEEKLY' || value.freq === 'DAILY') && (
+            <div className="flex flex-wrap gap-1">
+              {WEEKDAYS.map((day) => (
+                <button
+                  key={day}
+                  type="button"
+                  onClick={() => toggleWeekday(day)}
+                  className={clsx(
+                    'w-10 py-1 rounded-md border text-sm transition-colors',
+                    value.byDay?.some((d) => d.day === day)
+                      ? 'border-blue-500 bg-blue-500/20 text-white'
+                      : 'border-slate-700 bg-slate-800 text-slate-400 hover:border-slate-600'
+                  )}
+                >
+                  {WEEKDAY_SHORT[day]}
+                </button>
+              ))}
+            </div>
+          )}
+
+          {/* Day of month or nth weekday */}
+          {(value.freq === 'MONTHLY' || value.freq === 'YEARLY') && (
+            <div className="space-y-2 text-sm text-slate-300">
+              <label className="flex items-center gap-2 cursor-pointer">
+                <input
+                  type="radio"
+                  checked={monthlyMode === 'monthDay'}
+                  onChange={() => handleMonthlyModeChange('monthDay')}
+                  className="text-blue-600 focus:ring-blue-500"
+                />
+                Am {startDay}.{value.freq === 'MONTHLY' && ' des Monats'}
+              </label>
+              <div className="flex items-center gap-2">
+                <input
+                  type="radio"
+                  checked={monthlyMode === 'weekday'}
+                  onChange={() => handleMonthlyModeChange('weekday')}
+                  className="text-blue-600 focus:ring-blue-500"
+                />
+                <span>Am</span>
+                <Select
+                  options={ORDINAL_OPTIONS}
+                  value={String(value.byDay?.[0]?.nth ?? 1)}
+                  disabled={monthlyMode !== 'weekday'}
+                  onChange={(e) =>
+                    update({ byDay: [{ day: value.byDay?.[0]?.day ?? weekdayOfDate(startDate), nth: Number(e.target.value) }] })
+                  }
+                />
+                <Select
+                  options={WEEKDAY_OPTIONS}
+                  value={value.byDay?.[0]?.day ?? weekdayOfDate(startDate)}
+                  disabled={monthlyMode !== 'weekday'}
+                  onChange={(e) =>
+                    update({ byDay: [{ day: e.target.value as Weekday, nth: value.byDay?.[0]?.nth ?? 1 }] })
+                  }
+                />
+              </div>
+            </div>
+          )}
+
+          {/* Time of day */}
+          <div className="flex items-center gap-2 text-sm text-slate-300">
+            <Clock className="w-4 h-4" />
+            <span>Um</span>
+            <div className="w-28">
+              <Input type="time" value={value.time ?? ''} onChange={(e) => handleTimeChange(e.target.value)} />
+            </div>
+            <span className="text-slate-500">{value.time ? `Uhr (${value.timezone})` : 'ganztaegig'}</span>
+          </div>
+
+          {/* End */}
+          <div className="flex items-center gap-2 text-sm text-slate-300">
+            <span>Endet</span>
+            <Select
+              options={[
+                { value: 'never', label: 'nie' },
+                { value: 'until', label: 'am' },
+                { value: 'count', label: 'nach' },
+              ]}
+              value={endMode}
+              onChange={(e) => handleEndModeChange(e.target.value as EndMode)}
+            />
+            {endMode === 'until' && (
+              <Input
+                type="date"
+                min={startDate}
+                value={value.until ?? ''}
+                onChange={(e) => update({ until: e.target.value || undefined })}
+              />
+            )}
+            {endMode === 'count' && (
+              <>
+                <div className="w-20">
+                  <Input
+                    type="number"
+                    min={1}
+                    value={value.count ?? 1}
+                    onChange={(e) => update({ count: Math.max(1, Number(e.target.value) || 1) })}
+                  />
+                </div>
+                <span>Terminen</span>
+              </>
+            )}
+          </div>
+
+          {/* Exclusions */}
+          <div className="space-y-2">
+            <div className="flex items-center gap-2 text-sm text-slate-300">
+              <span>Ausnahmen</span>
+              <Input
+                type="date"
+                min={startDate}
+                value={exDateInput}
+                onChange={(e) => setExDateInput(e.target.value)}
+              />
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={addExDate}
+                disabled={!exDateInput}
+                iconLeft={<Plus className="w-4 h-4" />}
+              >
+                Hinzufuegen
+              </Button>
+            </div>
+            {value.exDates && value.exDates.length > 0 && (
+              <div className="flex flex-wrap gap-1">
+                {value.exDates.map((date) => (
+                  <span
+                    key={date}
+                    className="flex items-center gap-1 px-2 py-0.5 rounded-md bg-slate-800 text-xs text-slate-300"
+                  >
+                    {formatOccurrence(date)}
+                    <button
+                      type="button"
+                      onClick={() => removeExDate(date)}
+                      className="text-slate-500 hover:text-white"
+                      aria-label="Ausnahme entfernen"
+                    >
+                      <X className="w-3 h-3" />
+                    </button>
+                  </span>
+                ))}
+              </div>
+            )}
+          </div>
+        </>
+      )}
+
+      {/* Summary and next occurrences */}
+      {startDate && (
+        <div className="pt-2 border-t border-slate-700 text-sm">
+          <p className="text-white">{describeRecurrence(value, startDate)}</p>
+          <p className="text-slate-500 mt-1">
+            {preview.length > 0
+              ? `Naechste Termine: ${preview
+                  .map((date) => (value?.time ? `${formatOccurrence(date)} ${value.time}` : formatOccurrence(date)))
+                  .join(' · ')}`
+              : 'Keine weiteren Termine'}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
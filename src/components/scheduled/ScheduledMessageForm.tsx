@@ -1,15 +1,18 @@
 'use client';
 
-import { useState, useEffect, useCallback } from 'react';
-import { X, Calendar, Repeat, Image, Video, Music, Send } from 'lucide-react';
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { X, Calendar, Image, Video, Music, Send } from 'lucide-react';
 import { Button, Input, Select, Card } from '@/components/ui';
-import { MessageType, type ScheduledMessageFormData, type Device } from '@/types';
+import { TargetGroupSelector } from '@/components/devices';
+import { MessageType, type ScheduledMessageFormData, type Device, type DeviceGroup } from '@/types';
+import { RecurrenceEditor } from './RecurrenceEditor';
 
 interface ScheduledMessageFormProps {
   isOpen: boolean;
   onClose: () => void;
   onSubmit: (data: ScheduledMessageFormData) => Promise<void>;
   devices: Device[];
+  groups?: DeviceGroup[];
   initialData?: Partial<ScheduledMessageFormData>;
   isEditing?: boolean;
 }
@@ -21,17 +24,17 @@ const MESSAGE_TYPE_OPTIONS = [
   { value: MessageType.AUDIO, label: 'Audio' },
 ];
 
-export function ScheduledMessageForm({
-  isOpen,
-  onClose,
-  onSubmit,
-  devices,
-  initialData,
-  isEditing = false,
-}: ScheduledMessageFormProps) {
-  const [formData, setFormData] = useState<ScheduledMessageFormData>({
+// targetDevices undefined = "Alle Geraete" (no devices, groups or tags stored)
+function toFormData(initialData?: Partial<ScheduledMessageFormData>): ScheduledMessageFormData {
+  const hasTarget = !!(
+    initialData?.targetDevices?.length ||
+    initialData?.targetGroups?.length ||
+    initialData?.targetTags?.length
+  );
+
+  return {
     date: initialData?.date || new Date().toISOString().split('T')[0],
-    recurring: initialData?.recurring || false,
+    recurrence: initialData?.recurrence,
     type: initialData?.type || MessageType.TEXT,
     content: initialData?.content || '',
     imageUrl: initialData?.imageUrl || '',
@@ -39,26 +42,34 @@ export function ScheduledMessageForm({
     audioUrl: initialData?.audioUrl || '',
     videoAutoplay: initialData?.videoAutoplay || false,
     audioAutoplay: initialData?.audioAutoplay || false,
-    targetDevices: initialData?.targetDevices || undefined,
-  });
+    targetDevices: hasTarget ? initialData?.targetDevices ?? [] : undefined,
+    targetGroups: initialData?.targetGroups ?? [],
+    targetTags: initialData?.targetTags ?? [],
+  };
+}
+
+export function ScheduledMessageForm({
+  isOpen,
+  onClose,
+  onSubmit,
+  devices,
+  groups = [],
+  initialData,
+  isEditing = false,
+}: ScheduledMessageFormProps) {
+  const [formData, setFormData] = useState<ScheduledMessageFormData>(() => toFormData(initialData));
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
+  const availableTags = useMemo(
+    () => [...new Set(devices.flatMap((d) => d.tags))].sort(),
+    [devices]
+  );
+
   // Reset form when modal opens
   useEffect(() => {
     if (isOpen) {
-      setFormData({
-        date: initialData?.date || new Date().toISOString().split('T')[0],
-        recurring: initialData?.recurring || false,
-        type: initialData?.type || MessageType.TEXT,
-        content: initialData?.content || '',
-        imageUrl: initialData?.imageUrl || '',
-        videoUrl: initialData?.videoUrl || '',
-        audioUrl: initialData?.audioUrl || '',
-        videoAutoplay: initialData?.videoAutoplay || false,
-        audioAutoplay: initialData?.audioAutoplay || false,
-        targetDevices: initialData?.targetDevices || undefined,
-      });
+      setFormData(toFormData(initialData));
       setError(null);
     }
   }, [isOpen, initialData]);
@@ -100,10 +111,29 @@ export function ScheduledMessageForm({
       return;
     }
 
+    if (formData.recurrence?.until && formData.recurrence.until < formData.date) {
+      setError('Das Ende der Wiederholung liegt vor dem ersten Termin');
+      return;
+    }
+
+    const isAllDevices = formData.targetDevices === undefined;
+    if (
+      !isAllDevices &&
+      !formData.targetDevices?.length &&
+      !formData.targetGroups?.length &&
+      !formData.targetTags?.length
+    ) {
+      setError('Bitte waehle mindestens ein Geraet, eine Gruppe oder einen Tag');
+      return;
+    }
+
     setIsSubmitting(true);
 
     try {
-      await onSubmit(formData);
+      // Empty lists clear the stored targets (all devices)
+      await onSubmit(
+        isAllDevices ? { ...formData, targetDevices: [], targetGroups: [], targetTags: [] } : formData
+      );
       onClose();
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Fehler beim Speichern');
@@ -130,6 +160,8 @@ export function ScheduledMessageForm({
     setFormData((prev) => ({
       ...prev,
       targetDevices: checked ? undefined : [],
+      targetGroups: [],
+      targetTags: [],
     }));
   };
 
@@ -170,41 +202,27 @@ export function ScheduledMessageForm({
         </div>
 
         {/* Form */}
-        <form onSubmit={handleSubmit} className="p-6 space-y-4">
-          {/* Date & Recurring */}
-          <div className="grid grid-cols-2 gap-4">
-            <div>
-              <label className="block text-sm font-medium text-slate-300 mb-1">
-                Datum
-              </label>
-              <Input
-                type="date"
-                value={formData.date}
-                onChange={(e) =>
-                  setFormData((prev) => ({ ...prev, date: e.target.value }))
-                }
-              />
-            </div>
-            <div className="flex items-end">
-              <label className="flex items-center gap-2 cursor-pointer">
-                <input
-                  type="checkbox"
-                  checked={formData.recurring}
-                  onChange={(e) =>
-                    setFormData((prev) => ({
-                      ...prev,
-                      recurring: e.target.checked,
-                    }))
-                  }
-                  className="w-4 h-4 rounded border-slate-600 bg-slate-700 text-blue-600 focus:ring-blue-500 focus:ring-offset-slate-800"
-                />
-                <span className="text-sm text-slate-300 flex items-center gap-1">
-                  <Repeat className="w-4 h-4" />
-                  Jaehrlich wiederholen
-                </span>
-              </label>
-            </div>
+        <form onSubmit={handleSubmit} className="p-6 space-y-4 max-h-[80vh] overflow-y-auto">
+          {/* Date & Recurrence */}
+          <div>
+            <label className="block text-sm font-medium text-slate-300 mb-1">
+              {formData.recurrence ? 'Erster Termin' : 'Datum'}
+            </label>
+            <Input
+              type="date"
+              value={formData.date}
+              onChange={(e) =>
+                setFormData((prev) => ({ ...prev, date: e.target.value }))
+              }
+            />
           </div>
+          <RecurrenceEditor
+            value={formData.recurrence}
+            startDate={formData.date}
+            onChange={(recurrence) =>
+              setFormData((prev) => ({ ...prev, recurrence }))
+            }
+          />
 
           {/* Message Type */}
           <div>
@@ -342,6 +360,18 @@ export function ScheduledMessageForm({
                   Alle Geraete
                 </span>
               </label>
+              {formData.targetDevices !== undefined && (
+                <TargetGroupSelector
+                  groups={groups}
+                  tags={availableTags}
+                  selectedGroupIds={formData.targetGroups ?? []}
+                  selectedTags={formData.targetTags ?? []}
+                  onGroupsChange={(targetGroups) => setFormData((prev) => ({ ...prev, targetGroups }))}
+                  onTagsChange={(targetTags) => setFormData((prev) => ({ ...prev, targetTags }))}
+                  groupsLabel="Gruppen"
+                  className="ml-4 border-l border-slate-700 pl-3"
+                />
+              )}
               {formData.targetDevices !== undefined && (
                 <div className="ml-4 space-y-1 border-l border-slate-700 pl-3">
                   {devices.map((device) => (
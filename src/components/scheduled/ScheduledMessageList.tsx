@@ -4,11 +4,12 @@ import { useMemo } from 'react';
 import { Calendar, Repeat, Trash2, Edit2, Users, Clock } from 'lucide-react';
 import { Button, Badge, Card } from '@/components/ui';
 import { MessageType, type ScheduledMessage } from '@/types';
+import { describeRecurrence, getOccurrences } from '@/lib/recurrence';
 
 interface ScheduledMessageListProps {
   messages: ScheduledMessage[];
-  onEdit: (message: ScheduledMessage) => void;
-  onDelete: (id: string) => void;
+  onEdit?: (message: ScheduledMessage) => void;  // omitted = read-only
+  onDelete?: (id: string) => void;
   isLoading?: boolean;
 }
 
@@ -29,6 +30,19 @@ function formatDateShort(dateStr: string): string {
   });
 }
 
+function todayString(): string {
+  const now = new Date();
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
+}
+
+/**
+ * Next occurrence from today, or null if the schedule has ended
+ */
+function getNextOccurrence(message: ScheduledMessage, today: string): string | null {
+  const from = message.date > today ? message.date : today;
+  return getOccurrences(message.recurrence, message.date, { from, limit: 1 })[0] ?? null;
+}
+
 function getDaysUntil(dateStr: string): number {
   const today = new Date();
   today.setHours(0, 0, 0, 0);
@@ -69,22 +83,18 @@ function getTypeLabel(type: MessageType): string {
 
 interface MessageCardProps {
   message: ScheduledMessage;
-  onEdit: () => void;
-  onDelete: () => void;
+  nextOccurrence: string | null;
+  onEdit?: () => void;
+  onDelete?: () => void;
   isUpcoming: boolean;
 }
 
-function MessageCard({ message, onEdit, onDelete, isUpcoming }: MessageCardProps) {
-  const daysUntil = getDaysUntil(message.date);
+function MessageCard({ message, nextOccurrence, onEdit, onDelete, isUpcoming }: MessageCardProps) {
+  const isAllDevices = !message.targetDevices && !message.targetGroups && !message.targetTags;
 
-  // For recurring messages, calculate days until next occurrence
-  let displayDaysUntil = daysUntil;
-  if (message.recurring && daysUntil < 0) {
-    // Next occurrence is next year
-    const nextDate = new Date(message.date);
-    nextDate.setFullYear(new Date().getFullYear() + 1);
-    displayDaysUntil = getDaysUntil(nextDate.toISOString().split('T')[0]);
-  }
+  // Ended schedules show their first date
+  const displayDate = nextOccurrence ?? message.date;
+  const displayDaysUntil = getDaysUntil(displayDate);
 
   const daysLabel = displayDaysUntil === 0
     ? 'Heute'
@@ -99,12 +109,12 @@ function MessageCard({ message, onEdit, onDelete, isUpcoming }: MessageCardProps
       {/* Date Badge */}
       <div className="flex-shrink-0 w-16 text-center">
         <div className="text-2xl font-bold text-white">
-          {new Date(message.date).getDate()}
+          {new Date(displayDate).getDate()}
         </div>
         <div className="text-xs text-slate-400 uppercase">
-          {new Date(message.date).toLocaleDateString('de-DE', { month: 'short' })}
+          {new Date(displayDate).toLocaleDateString('de-DE', { month: 'short' })}
         </div>
-        {message.recurring && (
+        {message.recurrence && (
           <Repeat className="w-3 h-3 text-blue-400 mx-auto mt-1" />
         )}
       </div>
@@ -116,12 +126,12 @@ function MessageCard({ message, onEdit, onDelete, isUpcoming }: MessageCardProps
           <Badge variant={isUpcoming ? 'info' : 'neutral'} size="sm">
             {getTypeLabel(message.type)}
           </Badge>
-          {message.recurring && (
+          {message.recurrence && (
             <Badge variant="info" size="sm">
-              Jaehrlich
+              Wiederkehrend
             </Badge>
           )}
-          {!message.targetDevices && (
+          {isAllDevices && (
             <Badge variant="success" size="sm">
               Alle Geraete
             </Badge>
@@ -133,41 +143,57 @@ function MessageCard({ message, onEdit, onDelete, isUpcoming }: MessageCardProps
         <div className="flex items-center gap-4 text-xs text-slate-400">
           <span className="flex items-center gap-1">
             <Calendar className="w-3 h-3" />
-            {formatDate(message.date)}
+            {message.recurrence
+              ? describeRecurrence(message.recurrence, message.date)
+              : formatDate(message.date)}
           </span>
           <span className="flex items-center gap-1">
             <Clock className="w-3 h-3" />
             {daysLabel}
           </span>
-          {message.targetDevices && (
+          {!isAllDevices && (
             <span className="flex items-center gap-1">
               <Users className="w-3 h-3" />
-              {message.targetDevices.length} Geraet{message.targetDevices.length !== 1 ? 'e' : ''}
+              {[
+                ...(message.targetGroups?.length
+                  ? [`${message.targetGroups.length} Gruppe${message.targetGroups.length !== 1 ? 'n' : ''}`]
+                  : []),
+                ...(message.targetTags ?? []).map((tag) => `#${tag}`),
+                ...(message.targetDevices?.length
+                  ? [`${message.targetDevices.length} Geraet${message.targetDevices.length !== 1 ? 'e' : ''}`]
+                  : []),
+              ].join(', ')}
             </span>
           )}
         </div>
       </div>
 
       {/* Actions */}
-      <div className="flex-shrink-0 flex items-center gap-2 opacity-0 group-hover:opacity-100 transition-opacity">
-        <Button
-          variant="ghost"
-          size="sm"
-          onClick={onEdit}
-          iconLeft={<Edit2 className="w-4 h-4" />}
-        >
-          Edit
-        </Button>
-        <Button
-          variant="ghost"
-          size="sm"
-          onClick={onDelete}
-          className="text-red-400 hover:text-red-300 hover:bg-red-500/10"
-          iconLeft={<Trash2 className="w-4 h-4" />}
-        >
-          Del
-        </Button>
-      </div>
+      {(onEdit || onDelete) && (
+        <div className="flex-shrink-0 flex items-center gap-2 opacity-0 group-hover:opacity-100 transition-opacity">
+          {onEdit && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={onEdit}
+              iconLeft={<Edit2 className="w-4 h-4" />}
+            >
+              Edit
+            </Button>
+          )}
+          {onDelete && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={onDelete}
+              className="text-red-400 hover:text-red-300 hover:bg-red-500/10"
+              iconLeft={<Trash2 className="w-4 h-4" />}
+            >
+              Del
+            </Button>
+          )}
+        </div>
+      )}
     </div>
   );
 }
@@ -178,30 +204,30 @@ export function ScheduledMessageList({
   onDelete,
   isLoading,
 }: ScheduledMessageListProps) {
-  // Separate upcoming and past messages
-  const { upcoming, past } = useMemo(() => {
-    const today = new Date().toISOString().split('T')[0];
+  // Separate upcoming and past messages by their next occurrence
+  const { upcoming, past, nextOccurrences } = useMemo(() => {
+    const today = todayString();
+    const next = new Map<string, string | null>();
     const upcomingList: ScheduledMessage[] = [];
     const pastList: ScheduledMessage[] = [];
 
     messages.forEach((msg) => {
-      if (msg.recurring) {
-        // Recurring messages are always "upcoming"
-        upcomingList.push(msg);
-      } else if (msg.date >= today) {
+      const occurrence = getNextOccurrence(msg, today);
+      next.set(msg.id, occurrence);
+      if (occurrence) {
         upcomingList.push(msg);
       } else {
         pastList.push(msg);
       }
     });
 
-    // Sort upcoming by date (ascending)
-    upcomingList.sort((a, b) => a.date.localeCompare(b.date));
+    // Sort upcoming by next occurrence (ascending)
+    upcomingList.sort((a, b) => next.get(a.id)!.localeCompare(next.get(b.id)!));
 
     // Sort past by date (descending)
     pastList.sort((a, b) => b.date.localeCompare(a.date));
 
-    return { upcoming: upcomingList, past: pastList };
+    return { upcoming: upcomingList, past: pastList, nextOccurrences: next };
   }, [messages]);
 
   if (isLoading) {
@@ -242,8 +268,9 @@ export function ScheduledMessageList({
               <MessageCard
                 key={msg.id}
                 message={msg}
-                onEdit={() => onEdit(msg)}
-                onDelete={() => onDelete(msg.id)}
+                nextOccurrence={nextOccurrences.get(msg.id) ?? null}
+                onEdit={onEdit && (() => onEdit(msg))}
+                onDelete={onDelete && (() => onDelete(msg.id))}
                 isUpcoming={true}
               />
             ))}
@@ -262,8 +289,9 @@ export function ScheduledMessageList({
               <MessageCard
                 key={msg.id}
                 message={msg}
-                onEdit={() => onEdit(msg)}
-                onDelete={() => onDelete(msg.id)}
+                nextOccurrence={nextOccurrences.get(msg.id) ?? null}
+                onEdit={onEdit && (() => onEdit(msg))}
+                onDelete={onDelete && (() => onDelete(msg.id))}
                 isUpcoming={false}
               />
             ))}
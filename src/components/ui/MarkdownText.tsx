@@ -0,0 +1,70 @@
+'use client';
+
+import { Fragment, type ReactNode } from 'react';
+import { clsx } from 'clsx';
+import { parseMarkdown, type MarkdownInline } from '@/lib/markdown';
+
+interface MarkdownTextProps {
+  text: string;
+  className?: string;
+}
+
+function renderInline(nodes: MarkdownInline[]): ReactNode[] {
+  return nodes.map((node, index) => {
+    switch (node.type) {
+      case 'text':
+        return <Fragment key={index}>{node.text}</Fragment>;
+      case 'break':
+        return <br key={index} />;
+      case 'bold':
+        return <strong key={index} className="font-semibold text-white">{renderInline(node.children)}</strong>;
+      case 'italic':
+        return <em key={index}>{renderInline(node.children)}</em>;
+      case 'code':
+        return (
+          <code key={index} className="px-1 py-0.5 rounded bg-slate-900/80 font-mono text-[0.85em] text-blue-200">
+            {node.text}
+          </code>
+        );
+      case 'link':
+        return (
+          <a
+            key={index}
+            href={node.href}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="text-blue-400 underline hover:text-blue-300"
+          >
+            {renderInline(node.children)}
+          </a>
+        );
+    }
+  });
+}
+
+/**
+ * Text in the restricted Markdown dialect of TEXT messages, rendered as React elements
+ * (never as HTML, so the text can't inject markup)
+ */
+export function MarkdownText({ text, className }: MarkdownTextProps) {
+  return (
+    <div className={clsx('space-y-2 break-words', className)}>
+      {parseMarkdown(text).map((block, index) => {
+        if (block.type === 'paragraph') {
+          return <p key={index}>{renderInline(block.children)}</p>;
+        }
+
+        const items = block.items.map((item, itemIndex) => <li key={itemIndex}>{renderInline(item)}</li>);
+        return block.ordered ? (
+          <ol key={index} start={block.start} className="list-decimal pl-5 space-y-0.5">
+            {items}
+          </ol>
+        ) : (
+          <ul key={index} className="list-disc pl-5 space-y-0.5">
+            {items}
+          </ul>
+        );
+      })}
+    </div>
+  );
+}
@@ -1,13 +1,14 @@
 'use client';
 
 import { clsx } from 'clsx';
-import { useRef, useEffect, type TextareaHTMLAttributes } from 'react';
+import { useRef, useEffect, type Ref, type TextareaHTMLAttributes } from 'react';
 
 interface TextareaProps extends TextareaHTMLAttributes<HTMLTextAreaElement> {
   label?: string;
   error?: string;
   showCount?: boolean;
   autoResize?: boolean;
+  ref?: Ref<HTMLTextAreaElement>;
 }
 
 export function Textarea({
@@ -21,6 +22,7 @@ export function Textarea({
   id,
   value,
   onChange,
+  ref,
   ...props
 }: TextareaProps) {
   const textareaId = id || props.name;
@@ -33,6 +35,16 @@ export function Textarea({
     }
   }, [value, autoResize]);
 
+  // The auto-resize ref and the caller's ref (e.g. to edit the selection)
+  const setRefs = (node: HTMLTextAreaElement | null) => {
+    textareaRef.current = node;
+    if (typeof ref === 'function') {
+      ref(node);
+    } else if (ref) {
+      ref.current = node;
+    }
+  };
+
   const currentLength = typeof value === 'string' ? value.length : 0;
 
   return (
@@ -46,7 +58,7 @@ export function Textarea({
         </label>
       )}
       <textarea
-        ref={textareaRef}
+        ref={setRefs}
         id={textareaId}
         disabled={disabled}
         maxLength={maxLength}
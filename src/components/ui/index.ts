@@ -21,3 +21,4 @@ export {
 export { SuccessAnimation, SuccessCheck } from './SuccessAnimation';
 export { NotificationBadge, NotificationDot } from './NotificationBadge';
 export { KeyboardShortcutsHelp } from './KeyboardShortcutsHelp';
+export { MarkdownText } from './MarkdownText';
@@ -7,6 +7,7 @@
 
 import { createContext, useContext, useEffect, useRef, useState, useCallback, type ReactNode } from 'react';
 import { io, Socket } from 'socket.io-client';
+import { createClient } from '@/lib/supabase/client';
 
 export type ConnectionStatus = 'connecting' | 'connected' | 'disconnected' | 'reconnecting';
 
@@ -36,6 +37,7 @@ export function SocketProvider({
   const socketRef = useRef<Socket | null>(null);
   const [status, setStatus] = useState<ConnectionStatus>('disconnected');
   const isInitializedRef = useRef(false);
+  const sessionUserIdRef = useRef<string | null | undefined>(undefined);
 
   const connect = useCallback(() => {
     // If already connected or connecting, skip
@@ -90,6 +92,11 @@ export function SocketProvider({
       setStatus('disconnected');
     });
 
+    // Server rejected an event (missing session or insufficient role)
+    socket.on('socket:error', (data: { event: string; error: string }) => {
+      console.warn(`[Socket] ${data.event} rejected: ${data.error}`);
+    });
+
     socketRef.current = socket;
   }, [reconnectionAttempts, reconnectionDelay]);
 
@@ -119,6 +126,31 @@ export function SocketProvider({
     };
   }, [autoConnect, connect]);
 
+  // Re-handshake when the signed-in user changes so the server sees the current session
+  useEffect(() => {
+    const supabase = createClient();
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, session) => {
+      const userId = session?.user?.id ?? null;
+
+      // First event reports the initial session - nothing to refresh yet
+      if (sessionUserIdRef.current === undefined) {
+        sessionUserIdRef.current = userId;
+        return;
+      }
+
+      if (userId !== sessionUserIdRef.current) {
+        sessionUserIdRef.current = userId;
+        if (socketRef.current) {
+          socketRef.current.disconnect();
+          setStatus('connecting');
+          socketRef.current.connect();
+        }
+      }
+    });
+
+    return () => subscription.unsubscribe();
+  }, []);
+
   const value: SocketContextValue = {
     socket: socketRef.current,
     status,
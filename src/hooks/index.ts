@@ -5,6 +5,7 @@
 
 export { useSocket, type ConnectionStatus } from './useSocket';
 export { useDevices } from './useDevices';
+export { useDeviceGroups, type DeviceGroupInput } from './useDeviceGroups';
 export { useMessages } from './useMessages';
 export { useValidation, rules } from './useValidation';
 export { useNetworkStatus, type NetworkStatus } from './useNetworkStatus';
@@ -16,4 +17,6 @@ export {
   type KeyboardShortcut,
 } from './useKeyboardShortcuts';
 export { useScheduledMessages, type UseScheduledMessagesResult } from './useScheduledMessages';
+export { useTemplates } from './useTemplates';
+export { useMediaUpload } from './useMediaUpload';
 export { useAuth, type AuthState } from './useAuth';
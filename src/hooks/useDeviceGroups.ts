@@ -0,0 +1,162 @@
+/**
+ * CreaBomber - useDeviceGroups Hook
+ * Fetches device groups via API, manages them and subscribes to real-time updates
+ */
+
+'use client';
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { Socket } from 'socket.io-client';
+import type { DeviceGroup } from '@/types';
+
+interface DeviceGroupsPayload {
+  groups: DeviceGroup[];
+}
+
+interface DeviceGroupApiResponse {
+  group: DeviceGroup;
+}
+
+interface ApiErrorBody {
+  error?: string;
+}
+
+export interface DeviceGroupInput {
+  name?: string;
+  deviceIds?: string[];
+}
+
+interface UseDeviceGroupsOptions {
+  socket: Socket | null;
+}
+
+interface UseDeviceGroupsReturn {
+  groups: DeviceGroup[];
+  loading: boolean;
+  error: string | null;
+  refresh: () => Promise<void>;
+  create: (data: Required<DeviceGroupInput>) => Promise<DeviceGroup>;
+  update: (id: string, data: DeviceGroupInput) => Promise<DeviceGroup>;
+  remove: (id: string) => Promise<void>;
+}
+
+// Parse dates from JSON
+function parseGroup(group: DeviceGroup): DeviceGroup {
+  return { ...group, createdAt: new Date(group.createdAt) };
+}
+
+// Throw the API's error message for failed requests
+async function readResponse<T>(response: Response, fallback: string): Promise<T> {
+  if (!response.ok) {
+    const body: ApiErrorBody = await response.json().catch(() => ({}));
+    throw new Error(body.error || fallback);
+  }
+  return response.json();
+}
+
+// Keep the list sorted like the API (by name)
+function sortGroups(groups: DeviceGroup[]): DeviceGroup[] {
+  return [...groups].sort((a, b) => a.name.localeCompare(b.name, undefined, { sensitivity: 'base' }));
+}
+
+export function useDeviceGroups(options: UseDeviceGroupsOptions): UseDeviceGroupsReturn {
+  const { socket } = options;
+  const [groups, setGroups] = useState<DeviceGroup[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const mountedRef = useRef(true);
+
+  // Fetch groups from API
+  const fetchGroups = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const response = await fetch('/api/device-groups');
+      const data = await readResponse<DeviceGroupsPayload>(response, 'Failed to fetch device groups');
+
+      if (mountedRef.current) {
+        setGroups(data.groups.map(parseGroup));
+      }
+    } catch (err) {
+      if (mountedRef.current) {
+        const message = err instanceof Error ? err.message : 'Unknown error';
+        setError(message);
+        console.error('[useDeviceGroups] Fetch error:', message);
+      }
+    } finally {
+      if (mountedRef.current) {
+        setLoading(false);
+      }
+    }
+  }, []);
+
+  // Initial fetch
+  useEffect(() => {
+    mountedRef.current = true;
+    fetchGroups();
+
+    return () => {
+      mountedRef.current = false;
+    };
+  }, [fetchGroups]);
+
+  // Subscribe to changes made by other dashboards
+  useEffect(() => {
+    if (!socket) return;
+
+    const handleGroupsUpdate = (payload: DeviceGroupsPayload) => {
+      if (mountedRef.current) {
+        setGroups(payload.groups.map(parseGroup));
+      }
+    };
+
+    socket.on('device-groups:update', handleGroupsUpdate);
+
+    return () => {
+      socket.off('device-groups:update', handleGroupsUpdate);
+    };
+  }, [socket]);
+
+  const create = useCallback(async (data: Required<DeviceGroupInput>): Promise<DeviceGroup> => {
+    const response = await fetch('/api/device-groups', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(data),
+    });
+
+    const result = await readResponse<DeviceGroupApiResponse>(response, 'Failed to create group');
+    const group = parseGroup(result.group);
+    setGroups((prev) => sortGroups([...prev.filter((g) => g.id !== group.id), group]));
+    return group;
+  }, []);
+
+  const update = useCallback(async (id: string, data: DeviceGroupInput): Promise<DeviceGroup> => {
+    const response = await fetch(`/api/device-groups/${id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(data),
+    });
+
+    const result = await readResponse<DeviceGroupApiResponse>(response, 'Failed to update group');
+    const group = parseGroup(result.group);
+    setGroups((prev) => sortGroups(prev.map((g) => (g.id === id ? group : g))));
+    return group;
+  }, []);
+
+  const remove = useCallback(async (id: string): Promise<void> => {
+    const response = await fetch(`/api/device-groups/${id}`, { method: 'DELETE' });
+    await readResponse<{ success: boolean }>(response, 'Failed to delete group');
+    setGroups((prev) => prev.filter((g) => g.id !== id));
+  }, []);
+
+  return {
+    groups,
+    loading,
+    error,
+    refresh: fetchGroups,
+    create,
+    update,
+    remove,
+  };
+}
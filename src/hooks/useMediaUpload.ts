@@ -0,0 +1,81 @@
+/**
+ * CreaBomber - useMediaUpload Hook
+ * Uploads image, video and audio files for messages via API
+ */
+
+'use client';
+
+import { useState, useCallback } from 'react';
+import { MEDIA_LIMITS, formatMediaSize } from '@/lib/media';
+import type { MediaFile, MediaKind } from '@/types';
+
+interface MediaApiResponse {
+  media: MediaFile;
+}
+
+interface ApiErrorBody {
+  error?: string;
+}
+
+interface UseMediaUploadReturn {
+  uploading: boolean;
+  error: string | null;
+  upload: (file: File) => Promise<MediaFile | null>;
+  clearError: () => void;
+}
+
+/**
+ * Check a file against the upload limits before sending it
+ * (the server checks again, this only saves uploading files it would reject)
+ */
+function checkFile(file: File, kind: MediaKind): string | null {
+  const { mimeTypes, maxSize } = MEDIA_LIMITS[kind];
+  if (!mimeTypes.includes(file.type)) {
+    return `Unsupported ${kind} file type${file.type ? ` (${file.type})` : ''}`;
+  }
+  if (file.size > maxSize) {
+    return `File is too large (${kind} files may be at most ${formatMediaSize(maxSize)})`;
+  }
+  return null;
+}
+
+export function useMediaUpload(kind: MediaKind): UseMediaUploadReturn {
+  const [uploading, setUploading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Upload a file, returns null (and sets error) if it was rejected
+  const upload = useCallback(async (file: File): Promise<MediaFile | null> => {
+    const fileError = checkFile(file, kind);
+    if (fileError) {
+      setError(fileError);
+      return null;
+    }
+
+    setUploading(true);
+    setError(null);
+
+    try {
+      const formData = new FormData();
+      formData.append('file', file);
+
+      const response = await fetch('/api/media', { method: 'POST', body: formData });
+      if (!response.ok) {
+        const body: ApiErrorBody = await response.json().catch(() => ({}));
+        throw new Error(body.error || 'Failed to upload file');
+      }
+
+      const data: MediaApiResponse = await response.json();
+      return data.media;
+    } catch (err) {
+      console.error('[useMediaUpload] Upload error:', err);
+      setError(err instanceof Error ? err.message : 'Failed to upload file');
+      return null;
+    } finally {
+      setUploading(false);
+    }
+  }, [kind]);
+
+  const clearError = useCallback(() => setError(null), []);
+
+  return { uploading, error, upload, clearError };
+}
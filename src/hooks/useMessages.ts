@@ -8,8 +8,9 @@
 
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { Socket } from 'socket.io-client';
-import type { Message, MessageType, DeliveryStatusUpdate, MessageDelivery } from '@/types';
-import { fetchWithRetry, postWithRetry, messageQueue } from '@/lib/fetch-with-retry';
+import type { Message, MessageType, MessagePriority, DeliveryStatusUpdate, MessageDelivery, ScheduledSend } from '@/types';
+import { fetchWithRetry, postWithRetry } from '@/lib/fetch-with-retry';
+import { messageQueue } from '@/lib/message-queue';
 import { getErrorMessage } from '@/lib/errors';
 
 interface MessagesApiResponse {
@@ -26,14 +27,49 @@ interface CreateMessageResponse {
   message: Message;
 }
 
+interface ScheduleMessageResponse {
+  scheduledSend: ScheduledSend;
+}
+
+interface RecallMessageResponse {
+  message: Message;
+  recalledDevices: string[];
+}
+
+interface EditMessageResponse {
+  message: Message;
+}
+
+interface EditMessagePayload {
+  content: string;
+  placeholderValues?: Record<string, string>;  // new or changed custom {{placeholders}}
+  timezone?: string;
+}
+
 interface CreateMessagePayload {
   type: MessageType;
   content: string;
   targetDevices: string[];
+  targetGroups?: string[];  // resolved to devices by the server at send time
+  targetTags?: string[];
   imageUrl?: string;
   videoUrl?: string;
   audioUrl?: string;
   audioAutoplay?: boolean;
+  replyOptions?: string[];
+  allowFreeText?: boolean;
+  pollOptions?: string[];
+  pollClosesAt?: string;
+  expiresAt?: string;  // never delivered or shown after this time
+  priority?: MessagePriority;
+  overrideDnd?: boolean;  // urgent only, admins only
+  placeholderValues?: Record<string, string>;  // custom {{placeholders}} in the content
+  timezone?: string;  // formats {{time}} and {{date}}
+}
+
+interface ScheduleMessagePayload extends CreateMessagePayload {
+  sendAt: string;
+  timezone: string;
 }
 
 interface UseMessagesOptions {
@@ -59,6 +95,9 @@ interface UseMessagesReturn {
   refresh: () => Promise<void>;
   loadMore: () => Promise<void>;
   createMessage: (payload: CreateMessagePayload) => Promise<Message>;
+  scheduleMessage: (payload: ScheduleMessagePayload) => Promise<ScheduledSend>;
+  recallMessage: (id: string) => Promise<Message>;
+  editMessage: (id: string, payload: EditMessagePayload) => Promise<Message>;
   creating: boolean;
   queuedCount: number;
   processQueue: () => Promise<void>;
@@ -112,6 +151,10 @@ export function useMessages(options: UseMessagesOptions = { socket: null }): Use
   const parseMessage = (msg: Message): Message => ({
     ...msg,
     createdAt: new Date(msg.createdAt),
+    recalledAt: msg.recalledAt ? new Date(msg.recalledAt) : undefined,
+    editedAt: msg.editedAt ? new Date(msg.editedAt) : undefined,
+    expiresAt: msg.expiresAt ? new Date(msg.expiresAt) : undefined,
+    edits: msg.edits?.map((edit) => ({ ...edit, editedAt: new Date(edit.editedAt) })),
   });
 
   // Fetch messages from API with retry logic
@@ -231,11 +274,18 @@ export function useMessages(options: UseMessagesOptions = { socket: null }): Use
               id: `temp-${Date.now()}`,
               type: payload.type,
               content: payload.content,
+              priority: payload.priority ?? 'normal',
               targetDevices: payload.targetDevices,
               imageUrl: payload.imageUrl,
               videoUrl: payload.videoUrl,
               audioUrl: payload.audioUrl,
               audioAutoplay: payload.audioAutoplay,
+              replyOptions: payload.replyOptions,
+              allowFreeText: payload.allowFreeText,
+              pollOptions: payload.pollOptions,
+              pollClosesAt: payload.pollClosesAt ? new Date(payload.pollClosesAt) : undefined,
+              expiresAt: payload.expiresAt ? new Date(payload.expiresAt) : undefined,
+              overrideDnd: payload.overrideDnd,
               status: 'pending',
               createdAt: new Date(),
             };
@@ -282,6 +332,95 @@ export function useMessages(options: UseMessagesOptions = { socket: null }): Use
     [socket, enableRetry, enableOfflineQueue]
   );
 
+  // Schedule a message for later - the server creates and sends it at sendAt
+  const scheduleMessage = useCallback(
+    async (payload: ScheduleMessagePayload): Promise<ScheduledSend> => {
+      setCreating(true);
+      setError(null);
+
+      try {
+        const result = await postWithRetry<ScheduleMessageResponse>(
+          '/api/messages',
+          payload,
+          { maxRetries: enableRetry ? 3 : 0 }
+        );
+
+        if (result.error) {
+          throw result.error;
+        }
+
+        if (!result.data?.scheduledSend) {
+          throw new Error('No scheduled send returned from API');
+        }
+
+        return {
+          ...result.data.scheduledSend,
+          sendAt: new Date(result.data.scheduledSend.sendAt),
+          createdAt: new Date(result.data.scheduledSend.createdAt),
+        };
+      } catch (err) {
+        const message = getErrorMessage(err);
+        if (mountedRef.current) {
+          setError(message);
+        }
+        throw new Error(message);
+      } finally {
+        if (mountedRef.current) {
+          setCreating(false);
+        }
+      }
+    },
+    [enableRetry]
+  );
+
+  // Recall a message from devices that have not closed it yet
+  const recallMessage = useCallback(async (id: string): Promise<Message> => {
+    const result = await postWithRetry<RecallMessageResponse>(
+      `/api/messages/${id}/recall`,
+      {},
+      { maxRetries: 0 }
+    );
+
+    if (result.error) {
+      throw new Error(getErrorMessage(result.error));
+    }
+    if (!result.data?.message) {
+      throw new Error('No message returned from API');
+    }
+
+    const recalled = parseMessage(result.data.message);
+    if (mountedRef.current) {
+      setMessages((prev) => prev.map((msg) => (msg.id === id ? recalled : msg)));
+    }
+    return recalled;
+  }, []);
+
+  // Edit the content of a sent message (devices update it in place)
+  const editMessage = useCallback(async (id: string, payload: EditMessagePayload): Promise<Message> => {
+    const result = await fetchWithRetry<EditMessageResponse>(
+      `/api/messages/${id}`,
+      {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(payload),
+      },
+      { maxRetries: 0 }
+    );
+
+    if (result.error) {
+      throw new Error(getErrorMessage(result.error));
+    }
+    if (!result.data?.message) {
+      throw new Error('No message returned from API');
+    }
+
+    const edited = parseMessage(result.data.message);
+    if (mountedRef.current) {
+      setMessages((prev) => prev.map((msg) => (msg.id === id ? edited : msg)));
+    }
+    return edited;
+  }, []);
+
   // Process queued messages when back online
   const processQueue = useCallback(async () => {
     await messageQueue.processQueue(
@@ -378,6 +517,20 @@ export function useMessages(options: UseMessagesOptions = { socket: null }): Use
       }
     };
 
+    // Listen for messages created on the server (scheduled sends)
+    const handleMessageCreated = (data: { message: Message }) => {
+      if (!mountedRef.current || !data.message) return;
+      if (type && data.message.type !== type) return;
+      if (search && !data.message.content.toLowerCase().includes(search.toLowerCase())) return;
+
+      setMessages((prev) =>
+        prev.some((msg) => msg.id === data.message.id)
+          ? prev
+          : [parseMessage(data.message), ...prev]
+      );
+      setPagination((prev) => ({ ...prev, total: prev.total + 1 }));
+    };
+
     // Process queue when socket reconnects
     const handleConnect = () => {
       if (messageQueue.getLength() > 0) {
@@ -388,15 +541,17 @@ export function useMessages(options: UseMessagesOptions = { socket: null }): Use
     socket.on('message:sent', handleMessageSent);
     socket.on('message:delivery:update', handleDeliveryUpdate);
     socket.on('message:updated', handleMessageUpdated);
+    socket.on('message:created', handleMessageCreated);
     socket.on('connect', handleConnect);
 
     return () => {
       socket.off('message:sent', handleMessageSent);
       socket.off('message:delivery:update', handleDeliveryUpdate);
       socket.off('message:updated', handleMessageUpdated);
+      socket.off('message:created', handleMessageCreated);
       socket.off('connect', handleConnect);
     };
-  }, [socket, processQueue]);
+  }, [socket, processQueue, type, search]);
 
   return {
     messages,
@@ -406,6 +561,9 @@ export function useMessages(options: UseMessagesOptions = { socket: null }): Use
     refresh,
     loadMore,
     createMessage,
+    scheduleMessage,
+    recallMessage,
+    editMessage,
     creating,
     queuedCount,
     processQueue,
@@ -1,67 +1,39 @@
 'use client';
 
 import { useState, useEffect, useCallback } from 'react';
-import { createClient, SupabaseClient } from '@supabase/supabase-js';
-import { MessageType, type ScheduledMessage, type ScheduledMessageFormData } from '@/types';
+import type { ScheduledMessage, ScheduledMessageFormData } from '@/types';
 
-// Supabase configuration
-const SUPABASE_URL = process.env.NEXT_PUBLIC_SUPABASE_URL || '';
-const SUPABASE_ANON_KEY = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || '';
-
-// Initialize Supabase client (singleton)
-let supabaseClient: SupabaseClient | null = null;
-
-function getSupabase(): SupabaseClient | null {
-  if (!SUPABASE_URL || !SUPABASE_ANON_KEY) {
-    console.warn('[useScheduledMessages] Supabase not configured');
-    return null;
-  }
-
-  if (!supabaseClient) {
-    supabaseClient = createClient(SUPABASE_URL, SUPABASE_ANON_KEY);
-  }
+interface ScheduledMessagesApiResponse {
+  messages: ScheduledMessage[];
+}
 
-  return supabaseClient;
+interface ScheduledMessageApiResponse {
+  message: ScheduledMessage;
 }
 
-// Database row type (snake_case)
-interface ScheduledMessageRow {
-  id: string;
-  date: string;
-  recurring: boolean;
-  type: string;
-  content: string;
-  image_url: string | null;
-  video_url: string | null;
-  audio_url: string | null;
-  video_autoplay: boolean;
-  audio_autoplay: boolean;
-  target_devices: string[] | null;
-  created_at: string;
-  updated_at: string;
-  last_shown_year: number | null;
+interface ApiErrorBody {
+  error?: string;
+  code?: string;
 }
 
-// Convert database row to ScheduledMessage
-function rowToScheduledMessage(row: ScheduledMessageRow): ScheduledMessage {
+// Parse dates from JSON
+function parseScheduledMessage(message: ScheduledMessage): ScheduledMessage {
   return {
-    id: row.id,
-    date: row.date,
-    recurring: row.recurring,
-    type: row.type as MessageType,
-    content: row.content,
-    imageUrl: row.image_url || undefined,
-    videoUrl: row.video_url || undefined,
-    audioUrl: row.audio_url || undefined,
-    videoAutoplay: row.video_autoplay,
-    audioAutoplay: row.audio_autoplay,
-    targetDevices: row.target_devices || undefined,
-    createdAt: new Date(row.created_at),
-    updatedAt: new Date(row.updated_at),
-    lastShownYear: row.last_shown_year || undefined,
+    ...message,
+    createdAt: new Date(message.createdAt),
+    updatedAt: new Date(message.updatedAt),
   };
 }
 
+// Throw the API's error message for failed requests
+async function readResponse<T>(response: Response, fallback: string): Promise<T> {
+  if (!response.ok) {
+    const body: ApiErrorBody = await response.json().catch(() => ({}));
+    throw new Error(body.error || fallback);
+  }
+  return response.json();
+}
+
 export interface UseScheduledMessagesResult {
   messages: ScheduledMessage[];
   loading: boolean;
@@ -77,38 +49,35 @@ export function useScheduledMessages(): UseScheduledMessagesResult {
   const [messages, setMessages] = useState<ScheduledMessage[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-
-  const supabase = getSupabase();
-  const isConfigured = !!supabase;
+  const [isConfigured, setIsConfigured] = useState(true);
 
   // Fetch all scheduled messages
   const fetchMessages = useCallback(async () => {
-    if (!supabase) {
-      setLoading(false);
-      return;
-    }
-
     setLoading(true);
     setError(null);
 
     try {
-      const { data, error: fetchError } = await supabase
-        .from('scheduled_messages')
-        .select('*')
-        .order('date', { ascending: true });
-
-      if (fetchError) {
-        throw new Error(fetchError.message);
+      const response = await fetch('/api/scheduled');
+
+      // Server has no Supabase service role credentials
+      if (response.status === 503) {
+        const body: ApiErrorBody = await response.json().catch(() => ({}));
+        if (body.code === 'NOT_CONFIGURED') {
+          setIsConfigured(false);
+          return;
+        }
       }
 
-      setMessages((data || []).map(rowToScheduledMessage));
+      const data = await readResponse<ScheduledMessagesApiResponse>(response, 'Fehler beim Laden');
+      setIsConfigured(true);
+      setMessages(data.messages.map(parseScheduledMessage));
     } catch (err) {
       console.error('[useScheduledMessages] Fetch error:', err);
       setError(err instanceof Error ? err.message : 'Fehler beim Laden');
     } finally {
       setLoading(false);
     }
-  }, [supabase]);
+  }, []);
 
   // Initial fetch
   useEffect(() => {
@@ -118,36 +87,18 @@ export function useScheduledMessages(): UseScheduledMessagesResult {
   // Create a new scheduled message
   const create = useCallback(
     async (data: ScheduledMessageFormData): Promise<ScheduledMessage> => {
-      if (!supabase) {
-        throw new Error('Supabase nicht konfiguriert');
-      }
-
-      const { data: rows, error: insertError } = await supabase
-        .from('scheduled_messages')
-        .insert({
-          date: data.date,
-          recurring: data.recurring,
-          type: data.type,
-          content: data.content,
-          image_url: data.imageUrl || null,
-          video_url: data.videoUrl || null,
-          audio_url: data.audioUrl || null,
-          video_autoplay: data.videoAutoplay || false,
-          audio_autoplay: data.audioAutoplay || false,
-          target_devices: data.targetDevices || null,
-        })
-        .select()
-        .single();
-
-      if (insertError) {
-        throw new Error(insertError.message);
-      }
-
-      const newMessage = rowToScheduledMessage(rows);
+      const response = await fetch('/api/scheduled', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(data),
+      });
+
+      const result = await readResponse<ScheduledMessageApiResponse>(response, 'Fehler beim Erstellen');
+      const newMessage = parseScheduledMessage(result.message);
       setMessages((prev) => [...prev, newMessage]);
       return newMessage;
     },
-    [supabase]
+    []
   );
 
   // Update an existing scheduled message
@@ -156,61 +107,34 @@ export function useScheduledMessages(): UseScheduledMessagesResult {
       id: string,
       data: Partial<ScheduledMessageFormData>
     ): Promise<ScheduledMessage> => {
-      if (!supabase) {
-        throw new Error('Supabase nicht konfiguriert');
-      }
+      // JSON drops undefined - send null so a removed recurrence is cleared
+      const body = 'recurrence' in data ? { ...data, recurrence: data.recurrence ?? null } : data;
 
-      const updateData: Record<string, unknown> = {};
-      if (data.date !== undefined) updateData.date = data.date;
-      if (data.recurring !== undefined) updateData.recurring = data.recurring;
-      if (data.type !== undefined) updateData.type = data.type;
-      if (data.content !== undefined) updateData.content = data.content;
-      if (data.imageUrl !== undefined) updateData.image_url = data.imageUrl || null;
-      if (data.videoUrl !== undefined) updateData.video_url = data.videoUrl || null;
-      if (data.audioUrl !== undefined) updateData.audio_url = data.audioUrl || null;
-      if (data.videoAutoplay !== undefined) updateData.video_autoplay = data.videoAutoplay;
-      if (data.audioAutoplay !== undefined) updateData.audio_autoplay = data.audioAutoplay;
-      if (data.targetDevices !== undefined) updateData.target_devices = data.targetDevices || null;
-
-      const { data: rows, error: updateError } = await supabase
-        .from('scheduled_messages')
-        .update(updateData)
-        .eq('id', id)
-        .select()
-        .single();
-
-      if (updateError) {
-        throw new Error(updateError.message);
-      }
+      const response = await fetch(`/api/scheduled/${id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
 
-      const updatedMessage = rowToScheduledMessage(rows);
+      const result = await readResponse<ScheduledMessageApiResponse>(response, 'Fehler beim Speichern');
+      const updatedMessage = parseScheduledMessage(result.message);
       setMessages((prev) =>
         prev.map((msg) => (msg.id === id ? updatedMessage : msg))
       );
       return updatedMessage;
     },
-    [supabase]
+    []
   );
 
   // Delete a scheduled message
   const remove = useCallback(
     async (id: string): Promise<void> => {
-      if (!supabase) {
-        throw new Error('Supabase nicht konfiguriert');
-      }
-
-      const { error: deleteError } = await supabase
-        .from('scheduled_messages')
-        .delete()
-        .eq('id', id);
-
-      if (deleteError) {
-        throw new Error(deleteError.message);
-      }
+      const response = await fetch(`/api/scheduled/${id}`, { method: 'DELETE' });
+      await readResponse<{ success: boolean }>(response, 'Fehler beim Loeschen');
 
       setMessages((prev) => prev.filter((msg) => msg.id !== id));
     },
-    [supabase]
+    []
   );
 
   return {
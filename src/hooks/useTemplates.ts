@@ -0,0 +1,127 @@
+/**
+ * CreaBomber - useTemplates Hook
+ * Fetches message templates via API and manages them
+ */
+
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import type { MessageTemplate, MessageTemplateFormData } from '@/types';
+
+interface TemplatesApiResponse {
+  templates: MessageTemplate[];
+}
+
+interface TemplateApiResponse {
+  template: MessageTemplate;
+}
+
+interface ApiErrorBody {
+  error?: string;
+}
+
+interface UseTemplatesReturn {
+  templates: MessageTemplate[];
+  loading: boolean;
+  error: string | null;
+  refresh: () => Promise<void>;
+  create: (data: MessageTemplateFormData) => Promise<MessageTemplate>;
+  update: (id: string, data: Partial<MessageTemplateFormData>) => Promise<MessageTemplate>;
+  remove: (id: string) => Promise<void>;
+}
+
+// Parse dates from JSON
+function parseTemplate(template: MessageTemplate): MessageTemplate {
+  return {
+    ...template,
+    createdAt: new Date(template.createdAt),
+    updatedAt: new Date(template.updatedAt),
+  };
+}
+
+// Throw the API's error message for failed requests
+async function readResponse<T>(response: Response, fallback: string): Promise<T> {
+  if (!response.ok) {
+    const body: ApiErrorBody = await response.json().catch(() => ({}));
+    throw new Error(body.error || fallback);
+  }
+  return response.json();
+}
+
+// Keep the list sorted like the API (by name)
+function sortTemplates(templates: MessageTemplate[]): MessageTemplate[] {
+  return [...templates].sort((a, b) => a.name.localeCompare(b.name, undefined, { sensitivity: 'base' }));
+}
+
+export function useTemplates(): UseTemplatesReturn {
+  const [templates, setTemplates] = useState<MessageTemplate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Fetch all templates
+  const fetchTemplates = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/templates');
+      const data = await readResponse<TemplatesApiResponse>(response, 'Failed to fetch templates');
+      setTemplates(data.templates.map(parseTemplate));
+    } catch (err) {
+      console.error('[useTemplates] Fetch error:', err);
+      setError(err instanceof Error ? err.message : 'Failed to fetch templates');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  // Initial fetch
+  useEffect(() => {
+    fetchTemplates();
+  }, [fetchTemplates]);
+
+  const create = useCallback(async (data: MessageTemplateFormData): Promise<MessageTemplate> => {
+    const response = await fetch('/api/templates', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(data),
+    });
+
+    const result = await readResponse<TemplateApiResponse>(response, 'Failed to save template');
+    const template = parseTemplate(result.template);
+    setTemplates((prev) => sortTemplates([...prev, template]));
+    return template;
+  }, []);
+
+  const update = useCallback(
+    async (id: string, data: Partial<MessageTemplateFormData>): Promise<MessageTemplate> => {
+      const response = await fetch(`/api/templates/${id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(data),
+      });
+
+      const result = await readResponse<TemplateApiResponse>(response, 'Failed to update template');
+      const template = parseTemplate(result.template);
+      setTemplates((prev) => sortTemplates(prev.map((t) => (t.id === id ? template : t))));
+      return template;
+    },
+    []
+  );
+
+  const remove = useCallback(async (id: string): Promise<void> => {
+    const response = await fetch(`/api/templates/${id}`, { method: 'DELETE' });
+    await readResponse<{ success: boolean }>(response, 'Failed to delete template');
+    setTemplates((prev) => prev.filter((t) => t.id !== id));
+  }, []);
+
+  return {
+    templates,
+    loading,
+    error,
+    refresh: fetchTemplates,
+    create,
+    update,
+    remove,
+  };
+}
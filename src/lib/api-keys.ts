@@ -0,0 +1,128 @@
+/**
+ * CreaBomber API Keys
+ * Admin-issued bearer tokens for scripts and CI (Authorization: Bearer cb_...)
+ * - Scopes: send (send, edit and recall own messages), history (read all messages),
+ *   devices (view and manage devices and groups)
+ * - Optional device allowlist for sending and optional expiry
+ * - Only a SHA-256 hash of the token is stored, the token is shown once
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import { createApiKey, getApiKeyByHash, touchApiKey } from './db';
+import type { Permission } from './auth/permissions';
+import type { ValidationFieldError } from './errors';
+import type { ApiKey, ApiKeyScope } from '@/types';
+
+export const API_KEY_SCOPES: ApiKeyScope[] = ['send', 'history', 'devices'];
+
+export const API_KEY_SCOPE_PERMISSIONS: Record<ApiKeyScope, readonly Permission[]> = {
+  send: ['send'],
+  history: ['view'],
+  devices: ['view', 'manage_devices'],
+};
+
+const TOKEN_PREFIX = 'cb_';
+const PREFIX_LENGTH = 11;  // 'cb_' + 8 characters, shown in the admin list
+const MAX_NAME_LENGTH = 100;
+
+// last_used_at is only written this often per key, so busy scripts don't write on every request
+const TOUCH_INTERVAL = 60 * 1000;
+
+/**
+ * Hash a token for storage and lookup
+ * Tokens are high-entropy random values, so a plain SHA-256 is sufficient
+ */
+function hashApiKey(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Create a key and return it with its token (the only time the token is available)
+ */
+export function issueApiKey(
+  data: Pick<ApiKey, 'name' | 'scopes' | 'deviceIds' | 'expiresAt' | 'createdBy'>
+): { apiKey: ApiKey; token: string } {
+  const token = `${TOKEN_PREFIX}${randomBytes(32).toString('base64url')}`;
+  const apiKey = createApiKey({ ...data, prefix: token.slice(0, PREFIX_LENGTH) }, hashApiKey(token));
+  return { apiKey, token };
+}
+
+/**
+ * Look up the key for a bearer token
+ * @returns null if the token is unknown, revoked or expired
+ */
+export function verifyApiKey(token: string, now = Date.now()): ApiKey | null {
+  if (!token.startsWith(TOKEN_PREFIX)) {
+    return null;
+  }
+
+  const apiKey = getApiKeyByHash(hashApiKey(token));
+  if (!apiKey || (apiKey.expiresAt && apiKey.expiresAt.getTime() <= now)) {
+    return null;
+  }
+
+  if (!apiKey.lastUsedAt || now - apiKey.lastUsedAt.getTime() >= TOUCH_INTERVAL) {
+    touchApiKey(apiKey.id, now);
+  }
+  return apiKey;
+}
+
+/**
+ * Check if a key's scopes grant a permission
+ */
+export function apiKeyHasPermission(apiKey: ApiKey, permission: Permission): boolean {
+  return apiKey.scopes.some((scope) => API_KEY_SCOPE_PERMISSIONS[scope].includes(permission));
+}
+
+/**
+ * Devices outside the key's allowlist (empty if the key may send to all of them)
+ */
+export function getDisallowedDevices(apiKey: ApiKey, deviceIds: string[]): string[] {
+  if (!apiKey.deviceIds) {
+    return [];
+  }
+  return deviceIds.filter((deviceId) => !apiKey.deviceIds!.includes(deviceId));
+}
+
+/**
+ * Validate the body for issuing a key
+ */
+export function validateApiKeyData(
+  data: { name?: unknown; scopes?: unknown; deviceIds?: unknown; expiresAt?: unknown },
+  now = Date.now()
+): ValidationFieldError[] {
+  const errors: ValidationFieldError[] = [];
+
+  if (typeof data.name !== 'string' || data.name.trim() === '') {
+    errors.push({ field: 'name', message: 'name is required' });
+  } else if (data.name.length > MAX_NAME_LENGTH) {
+    errors.push({ field: 'name', message: `name must be at most ${MAX_NAME_LENGTH} characters` });
+  }
+
+  if (!Array.isArray(data.scopes) || data.scopes.length === 0) {
+    errors.push({ field: 'scopes', message: 'scopes must be a non-empty array' });
+  } else if (data.scopes.some((scope) => !API_KEY_SCOPES.includes(scope as ApiKeyScope))) {
+    errors.push({ field: 'scopes', message: `scopes must be any of: ${API_KEY_SCOPES.join(', ')}` });
+  }
+
+  if (data.deviceIds !== undefined && data.deviceIds !== null) {
+    if (
+      !Array.isArray(data.deviceIds) ||
+      data.deviceIds.length === 0 ||
+      data.deviceIds.some((deviceId) => typeof deviceId !== 'string' || deviceId === '')
+    ) {
+      errors.push({ field: 'deviceIds', message: 'deviceIds must be a non-empty array of device IDs' });
+    }
+  }
+
+  if (data.expiresAt !== undefined && data.expiresAt !== null) {
+    const expiresAt = typeof data.expiresAt === 'string' ? Date.parse(data.expiresAt) : NaN;
+    if (Number.isNaN(expiresAt)) {
+      errors.push({ field: 'expiresAt', message: 'expiresAt must be an ISO date' });
+    } else if (expiresAt <= now) {
+      errors.push({ field: 'expiresAt', message: 'expiresAt must be in the future' });
+    }
+  }
+
+  return errors;
+}
@@ -0,0 +1,43 @@
+/**
+ * CreaBomber - Socket Authentication Helper
+ * Resolves the dashboard user from a Socket.io handshake
+ *
+ * Kept separate from getUser.ts so the socket server doesn't pull in 'next/headers'
+ */
+
+import { createSocketClient } from '@/lib/supabase/socket';
+import { verifyApiKey } from '@/lib/api-keys';
+import { type UserRole, DEFAULT_ROLE } from './permissions';
+import type { AuthUser } from './getUser';
+
+/**
+ * Get the authenticated user from the handshake's Cookie header
+ * Returns null if there is no valid session or Supabase is not configured
+ */
+export async function getSocketUser(cookieHeader: string | undefined): Promise<AuthUser | null> {
+  const supabase = createSocketClient(cookieHeader);
+  if (!supabase) {
+    return null;
+  }
+
+  const { data: { user }, error } = await supabase.auth.getUser();
+
+  if (error || !user) {
+    return null;
+  }
+
+  return {
+    id: user.id,
+    email: user.email ?? '',
+    role: (user.user_metadata?.role as UserRole) || DEFAULT_ROLE,
+  };
+}
+
+/**
+ * Get the API key user for a handshake's auth.apiKey (command-line clients)
+ * Returns null if the key is unknown, revoked or expired
+ */
+export function getSocketApiKeyUser(token: string): AuthUser | null {
+  const apiKey = verifyApiKey(token);
+  return apiKey ? { id: `apikey:${apiKey.id}`, email: '', role: DEFAULT_ROLE, apiKey } : null;
+}
@@ -3,20 +3,36 @@
  * Server-side functions to get current user with role
  */
 
+import { headers } from 'next/headers';
 import { createClient } from '@/lib/supabase/server';
-import { type UserRole, DEFAULT_ROLE } from './permissions';
+import { verifyApiKey, apiKeyHasPermission } from '@/lib/api-keys';
+import { type UserRole, type Permission, DEFAULT_ROLE, hasPermission } from './permissions';
+import type { ApiKey } from '@/types';
 
 export interface AuthUser {
   id: string;
   email: string;
   role: UserRole;
+  apiKey?: ApiKey;  // set when the request was authenticated with an API key
 }
 
 /**
  * Get current authenticated user with role (Server-side)
  * Use in Server Components, Route Handlers, Server Actions
+ *
+ * Requests with an "Authorization: Bearer <API key>" header are authenticated with
+ * the key instead of the session. Key users have the lowest role; what they may do
+ * comes from the key's scopes (see userHasPermission).
  */
 export async function getCurrentUser(): Promise<AuthUser | null> {
+  const authorization = (await headers()).get('authorization');
+  if (authorization?.startsWith('Bearer ')) {
+    const apiKey = verifyApiKey(authorization.slice('Bearer '.length).trim());
+    return apiKey
+      ? { id: `apikey:${apiKey.id}`, email: '', role: DEFAULT_ROLE, apiKey }
+      : null;
+  }
+
   const supabase = await createClient();
   const { data: { user }, error } = await supabase.auth.getUser();
 
@@ -31,6 +47,28 @@ export async function getCurrentUser(): Promise<AuthUser | null> {
   };
 }
 
+/**
+ * Check a permission for a session user (by role) or an API key user (by scope)
+ */
+export function userHasPermission(user: AuthUser, permission: Permission): boolean {
+  return user.apiKey ? apiKeyHasPermission(user.apiKey, permission) : hasPermission(user.role, permission);
+}
+
+/**
+ * Check if a user may read messages from other senders
+ * API keys need the history scope (the devices scope grants 'view' for devices only)
+ */
+export function userCanReadHistory(user: AuthUser): boolean {
+  return user.apiKey ? user.apiKey.scopes.includes('history') : hasPermission(user.role, 'view');
+}
+
+/**
+ * Name recorded as the sender of a message (API key name or email)
+ */
+export function getSenderName(user: AuthUser): string {
+  return user.apiKey?.name ?? user.email;
+}
+
 /**
  * Require authentication - throws if not logged in
  * Use for protected API routes
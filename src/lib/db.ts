@@ -7,9 +7,13 @@ import Database from 'better-sqlite3';
 import path from 'path';
 import fs from 'fs';
 import { v4 as uuidv4 } from 'uuid';
+import { MessageType } from '@/types';
+import { isDoNotDisturb } from './quiet-hours';
 import type {
   Device,
   DeviceRow,
+  DeviceGroup,
+  DeviceGroupRow,
   DeviceStatus,
   DeviceDeliveryStatus,
   Message,
@@ -17,7 +21,37 @@ import type {
   MessageDelivery,
   MessageDeliveryRow,
   MessageStatus,
-  MessageType,
+  MessagePriority,
+  MessageTarget,
+  MessageTemplate,
+  MessageTemplateRow,
+  PlaceholderContext,
+  MessageReply,
+  MessageReplyRow,
+  MessageEdit,
+  MessageEditRow,
+  PollVote,
+  PollVoteRow,
+  DeliveryLifecycleEvent,
+  MessagePayload,
+  OutboxRow,
+  OverdueDeliveryRow,
+  ScheduledSend,
+  ScheduledSendMessage,
+  ScheduledSendRow,
+  ScheduledSendStatus,
+  QuietHours,
+  Webhook,
+  WebhookRow,
+  WebhookEvent,
+  WebhookDelivery,
+  WebhookDeliveryRow,
+  ApiKey,
+  ApiKeyRow,
+  ApiKeyScope,
+  MediaFile,
+  MediaFileRow,
+  MediaKind,
 } from '@/types';
 
 // Database path - configurable via environment variable
@@ -77,6 +111,151 @@ db.exec(`
 
   CREATE INDEX IF NOT EXISTS idx_deliveries_message ON message_deliveries(message_id);
   CREATE INDEX IF NOT EXISTS idx_deliveries_device ON message_deliveries(device_id);
+
+  CREATE TABLE IF NOT EXISTS enrollment_codes (
+    code_hash TEXT PRIMARY KEY,
+    created_by TEXT,
+    created_at INTEGER NOT NULL,
+    expires_at INTEGER NOT NULL,
+    used_at INTEGER,
+    used_by_device TEXT
+  );
+
+  CREATE TABLE IF NOT EXISTS message_outbox (
+    message_id TEXT NOT NULL,
+    device_id TEXT NOT NULL,
+    payload TEXT NOT NULL,
+    queued_at INTEGER NOT NULL,
+    expires_at INTEGER NOT NULL,
+    PRIMARY KEY (message_id, device_id)
+  );
+
+  CREATE TABLE IF NOT EXISTS message_replies (
+    message_id TEXT NOT NULL,
+    device_id TEXT NOT NULL,
+    response TEXT NOT NULL,
+    is_free_text INTEGER DEFAULT 0,
+    replied_at INTEGER NOT NULL,
+    PRIMARY KEY (message_id, device_id)
+  );
+
+  CREATE TABLE IF NOT EXISTS poll_votes (
+    message_id TEXT NOT NULL,
+    device_id TEXT NOT NULL,
+    option_index INTEGER NOT NULL,
+    voted_at INTEGER NOT NULL,
+    PRIMARY KEY (message_id, device_id)
+  );
+
+  CREATE TABLE IF NOT EXISTS scheduled_sends (
+    id TEXT PRIMARY KEY,
+    message_data TEXT NOT NULL,
+    send_at INTEGER NOT NULL,
+    timezone TEXT NOT NULL,
+    status TEXT DEFAULT 'pending',
+    message_id TEXT,
+    sender_id TEXT,
+    error TEXT,
+    claimed_at INTEGER,
+    sent_at INTEGER,
+    created_at INTEGER NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS device_groups (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL UNIQUE COLLATE NOCASE,
+    created_at INTEGER NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS device_group_members (
+    group_id TEXT NOT NULL,
+    device_id TEXT NOT NULL,
+    PRIMARY KEY (group_id, device_id)
+  );
+
+  CREATE TABLE IF NOT EXISTS message_templates (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL UNIQUE COLLATE NOCASE,
+    type TEXT NOT NULL,
+    content TEXT NOT NULL,
+    image_url TEXT,
+    video_url TEXT,
+    audio_url TEXT,
+    audio_autoplay INTEGER DEFAULT 0,
+    target_devices TEXT NOT NULL DEFAULT '[]',
+    target_groups TEXT NOT NULL DEFAULT '[]',
+    target_tags TEXT NOT NULL DEFAULT '[]',
+    created_by TEXT,
+    created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS message_edits (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    message_id TEXT NOT NULL,
+    previous_content TEXT NOT NULL,
+    edited_by TEXT,
+    edited_at INTEGER NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS app_settings (
+    key TEXT PRIMARY KEY,
+    value TEXT NOT NULL,
+    updated_by TEXT,
+    updated_at INTEGER NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS api_keys (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    prefix TEXT NOT NULL,
+    key_hash TEXT NOT NULL UNIQUE,
+    scopes TEXT NOT NULL DEFAULT '[]',
+    device_ids TEXT,
+    expires_at INTEGER,
+    last_used_at INTEGER,
+    created_by TEXT,
+    created_at INTEGER NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS webhooks (
+    id TEXT PRIMARY KEY,
+    url TEXT NOT NULL,
+    secret TEXT NOT NULL,
+    events TEXT NOT NULL DEFAULT '[]',
+    enabled INTEGER NOT NULL DEFAULT 1,
+    created_by TEXT,
+    created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS webhook_deliveries (
+    id TEXT PRIMARY KEY,
+    webhook_id TEXT NOT NULL,
+    event TEXT NOT NULL,
+    success INTEGER NOT NULL,
+    status_code INTEGER,
+    error TEXT,
+    attempts INTEGER NOT NULL,
+    duration_ms INTEGER NOT NULL,
+    created_at INTEGER NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS media_files (
+    id TEXT PRIMARY KEY,
+    kind TEXT NOT NULL,
+    mime_type TEXT NOT NULL,
+    size INTEGER NOT NULL,
+    name TEXT,
+    created_by TEXT,
+    created_at INTEGER NOT NULL
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_webhook ON webhook_deliveries(webhook_id, created_at);
+  CREATE INDEX IF NOT EXISTS idx_message_edits_message ON message_edits(message_id, edited_at);
+  CREATE INDEX IF NOT EXISTS idx_outbox_device ON message_outbox(device_id, queued_at);
+  CREATE INDEX IF NOT EXISTS idx_outbox_expires ON message_outbox(expires_at);
+  CREATE INDEX IF NOT EXISTS idx_scheduled_sends_due ON scheduled_sends(status, send_at);
 `);
 
 // Migration: Add sender_id column if it doesn't exist (for existing databases)
@@ -86,8 +265,148 @@ try {
   // Column already exists, ignore
 }
 
-// Helper: Convert DeviceRow to Device
+// Migration: Add sent_at column (when a delivery was last pushed to a connected device)
+try {
+  db.exec(`ALTER TABLE message_deliveries ADD COLUMN sent_at INTEGER`);
+} catch {
+  // Column already exists, ignore
+}
+
+// Migration: Add read receipt columns (notification lifecycle on the device)
+for (const column of ['displayed_at', 'dismissed_at', 'auto_expired_at', 'visible_ms']) {
+  try {
+    db.exec(`ALTER TABLE message_deliveries ADD COLUMN ${column} INTEGER`);
+  } catch {
+    // Column already exists, ignore
+  }
+}
+
+// Migration: Add reply option columns (quick-reply buttons / free-text reply)
+try {
+  db.exec(`ALTER TABLE messages ADD COLUMN reply_options TEXT`);
+} catch {
+  // Column already exists, ignore
+}
+try {
+  db.exec(`ALTER TABLE messages ADD COLUMN allow_free_text INTEGER DEFAULT 0`);
+} catch {
+  // Column already exists, ignore
+}
+
+// Migration: Add poll columns (POLL message type)
+try {
+  db.exec(`ALTER TABLE messages ADD COLUMN poll_options TEXT`);
+} catch {
+  // Column already exists, ignore
+}
+try {
+  db.exec(`ALTER TABLE messages ADD COLUMN poll_closes_at INTEGER`);
+} catch {
+  // Column already exists, ignore
+}
+
+// Migration: Add priority column (low, normal, high, urgent)
+try {
+  db.exec(`ALTER TABLE messages ADD COLUMN priority TEXT DEFAULT 'normal'`);
+} catch {
+  // Column already exists, ignore
+}
+
+// Migration: Add acknowledged_at column (explicit acknowledgement of urgent messages)
+try {
+  db.exec(`ALTER TABLE message_deliveries ADD COLUMN acknowledged_at INTEGER`);
+} catch {
+  // Column already exists, ignore
+}
+
+// Migration: Add secret_hash column for device authentication
+try {
+  db.exec(`ALTER TABLE devices ADD COLUMN secret_hash TEXT`);
+} catch {
+  // Column already exists, ignore
+}
+
+// Migration: Add tags column (JSON array of normalized tags)
+try {
+  db.exec(`ALTER TABLE devices ADD COLUMN tags TEXT`);
+} catch {
+  // Column already exists, ignore
+}
+
+// Migration: Add target_expression column (groups/tags a message was sent to)
+try {
+  db.exec(`ALTER TABLE messages ADD COLUMN target_expression TEXT`);
+} catch {
+  // Column already exists, ignore
+}
+
+// Migration: Add placeholder_data column (custom values and sender context for {{placeholders}})
+try {
+  db.exec(`ALTER TABLE messages ADD COLUMN placeholder_data TEXT`);
+} catch {
+  // Column already exists, ignore
+}
+
+// Migration: Add recalled_at columns (message taken back from devices)
+for (const table of ['messages', 'message_deliveries']) {
+  try {
+    db.exec(`ALTER TABLE ${table} ADD COLUMN recalled_at INTEGER`);
+  } catch {
+    // Column already exists, ignore
+  }
+}
+
+// Migration: Add expires_at column (message is never delivered or shown after this time)
+try {
+  db.exec(`ALTER TABLE messages ADD COLUMN expires_at INTEGER`);
+} catch {
+  // Column already exists, ignore
+}
+
+// Migration: Add edited_at column (content changed after sending)
+try {
+  db.exec(`ALTER TABLE messages ADD COLUMN edited_at INTEGER`);
+} catch {
+  // Column already exists, ignore
+}
+
+// Migration: Add do-not-disturb columns (quiet hours as JSON, tray toggle)
+for (const column of ['quiet_hours TEXT', 'dnd_enabled INTEGER DEFAULT 0']) {
+  try {
+    db.exec(`ALTER TABLE devices ADD COLUMN ${column}`);
+  } catch {
+    // Column already exists, ignore
+  }
+}
+
+// Migration: Add override_dnd column (urgent send delivered during do-not-disturb)
+try {
+  db.exec(`ALTER TABLE messages ADD COLUMN override_dnd INTEGER DEFAULT 0`);
+} catch {
+  // Column already exists, ignore
+}
+
+// Migration: Add sender_name column (user email or API key name shown in the history)
+try {
+  db.exec(`ALTER TABLE messages ADD COLUMN sender_name TEXT`);
+} catch {
+  // Column already exists
+}
+
+// Migration: Add image dimension columns (uploaded images and their resized variants)
+for (const column of ['width INTEGER', 'height INTEGER', 'variants TEXT']) {
+  try {
+    db.exec(`ALTER TABLE media_files ADD COLUMN ${column}`);
+  } catch {
+    // Column already exists
+  }
+}
+
+// Helper: Convert DeviceRow to Device (doNotDisturb is evaluated at read time)
 function rowToDevice(row: DeviceRow): Device {
+  const quietHours: QuietHours | undefined = row.quiet_hours ? JSON.parse(row.quiet_hours) : undefined;
+  const dndEnabled = row.dnd_enabled === 1;
+
   return {
     id: row.id,
     name: row.name,
@@ -95,6 +414,20 @@ function rowToDevice(row: DeviceRow): Device {
     status: row.status as DeviceStatus,
     lastSeen: new Date(row.last_seen),
     createdAt: new Date(row.created_at),
+    tags: row.tags ? JSON.parse(row.tags) : [],
+    quietHours,
+    dndEnabled,
+    doNotDisturb: isDoNotDisturb({ dndEnabled, quietHours }),
+  };
+}
+
+// Helper: Convert DeviceGroupRow to DeviceGroup
+function rowToDeviceGroup(row: DeviceGroupRow): DeviceGroup {
+  return {
+    id: row.id,
+    name: row.name,
+    deviceIds: row.device_ids ? row.device_ids.split(',') : [],
+    createdAt: new Date(row.created_at),
   };
 }
 
@@ -104,13 +437,105 @@ function rowToMessage(row: MessageRow): Message {
     id: row.id,
     type: row.type as MessageType,
     content: row.content,
+    priority: (row.priority ?? 'normal') as MessagePriority,
     imageUrl: row.image_url ?? undefined,
     videoUrl: row.video_url ?? undefined,
     audioUrl: row.audio_url ?? undefined,
     audioAutoplay: row.audio_autoplay === 1,
     targetDevices: JSON.parse(row.target_devices),
     status: row.status as MessageStatus,
+    replyOptions: row.reply_options ? JSON.parse(row.reply_options) : undefined,
+    allowFreeText: row.allow_free_text === 1,
+    pollOptions: row.poll_options ? JSON.parse(row.poll_options) : undefined,
+    pollClosesAt: row.poll_closes_at ? new Date(row.poll_closes_at) : undefined,
+    expiresAt: row.expires_at ? new Date(row.expires_at) : undefined,
+    overrideDnd: row.override_dnd === 1,
+    target: row.target_expression ? JSON.parse(row.target_expression) : undefined,
+    placeholders: row.placeholder_data ? JSON.parse(row.placeholder_data) : undefined,
+    recalledAt: row.recalled_at ? new Date(row.recalled_at) : undefined,
+    editedAt: row.edited_at ? new Date(row.edited_at) : undefined,
     senderId: row.sender_id ?? undefined,
+    senderName: row.sender_name ?? undefined,
+    createdAt: new Date(row.created_at),
+  };
+}
+
+// Helper: Convert MessageTemplateRow to MessageTemplate
+function rowToTemplate(row: MessageTemplateRow): MessageTemplate {
+  return {
+    id: row.id,
+    name: row.name,
+    type: row.type as MessageType,
+    content: row.content,
+    imageUrl: row.image_url ?? undefined,
+    videoUrl: row.video_url ?? undefined,
+    audioUrl: row.audio_url ?? undefined,
+    audioAutoplay: row.audio_autoplay === 1,
+    targetDevices: JSON.parse(row.target_devices),
+    targetGroups: JSON.parse(row.target_groups),
+    targetTags: JSON.parse(row.target_tags),
+    createdBy: row.created_by ?? undefined,
+    createdAt: new Date(row.created_at),
+    updatedAt: new Date(row.updated_at),
+  };
+}
+
+// Helper: Convert ApiKeyRow to ApiKey (the hash stays in the database layer)
+function rowToApiKey(row: ApiKeyRow): ApiKey {
+  return {
+    id: row.id,
+    name: row.name,
+    prefix: row.prefix,
+    scopes: JSON.parse(row.scopes) as ApiKeyScope[],
+    deviceIds: row.device_ids ? JSON.parse(row.device_ids) : undefined,
+    expiresAt: row.expires_at ? new Date(row.expires_at) : undefined,
+    lastUsedAt: row.last_used_at ? new Date(row.last_used_at) : undefined,
+    createdBy: row.created_by ?? undefined,
+    createdAt: new Date(row.created_at),
+  };
+}
+
+// Helper: Convert MediaFileRow to MediaFile
+function rowToMediaFile(row: MediaFileRow): MediaFile {
+  return {
+    id: row.id,
+    url: `/api/media/${row.id}`,
+    kind: row.kind as MediaKind,
+    mimeType: row.mime_type,
+    size: row.size,
+    name: row.name ?? undefined,
+    width: row.width ?? undefined,
+    height: row.height ?? undefined,
+    variants: row.variants ? JSON.parse(row.variants) : undefined,
+    createdBy: row.created_by ?? undefined,
+    createdAt: new Date(row.created_at),
+  };
+}
+
+// Helper: Convert WebhookRow to Webhook (the secret stays in the database layer)
+function rowToWebhook(row: WebhookRow): Webhook {
+  return {
+    id: row.id,
+    url: row.url,
+    events: JSON.parse(row.events) as WebhookEvent[],
+    enabled: row.enabled === 1,
+    createdBy: row.created_by ?? undefined,
+    createdAt: new Date(row.created_at),
+    updatedAt: new Date(row.updated_at),
+  };
+}
+
+// Helper: Convert WebhookDeliveryRow to WebhookDelivery
+function rowToWebhookDelivery(row: WebhookDeliveryRow): WebhookDelivery {
+  return {
+    id: row.id,
+    webhookId: row.webhook_id,
+    event: row.event as WebhookEvent,
+    success: row.success === 1,
+    statusCode: row.status_code ?? undefined,
+    error: row.error ?? undefined,
+    attempts: row.attempts,
+    durationMs: row.duration_ms,
     createdAt: new Date(row.created_at),
   };
 }
@@ -123,6 +548,56 @@ function rowToDelivery(row: MessageDeliveryRow): MessageDelivery {
     deliveredAt: row.delivered_at ? new Date(row.delivered_at) : undefined,
     failedAt: row.failed_at ? new Date(row.failed_at) : undefined,
     failureReason: row.failure_reason ?? undefined,
+    displayedAt: row.displayed_at ? new Date(row.displayed_at) : undefined,
+    dismissedAt: row.dismissed_at ? new Date(row.dismissed_at) : undefined,
+    autoExpiredAt: row.auto_expired_at ? new Date(row.auto_expired_at) : undefined,
+    visibleMs: row.visible_ms ?? undefined,
+    acknowledgedAt: row.acknowledged_at ? new Date(row.acknowledged_at) : undefined,
+    recalledAt: row.recalled_at ? new Date(row.recalled_at) : undefined,
+  };
+}
+
+// Helper: Convert MessageReplyRow to MessageReply
+function rowToReply(row: MessageReplyRow): MessageReply {
+  return {
+    deviceId: row.device_id,
+    response: row.response,
+    isFreeText: row.is_free_text === 1,
+    repliedAt: new Date(row.replied_at),
+  };
+}
+
+// Helper: Convert MessageEditRow to MessageEdit
+function rowToEdit(row: MessageEditRow): MessageEdit {
+  return {
+    previousContent: row.previous_content,
+    editedBy: row.edited_by ?? undefined,
+    editedAt: new Date(row.edited_at),
+  };
+}
+
+// Helper: Convert PollVoteRow to PollVote
+function rowToPollVote(row: PollVoteRow): PollVote {
+  return {
+    deviceId: row.device_id,
+    optionIndex: row.option_index,
+    votedAt: new Date(row.voted_at),
+  };
+}
+
+// Helper: Convert ScheduledSendRow to ScheduledSend
+function rowToScheduledSend(row: ScheduledSendRow): ScheduledSend {
+  return {
+    id: row.id,
+    message: JSON.parse(row.message_data) as ScheduledSendMessage,
+    sendAt: new Date(row.send_at),
+    timezone: row.timezone,
+    status: row.status as ScheduledSendStatus,
+    messageId: row.message_id ?? undefined,
+    senderId: row.sender_id ?? undefined,
+    error: row.error ?? undefined,
+    sentAt: row.sent_at ? new Date(row.sent_at) : undefined,
+    createdAt: new Date(row.created_at),
   };
 }
 
@@ -162,6 +637,9 @@ export function createDevice(
     status: 'online',
     lastSeen: new Date(now),
     createdAt: new Date(now),
+    tags: [],
+    dndEnabled: false,
+    doNotDisturb: false,
   };
 }
 
@@ -215,58 +693,322 @@ export function upsertDevice(
   return createDevice(name, hostname, id);
 }
 
-// Message operations
-
-export function getMessages(limit = 100): Message[] {
-  const stmt = db.prepare(
-    'SELECT * FROM messages ORDER BY created_at DESC LIMIT ?'
-  );
-  const rows = stmt.all(limit) as MessageRow[];
-  return rows.map(rowToMessage);
+/**
+ * Replace a device's tags (tags must be normalized)
+ */
+export function setDeviceTags(id: string, tags: string[]): boolean {
+  const stmt = db.prepare('UPDATE devices SET tags = ? WHERE id = ?');
+  const result = stmt.run(tags.length > 0 ? JSON.stringify(tags) : null, id);
+  return result.changes > 0;
 }
 
-export function getMessage(id: string): Message | null {
-  const stmt = db.prepare('SELECT * FROM messages WHERE id = ?');
-  const row = stmt.get(id) as MessageRow | undefined;
-  return row ? rowToMessage(row) : null;
+/**
+ * Set or clear (null) a device's quiet hours
+ */
+export function setDeviceQuietHours(id: string, quietHours: QuietHours | null): boolean {
+  const stmt = db.prepare('UPDATE devices SET quiet_hours = ? WHERE id = ?');
+  const result = stmt.run(quietHours ? JSON.stringify(quietHours) : null, id);
+  return result.changes > 0;
 }
 
 /**
- * Get messages filtered by sender (for role-based access)
- * @param senderId - If provided, only return messages from this sender
- * @param limit - Maximum number of messages to return
+ * Store the do-not-disturb toggle reported by a device
  */
-export function getMessagesBySender(senderId: string, limit = 100): Message[] {
-  const stmt = db.prepare(
-    'SELECT * FROM messages WHERE sender_id = ? ORDER BY created_at DESC LIMIT ?'
-  );
-  const rows = stmt.all(senderId, limit) as MessageRow[];
-  return rows.map(rowToMessage);
+export function setDeviceDnd(id: string, enabled: boolean): boolean {
+  const stmt = db.prepare('UPDATE devices SET dnd_enabled = ? WHERE id = ?');
+  const result = stmt.run(enabled ? 1 : 0, id);
+  return result.changes > 0;
 }
 
 /**
- * Get messages with deliveries filtered by sender
+ * Delete a device and its group memberships
+ * Deleting the row also drops the device secret, so the client must re-enroll
  */
-export function getMessagesBySenderWithDeliveries(senderId: string, limit = 100): Message[] {
-  const messages = getMessagesBySender(senderId, limit);
+export function deleteDevice(id: string): boolean {
+  const remove = db.transaction(() => {
+    db.prepare('DELETE FROM device_group_members WHERE device_id = ?').run(id);
+    return db.prepare('DELETE FROM devices WHERE id = ?').run(id).changes > 0;
+  });
+  return remove();
+}
 
-  const messageIds = messages.map(m => m.id);
-  if (messageIds.length === 0) return messages;
+// Device group operations
 
-  const placeholders = messageIds.map(() => '?').join(',');
-  const stmt = db.prepare(`SELECT * FROM message_deliveries WHERE message_id IN (${placeholders})`);
-  const rows = stmt.all(...messageIds) as MessageDeliveryRow[];
+// Members are joined with devices so removed devices never show up
+const DEVICE_GROUP_SELECT = `
+  SELECT g.id, g.name, g.created_at, GROUP_CONCAT(d.id) AS device_ids
+  FROM device_groups g
+  LEFT JOIN device_group_members m ON m.group_id = g.id
+  LEFT JOIN devices d ON d.id = m.device_id
+`;
 
-  const deliveriesByMessage = new Map<string, MessageDelivery[]>();
-  for (const row of rows) {
-    const delivery = rowToDelivery(row);
-    const existing = deliveriesByMessage.get(row.message_id) || [];
-    existing.push(delivery);
-    deliveriesByMessage.set(row.message_id, existing);
-  }
+export function getDeviceGroups(): DeviceGroup[] {
+  const stmt = db.prepare(`${DEVICE_GROUP_SELECT} GROUP BY g.id ORDER BY g.name COLLATE NOCASE`);
+  const rows = stmt.all() as DeviceGroupRow[];
+  return rows.map(rowToDeviceGroup);
+}
+
+export function getDeviceGroup(id: string): DeviceGroup | null {
+  const stmt = db.prepare(`${DEVICE_GROUP_SELECT} WHERE g.id = ? GROUP BY g.id`);
+  const row = stmt.get(id) as DeviceGroupRow | undefined;
+  return row ? rowToDeviceGroup(row) : null;
+}
+
+/**
+ * Find a group by name (case-insensitive)
+ */
+export function getDeviceGroupByName(name: string): DeviceGroup | null {
+  const stmt = db.prepare(`${DEVICE_GROUP_SELECT} WHERE g.name = ? COLLATE NOCASE GROUP BY g.id`);
+  const row = stmt.get(name) as DeviceGroupRow | undefined;
+  return row ? rowToDeviceGroup(row) : null;
+}
+
+// Helper: Replace the members of a group (inside a transaction)
+function replaceGroupMembers(groupId: string, deviceIds: string[]): void {
+  db.prepare('DELETE FROM device_group_members WHERE group_id = ?').run(groupId);
+  const insert = db.prepare('INSERT OR IGNORE INTO device_group_members (group_id, device_id) VALUES (?, ?)');
+  for (const deviceId of deviceIds) {
+    insert.run(groupId, deviceId);
+  }
+}
+
+export function createDeviceGroup(name: string, deviceIds: string[]): DeviceGroup {
+  const id = uuidv4();
+
+  const create = db.transaction(() => {
+    db.prepare('INSERT INTO device_groups (id, name, created_at) VALUES (?, ?, ?)').run(id, name, Date.now());
+    replaceGroupMembers(id, deviceIds);
+  });
+  create();
+
+  return getDeviceGroup(id)!;
+}
+
+/**
+ * Rename a group and/or replace its members
+ * @returns The updated group, or null if it doesn't exist
+ */
+export function updateDeviceGroup(
+  id: string,
+  changes: { name?: string; deviceIds?: string[] }
+): DeviceGroup | null {
+  const update = db.transaction(() => {
+    if (changes.name !== undefined) {
+      db.prepare('UPDATE device_groups SET name = ? WHERE id = ?').run(changes.name, id);
+    }
+    if (changes.deviceIds !== undefined) {
+      replaceGroupMembers(id, changes.deviceIds);
+    }
+  });
+
+  if (!getDeviceGroup(id)) return null;
+  update();
+  return getDeviceGroup(id);
+}
+
+export function deleteDeviceGroup(id: string): boolean {
+  const remove = db.transaction(() => {
+    db.prepare('DELETE FROM device_group_members WHERE group_id = ?').run(id);
+    return db.prepare('DELETE FROM device_groups WHERE id = ?').run(id).changes > 0;
+  });
+  return remove();
+}
+
+// Message template operations
+
+export function getTemplates(): MessageTemplate[] {
+  const stmt = db.prepare('SELECT * FROM message_templates ORDER BY name COLLATE NOCASE');
+  const rows = stmt.all() as MessageTemplateRow[];
+  return rows.map(rowToTemplate);
+}
+
+export function getTemplate(id: string): MessageTemplate | null {
+  const stmt = db.prepare('SELECT * FROM message_templates WHERE id = ?');
+  const row = stmt.get(id) as MessageTemplateRow | undefined;
+  return row ? rowToTemplate(row) : null;
+}
+
+/**
+ * Find a template by name (case-insensitive)
+ */
+export function getTemplateByName(name: string): MessageTemplate | null {
+  const stmt = db.prepare('SELECT * FROM message_templates WHERE name = ? COLLATE NOCASE');
+  const row = stmt.get(name) as MessageTemplateRow | undefined;
+  return row ? rowToTemplate(row) : null;
+}
+
+export function createTemplate(
+  data: Omit<MessageTemplate, 'id' | 'createdAt' | 'updatedAt'>
+): MessageTemplate {
+  const id = uuidv4();
+  const now = Date.now();
+
+  db.prepare(`
+    INSERT INTO message_templates (id, name, type, content, image_url, video_url, audio_url, audio_autoplay, target_devices, target_groups, target_tags, created_by, created_at, updated_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `).run(
+    id,
+    data.name,
+    data.type,
+    data.content,
+    data.imageUrl ?? null,
+    data.videoUrl ?? null,
+    data.audioUrl ?? null,
+    data.audioAutoplay ? 1 : 0,
+    JSON.stringify(data.targetDevices),
+    JSON.stringify(data.targetGroups),
+    JSON.stringify(data.targetTags),
+    data.createdBy ?? null,
+    now,
+    now
+  );
+
+  return getTemplate(id)!;
+}
+
+/**
+ * Replace the editable fields of a template
+ * @returns The updated template, or null if it doesn't exist
+ */
+export function updateTemplate(
+  id: string,
+  data: Omit<MessageTemplate, 'id' | 'createdBy' | 'createdAt' | 'updatedAt'>
+): MessageTemplate | null {
+  const result = db.prepare(`
+    UPDATE message_templates
+    SET name = ?, type = ?, content = ?, image_url = ?, video_url = ?, audio_url = ?, audio_autoplay = ?,
+        target_devices = ?, target_groups = ?, target_tags = ?, updated_at = ?
+    WHERE id = ?
+  `).run(
+    data.name,
+    data.type,
+    data.content,
+    data.imageUrl ?? null,
+    data.videoUrl ?? null,
+    data.audioUrl ?? null,
+    data.audioAutoplay ? 1 : 0,
+    JSON.stringify(data.targetDevices),
+    JSON.stringify(data.targetGroups),
+    JSON.stringify(data.targetTags),
+    Date.now(),
+    id
+  );
+
+  return result.changes > 0 ? getTemplate(id) : null;
+}
+
+export function deleteTemplate(id: string): boolean {
+  return db.prepare('DELETE FROM message_templates WHERE id = ?').run(id).changes > 0;
+}
 
+// Device credential operations
+
+/**
+ * Store the hashed secret for a device (replaces any previous secret)
+ */
+export function setDeviceSecretHash(id: string, secretHash: string | null): boolean {
+  const stmt = db.prepare('UPDATE devices SET secret_hash = ? WHERE id = ?');
+  const result = stmt.run(secretHash, id);
+  return result.changes > 0;
+}
+
+/**
+ * Get the hashed secret for a device, or null if the device is not enrolled
+ */
+export function getDeviceSecretHash(id: string): string | null {
+  const stmt = db.prepare('SELECT secret_hash FROM devices WHERE id = ?');
+  const row = stmt.get(id) as { secret_hash: string | null } | undefined;
+  return row?.secret_hash ?? null;
+}
+
+/**
+ * Store a new one-time enrollment code (hashed)
+ */
+export function createEnrollmentCode(
+  codeHash: string,
+  expiresAt: number,
+  createdBy?: string
+): void {
+  const stmt = db.prepare(`
+    INSERT INTO enrollment_codes (code_hash, created_by, created_at, expires_at)
+    VALUES (?, ?, ?, ?)
+  `);
+  stmt.run(codeHash, createdBy ?? null, Date.now(), expiresAt);
+}
+
+/**
+ * Mark an enrollment code as used
+ * Returns false if the code is unknown, expired or was already used
+ */
+export function consumeEnrollmentCode(codeHash: string, deviceId: string): boolean {
+  const now = Date.now();
+  const stmt = db.prepare(`
+    UPDATE enrollment_codes
+    SET used_at = ?, used_by_device = ?
+    WHERE code_hash = ? AND used_at IS NULL AND expires_at > ?
+  `);
+  const result = stmt.run(now, deviceId, codeHash, now);
+  return result.changes > 0;
+}
+
+// Message operations
+
+export function getMessages(limit = 100): Message[] {
+  const stmt = db.prepare(
+    'SELECT * FROM messages ORDER BY created_at DESC LIMIT ?'
+  );
+  const rows = stmt.all(limit) as MessageRow[];
+  return rows.map(rowToMessage);
+}
+
+export function getMessage(id: string): Message | null {
+  const stmt = db.prepare('SELECT * FROM messages WHERE id = ?');
+  const row = stmt.get(id) as MessageRow | undefined;
+  return row ? rowToMessage(row) : null;
+}
+
+/**
+ * Get messages filtered by sender (for role-based access)
+ * @param senderId - If provided, only return messages from this sender
+ * @param limit - Maximum number of messages to return
+ */
+export function getMessagesBySender(senderId: string, limit = 100): Message[] {
+  const stmt = db.prepare(
+    'SELECT * FROM messages WHERE sender_id = ? ORDER BY created_at DESC LIMIT ?'
+  );
+  const rows = stmt.all(senderId, limit) as MessageRow[];
+  return rows.map(rowToMessage);
+}
+
+/**
+ * Get messages with deliveries filtered by sender
+ */
+export function getMessagesBySenderWithDeliveries(senderId: string, limit = 100): Message[] {
+  const messages = getMessagesBySender(senderId, limit);
+
+  const messageIds = messages.map(m => m.id);
+  if (messageIds.length === 0) return messages;
+
+  const placeholders = messageIds.map(() => '?').join(',');
+  const stmt = db.prepare(`SELECT * FROM message_deliveries WHERE message_id IN (${placeholders})`);
+  const rows = stmt.all(...messageIds) as MessageDeliveryRow[];
+
+  const deliveriesByMessage = new Map<string, MessageDelivery[]>();
+  for (const row of rows) {
+    const delivery = rowToDelivery(row);
+    const existing = deliveriesByMessage.get(row.message_id) || [];
+    existing.push(delivery);
+    deliveriesByMessage.set(row.message_id, existing);
+  }
+
+  const repliesByMessage = getRepliesByMessage(messageIds);
+  const editsByMessage = getEditsByMessage(messageIds);
+  const votesByMessage = getPollVotesByMessage(messageIds);
   for (const message of messages) {
     message.deliveries = deliveriesByMessage.get(message.id) || [];
+    message.replies = repliesByMessage.get(message.id) || [];
+    message.edits = editsByMessage.get(message.id) || [];
+    attachPollResults(message, votesByMessage.get(message.id) || []);
   }
 
   return messages;
@@ -281,27 +1023,48 @@ export function createMessage(
     videoUrl?: string;
     audioUrl?: string;
     audioAutoplay?: boolean;
+    replyOptions?: string[];
+    allowFreeText?: boolean;
+    pollOptions?: string[];
+    pollClosesAt?: number;
+    expiresAt?: number;
+    overrideDnd?: boolean;
+    priority?: MessagePriority;
+    target?: MessageTarget;
+    placeholders?: PlaceholderContext;
     senderId?: string;
+    senderName?: string;
   }
 ): Message {
   const id = uuidv4();
   const now = Date.now();
+  const replyOptions = options?.replyOptions?.length ? options.replyOptions : undefined;
 
   const stmt = db.prepare(`
-    INSERT INTO messages (id, type, content, image_url, video_url, audio_url, audio_autoplay, target_devices, status, sender_id, created_at)
-    VALUES (?, ?, ?, ?, ?, ?, ?, ?, 'pending', ?, ?)
+    INSERT INTO messages (id, type, content, priority, image_url, video_url, audio_url, audio_autoplay, reply_options, allow_free_text, poll_options, poll_closes_at, expires_at, override_dnd, target_devices, target_expression, placeholder_data, status, sender_id, sender_name, created_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 'pending', ?, ?, ?)
   `);
 
   stmt.run(
     id,
     type,
     content,
+    options?.priority ?? 'normal',
     options?.imageUrl ?? null,
     options?.videoUrl ?? null,
     options?.audioUrl ?? null,
     options?.audioAutoplay ? 1 : 0,
+    replyOptions ? JSON.stringify(replyOptions) : null,
+    options?.allowFreeText ? 1 : 0,
+    options?.pollOptions ? JSON.stringify(options.pollOptions) : null,
+    options?.pollClosesAt ?? null,
+    options?.expiresAt ?? null,
+    options?.overrideDnd ? 1 : 0,
     JSON.stringify(targetDevices),
+    options?.target ? JSON.stringify(options.target) : null,
+    options?.placeholders ? JSON.stringify(options.placeholders) : null,
     options?.senderId ?? null,
+    options?.senderName ?? null,
     now
   );
 
@@ -309,13 +1072,23 @@ export function createMessage(
     id,
     type,
     content,
+    priority: options?.priority ?? 'normal',
     imageUrl: options?.imageUrl,
     videoUrl: options?.videoUrl,
     audioUrl: options?.audioUrl,
     audioAutoplay: options?.audioAutoplay,
+    replyOptions,
+    allowFreeText: options?.allowFreeText ?? false,
+    pollOptions: options?.pollOptions,
+    pollClosesAt: options?.pollClosesAt ? new Date(options.pollClosesAt) : undefined,
+    expiresAt: options?.expiresAt ? new Date(options.expiresAt) : undefined,
+    overrideDnd: options?.overrideDnd ?? false,
     targetDevices,
+    target: options?.target,
+    placeholders: options?.placeholders,
     status: 'pending',
     senderId: options?.senderId,
+    senderName: options?.senderName,
     createdAt: new Date(now),
   };
 }
@@ -331,6 +1104,11 @@ export function updateMessageStatus(
 
 // Message delivery operations
 
+// Deliveries failed on an ack timeout keep their outbox entry: the device may still get the message
+// or have it on screen, so recalls, edits and read receipts treat them as open
+export const ACK_TIMEOUT_REASON = 'ack timeout';
+const OPEN_DELIVERY_STATUS = `(status != 'failed' OR failure_reason = '${ACK_TIMEOUT_REASON}')`;
+
 /**
  * Create delivery records for a message when it's sent to devices
  */
@@ -360,7 +1138,8 @@ export function updateDeliveryStatus(
   messageId: string,
   deviceId: string,
   status: DeviceDeliveryStatus,
-  timestamp?: number
+  timestamp?: number,
+  failureReason?: string
 ): boolean {
   const now = timestamp || Date.now();
   let sql = 'UPDATE message_deliveries SET status = ?';
@@ -369,19 +1148,118 @@ export function updateDeliveryStatus(
   if (status === 'delivered') {
     sql += ', delivered_at = ?';
     params.push(now);
+  } else if (status === 'acknowledged') {
+    sql += ', acknowledged_at = ?, delivered_at = COALESCE(delivered_at, ?)';
+    params.push(now, now);
   } else if (status === 'failed') {
-    sql += ', failed_at = ?';
-    params.push(now);
+    sql += ', failed_at = ?, failure_reason = ?';
+    params.push(now, failureReason ?? 'unknown');
   }
 
   sql += ' WHERE message_id = ? AND device_id = ?';
   params.push(messageId, deviceId);
 
+  // A late delivery ack must not undo an acknowledgement or a recall
+  if (status === 'delivered') {
+    sql += " AND status != 'acknowledged' AND recalled_at IS NULL";
+  }
+
   const stmt = db.prepare(sql);
   const result = stmt.run(...params);
   return result.changes > 0;
 }
 
+/**
+ * Fail a delivery the device dropped because the message expired before it was shown
+ * Deliveries that were shown, acknowledged, failed or recalled are left as they are
+ */
+export function expireDelivery(messageId: string, deviceId: string, timestamp = Date.now()): boolean {
+  const stmt = db.prepare(`
+    UPDATE message_deliveries
+    SET status = 'failed', failed_at = ?, failure_reason = 'expired'
+    WHERE message_id = ? AND device_id = ? AND status IN ('pending', 'sent', 'delivered')
+      AND displayed_at IS NULL AND recalled_at IS NULL
+  `);
+  const result = stmt.run(timestamp, messageId, deviceId);
+  return result.changes > 0;
+}
+
+/**
+ * Record a read receipt for a delivery
+ * - displayed: first time the notification became visible
+ * - dismissed / auto-expired: when it was closed and how long it was visible
+ * A displayed notification was evidently delivered, so a missing ack is filled in
+ * (failed, expired and recalled deliveries keep their status and ignore displayed receipts,
+ * except after an ack timeout)
+ */
+export function updateDeliveryLifecycle(
+  messageId: string,
+  deviceId: string,
+  event: DeliveryLifecycleEvent,
+  timestamp: number,
+  visibleMs?: number
+): boolean {
+  let sql: string;
+  let params: (string | number | null)[];
+
+  if (event === 'displayed') {
+    sql = `
+      UPDATE message_deliveries
+      SET displayed_at = COALESCE(displayed_at, ?),
+          status = CASE WHEN status = 'acknowledged' THEN status ELSE 'delivered' END,
+          delivered_at = COALESCE(delivered_at, ?)
+      WHERE message_id = ? AND device_id = ?
+        AND ${OPEN_DELIVERY_STATUS} AND recalled_at IS NULL
+    `;
+    params = [timestamp, timestamp, messageId, deviceId];
+  } else {
+    const column = event === 'dismissed' ? 'dismissed_at' : 'auto_expired_at';
+    sql = `
+      UPDATE message_deliveries
+      SET ${column} = ?, visible_ms = ?
+      WHERE message_id = ? AND device_id = ?
+    `;
+    params = [timestamp, visibleMs ?? null, messageId, deviceId];
+  }
+
+  const stmt = db.prepare(sql);
+  const result = stmt.run(...params);
+  return result.changes > 0;
+}
+
+/**
+ * Record that a delivery was pushed to a connected device (starts the ack timeout)
+ */
+export function markDeliverySent(messageId: string, deviceId: string, timestamp = Date.now()): boolean {
+  const stmt = db.prepare(`
+    UPDATE message_deliveries SET sent_at = ?
+    WHERE message_id = ? AND device_id = ? AND status = 'sent'
+  `);
+  const result = stmt.run(timestamp, messageId, deviceId);
+  return result.changes > 0;
+}
+
+/**
+ * Get unacknowledged deliveries last pushed (or created) before the cutoff
+ * device_status is null if the device no longer exists
+ */
+export function getOverdueDeliveries(cutoff: number): OverdueDeliveryRow[] {
+  const stmt = db.prepare(`
+    SELECT
+      d.message_id,
+      d.device_id,
+      d.sent_at,
+      dev.status AS device_status,
+      (o.message_id IS NOT NULL) AS queued
+    FROM message_deliveries d
+    JOIN messages m ON m.id = d.message_id
+    LEFT JOIN devices dev ON dev.id = d.device_id
+    LEFT JOIN message_outbox o ON o.message_id = d.message_id AND o.device_id = d.device_id
+    WHERE d.status IN ('pending', 'sent') AND COALESCE(d.sent_at, m.created_at) <= ?
+  `);
+  return stmt.all(cutoff) as OverdueDeliveryRow[];
+}
+
 /**
  * Get delivery records for a message
  */
@@ -392,13 +1270,16 @@ export function getMessageDeliveries(messageId: string): MessageDelivery[] {
 }
 
 /**
- * Get a message with its delivery records
+ * Get a message with its delivery records, replies and edit history
  */
 export function getMessageWithDeliveries(id: string): Message | null {
   const message = getMessage(id);
   if (!message) return null;
 
   message.deliveries = getMessageDeliveries(id);
+  message.replies = getMessageReplies(id);
+  message.edits = getMessageEdits(id);
+  attachPollResults(message, getPollVotes(id));
   return message;
 }
 
@@ -425,9 +1306,15 @@ export function getMessagesWithDeliveries(limit = 100): Message[] {
     deliveriesByMessage.set(row.message_id, existing);
   }
 
-  // Attach deliveries to messages
+  // Attach deliveries, replies and edits to messages
+  const repliesByMessage = getRepliesByMessage(messageIds);
+  const editsByMessage = getEditsByMessage(messageIds);
+  const votesByMessage = getPollVotesByMessage(messageIds);
   for (const message of messages) {
     message.deliveries = deliveriesByMessage.get(message.id) || [];
+    message.replies = repliesByMessage.get(message.id) || [];
+    message.edits = editsByMessage.get(message.id) || [];
+    attachPollResults(message, votesByMessage.get(message.id) || []);
   }
 
   return messages;
@@ -443,15 +1330,17 @@ export function recalculateMessageStatus(messageId: string): MessageStatus {
     return 'pending';
   }
 
-  const allDelivered = deliveries.every(d => d.status === 'delivered');
+  // An acknowledged delivery has also been delivered
+  const isDelivered = (d: MessageDelivery) => d.status === 'delivered' || d.status === 'acknowledged';
+  const allDelivered = deliveries.every(isDelivered);
   const allFailed = deliveries.every(d => d.status === 'failed');
-  const someDelivered = deliveries.some(d => d.status === 'delivered');
+  const someDelivered = deliveries.some(isDelivered);
 
   let newStatus: MessageStatus;
   if (allDelivered) {
     newStatus = 'delivered';
   } else if (allFailed) {
-    newStatus = 'sent'; // Keep as sent if all failed (not worse than sent)
+    newStatus = 'failed';
   } else if (someDelivered) {
     newStatus = 'partial';
   } else {
@@ -462,6 +1351,662 @@ export function recalculateMessageStatus(messageId: string): MessageStatus {
   return newStatus;
 }
 
+// Reply operations
+
+/**
+ * Store a device's reply to a message (a later reply replaces the earlier one)
+ */
+export function upsertMessageReply(
+  messageId: string,
+  deviceId: string,
+  response: string,
+  isFreeText: boolean,
+  repliedAt = Date.now()
+): void {
+  const stmt = db.prepare(`
+    INSERT OR REPLACE INTO message_replies (message_id, device_id, response, is_free_text, replied_at)
+    VALUES (?, ?, ?, ?, ?)
+  `);
+  stmt.run(messageId, deviceId, response, isFreeText ? 1 : 0, repliedAt);
+}
+
+/**
+ * Get all replies for a message, oldest first
+ */
+export function getMessageReplies(messageId: string): MessageReply[] {
+  const stmt = db.prepare('SELECT * FROM message_replies WHERE message_id = ? ORDER BY replied_at ASC');
+  const rows = stmt.all(messageId) as MessageReplyRow[];
+  return rows.map(rowToReply);
+}
+
+/**
+ * Batch fetch replies for several messages, grouped by message ID
+ */
+export function getRepliesByMessage(messageIds: string[]): Map<string, MessageReply[]> {
+  const repliesByMessage = new Map<string, MessageReply[]>();
+  if (messageIds.length === 0) return repliesByMessage;
+
+  const placeholders = messageIds.map(() => '?').join(',');
+  const stmt = db.prepare(
+    `SELECT * FROM message_replies WHERE message_id IN (${placeholders}) ORDER BY replied_at ASC`
+  );
+  const rows = stmt.all(...messageIds) as MessageReplyRow[];
+
+  for (const row of rows) {
+    const existing = repliesByMessage.get(row.message_id) || [];
+    existing.push(rowToReply(row));
+    repliesByMessage.set(row.message_id, existing);
+  }
+
+  return repliesByMessage;
+}
+
+// Edit operations (content changed after sending)
+
+/**
+ * Replace a message's content and keep the previous version in the edit history
+ * @returns false if the message doesn't exist or was recalled
+ */
+export function editMessageContent(
+  messageId: string,
+  content: string,
+  placeholders: PlaceholderContext | undefined,
+  editedBy?: string,
+  timestamp = Date.now()
+): boolean {
+  const edit = db.transaction(() => {
+    const row = db.prepare(`
+      SELECT content FROM messages WHERE id = ? AND recalled_at IS NULL
+    `).get(messageId) as Pick<MessageRow, 'content'> | undefined;
+    if (!row) return false;
+
+    db.prepare(`
+      INSERT INTO message_edits (message_id, previous_content, edited_by, edited_at)
+      VALUES (?, ?, ?, ?)
+    `).run(messageId, row.content, editedBy ?? null, timestamp);
+
+    db.prepare(`
+      UPDATE messages SET content = ?, placeholder_data = ?, edited_at = ? WHERE id = ?
+    `).run(content, placeholders ? JSON.stringify(placeholders) : null, timestamp, messageId);
+
+    return true;
+  });
+
+  return edit();
+}
+
+/**
+ * Get the edit history of a message, oldest first
+ */
+export function getMessageEdits(messageId: string): MessageEdit[] {
+  const stmt = db.prepare('SELECT * FROM message_edits WHERE message_id = ? ORDER BY edited_at ASC, id ASC');
+  const rows = stmt.all(messageId) as MessageEditRow[];
+  return rows.map(rowToEdit);
+}
+
+/**
+ * Batch fetch edit histories for several messages, grouped by message ID
+ */
+export function getEditsByMessage(messageIds: string[]): Map<string, MessageEdit[]> {
+  const editsByMessage = new Map<string, MessageEdit[]>();
+  if (messageIds.length === 0) return editsByMessage;
+
+  const placeholders = messageIds.map(() => '?').join(',');
+  const stmt = db.prepare(
+    `SELECT * FROM message_edits WHERE message_id IN (${placeholders}) ORDER BY edited_at ASC, id ASC`
+  );
+  const rows = stmt.all(...messageIds) as MessageEditRow[];
+
+  for (const row of rows) {
+    const existing = editsByMessage.get(row.message_id) || [];
+    existing.push(rowToEdit(row));
+    editsByMessage.set(row.message_id, existing);
+  }
+
+  return editsByMessage;
+}
+
+// Poll operations
+
+/**
+ * Store a device's poll vote (voting again changes the vote)
+ */
+export function upsertPollVote(
+  messageId: string,
+  deviceId: string,
+  optionIndex: number,
+  votedAt = Date.now()
+): void {
+  const stmt = db.prepare(`
+    INSERT OR REPLACE INTO poll_votes (message_id, device_id, option_index, voted_at)
+    VALUES (?, ?, ?, ?)
+  `);
+  stmt.run(messageId, deviceId, optionIndex, votedAt);
+}
+
+/**
+ * Get all votes for a poll
+ */
+export function getPollVotes(messageId: string): PollVote[] {
+  const stmt = db.prepare('SELECT * FROM poll_votes WHERE message_id = ? ORDER BY voted_at ASC');
+  const rows = stmt.all(messageId) as PollVoteRow[];
+  return rows.map(rowToPollVote);
+}
+
+/**
+ * Batch fetch poll votes for several messages, grouped by message ID
+ */
+export function getPollVotesByMessage(messageIds: string[]): Map<string, PollVote[]> {
+  const votesByMessage = new Map<string, PollVote[]>();
+  if (messageIds.length === 0) return votesByMessage;
+
+  const placeholders = messageIds.map(() => '?').join(',');
+  const stmt = db.prepare(
+    `SELECT * FROM poll_votes WHERE message_id IN (${placeholders}) ORDER BY voted_at ASC`
+  );
+  const rows = stmt.all(...messageIds) as PollVoteRow[];
+
+  for (const row of rows) {
+    const existing = votesByMessage.get(row.message_id) || [];
+    existing.push(rowToPollVote(row));
+    votesByMessage.set(row.message_id, existing);
+  }
+
+  return votesByMessage;
+}
+
+/**
+ * Attach votes and per-option tallies to a poll message (no-op for other types)
+ */
+export function attachPollResults(message: Message, votes: PollVote[]): void {
+  if (message.type !== MessageType.POLL || !message.pollOptions) return;
+
+  message.pollVotes = votes;
+  message.pollResults = message.pollOptions.map((option, index) => ({
+    option,
+    votes: votes.filter((v) => v.optionIndex === index).length,
+  }));
+}
+
+// Outbox operations (per-device queue of unacknowledged messages)
+
+/**
+ * Queue a message payload for a device until it acknowledges delivery
+ */
+export function enqueueOutboxMessage(
+  deviceId: string,
+  payload: MessagePayload,
+  expiresAt: number
+): void {
+  const stmt = db.prepare(`
+    INSERT OR REPLACE INTO message_outbox (message_id, device_id, payload, queued_at, expires_at)
+    VALUES (?, ?, ?, ?, ?)
+  `);
+  stmt.run(payload.id, deviceId, JSON.stringify(payload), Date.now(), expiresAt);
+}
+
+/**
+ * Get queued payloads for a device that have not expired, oldest first
+ */
+export function getPendingOutboxMessages(deviceId: string): MessagePayload[] {
+  const stmt = db.prepare(`
+    SELECT * FROM message_outbox
+    WHERE device_id = ? AND expires_at > ?
+    ORDER BY queued_at ASC, rowid ASC
+  `);
+  const rows = stmt.all(deviceId, Date.now()) as OutboxRow[];
+  return rows.map(row => JSON.parse(row.payload) as MessagePayload);
+}
+
+/**
+ * Remove a queued message once the device has acknowledged it
+ */
+export function removeOutboxMessage(messageId: string, deviceId: string): boolean {
+  const stmt = db.prepare('DELETE FROM message_outbox WHERE message_id = ? AND device_id = ?');
+  const result = stmt.run(messageId, deviceId);
+  return result.changes > 0;
+}
+
+/**
+ * Drop expired outbox entries and mark their deliveries as failed
+ * Deliveries that already failed (ack timeout) keep their failure reason
+ * @returns The newly failed entries (for status recalculation and broadcasts)
+ */
+export function expireOutboxMessages(): { messageId: string; deviceId: string }[] {
+  const now = Date.now();
+  const selectStmt = db.prepare('SELECT message_id, device_id FROM message_outbox WHERE expires_at <= ?');
+  const deleteStmt = db.prepare('DELETE FROM message_outbox WHERE expires_at <= ?');
+  const failStmt = db.prepare(`
+    UPDATE message_deliveries
+    SET status = 'failed', failed_at = ?, failure_reason = 'expired'
+    WHERE message_id = ? AND device_id = ? AND status != 'failed'
+  `);
+
+  const expire = db.transaction(() => {
+    const rows = selectStmt.all(now) as Pick<OutboxRow, 'message_id' | 'device_id'>[];
+    const failed = rows.filter((row) => failStmt.run(now, row.message_id, row.device_id).changes > 0);
+    deleteStmt.run(now);
+    return failed.map(row => ({ messageId: row.message_id, deviceId: row.device_id }));
+  });
+
+  return expire();
+}
+
+/**
+ * Recall a message from the devices that have not closed it yet
+ * - Open deliveries record recalled_at; undelivered ones (also after an ack timeout) fail with reason 'recalled'
+ * - Queued copies are dropped from the outbox
+ * @returns The recalled device ids, or null if the message doesn't exist or was already recalled
+ */
+export function recallMessage(messageId: string, timestamp = Date.now()): string[] | null {
+  const recall = db.transaction(() => {
+    const result = db.prepare(`
+      UPDATE messages SET recalled_at = ? WHERE id = ? AND recalled_at IS NULL
+    `).run(timestamp, messageId);
+    if (result.changes === 0) return null;
+
+    const rows = db.prepare(`
+      SELECT device_id FROM message_deliveries
+      WHERE message_id = ? AND dismissed_at IS NULL AND auto_expired_at IS NULL
+        AND acknowledged_at IS NULL AND ${OPEN_DELIVERY_STATUS}
+    `).all(messageId) as Pick<MessageDeliveryRow, 'device_id'>[];
+
+    db.prepare(`
+      UPDATE message_deliveries
+      SET recalled_at = ?,
+          status = CASE WHEN status IN ('pending', 'sent', 'failed') THEN 'failed' ELSE status END,
+          failed_at = CASE WHEN status IN ('pending', 'sent', 'failed') THEN ? ELSE failed_at END,
+          failure_reason = CASE WHEN status IN ('pending', 'sent', 'failed') THEN 'recalled' ELSE failure_reason END
+      WHERE message_id = ? AND dismissed_at IS NULL AND auto_expired_at IS NULL
+        AND acknowledged_at IS NULL AND ${OPEN_DELIVERY_STATUS}
+    `).run(timestamp, timestamp, messageId);
+
+    db.prepare('DELETE FROM message_outbox WHERE message_id = ?').run(messageId);
+
+    return rows.map((row) => row.device_id);
+  });
+
+  return recall();
+}
+
+/**
+ * Messages recalled from a device since a point in time (re-sent when it reconnects)
+ */
+export function getRecalledMessageIds(deviceId: string, since: number): string[] {
+  const stmt = db.prepare(`
+    SELECT message_id FROM message_deliveries
+    WHERE device_id = ? AND recalled_at >= ?
+  `);
+  const rows = stmt.all(deviceId, since) as Pick<MessageDeliveryRow, 'message_id'>[];
+  return rows.map((row) => row.message_id);
+}
+
+/**
+ * Replace the queued payload of a message for a device (after an edit)
+ * The entry keeps its place in the queue and its expiry
+ */
+export function updateOutboxPayload(deviceId: string, payload: MessagePayload): boolean {
+  const stmt = db.prepare('UPDATE message_outbox SET payload = ? WHERE message_id = ? AND device_id = ?');
+  const result = stmt.run(JSON.stringify(payload), payload.id, deviceId);
+  return result.changes > 0;
+}
+
+/**
+ * Devices that may still have a message queued or on screen
+ * (not closed, acknowledged, failed or recalled; ack timeouts count as open)
+ */
+export function getOpenDeliveryDeviceIds(messageId: string): string[] {
+  const stmt = db.prepare(`
+    SELECT device_id FROM message_deliveries
+    WHERE message_id = ? AND dismissed_at IS NULL AND auto_expired_at IS NULL
+      AND acknowledged_at IS NULL AND recalled_at IS NULL AND ${OPEN_DELIVERY_STATUS}
+  `);
+  const rows = stmt.all(messageId) as Pick<MessageDeliveryRow, 'device_id'>[];
+  return rows.map((row) => row.device_id);
+}
+
+/**
+ * Messages edited since a point in time that a device received and has not closed
+ * (the latest version is re-sent when it reconnects)
+ */
+export function getEditedOpenMessageIds(deviceId: string, since: number): string[] {
+  const stmt = db.prepare(`
+    SELECT d.message_id FROM message_deliveries d
+    JOIN messages m ON m.id = d.message_id
+    WHERE d.device_id = ? AND d.status = 'delivered' AND m.edited_at >= ?
+      AND d.dismissed_at IS NULL AND d.auto_expired_at IS NULL AND d.recalled_at IS NULL
+  `);
+  const rows = stmt.all(deviceId, since) as Pick<MessageDeliveryRow, 'message_id'>[];
+  return rows.map((row) => row.message_id);
+}
+
+// Scheduled send operations (one-off sends run by the send scheduler)
+
+/**
+ * Store a message to be created and dispatched at sendAt
+ */
+export function createScheduledSend(
+  message: ScheduledSendMessage,
+  sendAt: number,
+  timezone: string,
+  senderId?: string
+): ScheduledSend {
+  const id = uuidv4();
+  const now = Date.now();
+
+  const stmt = db.prepare(`
+    INSERT INTO scheduled_sends (id, message_data, send_at, timezone, status, sender_id, created_at)
+    VALUES (?, ?, ?, ?, 'pending', ?, ?)
+  `);
+  stmt.run(id, JSON.stringify(message), sendAt, timezone, senderId ?? null, now);
+
+  return {
+    id,
+    message,
+    sendAt: new Date(sendAt),
+    timezone,
+    status: 'pending',
+    senderId,
+    createdAt: new Date(now),
+  };
+}
+
+export function getScheduledSend(id: string): ScheduledSend | null {
+  const stmt = db.prepare('SELECT * FROM scheduled_sends WHERE id = ?');
+  const row = stmt.get(id) as ScheduledSendRow | undefined;
+  return row ? rowToScheduledSend(row) : null;
+}
+
+/**
+ * Get pending sends whose time has come, oldest first
+ */
+export function getDueScheduledSends(now = Date.now()): ScheduledSend[] {
+  const stmt = db.prepare(`
+    SELECT * FROM scheduled_sends
+    WHERE status = 'pending' AND send_at <= ?
+    ORDER BY send_at ASC, created_at ASC
+  `);
+  const rows = stmt.all(now) as ScheduledSendRow[];
+  return rows.map(rowToScheduledSend);
+}
+
+/**
+ * Get sends that were claimed before the cutoff but never marked as sent
+ * (the server stopped between creating the message and dispatching it)
+ */
+export function getStaleClaimedSends(cutoff: number): ScheduledSend[] {
+  const stmt = db.prepare(`
+    SELECT * FROM scheduled_sends
+    WHERE status = 'claimed' AND claimed_at <= ?
+    ORDER BY send_at ASC
+  `);
+  const rows = stmt.all(cutoff) as ScheduledSendRow[];
+  return rows.map(rowToScheduledSend);
+}
+
+/**
+ * Claim a pending send for dispatch
+ * @returns false if another run already claimed it
+ */
+export function claimScheduledSend(id: string, timestamp = Date.now()): boolean {
+  const stmt = db.prepare(`
+    UPDATE scheduled_sends SET status = 'claimed', claimed_at = ?
+    WHERE id = ? AND status = 'pending'
+  `);
+  const result = stmt.run(timestamp, id);
+  return result.changes > 0;
+}
+
+/**
+ * Link a claimed send to the message created for it
+ */
+export function setScheduledSendMessage(id: string, messageId: string): boolean {
+  const stmt = db.prepare('UPDATE scheduled_sends SET message_id = ? WHERE id = ?');
+  const result = stmt.run(messageId, id);
+  return result.changes > 0;
+}
+
+export function markScheduledSendSent(id: string, timestamp = Date.now()): boolean {
+  const stmt = db.prepare(`UPDATE scheduled_sends SET status = 'sent', sent_at = ? WHERE id = ?`);
+  const result = stmt.run(timestamp, id);
+  return result.changes > 0;
+}
+
+export function markScheduledSendFailed(id: string, error: string): boolean {
+  const stmt = db.prepare(`UPDATE scheduled_sends SET status = 'failed', error = ? WHERE id = ?`);
+  const result = stmt.run(error, id);
+  return result.changes > 0;
+}
+
+// Settings operations (JSON values changed by admins at runtime)
+
+/**
+ * Get a stored setting, or null if it was never set
+ */
+export function getSetting<T>(key: string): T | null {
+  const stmt = db.prepare('SELECT value FROM app_settings WHERE key = ?');
+  const row = stmt.get(key) as { value: string } | undefined;
+  return row ? (JSON.parse(row.value) as T) : null;
+}
+
+/**
+ * Store a setting
+ */
+export function setSetting(key: string, value: unknown, updatedBy?: string): void {
+  const stmt = db.prepare(`
+    INSERT OR REPLACE INTO app_settings (key, value, updated_by, updated_at)
+    VALUES (?, ?, ?, ?)
+  `);
+  stmt.run(key, JSON.stringify(value), updatedBy ?? null, Date.now());
+}
+
+// API key operations (bearer tokens for scripts, stored as SHA-256 hashes)
+
+export function getApiKeys(): ApiKey[] {
+  const stmt = db.prepare('SELECT * FROM api_keys ORDER BY created_at');
+  const rows = stmt.all() as ApiKeyRow[];
+  return rows.map(rowToApiKey);
+}
+
+export function getApiKeyByHash(keyHash: string): ApiKey | null {
+  const stmt = db.prepare('SELECT * FROM api_keys WHERE key_hash = ?');
+  const row = stmt.get(keyHash) as ApiKeyRow | undefined;
+  return row ? rowToApiKey(row) : null;
+}
+
+export function createApiKey(
+  data: Omit<ApiKey, 'id' | 'lastUsedAt' | 'createdAt'>,
+  keyHash: string
+): ApiKey {
+  const id = uuidv4();
+
+  db.prepare(`
+    INSERT INTO api_keys (id, name, prefix, key_hash, scopes, device_ids, expires_at, created_by, created_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `).run(
+    id,
+    data.name,
+    data.prefix,
+    keyHash,
+    JSON.stringify(data.scopes),
+    data.deviceIds ? JSON.stringify(data.deviceIds) : null,
+    data.expiresAt?.getTime() ?? null,
+    data.createdBy ?? null,
+    Date.now()
+  );
+
+  const row = db.prepare('SELECT * FROM api_keys WHERE id = ?').get(id) as ApiKeyRow;
+  return rowToApiKey(row);
+}
+
+/**
+ * Record that a key was just used
+ */
+export function touchApiKey(id: string, timestamp = Date.now()): void {
+  db.prepare('UPDATE api_keys SET last_used_at = ? WHERE id = ?').run(timestamp, id);
+}
+
+/**
+ * Revoke a key (requests with it fail immediately)
+ */
+export function deleteApiKey(id: string): boolean {
+  return db.prepare('DELETE FROM api_keys WHERE id = ?').run(id).changes > 0;
+}
+
+// Webhook operations (outbound event subscriptions managed by admins)
+
+const WEBHOOK_DELIVERY_LOG_SIZE = 100; // deliveries kept per endpoint
+
+export function getWebhooks(): Webhook[] {
+  const stmt = db.prepare('SELECT * FROM webhooks ORDER BY created_at');
+  const rows = stmt.all() as WebhookRow[];
+  return rows.map(rowToWebhook);
+}
+
+export function getWebhook(id: string): Webhook | null {
+  const stmt = db.prepare('SELECT * FROM webhooks WHERE id = ?');
+  const row = stmt.get(id) as WebhookRow | undefined;
+  return row ? rowToWebhook(row) : null;
+}
+
+/**
+ * Enabled endpoints subscribed to an event, with their signing secrets
+ */
+export function getWebhookTargets(event: WebhookEvent): { webhook: Webhook; secret: string }[] {
+  const stmt = db.prepare('SELECT * FROM webhooks WHERE enabled = 1');
+  const rows = stmt.all() as WebhookRow[];
+  return rows
+    .map((row) => ({ webhook: rowToWebhook(row), secret: row.secret }))
+    .filter(({ webhook }) => webhook.events.includes(event));
+}
+
+export function createWebhook(
+  url: string,
+  events: WebhookEvent[],
+  secret: string,
+  createdBy?: string
+): Webhook {
+  const id = uuidv4();
+  const now = Date.now();
+
+  db.prepare(`
+    INSERT INTO webhooks (id, url, secret, events, enabled, created_by, created_at, updated_at)
+    VALUES (?, ?, ?, ?, 1, ?, ?, ?)
+  `).run(id, url, secret, JSON.stringify(events), createdBy ?? null, now, now);
+
+  return getWebhook(id)!;
+}
+
+/**
+ * Change the provided fields of a webhook
+ * @returns The updated webhook, or null if it doesn't exist
+ */
+export function updateWebhook(
+  id: string,
+  data: { url?: string; events?: WebhookEvent[]; enabled?: boolean; secret?: string }
+): Webhook | null {
+  const existing = db.prepare('SELECT * FROM webhooks WHERE id = ?').get(id) as WebhookRow | undefined;
+  if (!existing) {
+    return null;
+  }
+
+  db.prepare(`
+    UPDATE webhooks SET url = ?, events = ?, enabled = ?, secret = ?, updated_at = ? WHERE id = ?
+  `).run(
+    data.url ?? existing.url,
+    data.events ? JSON.stringify(data.events) : existing.events,
+    data.enabled === undefined ? existing.enabled : data.enabled ? 1 : 0,
+    data.secret ?? existing.secret,
+    Date.now(),
+    id
+  );
+
+  return getWebhook(id);
+}
+
+/**
+ * Delete a webhook and its delivery log
+ */
+export function deleteWebhook(id: string): boolean {
+  const remove = db.transaction(() => {
+    db.prepare('DELETE FROM webhook_deliveries WHERE webhook_id = ?').run(id);
+    return db.prepare('DELETE FROM webhooks WHERE id = ?').run(id).changes > 0;
+  });
+  return remove();
+}
+
+/**
+ * Add an entry to an endpoint's delivery log (only the newest entries are kept)
+ */
+export function recordWebhookDelivery(delivery: Omit<WebhookDelivery, 'createdAt'>): void {
+  const record = db.transaction(() => {
+    db.prepare(`
+      INSERT INTO webhook_deliveries (id, webhook_id, event, success, status_code, error, attempts, duration_ms, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      delivery.id,
+      delivery.webhookId,
+      delivery.event,
+      delivery.success ? 1 : 0,
+      delivery.statusCode ?? null,
+      delivery.error ?? null,
+      delivery.attempts,
+      delivery.durationMs,
+      Date.now()
+    );
+
+    db.prepare(`
+      DELETE FROM webhook_deliveries
+      WHERE webhook_id = ? AND id NOT IN (
+        SELECT id FROM webhook_deliveries WHERE webhook_id = ? ORDER BY created_at DESC LIMIT ?
+      )
+    `).run(delivery.webhookId, delivery.webhookId, WEBHOOK_DELIVERY_LOG_SIZE);
+  });
+  record();
+}
+
+/**
+ * Delivery log of an endpoint, newest first
+ */
+export function getWebhookDeliveries(webhookId: string, limit = 50): WebhookDelivery[] {
+  const stmt = db.prepare(`
+    SELECT * FROM webhook_deliveries WHERE webhook_id = ? ORDER BY created_at DESC LIMIT ?
+  `);
+  const rows = stmt.all(webhookId, limit) as WebhookDeliveryRow[];
+  return rows.map(rowToWebhookDelivery);
+}
+
+// Media operations (uploaded files; the content lives on disk, see media-storage.ts)
+
+export function getMediaFile(id: string): MediaFile | null {
+  const stmt = db.prepare('SELECT * FROM media_files WHERE id = ?');
+  const row = stmt.get(id) as MediaFileRow | undefined;
+  return row ? rowToMediaFile(row) : null;
+}
+
+/**
+ * Record an uploaded file; uploading the same content again keeps the first record
+ */
+export function createMediaFile(data: Omit<MediaFile, 'url' | 'createdAt'>): MediaFile {
+  db.prepare(`
+    INSERT OR IGNORE INTO media_files (id, kind, mime_type, size, name, width, height, variants, created_by, created_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `).run(
+    data.id,
+    data.kind,
+    data.mimeType,
+    data.size,
+    data.name ?? null,
+    data.width ?? null,
+    data.height ?? null,
+    data.variants ? JSON.stringify(data.variants) : null,
+    data.createdBy ?? null,
+    Date.now()
+  );
+
+  return getMediaFile(data.id)!;
+}
+
 // Utility functions
 
 export function getDeviceCount(): number {
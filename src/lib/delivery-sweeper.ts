@@ -0,0 +1,108 @@
+/**
+ * CreaBomber Delivery Sweeper
+ * Background job that fails deliveries which will never be acknowledged
+ * - device deleted: target device no longer exists
+ * - ack timeout: pushed to a connected device, but no ack within the deadline
+ *   (stays queued in the outbox, so a reconnect re-sends it and a late ack still counts)
+ * - device offline: device was offline and the message is not queued in the outbox
+ * - expired: queued in the outbox longer than OUTBOX_TTL_HOURS
+ * Each sweep also releases messages held for devices whose do-not-disturb ended
+ */
+
+import { db, getOverdueDeliveries, updateDeliveryStatus, removeOutboxMessage, ACK_TIMEOUT_REASON } from './db';
+import { expireOutbox, releaseHeldMessages } from './message-dispatch';
+import { broadcastDeliveryUpdate } from './socket-server';
+
+// Deadline for an ack after a delivery was pushed (DELIVERY_TIMEOUT_SECONDS)
+const DELIVERY_TIMEOUT_SECONDS = Number(process.env.DELIVERY_TIMEOUT_SECONDS ?? 120);
+const DELIVERY_TIMEOUT =
+  Number.isFinite(DELIVERY_TIMEOUT_SECONDS) && DELIVERY_TIMEOUT_SECONDS > 0
+    ? DELIVERY_TIMEOUT_SECONDS * 1000
+    : 120000;
+
+const SWEEP_INTERVAL = 30000; // 30 seconds
+
+let sweepInterval: NodeJS.Timeout | null = null;
+
+/**
+ * Mark a delivery as failed and drop it from the outbox
+ * After an ack timeout the outbox entry is kept until the delivery is final (acked, recalled or expired)
+ */
+function failDelivery(messageId: string, deviceId: string, reason: string, timestamp: number): void {
+  const fail = db.transaction(() => {
+    updateDeliveryStatus(messageId, deviceId, 'failed', timestamp, reason);
+    if (reason !== ACK_TIMEOUT_REASON) {
+      removeOutboxMessage(messageId, deviceId);
+    }
+  });
+  fail();
+}
+
+/**
+ * Run a single sweep
+ * @returns Number of deliveries marked as failed
+ */
+export function sweepDeliveries(): number {
+  let failedCount = expireOutbox();
+
+  const now = Date.now();
+  const overdue = getOverdueDeliveries(now - DELIVERY_TIMEOUT);
+
+  for (const row of overdue) {
+    let reason: string;
+
+    if (row.device_status === null) {
+      reason = 'device deleted';
+    } else if (row.device_status === 'online' && row.sent_at !== null) {
+      reason = ACK_TIMEOUT_REASON;
+    } else if (row.queued) {
+      // Still waiting in the outbox for the device to come back
+      continue;
+    } else {
+      reason = 'device offline';
+    }
+
+    failDelivery(row.message_id, row.device_id, reason, now);
+    broadcastDeliveryUpdate(row.message_id, row.device_id, 'failed', now);
+    failedCount++;
+
+    console.log(`[Sweeper] Delivery of ${row.message_id} to ${row.device_id} failed: ${reason}`);
+  }
+
+  return failedCount;
+}
+
+/**
+ * Start the periodic delivery sweep
+ */
+export function startDeliverySweeper(): void {
+  if (sweepInterval) return;
+
+  // Catch up on deliveries left over from before a restart
+  try {
+    sweepDeliveries();
+  } catch (error) {
+    console.error('[Sweeper] Sweep failed:', error);
+  }
+
+  sweepInterval = setInterval(() => {
+    try {
+      sweepDeliveries();
+      releaseHeldMessages();
+    } catch (error) {
+      console.error('[Sweeper] Sweep failed:', error);
+    }
+  }, SWEEP_INTERVAL);
+
+  console.log(`[Sweeper] Delivery sweeper started (ack timeout: ${DELIVERY_TIMEOUT_SECONDS}s)`);
+}
+
+/**
+ * Stop the periodic delivery sweep
+ */
+export function stopDeliverySweeper(): void {
+  if (sweepInterval) {
+    clearInterval(sweepInterval);
+    sweepInterval = null;
+  }
+}
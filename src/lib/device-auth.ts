@@ -0,0 +1,113 @@
+/**
+ * CreaBomber Device Authentication
+ * One-time enrollment codes and long-lived device secrets
+ */
+
+import { createHash, randomBytes, randomInt, timingSafeEqual } from 'crypto';
+import {
+  db,
+  upsertDevice,
+  setDeviceSecretHash,
+  getDeviceSecretHash,
+  createEnrollmentCode,
+  consumeEnrollmentCode,
+} from './db';
+import type { DeviceRegistration, EnrollmentCode } from '@/types';
+
+// Enrollment codes are short-lived - they only need to survive typing them into the client
+const ENROLLMENT_CODE_TTL = 15 * 60 * 1000; // 15 minutes
+
+// Unambiguous alphabet (no 0/O, 1/I/L) so codes can be read out loud
+const CODE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+const CODE_LENGTH = 8;
+
+/**
+ * Hash a code or secret for storage
+ * Both are high-entropy random values, so a plain SHA-256 is sufficient
+ */
+function hashToken(value: string): string {
+  return createHash('sha256').update(value).digest('hex');
+}
+
+/**
+ * Normalize user-entered codes (ignore case, spaces and dashes)
+ */
+function normalizeCode(code: string): string {
+  return code.toUpperCase().replace(/[^A-Z0-9]/g, '');
+}
+
+/**
+ * Generate a new one-time enrollment code
+ * @param createdBy - ID of the admin issuing the code
+ */
+export function issueEnrollmentCode(createdBy?: string): EnrollmentCode {
+  let raw = '';
+  for (let i = 0; i < CODE_LENGTH; i++) {
+    raw += CODE_ALPHABET[randomInt(CODE_ALPHABET.length)];
+  }
+
+  const expiresAt = Date.now() + ENROLLMENT_CODE_TTL;
+  createEnrollmentCode(hashToken(raw), expiresAt, createdBy);
+
+  return {
+    code: `${raw.slice(0, 4)}-${raw.slice(4)}`,
+    expiresAt: new Date(expiresAt),
+  };
+}
+
+/**
+ * Exchange an enrollment code for a device secret
+ * Creates the device if it doesn't exist yet and replaces any previous secret
+ * @returns The plain device secret, or null if the code is invalid, expired or used
+ */
+export function redeemEnrollmentCode(
+  code: string,
+  registration: DeviceRegistration
+): string | null {
+  const { deviceId, deviceName, hostname } = registration;
+  const secret = randomBytes(32).toString('base64url');
+
+  const redeem = db.transaction((): boolean => {
+    if (!consumeEnrollmentCode(hashToken(normalizeCode(code)), deviceId)) {
+      return false;
+    }
+    upsertDevice(deviceId, deviceName, hostname);
+    setDeviceSecretHash(deviceId, hashToken(secret));
+    return true;
+  });
+
+  return redeem() ? secret : null;
+}
+
+/**
+ * Check a device secret against the stored hash
+ */
+export function verifyDeviceSecret(deviceId: string, secret: string): boolean {
+  const storedHash = getDeviceSecretHash(deviceId);
+  if (!storedHash) return false;
+
+  const expected = Buffer.from(storedHash, 'hex');
+  const actual = Buffer.from(hashToken(secret), 'hex');
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+/**
+ * Invalidate a device's secret so it has to be enrolled again
+ */
+export function revokeDeviceSecret(deviceId: string): void {
+  setDeviceSecretHash(deviceId, null);
+}
+
+/**
+ * Authenticate an HTTP request from a device client
+ * Expects `X-Device-Id` and `Authorization: Bearer <device secret>` headers
+ * @returns The device id, or null if the credentials are missing or invalid
+ */
+export function authenticateDeviceRequest(request: Request): string | null {
+  const deviceId = request.headers.get('x-device-id');
+  const authorization = request.headers.get('authorization');
+  const secret = authorization?.startsWith('Bearer ') ? authorization.slice(7).trim() : '';
+
+  if (!deviceId || !secret) return null;
+  return verifyDeviceSecret(deviceId, secret) ? deviceId : null;
+}
@@ -0,0 +1,56 @@
+/**
+ * CreaBomber Device Groups
+ * Validation of group create/update bodies (storage lives in db.ts)
+ */
+
+import { getDevice, getDeviceGroupByName } from './db';
+import { MAX_GROUP_NAME_LENGTH } from './device-targets';
+import {
+  validateRequired,
+  validateString,
+  validateArray,
+  combineValidation,
+  type ValidationResult,
+} from './errors';
+
+export interface DeviceGroupData {
+  name?: string;
+  deviceIds?: string[];
+}
+
+/**
+ * Validate a create (groupId omitted) or update body
+ * Names are trimmed by the caller and unique (case-insensitive) and members must be known devices
+ */
+export function validateDeviceGroupData(data: DeviceGroupData, groupId?: string): ValidationResult {
+  const { name, deviceIds } = data;
+  const isCreate = groupId === undefined;
+
+  const validation = combineValidation(
+    isCreate ? validateRequired(name, 'name') : null,
+    name !== undefined
+      ? validateString(typeof name === 'string' ? name.trim() : name, 'name', {
+          minLength: 1,
+          maxLength: MAX_GROUP_NAME_LENGTH,
+        })
+      : null,
+    deviceIds !== undefined ? validateArray(deviceIds, 'deviceIds') : null
+  );
+
+  if (typeof name === 'string' && name.trim().length > 0) {
+    const existing = getDeviceGroupByName(name.trim());
+    if (existing && existing.id !== groupId) {
+      validation.errors.push({ field: 'name', message: `A group named "${existing.name}" already exists` });
+    }
+  }
+
+  if (Array.isArray(deviceIds)) {
+    const unknown = deviceIds.filter((id) => typeof id !== 'string' || !getDevice(id));
+    if (unknown.length > 0) {
+      validation.errors.push({ field: 'deviceIds', message: `Unknown devices: ${unknown.join(', ')}` });
+    }
+  }
+
+  validation.valid = validation.errors.length === 0;
+  return validation;
+}
@@ -0,0 +1,125 @@
+/**
+ * CreaBomber Device Targets
+ * Groups and tags as message targets (pure, shared by server and dashboard)
+ * - Tag normalization and validation
+ * - Resolving a target expression to device ids at send time
+ */
+
+import type { ValidationFieldError } from '@/lib/errors';
+import type { Device, DeviceGroup, MessageTarget } from '@/types';
+
+export const MAX_TAG_LENGTH = 32;
+export const MAX_TAGS_PER_DEVICE = 20;
+export const MAX_GROUP_NAME_LENGTH = 50;
+
+const TAG_PATTERN = /^[\p{L}\p{N}][\p{L}\p{N} _-]*$/u;
+
+// Targets as accepted by the API (ids for devices and groups, tag names)
+export interface TargetInput {
+  deviceIds?: string[];
+  groupIds?: string[];
+  tags?: string[];
+}
+
+/**
+ * Normalize a tag for storage and matching (trimmed, lower case, single spaces)
+ */
+export function normalizeTag(tag: string): string {
+  return tag.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+/**
+ * Normalize and de-duplicate a tag list
+ */
+export function normalizeTags(tags: string[]): string[] {
+  return [...new Set(tags.map(normalizeTag).filter((tag) => tag.length > 0))];
+}
+
+/**
+ * Validate a list of tags (before normalization)
+ */
+export function validateTags(value: unknown, fieldName: string, maxTags = MAX_TAGS_PER_DEVICE): ValidationFieldError[] {
+  if (!Array.isArray(value)) {
+    return [{ field: fieldName, message: `${fieldName} must be an array` }];
+  }
+  if (value.length > maxTags) {
+    return [{ field: fieldName, message: `${fieldName} must have at most ${maxTags} tags` }];
+  }
+
+  for (const tag of value) {
+    if (typeof tag !== 'string') {
+      return [{ field: fieldName, message: `${fieldName} must contain strings` }];
+    }
+    const normalized = normalizeTag(tag);
+    if (normalized.length === 0 || normalized.length > MAX_TAG_LENGTH) {
+      return [{ field: fieldName, message: `Tags must be 1-${MAX_TAG_LENGTH} characters` }];
+    }
+    if (!TAG_PATTERN.test(normalized)) {
+      return [{ field: fieldName, message: `Tag "${tag}" may only contain letters, digits, spaces, - and _` }];
+    }
+  }
+
+  return [];
+}
+
+/**
+ * Check whether a target selects anything (empty = caller decides, e.g. all devices)
+ */
+export function isEmptyTarget(target: TargetInput): boolean {
+  return !target.deviceIds?.length && !target.groupIds?.length && !target.tags?.length;
+}
+
+/**
+ * Resolve a target to device ids: the listed devices plus group members and tagged devices
+ * Listed ids are kept as given; unknown groups and tags match nothing
+ */
+export function resolveTargetDevices(
+  target: TargetInput,
+  devices: Device[],
+  groups: DeviceGroup[]
+): string[] {
+  const resolved = new Set(target.deviceIds ?? []);
+  const members = new Set<string>();
+  const groupIds = new Set(target.groupIds ?? []);
+  const tags = new Set(normalizeTags(target.tags ?? []));
+
+  for (const group of groups) {
+    if (groupIds.has(group.id)) {
+      group.deviceIds.forEach((id) => members.add(id));
+    }
+  }
+
+  for (const device of devices) {
+    if (members.has(device.id) || device.tags.some((tag) => tags.has(tag))) {
+      resolved.add(device.id);
+    }
+  }
+
+  return [...resolved];
+}
+
+/**
+ * Snapshot of a target for the message history (group names as they are now)
+ */
+export function toMessageTarget(target: TargetInput, groups: DeviceGroup[]): MessageTarget {
+  const groupIds = new Set(target.groupIds ?? []);
+  return {
+    deviceIds: target.deviceIds ?? [],
+    groups: groups.filter((group) => groupIds.has(group.id)).map(({ id, name }) => ({ id, name })),
+    tags: normalizeTags(target.tags ?? []),
+  };
+}
+
+/**
+ * Short description of a target, e.g. "Kids, #office, 2 devices"
+ */
+export function describeTarget(target: MessageTarget): string {
+  const parts = [
+    ...target.groups.map((group) => group.name),
+    ...target.tags.map((tag) => `#${tag}`),
+  ];
+  if (target.deviceIds.length > 0) {
+    parts.push(`${target.deviceIds.length} device${target.deviceIds.length !== 1 ? 's' : ''}`);
+  }
+  return parts.join(', ');
+}
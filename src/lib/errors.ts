@@ -56,6 +56,16 @@ export class NotFoundError extends AppError {
   }
 }
 
+export class ForbiddenError extends AppError {
+  constructor(message: string) {
+    super(message, {
+      code: 'FORBIDDEN',
+      statusCode: 403,
+    });
+    this.name = 'ForbiddenError';
+  }
+}
+
 export class DatabaseError extends AppError {
   constructor(message: string, originalError?: unknown) {
     super(message, {
@@ -83,6 +93,20 @@ export class NetworkError extends AppError {
   }
 }
 
+export class RateLimitError extends AppError {
+  public readonly retryAfter: number;  // seconds
+
+  constructor(message: string, retryAfter: number, details?: Record<string, unknown>) {
+    super(message, {
+      code: 'RATE_LIMITED',
+      statusCode: 429,
+      details: { ...details, retryAfter },
+    });
+    this.name = 'RateLimitError';
+    this.retryAfter = retryAfter;
+  }
+}
+
 // API error response helper
 export function apiError(
   error: unknown,
@@ -99,7 +123,10 @@ export function apiError(
         code: error.code,
         details: error.details,
       },
-      { status: error.statusCode }
+      {
+        status: error.statusCode,
+        headers: error instanceof RateLimitError ? { 'Retry-After': String(error.retryAfter) } : undefined,
+      }
     );
   }
 
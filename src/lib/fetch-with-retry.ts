@@ -1,6 +1,7 @@
 /**
  * CreaBomber - Fetch with Retry
  * HTTP fetch wrapper with automatic retry logic and error handling
+ * (no browser APIs: also loaded by the custom server for webhooks; the offline queue is in message-queue.ts)
  */
 
 import { getErrorMessage, NetworkError } from './errors';
@@ -20,6 +21,8 @@ export interface RetryConfig {
   onRetry?: (attempt: number, error: Error, delay: number) => void;
   // Request timeout in ms (default: 30000)
   timeout?: number;
+  // Parse the success body as JSON; off for endpoints that answer with anything (default: true)
+  parseJson?: boolean;
 }
 
 const DEFAULT_CONFIG: Required<RetryConfig> = {
@@ -30,6 +33,7 @@ const DEFAULT_CONFIG: Required<RetryConfig> = {
   retryStatusCodes: [408, 429, 500, 502, 503, 504],
   onRetry: () => {},
   timeout: 30000,
+  parseJson: true,
 };
 
 // Calculate delay with exponential backoff and jitter
@@ -46,13 +50,27 @@ function calculateDelay(
   return Math.floor(delay + jitter);
 }
 
+// Delay requested by the server via Retry-After (seconds or HTTP date), null if missing
+function getRetryAfterDelay(response: Response): number | null {
+  const retryAfter = response.headers.get('Retry-After');
+  if (!retryAfter) {
+    return null;
+  }
+  const seconds = Number(retryAfter);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(retryAfter);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
 // Sleep utility
 function sleep(ms: number): Promise<void> {
   return new Promise((resolve) => setTimeout(resolve, ms));
 }
 
 // Check if error is retryable
-function isRetryableError(error: Error): boolean {
+export function isRetryableError(error: Error): boolean {
   // Network errors are generally retryable
   if (error instanceof NetworkError) {
     return error.isRetryable;
@@ -81,6 +99,8 @@ export interface FetchWithRetryResponse<T> {
   error: Error | null;
   attempts: number;
   duration: number;
+  // HTTP status of the last response (missing if no response arrived)
+  status?: number;
 }
 
 export async function fetchWithRetry<T>(
@@ -91,6 +111,7 @@ export async function fetchWithRetry<T>(
   const config = { ...DEFAULT_CONFIG, ...retryConfig };
   const startTime = Date.now();
   let lastError: Error | null = null;
+  let lastStatus: number | undefined;
   let attempts = 0;
 
   for (let attempt = 0; attempt <= config.maxRetries; attempt++) {
@@ -107,18 +128,24 @@ export async function fetchWithRetry<T>(
       });
 
       clearTimeout(timeoutId);
+      lastStatus = response.status;
 
       // Check if status code should trigger retry
       if (
         config.retryStatusCodes.includes(response.status) &&
         attempt < config.maxRetries
       ) {
-        const delay = calculateDelay(
+        // Wait at least as long as the server asks (e.g. when rate limited), up to maxDelay
+        const retryAfterDelay = getRetryAfterDelay(response);
+        const backoffDelay = calculateDelay(
           attempt,
           config.initialDelay,
           config.maxDelay,
           config.backoffMultiplier
         );
+        const delay = retryAfterDelay === null
+          ? backoffDelay
+          : Math.min(Math.max(backoffDelay, retryAfterDelay), config.maxDelay);
 
         lastError = new Error(`HTTP ${response.status}: ${response.statusText}`);
         config.onRetry(attempt + 1, lastError, delay);
@@ -138,15 +165,17 @@ export async function fetchWithRetry<T>(
           error: new Error(errorMessage),
           attempts,
           duration: Date.now() - startTime,
+          status: response.status,
         };
       }
 
-      const data = await response.json();
+      const data = config.parseJson ? await response.json() : null;
       return {
         data: data as T,
         error: null,
         attempts,
         duration: Date.now() - startTime,
+        status: response.status,
       };
     } catch (error) {
       lastError = error instanceof Error ? error : new Error(String(error));
@@ -163,6 +192,7 @@ export async function fetchWithRetry<T>(
           error: lastError,
           attempts,
           duration: Date.now() - startTime,
+          status: lastStatus,
         };
       }
 
@@ -185,6 +215,7 @@ export async function fetchWithRetry<T>(
     error: lastError ?? new Error('Unknown error'),
     attempts,
     duration: Date.now() - startTime,
+    status: lastStatus,
   };
 }
 
@@ -207,145 +238,4 @@ export async function postWithRetry<T, B = unknown>(
   );
 }
 
-// Message queue for offline scenarios
-interface QueuedMessage<T = unknown> {
-  id: string;
-  url: string;
-  options: RequestInit;
-  body?: T;
-  createdAt: Date;
-  retries: number;
-}
-
-class MessageQueue {
-  private queue: QueuedMessage[] = [];
-  private isProcessing = false;
-  private readonly storageKey = 'creabomber_message_queue';
-
-  constructor() {
-    // Load persisted queue from localStorage
-    if (typeof window !== 'undefined') {
-      try {
-        const stored = localStorage.getItem(this.storageKey);
-        if (stored) {
-          const parsed = JSON.parse(stored);
-          this.queue = parsed.map((item: QueuedMessage) => ({
-            ...item,
-            createdAt: new Date(item.createdAt),
-          }));
-        }
-      } catch {
-        // Ignore parse errors
-      }
-    }
-  }
-
-  private persist(): void {
-    if (typeof window !== 'undefined') {
-      try {
-        localStorage.setItem(this.storageKey, JSON.stringify(this.queue));
-      } catch {
-        // Ignore storage errors
-      }
-    }
-  }
-
-  add<T>(url: string, options: RequestInit, body?: T): string {
-    const id = `${Date.now()}-${Math.random().toString(36).slice(2, 11)}`;
-    this.queue.push({
-      id,
-      url,
-      options,
-      body,
-      createdAt: new Date(),
-      retries: 0,
-    });
-    this.persist();
-    return id;
-  }
-
-  remove(id: string): void {
-    this.queue = this.queue.filter((item) => item.id !== id);
-    this.persist();
-  }
-
-  getAll(): QueuedMessage[] {
-    return [...this.queue];
-  }
-
-  getLength(): number {
-    return this.queue.length;
-  }
-
-  async processQueue(
-    onSuccess?: (id: string) => void,
-    onError?: (id: string, error: Error) => void
-  ): Promise<void> {
-    if (this.isProcessing || this.queue.length === 0) {
-      return;
-    }
-
-    this.isProcessing = true;
-
-    while (this.queue.length > 0) {
-      const item = this.queue[0];
-
-      try {
-        const response = await fetchWithRetry(
-          item.url,
-          {
-            ...item.options,
-            body: item.body ? JSON.stringify(item.body) : undefined,
-          },
-          { maxRetries: 1 }
-        );
-
-        if (response.error) {
-          throw response.error;
-        }
-
-        // Success - remove from queue
-        this.queue.shift();
-        this.persist();
-        onSuccess?.(item.id);
-      } catch (error) {
-        item.retries++;
-
-        // If too many retries or non-retryable error, move to end or discard
-        if (item.retries >= 5) {
-          this.queue.shift();
-          this.persist();
-          onError?.(
-            item.id,
-            error instanceof Error ? error : new Error(String(error))
-          );
-        } else {
-          // Move to end of queue
-          this.queue.shift();
-          this.queue.push(item);
-          this.persist();
-        }
-
-        // Stop processing on network error
-        if (
-          error instanceof Error &&
-          isRetryableError(error)
-        ) {
-          break;
-        }
-      }
-    }
-
-    this.isProcessing = false;
-  }
-
-  clear(): void {
-    this.queue = [];
-    this.persist();
-  }
-}
-
-// Export singleton instance
-export const messageQueue = new MessageQueue();
-
 export default fetchWithRetry;
@@ -0,0 +1,231 @@
+/**
+ * CreaBomber Markdown
+ * The restricted Markdown dialect of TEXT messages (pure, shared by server and dashboard)
+ * - **bold** / __bold__, *italic* / _italic_, `inline code`, [links](https://...)
+ * - Bulleted (- item) and numbered (1. item) lists, paragraphs separated by blank lines
+ * - No HTML, images or headings: everything else is shown as written
+ * - Links only to http(s) and mailto URLs
+ *
+ * The client's notification window has its own copy of the parser (client/src/renderer/notification.js)
+ */
+
+export type MarkdownInline =
+  | { type: 'text'; text: string }
+  | { type: 'bold' | 'italic'; children: MarkdownInline[] }
+  | { type: 'code'; text: string }
+  | { type: 'link'; href: string; children: MarkdownInline[] }
+  | { type: 'break' };
+
+export type MarkdownBlock =
+  | { type: 'paragraph'; children: MarkdownInline[] }
+  | { type: 'list'; ordered: boolean; start: number; items: MarkdownInline[][] };
+
+const BULLET_ITEM = /^\s*[-*+]\s+(.*)$/;
+const ORDERED_ITEM = /^\s*(\d{1,9})[.)]\s+(.*)$/;
+const ESCAPABLE = /[\\`*_[\]()~#+\-.!>]/;
+const SAFE_LINK = /^(https?:\/\/|mailto:)/i;
+const WORD_CHAR = /[\p{L}\p{N}]/u;
+
+/**
+ * Find the closing emphasis delimiter for an opener at `from`
+ * Single * skips ** runs so *a **b** c* closes at the last *
+ * @returns index of the closer, or -1
+ */
+function findCloser(text: string, from: number, delimiter: string): number {
+  const char = delimiter[0];
+  for (let i = from; i < text.length; i++) {
+    if (text[i] === '\\') {
+      i++;
+      continue;
+    }
+    if (text[i] === '`') {
+      const end = text.indexOf('`', i + 1);
+      if (end !== -1) i = end;
+      continue;
+    }
+    if (!text.startsWith(delimiter, i)) continue;
+
+    if (delimiter.length === 1 && text[i + 1] === char) {
+      i++;
+      continue;
+    }
+    const isClosing = i > from && !/\s/.test(text[i - 1]);
+    const isWordBoundary = char !== '_' || !WORD_CHAR.test(text[i + delimiter.length] ?? '');
+    if (isClosing && isWordBoundary) return i;
+  }
+  return -1;
+}
+
+/**
+ * Parse inline formatting
+ */
+export function parseInline(text: string): MarkdownInline[] {
+  const nodes: MarkdownInline[] = [];
+  let buffer = '';
+
+  const flush = () => {
+    if (buffer) nodes.push({ type: 'text', text: buffer });
+    buffer = '';
+  };
+
+  let i = 0;
+  while (i < text.length) {
+    const char = text[i];
+
+    // Backslash escapes
+    if (char === '\\' && ESCAPABLE.test(text[i + 1] ?? '')) {
+      buffer += text[i + 1];
+      i += 2;
+      continue;
+    }
+
+    // Inline code
+    if (char === '`') {
+      const end = text.indexOf('`', i + 1);
+      if (end > i + 1) {
+        flush();
+        nodes.push({ type: 'code', text: text.slice(i + 1, end) });
+        i = end + 1;
+        continue;
+      }
+    }
+
+    // Bold and italic: the opener must be followed by a non-space (and _ must start a word)
+    if (char === '*' || char === '_') {
+      const delimiter = text[i + 1] === char ? char + char : char;
+      const start = i + delimiter.length;
+      const opens =
+        start < text.length && !/\s/.test(text[start]) && (char !== '_' || !WORD_CHAR.test(text[i - 1] ?? ''));
+      const end = opens ? findCloser(text, start, delimiter) : -1;
+      if (end !== -1) {
+        flush();
+        nodes.push({
+          type: delimiter.length === 2 ? 'bold' : 'italic',
+          children: parseInline(text.slice(start, end)),
+        });
+        i = end + delimiter.length;
+        continue;
+      }
+      buffer += delimiter;
+      i = start;
+      continue;
+    }
+
+    // Links: [text](url)
+    if (char === '[') {
+      const match = text.slice(i).match(/^\[([^\]]+)\]\(([^()\s]+)\)/);
+      if (match && SAFE_LINK.test(match[2])) {
+        flush();
+        nodes.push({ type: 'link', href: match[2], children: parseInline(match[1]) });
+        i += match[0].length;
+        continue;
+      }
+    }
+
+    buffer += char;
+    i++;
+  }
+
+  flush();
+  return nodes;
+}
+
+/**
+ * Parse a message into paragraphs and lists
+ * Lines of a paragraph are kept apart by line breaks
+ */
+export function parseMarkdown(text: string): MarkdownBlock[] {
+  const blocks: MarkdownBlock[] = [];
+  let paragraph: string[] = [];
+  let list: { ordered: boolean; start: number; items: string[] } | null = null;
+
+  const endParagraph = () => {
+    if (paragraph.length > 0) {
+      const children = paragraph.flatMap((line, index): MarkdownInline[] =>
+        index === 0 ? parseInline(line) : [{ type: 'break' }, ...parseInline(line)]
+      );
+      blocks.push({ type: 'paragraph', children });
+    }
+    paragraph = [];
+  };
+
+  const endList = () => {
+    if (list) {
+      blocks.push({ type: 'list', ordered: list.ordered, start: list.start, items: list.items.map(parseInline) });
+    }
+    list = null;
+  };
+
+  for (const line of text.replace(/\r\n?/g, '\n').split('\n')) {
+    const bullet = line.match(BULLET_ITEM);
+    const ordered = bullet ? null : line.match(ORDERED_ITEM);
+
+    if (bullet || ordered) {
+      endParagraph();
+      const isOrdered = ordered !== null;
+      if (list && list.ordered !== isOrdered) {
+        endList();
+      }
+      if (!list) {
+        list = { ordered: isOrdered, start: ordered ? Number(ordered[1]) : 1, items: [] };
+      }
+      list.items.push(bullet ? bullet[1] : ordered![2]);
+    } else if (line.trim() === '') {
+      endParagraph();
+      endList();
+    } else {
+      endList();
+      paragraph.push(line);
+    }
+  }
+
+  endParagraph();
+  endList();
+  return blocks;
+}
+
+function inlineToPlainText(nodes: MarkdownInline[]): string {
+  return nodes
+    .map((node) => {
+      switch (node.type) {
+        case 'text':
+        case 'code':
+          return node.text;
+        case 'break':
+          return '\n';
+        case 'link': {
+          const label = inlineToPlainText(node.children);
+          return label === node.href ? label : `${label} (${node.href})`;
+        }
+        default:
+          return inlineToPlainText(node.children);
+      }
+    })
+    .join('');
+}
+
+/**
+ * Plain-text version of a message, for clients that can't render Markdown
+ * Formatting marks are removed, list items keep their bullet or number and links show their URL
+ */
+export function stripMarkdown(text: string): string {
+  return parseMarkdown(text)
+    .map((block) =>
+      block.type === 'paragraph'
+        ? inlineToPlainText(block.children)
+        : block.items
+            .map((item, index) => `${block.ordered ? `${block.start + index}.` : '-'} ${inlineToPlainText(item)}`)
+            .join('\n')
+    )
+    .join('\n\n');
+}
+
+/**
+ * Check if a text needs the Markdown renderer (it has formatting marks, escapes or lists)
+ */
+export function hasMarkdown(text: string): boolean {
+  return (
+    stripMarkdown(text) !== text.replace(/\r\n?/g, '\n').trim() ||
+    parseMarkdown(text).some((block) => block.type === 'list')
+  );
+}
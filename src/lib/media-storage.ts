@@ -0,0 +1,244 @@
+/**
+ * CreaBomber Media Storage
+ * Uploaded files on local disk (data/media, configurable via MEDIA_PATH)
+ * - Files are named by the SHA-256 of the uploaded content, so the same file is stored once
+ * - Images are stored without EXIF metadata (orientation is applied first) and get resized
+ *   WebP variants for the notification window and for thumbnails
+ * - Downloads support single byte ranges so audio and video can seek
+ */
+
+import { createHash } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import sharp from 'sharp';
+import { createMediaFile, getMediaFile } from './db';
+import { MEDIA_LIMITS, formatMediaSize, getMediaKind, getMediaVariantUrl, isUploadedMediaUrl } from './media';
+import { ValidationError } from './errors';
+import type { MediaDimensions, MediaFile, MediaVariant } from '@/types';
+
+const MEDIA_PATH = process.env.MEDIA_PATH
+  ? path.resolve(process.env.MEDIA_PATH)
+  : path.join(process.cwd(), 'data', 'media');
+
+const MAX_NAME_LENGTH = 255;
+
+// Content hashes are the only IDs, anything else must not reach the file system
+const MEDIA_ID_PATTERN = /^[a-f0-9]{64}$/;
+
+// Bounding boxes of the image variants, at twice the CSS size for Retina displays
+const IMAGE_VARIANT_SIZES: Record<MediaVariant, MediaDimensions> = {
+  // Notification window: NOTIFICATION_WIDTH_MEDIA (600) wide, images at most 420px tall
+  display: { width: 1200, height: 840 },
+  // History list and dashboard notification preview
+  thumb: { width: 480, height: 480 },
+};
+
+const VARIANT_MIME_TYPE = 'image/webp';
+const VARIANT_QUALITY = 80;
+const JPEG_QUALITY = 90;
+
+export interface ByteRange {
+  start: number;
+  end: number;  // inclusive
+}
+
+interface ProcessedImage {
+  content: Buffer;
+  width: number;
+  height: number;
+  variants: Partial<Record<MediaVariant, MediaDimensions>>;
+  variantContents: Partial<Record<MediaVariant, Buffer>>;
+}
+
+function getMediaFilePath(id: string, variant?: MediaVariant): string {
+  return path.join(MEDIA_PATH, variant ? `${id}.${variant}` : id);
+}
+
+/**
+ * Write a file next to its target and rename it, so a download never sees a partial file
+ */
+async function writeMediaFile(filePath: string, content: Buffer): Promise<void> {
+  const tempPath = `${filePath}.${process.pid}.tmp`;
+  await fs.promises.writeFile(tempPath, content);
+  await fs.promises.rename(tempPath, filePath);
+}
+
+/**
+ * Strip metadata from an image and create the variants it is larger than
+ * Animated GIF and WebP images keep their animation
+ * @throws ValidationError if the file can't be decoded
+ */
+async function processImage(content: Buffer): Promise<ProcessedImage> {
+  let metadata: sharp.Metadata;
+  try {
+    metadata = await sharp(content, { animated: true }).metadata();
+  } catch {
+    throw new ValidationError('File is not a valid image');
+  }
+
+  // Re-encode only images that carry metadata (or need rotating), others are stored as uploaded
+  let stripped = content;
+  if (metadata.exif || metadata.xmp || metadata.iptc || (metadata.orientation ?? 1) !== 1) {
+    const image = sharp(content, { animated: true }).autoOrient().keepIccProfile();
+    stripped = await (metadata.format === 'jpeg' ? image.jpeg({ quality: JPEG_QUALITY }) : image).toBuffer();
+  }
+
+  const width = metadata.autoOrient.width;
+  const height = metadata.pageHeight ?? metadata.autoOrient.height;
+
+  const variants: ProcessedImage['variants'] = {};
+  const variantContents: ProcessedImage['variantContents'] = {};
+  for (const [variant, bounds] of Object.entries(IMAGE_VARIANT_SIZES) as [MediaVariant, MediaDimensions][]) {
+    if (width <= bounds.width && height <= bounds.height) {
+      continue;
+    }
+
+    const { data, info } = await sharp(stripped, { animated: true })
+      .resize({ width: bounds.width, height: bounds.height, fit: 'inside', withoutEnlargement: true })
+      .webp({ quality: VARIANT_QUALITY })
+      .toBuffer({ resolveWithObject: true });
+    variants[variant] = { width: info.width, height: info.pageHeight ?? info.height };
+    variantContents[variant] = data;
+  }
+
+  return { content: stripped, width, height, variants, variantContents };
+}
+
+/**
+ * Validate and store an uploaded file
+ * @throws ValidationError if the type is not accepted or the file is empty, too large or not a valid image
+ */
+export async function storeMedia(
+  content: Buffer,
+  mimeType: string,
+  name: string | undefined,
+  createdBy: string | undefined
+): Promise<MediaFile> {
+  const kind = getMediaKind(mimeType);
+  if (!kind) {
+    throw new ValidationError(`Unsupported file type: ${mimeType || 'unknown'}`, { mimeType });
+  }
+  if (content.length === 0) {
+    throw new ValidationError('File is empty');
+  }
+  const { maxSize } = MEDIA_LIMITS[kind];
+  if (content.length > maxSize) {
+    throw new ValidationError(`File is too large (${kind} files may be at most ${formatMediaSize(maxSize)})`, {
+      size: content.length,
+      maxSize,
+    });
+  }
+
+  const id = createHash('sha256').update(content).digest('hex');
+  const existing = getMediaFile(id);
+  if (existing) {
+    return existing;
+  }
+
+  const image = kind === 'image' ? await processImage(content) : null;
+  const stored = image?.content ?? content;
+
+  await fs.promises.mkdir(MEDIA_PATH, { recursive: true });
+  for (const [variant, variantContent] of Object.entries(image?.variantContents ?? {})) {
+    await writeMediaFile(getMediaFilePath(id, variant as MediaVariant), variantContent);
+  }
+  await writeMediaFile(getMediaFilePath(id), stored);
+
+  return createMediaFile({
+    id,
+    kind,
+    mimeType,
+    size: stored.length,
+    name: name ? name.slice(0, MAX_NAME_LENGTH) : undefined,
+    width: image?.width,
+    height: image?.height,
+    variants: image && Object.keys(image.variants).length > 0 ? image.variants : undefined,
+    createdBy,
+  });
+}
+
+/**
+ * Look up a stored file (or one of its image variants) and its path on disk
+ * Images that needed no variant are returned as the original
+ * @returns null if the ID is unknown or the file is missing
+ */
+export function getStoredMedia(
+  id: string,
+  variant?: MediaVariant
+): { media: MediaFile; filePath: string; mimeType: string; size: number } | null {
+  if (!MEDIA_ID_PATTERN.test(id)) {
+    return null;
+  }
+
+  const media = getMediaFile(id);
+  if (!media) {
+    return null;
+  }
+
+  const useVariant = variant && media.variants?.[variant] ? variant : undefined;
+  const filePath = getMediaFilePath(id, useVariant);
+  if (!fs.existsSync(filePath)) {
+    return null;
+  }
+
+  return {
+    media,
+    filePath,
+    mimeType: useVariant ? VARIANT_MIME_TYPE : media.mimeType,
+    size: useVariant ? fs.statSync(filePath).size : media.size,
+  };
+}
+
+/**
+ * Image URL and intrinsic size to send to devices
+ * Uploaded images are sent as their display variant; other URLs are passed through without a size
+ */
+export function getDisplayImage(imageUrl: string): { imageUrl: string; imageWidth?: number; imageHeight?: number } {
+  if (!isUploadedMediaUrl(imageUrl)) {
+    return { imageUrl };
+  }
+
+  const media = getMediaFile(imageUrl.slice(imageUrl.lastIndexOf('/') + 1));
+  if (!media || media.kind !== 'image' || !media.width || !media.height) {
+    return { imageUrl };
+  }
+
+  const display = media.variants?.display;
+  return {
+    imageUrl: display ? getMediaVariantUrl(media.url, 'display') : media.url,
+    imageWidth: display?.width ?? media.width,
+    imageHeight: display?.height ?? media.height,
+  };
+}
+
+/**
+ * Parse a Range header for a file of the given size
+ * Only single ranges are served; multiple ranges fall back to the whole file
+ * @returns null to send the whole file, 'unsatisfiable' if the range lies outside the file
+ */
+export function parseRangeHeader(header: string | null, size: number): ByteRange | 'unsatisfiable' | null {
+  const match = header?.match(/^bytes=(\d*)-(\d*)$/);
+  if (!match || (match[1] === '' && match[2] === '')) {
+    return null;
+  }
+
+  let start: number;
+  let end: number;
+  if (match[1] === '') {
+    // Suffix range: the last N bytes
+    const suffixLength = Number(match[2]);
+    if (suffixLength === 0) {
+      return 'unsatisfiable';
+    }
+    start = Math.max(size - suffixLength, 0);
+    end = size - 1;
+  } else {
+    start = Number(match[1]);
+    end = match[2] === '' ? size - 1 : Math.min(Number(match[2]), size - 1);
+  }
+
+  if (start >= size || start > end) {
+    return 'unsatisfiable';
+  }
+  return { start, end };
+}
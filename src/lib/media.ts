@@ -0,0 +1,67 @@
+/**
+ * CreaBomber Media
+ * Upload limits and download URLs shared by the server and the dashboard
+ */
+
+import type { MediaKind, MediaVariant } from '@/types';
+
+interface MediaKindLimits {
+  mimeTypes: readonly string[];
+  maxSize: number;  // bytes
+}
+
+export const MEDIA_LIMITS: Record<MediaKind, MediaKindLimits> = {
+  image: {
+    mimeTypes: ['image/png', 'image/jpeg', 'image/gif', 'image/webp'],
+    maxSize: 10 * 1024 * 1024,
+  },
+  video: {
+    mimeTypes: ['video/mp4', 'video/webm', 'video/quicktime'],
+    maxSize: 100 * 1024 * 1024,
+  },
+  audio: {
+    mimeTypes: ['audio/mpeg', 'audio/mp4', 'audio/x-m4a', 'audio/wav', 'audio/x-wav', 'audio/ogg', 'audio/webm'],
+    maxSize: 20 * 1024 * 1024,
+  },
+};
+
+// Download URLs of uploaded files are relative to the server
+export const MEDIA_URL_PREFIX = '/api/media/';
+
+export const MEDIA_VARIANTS: readonly MediaVariant[] = ['display', 'thumb'];
+
+/**
+ * Kind of media a MIME type is accepted as (null if it is not accepted)
+ */
+export function getMediaKind(mimeType: string): MediaKind | null {
+  const kinds = Object.keys(MEDIA_LIMITS) as MediaKind[];
+  return kinds.find((kind) => MEDIA_LIMITS[kind].mimeTypes.includes(mimeType)) ?? null;
+}
+
+/**
+ * Check if a URL points to a file uploaded to this server
+ */
+export function isUploadedMediaUrl(url: string): boolean {
+  return url.startsWith(MEDIA_URL_PREFIX);
+}
+
+/**
+ * URL of a resized variant of an uploaded image (other URLs are returned as is)
+ * The server falls back to the original if the image needs no variant
+ */
+export function getMediaVariantUrl(url: string, variant: MediaVariant): string {
+  if (!isUploadedMediaUrl(url) || url.includes('?')) {
+    return url;
+  }
+  return `${url}?variant=${variant}`;
+}
+
+/**
+ * Human-readable size limit, e.g. "10 MB"
+ */
+export function formatMediaSize(bytes: number): string {
+  if (bytes >= 1024 * 1024) {
+    return `${Math.round(bytes / (1024 * 1024))} MB`;
+  }
+  return `${Math.round(bytes / 1024)} KB`;
+}
@@ -0,0 +1,394 @@
+/**
+ * CreaBomber Message Dispatch
+ * Shared delivery path for messages sent via REST and Socket.io
+ * - Resolves group and tag targets to devices at send time
+ * - Fills in {{placeholders}} per device
+ * - Sends formatted TEXT messages as Markdown with a plain-text fallback for older clients
+ * - Creates delivery records for each target device
+ * - Queues deliveries in the per-device outbox until acknowledged or expired
+ * - Replays the outbox when a device reconnects
+ * - Holds messages for devices in do-not-disturb and releases them when it ends
+ * - Recalls messages from devices that have not closed them
+ * - Pushes edited content to devices that still have the message
+ * - Notifies webhook subscribers of new messages
+ */
+
+import type { Server } from 'socket.io';
+import {
+  db,
+  getDevices,
+  getDeviceGroups,
+  createMessageDeliveries,
+  updateMessageStatus,
+  markDeliverySent,
+  updateDeliveryStatus,
+  recalculateMessageStatus,
+  enqueueOutboxMessage,
+  getPendingOutboxMessages,
+  expireOutboxMessages,
+  recallMessage,
+  getRecalledMessageIds,
+  updateOutboxPayload,
+  getOpenDeliveryDeviceIds,
+  getEditedOpenMessageIds,
+  getMessage,
+  getMessageWithDeliveries,
+} from './db';
+import { getSocketServer, broadcastDeliveryUpdate, broadcastDeviceList, emitToDashboard } from './socket-server';
+import { resolveTargetDevices, toMessageTarget, type TargetInput } from './device-targets';
+import { renderForDevice } from './placeholders';
+import { emitWebhookEvent } from './webhooks';
+import { getDisplayImage } from './media-storage';
+import { hasMarkdown, stripMarkdown } from './markdown';
+import { MessageType } from '@/types';
+import type { Message, MessagePayload, MessageTarget } from '@/types';
+
+// How long a message waits for an offline device (OUTBOX_TTL_HOURS, 0 disables the outbox)
+const OUTBOX_TTL_HOURS = Number(process.env.OUTBOX_TTL_HOURS ?? 24);
+export const OUTBOX_TTL =
+  Number.isFinite(OUTBOX_TTL_HOURS) && OUTBOX_TTL_HOURS > 0
+    ? OUTBOX_TTL_HOURS * 60 * 60 * 1000
+    : 0;
+
+// Without an outbox, recalls and edits are still re-sent to devices that reconnect within a day
+const RESEND_WINDOW = 24 * 60 * 60 * 1000;
+
+// Devices seen in do-not-disturb, released when they leave it
+// (on global: the custom server and the API routes each load this module)
+declare global {
+  var __dndDeviceIds: Set<string> | undefined;
+}
+
+function getDndDeviceIds(): Set<string> {
+  if (!global.__dndDeviceIds) {
+    global.__dndDeviceIds = new Set();
+  }
+  return global.__dndDeviceIds;
+}
+
+/**
+ * Content of a payload: TEXT messages with formatting carry their Markdown source next to
+ * a plain-text version, which clients that don't render Markdown show instead
+ */
+function toPayloadContent(message: Message, content: string): Pick<MessagePayload, 'content' | 'markdown'> {
+  if (message.type !== MessageType.TEXT || !hasMarkdown(content)) {
+    return { content };
+  }
+  return { content: stripMarkdown(content), markdown: content };
+}
+
+/**
+ * Build the payload pushed to devices for a message
+ * Uploaded images are sent resized to the notification window, with their size
+ */
+export function toMessagePayload(message: Message): MessagePayload {
+  return {
+    id: message.id,
+    type: message.type,
+    ...toPayloadContent(message, message.content),
+    priority: message.priority,
+    imageUrl: message.imageUrl,
+    ...(message.imageUrl && getDisplayImage(message.imageUrl)),
+    videoUrl: message.videoUrl,
+    audioUrl: message.audioUrl,
+    audioAutoplay: message.audioAutoplay,
+    replyOptions: message.replyOptions,
+    allowFreeText: message.allowFreeText,
+    pollOptions: message.pollOptions,
+    pollClosesAt: message.pollClosesAt?.getTime(),
+    expiresAt: message.expiresAt?.getTime(),
+    overrideDnd: message.overrideDnd || undefined,
+    targetDevices: message.targetDevices,
+    timestamp: message.createdAt.getTime(),
+  };
+}
+
+/**
+ * Resolve devices, groups and tags to the devices a message goes to right now
+ * @returns The device ids and the target snapshot stored with the message
+ */
+export function resolveMessageTarget(input: TargetInput): { targetDevices: string[]; target: MessageTarget } {
+  const groups = getDeviceGroups();
+  return {
+    targetDevices: resolveTargetDevices(input, getDevices(), groups),
+    target: toMessageTarget(input, groups),
+  };
+}
+
+/**
+ * Build the payload for each target device
+ * Messages with placeholders get their content rendered for the device they go to
+ * @param at - Time for {{time}} and {{date}} (edits keep the original send time)
+ */
+function toDevicePayloads(message: Message, at: Date = new Date()): Map<string, MessagePayload> {
+  const payload = toMessagePayload(message);
+  const placeholders = message.placeholders;
+
+  if (!placeholders) {
+    return new Map(message.targetDevices.map((deviceId) => [deviceId, payload]));
+  }
+
+  const deviceNames = new Map(getDevices().map((device) => [device.id, device.name]));
+  return new Map(
+    message.targetDevices.map((deviceId) => [
+      deviceId,
+      {
+        ...payload,
+        ...toPayloadContent(
+          message,
+          renderForDevice(message.content, placeholders, deviceNames.get(deviceId) ?? deviceId, at)
+        ),
+      },
+    ])
+  );
+}
+
+/**
+ * Deliver a newly created message to its target devices
+ * Offline devices receive it from the outbox when they register again
+ * @returns true if the message was pushed to the socket server
+ */
+export function dispatchMessage(message: Message): boolean {
+  emitWebhookEvent('message.created', message);
+
+  // Expired before it went out (e.g. a scheduled send delayed by a restart)
+  if (message.expiresAt && message.expiresAt.getTime() <= Date.now()) {
+    failExpiredMessage(message);
+    return false;
+  }
+
+  const payloads = toDevicePayloads(message);
+
+  const queue = db.transaction(() => {
+    createMessageDeliveries(message.id, message.targetDevices, 'sent');
+
+    if (OUTBOX_TTL > 0) {
+      // Queued copies are dropped at the message's expiry at the latest
+      const expiresAt = Math.min(
+        message.createdAt.getTime() + OUTBOX_TTL,
+        message.expiresAt?.getTime() ?? Infinity
+      );
+      for (const [deviceId, payload] of payloads) {
+        enqueueOutboxMessage(deviceId, payload, expiresAt);
+      }
+    }
+  });
+  queue();
+
+  const io = getSocketServer();
+  if (!io) {
+    console.warn(`[Dispatch] Socket server not available, message ${message.id} queued but not broadcasted`);
+    return false;
+  }
+
+  const holding = getHoldingDeviceIds();
+  for (const [deviceId, payload] of payloads) {
+    if (holding.has(deviceId) && !bypassesDnd(payload)) {
+      getDndDeviceIds().add(deviceId);
+      continue;
+    }
+    pushToDevice(io, deviceId, payload);
+  }
+
+  updateMessageStatus(message.id, 'sent');
+  message.status = 'sent';
+  return true;
+}
+
+/**
+ * Record every delivery of a message that expired before dispatch as failed
+ */
+function failExpiredMessage(message: Message): void {
+  const now = Date.now();
+  const fail = db.transaction(() => {
+    createMessageDeliveries(message.id, message.targetDevices, 'pending');
+    for (const deviceId of message.targetDevices) {
+      updateDeliveryStatus(message.id, deviceId, 'failed', now, 'expired');
+    }
+  });
+  fail();
+
+  message.status = recalculateMessageStatus(message.id);
+  console.warn(`[Dispatch] Message ${message.id} expired before it was sent`);
+}
+
+/**
+ * Devices in do-not-disturb right now
+ * Without an outbox there is nowhere to hold messages, so no device holds them
+ */
+function getHoldingDeviceIds(): Set<string> {
+  if (OUTBOX_TTL === 0) return new Set();
+  return new Set(getDevices().filter((device) => device.doNotDisturb).map((device) => device.id));
+}
+
+/**
+ * Urgent messages an admin sent with overrideDnd are delivered during do-not-disturb
+ * Every other message is held, high priority included (DND_HOLD_RULE in quiet-hours.ts)
+ */
+function bypassesDnd(payload: MessagePayload): boolean {
+  return payload.priority === 'urgent' && payload.overrideDnd === true;
+}
+
+/**
+ * Re-send all unacknowledged messages to a device, oldest first
+ * Called after the device registers; acks arrive via 'message:delivered'
+ * Devices in do-not-disturb only get the messages that override it, the rest stay held
+ * @returns Number of replayed messages
+ */
+export function replayOutbox(deviceId: string): number {
+  const io = getSocketServer();
+  if (!io) return 0;
+
+  // Fail stale entries first so they are not shown late
+  expireOutbox();
+
+  // Recalls sent while the device was away (it may still show the message)
+  const since = Date.now() - (OUTBOX_TTL || RESEND_WINDOW);
+  for (const messageId of getRecalledMessageIds(deviceId, since)) {
+    io.to(`device:${deviceId}`).emit('message:recall', { messageId });
+  }
+
+  // Latest version of messages edited while the device was away
+  for (const messageId of getEditedOpenMessageIds(deviceId, since)) {
+    const message = getMessage(messageId);
+    const payload = message && toDevicePayloads(message, message.createdAt).get(deviceId);
+    if (payload) {
+      io.to(`device:${deviceId}`).emit('message:update', payload);
+    }
+  }
+
+  let pending = getPendingOutboxMessages(deviceId);
+  if (getHoldingDeviceIds().has(deviceId)) {
+    getDndDeviceIds().add(deviceId);
+    pending = pending.filter(bypassesDnd);
+  }
+
+  for (const payload of pending) {
+    pushToDevice(io, deviceId, payload);
+  }
+
+  if (pending.length > 0) {
+    console.log(`[Dispatch] Replayed ${pending.length} queued message(s) to device ${deviceId}`);
+  }
+
+  return pending.length;
+}
+
+/**
+ * Deliver held messages to devices whose do-not-disturb ended (quiet hours over or switched off)
+ * and refresh the dashboard's device list when a device enters or leaves do-not-disturb
+ * @returns Number of released messages
+ */
+export function releaseHeldMessages(): number {
+  const dndDeviceIds = getDndDeviceIds();
+  let released = 0;
+  let changed = false;
+
+  for (const device of getDevices()) {
+    if (device.doNotDisturb) {
+      if (!dndDeviceIds.has(device.id)) {
+        dndDeviceIds.add(device.id);
+        changed = true;
+      }
+      continue;
+    }
+
+    if (dndDeviceIds.delete(device.id)) {
+      changed = true;
+      if (device.status === 'online') {
+        released += replayOutbox(device.id);
+      }
+    }
+  }
+
+  if (changed) {
+    broadcastDeviceList();
+  }
+
+  return released;
+}
+
+/**
+ * Recall a message from the devices that have not closed it yet
+ * Devices drop it from their queue or hide it; queued copies are never replayed
+ * @returns The recalled device ids, or null if the message doesn't exist or was already recalled
+ */
+export function recallFromDevices(messageId: string): string[] | null {
+  const deviceIds = recallMessage(messageId);
+  if (!deviceIds) return null;
+
+  const io = getSocketServer();
+  if (io) {
+    for (const deviceId of deviceIds) {
+      io.to(`device:${deviceId}`).emit('message:recall', { messageId });
+    }
+  }
+
+  // Undelivered copies failed with reason 'recalled'
+  recalculateMessageStatus(messageId);
+  const message = getMessageWithDeliveries(messageId);
+  if (message) {
+    emitToDashboard('message:updated', { message });
+  }
+
+  console.log(`[Dispatch] Message ${messageId} recalled from ${deviceIds.length} device(s)`);
+  return deviceIds;
+}
+
+/**
+ * Push the edited content of a message to the devices that still have it
+ * Queued copies are replaced, devices update the queued or visible notification in place
+ * @returns The updated message, or null if it doesn't exist
+ */
+export function pushMessageEdit(messageId: string): Message | null {
+  const message = getMessageWithDeliveries(messageId);
+  if (!message) return null;
+
+  const payloads = toDevicePayloads(message, message.createdAt);
+  const deviceIds = getOpenDeliveryDeviceIds(messageId);
+  const io = getSocketServer();
+
+  for (const deviceId of deviceIds) {
+    const payload = payloads.get(deviceId);
+    if (!payload) continue;
+
+    updateOutboxPayload(deviceId, payload);
+    io?.to(`device:${deviceId}`).emit('message:update', payload);
+  }
+
+  emitToDashboard('message:updated', { message });
+
+  console.log(`[Dispatch] Edit of message ${messageId} pushed to ${deviceIds.length} device(s)`);
+  return message;
+}
+
+/**
+ * Move expired outbox entries to failed and notify the dashboard
+ * @returns Number of expired deliveries
+ */
+export function expireOutbox(): number {
+  const expired = expireOutboxMessages();
+
+  for (const { messageId, deviceId } of expired) {
+    broadcastDeliveryUpdate(messageId, deviceId, 'failed');
+  }
+
+  if (expired.length > 0) {
+    console.log(`[Dispatch] Expired ${expired.length} queued delivery(ies)`);
+  }
+
+  return expired.length;
+}
+
+/**
+ * Emit a payload to a device room
+ * Only records the send (starting the ack timeout) if the device is connected
+ */
+function pushToDevice(io: Server, deviceId: string, payload: MessagePayload): void {
+  const room = `device:${deviceId}`;
+  io.to(room).emit('message:receive', payload);
+
+  if (io.sockets.adapter.rooms.get(room)?.size) {
+    markDeliverySent(payload.id, deviceId);
+  }
+}
@@ -0,0 +1,147 @@
+/**
+ * CreaBomber - Message Queue
+ * Browser-side queue for requests made while offline, persisted in localStorage
+ */
+
+import { fetchWithRetry, isRetryableError } from './fetch-with-retry';
+
+// Message queue for offline scenarios
+interface QueuedMessage<T = unknown> {
+  id: string;
+  url: string;
+  options: RequestInit;
+  body?: T;
+  createdAt: Date;
+  retries: number;
+}
+
+class MessageQueue {
+  private queue: QueuedMessage[] = [];
+  private isProcessing = false;
+  private readonly storageKey = 'creabomber_message_queue';
+
+  constructor() {
+    // Load persisted queue from localStorage
+    if (typeof window !== 'undefined') {
+      try {
+        const stored = localStorage.getItem(this.storageKey);
+        if (stored) {
+          const parsed = JSON.parse(stored);
+          this.queue = parsed.map((item: QueuedMessage) => ({
+            ...item,
+            createdAt: new Date(item.createdAt),
+          }));
+        }
+      } catch {
+        // Ignore parse errors
+      }
+    }
+  }
+
+  private persist(): void {
+    if (typeof window !== 'undefined') {
+      try {
+        localStorage.setItem(this.storageKey, JSON.stringify(this.queue));
+      } catch {
+        // Ignore storage errors
+      }
+    }
+  }
+
+  add<T>(url: string, options: RequestInit, body?: T): string {
+    const id = `${Date.now()}-${Math.random().toString(36).slice(2, 11)}`;
+    this.queue.push({
+      id,
+      url,
+      options,
+      body,
+      createdAt: new Date(),
+      retries: 0,
+    });
+    this.persist();
+    return id;
+  }
+
+  remove(id: string): void {
+    this.queue = this.queue.filter((item) => item.id !== id);
+    this.persist();
+  }
+
+  getAll(): QueuedMessage[] {
+    return [...this.queue];
+  }
+
+  getLength(): number {
+    return this.queue.length;
+  }
+
+  async processQueue(
+    onSuccess?: (id: string) => void,
+    onError?: (id: string, error: Error) => void
+  ): Promise<void> {
+    if (this.isProcessing || this.queue.length === 0) {
+      return;
+    }
+
+    this.isProcessing = true;
+
+    while (this.queue.length > 0) {
+      const item = this.queue[0];
+
+      try {
+        const response = await fetchWithRetry(
+          item.url,
+          {
+            ...item.options,
+            body: item.body ? JSON.stringify(item.body) : undefined,
+          },
+          { maxRetries: 1 }
+        );
+
+        if (response.error) {
+          throw response.error;
+        }
+
+        // Success - remove from queue
+        this.queue.shift();
+        this.persist();
+        onSuccess?.(item.id);
+      } catch (error) {
+        item.retries++;
+
+        // If too many retries or non-retryable error, move to end or discard
+        if (item.retries >= 5) {
+          this.queue.shift();
+          this.persist();
+          onError?.(
+            item.id,
+            error instanceof Error ? error : new Error(String(error))
+          );
+        } else {
+          // Move to end of queue
+          this.queue.shift();
+          this.queue.push(item);
+          this.persist();
+        }
+
+        // Stop processing on network error
+        if (
+          error instanceof Error &&
+          isRetryableError(error)
+        ) {
+          break;
+        }
+      }
+    }
+
+    this.isProcessing = false;
+  }
+
+  clear(): void {
+    this.queue = [];
+    this.persist();
+  }
+}
+
+// Export singleton instance
+export const messageQueue = new MessageQueue();
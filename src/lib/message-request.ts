@@ -0,0 +1,111 @@
+/**
+ * CreaBomber Message Request
+ * Checks shared by POST /api/messages and socket 'message:send' before a message is saved
+ * - Body rules (message-validation.ts) and that device groups exist
+ * - Only admins may override do-not-disturb
+ * - Groups and tags resolved to the devices they contain right now
+ * - API keys with a device allowlist only reach their devices
+ * - {{placeholder}} context for the sender
+ *
+ * Rate limiting stays with the callers (scheduled sends count against the sender alone).
+ */
+
+import { getDeviceGroup } from './db';
+import { ForbiddenError, ValidationError, validationResultToError } from './errors';
+import { validateMessageBody, type CreateMessageBody } from './message-validation';
+import { resolveMessageTarget } from './message-dispatch';
+import { createPlaceholderContext } from './placeholders';
+import { getDisallowedDevices } from './api-keys';
+import { canManage } from './auth/permissions';
+import type { AuthUser } from './auth/getUser';
+import type { MessageTarget, PlaceholderContext } from '@/types';
+
+export interface MessageRequest {
+  // Parsed times in ms (null if not given)
+  pollClosesAt: number | null;
+  sendAt: number | null;
+  expiresAt: number | null;
+  // Devices the message goes to now (scheduled sends resolve their targets at send time)
+  targetDevices: string[];
+  target: MessageTarget | null;
+  placeholders?: PlaceholderContext;
+}
+
+/**
+ * Validate a message body and resolve its targets for the sender
+ * @throws ValidationError for invalid bodies or targets without devices,
+ *         ForbiddenError if the sender may not send it
+ */
+export function prepareMessageRequest(body: CreateMessageBody, user: AuthUser, senderName: string): MessageRequest {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    throw new ValidationError('Request body must be an object');
+  }
+
+  const {
+    content,
+    targetDevices = [],
+    targetGroups = [],
+    targetTags = [],
+    overrideDnd = false,
+    timezone = 'UTC',
+    placeholderValues,
+  } = body;
+
+  // Only admins may deliver to devices in do-not-disturb
+  if (overrideDnd === true && !canManage(user.role)) {
+    throw new ForbiddenError('Forbidden - Admin role required to override do-not-disturb');
+  }
+
+  // Body rules shared with the command-line sender
+  const validation = validateMessageBody(body);
+
+  // Groups must exist
+  if (Array.isArray(targetGroups)) {
+    for (const groupId of targetGroups) {
+      if (typeof groupId !== 'string' || !getDeviceGroup(groupId)) {
+        validation.errors.push({ field: 'targetGroups', message: `Unknown device group: ${groupId}` });
+      }
+    }
+  }
+
+  validation.valid = validation.errors.length === 0;
+  const validationError = validationResultToError(validation);
+  if (validationError) {
+    throw validationError;
+  }
+
+  const { pollClosesAt, sendAt, expiresAt } = validation;
+  const placeholders = createPlaceholderContext(content, placeholderValues, senderName, timezone);
+
+  if (sendAt !== null) {
+    // Groups and tags are resolved at send time, so keys with a device allowlist have to name devices
+    if (user.apiKey?.deviceIds) {
+      if (targetGroups.length > 0 || targetTags.length > 0) {
+        throw new ForbiddenError('Forbidden - API key with a device allowlist must schedule to devices directly');
+      }
+      assertDevicesAllowed(user, targetDevices);
+    }
+    return { pollClosesAt, sendAt, expiresAt, targetDevices: [], target: null, placeholders };
+  }
+
+  const { targetDevices: resolvedDevices, target } = resolveMessageTarget({
+    deviceIds: targetDevices,
+    groupIds: targetGroups,
+    tags: targetTags,
+  });
+  if (resolvedDevices.length === 0) {
+    throw new ValidationError('Target matches no devices');
+  }
+  assertDevicesAllowed(user, resolvedDevices);
+
+  return { pollClosesAt, sendAt, expiresAt, targetDevices: resolvedDevices, target, placeholders };
+}
+
+function assertDevicesAllowed(user: AuthUser, deviceIds: string[]): void {
+  if (!user.apiKey) return;
+
+  const disallowed = getDisallowedDevices(user.apiKey, deviceIds);
+  if (disallowed.length > 0) {
+    throw new ForbiddenError(`Forbidden - API key may not send to: ${disallowed.join(', ')}`);
+  }
+}
@@ -0,0 +1,254 @@
+/**
+ * CreaBomber Message Validation
+ * Body rules for POST /api/messages, shared with the command-line sender (scripts/creabomber.ts)
+ * so scripts get the same errors before anything is sent
+ *
+ * Checks that need the database (device groups exist, targets resolve to devices)
+ * are in message-request.ts.
+ */
+
+import {
+  validateRequired,
+  validateString,
+  validateArray,
+  validateEnum,
+  validateUrl,
+  combineValidation,
+  type ValidationResult,
+} from './errors';
+import { isEmptyTarget, validateTags } from './device-targets';
+import { isValidTimeZone, validatePlaceholderValues } from './placeholders';
+
+export const VALID_MESSAGE_TYPES = ['TEXT', 'TEXT_IMAGE', 'VIDEO', 'AUDIO', 'POLL'] as const;
+export const VALID_PRIORITIES = ['low', 'normal', 'high', 'urgent'] as const;
+
+const MAX_CONTENT_LENGTH = 10000;
+const MAX_URL_LENGTH = 2048;
+const MAX_REPLY_OPTIONS = 4;
+const MAX_REPLY_OPTION_LENGTH = 40;
+const MIN_POLL_OPTIONS = 2;
+const MAX_POLL_OPTIONS = 6;
+const MAX_POLL_OPTION_LENGTH = 80;
+const MAX_TARGET_TAGS = 20;
+
+// sendAt must carry its UTC offset so the send time is unambiguous
+const ISO_DATE_WITH_OFFSET = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})$/;
+
+// Request body of POST /api/messages
+export interface CreateMessageBody {
+  type: string;
+  content: string;
+  targetDevices?: string[];
+  targetGroups?: string[];
+  targetTags?: string[];
+  imageUrl?: string;
+  videoUrl?: string;
+  audioUrl?: string;
+  audioAutoplay?: boolean;
+  replyOptions?: string[];
+  allowFreeText?: boolean;
+  pollOptions?: string[];
+  pollClosesAt?: string;
+  expiresAt?: string;
+  overrideDnd?: boolean;
+  priority?: string;
+  sendAt?: string;
+  timezone?: string;
+  placeholderValues?: Record<string, string>;
+}
+
+export interface MessageBodyValidation extends ValidationResult {
+  // Parsed times in ms (null if not given or invalid)
+  pollClosesAt: number | null;
+  sendAt: number | null;
+  expiresAt: number | null;
+}
+
+/**
+ * Validate a message body
+ */
+export function validateMessageBody(body: CreateMessageBody, now = Date.now()): MessageBodyValidation {
+  const {
+    type,
+    content,
+    targetDevices = [],
+    targetGroups = [],
+    targetTags = [],
+    imageUrl,
+    videoUrl,
+    audioUrl,
+    replyOptions,
+    allowFreeText,
+    pollOptions,
+    pollClosesAt,
+    expiresAt,
+    overrideDnd = false,
+    priority = 'normal',
+    sendAt,
+    timezone = 'UTC',
+    placeholderValues,
+  } = body;
+
+  const validation = combineValidation(
+    validateRequired(type, 'type'),
+    validateRequired(content, 'content'),
+    validateEnum(type, 'type', [...VALID_MESSAGE_TYPES]),
+    validateString(content, 'content', { minLength: 1, maxLength: MAX_CONTENT_LENGTH }),
+    validateArray(targetDevices, 'targetDevices'),
+    validateArray(targetGroups, 'targetGroups'),
+    validateEnum(priority, 'priority', [...VALID_PRIORITIES])
+  );
+
+  // Targets: any mix of devices, groups and tags
+  validation.errors.push(...validateTags(targetTags, 'targetTags', MAX_TARGET_TAGS));
+  if (
+    Array.isArray(targetDevices) &&
+    Array.isArray(targetGroups) &&
+    Array.isArray(targetTags) &&
+    isEmptyTarget({ deviceIds: targetDevices, groupIds: targetGroups, tags: targetTags })
+  ) {
+    validation.errors.push({
+      field: 'targetDevices',
+      message: 'targetDevices, targetGroups or targetTags is required',
+    });
+  }
+
+  // Type-specific validation
+  if (type === 'TEXT_IMAGE') {
+    const imageValidation = combineValidation(
+      validateRequired(imageUrl, 'imageUrl'),
+      validateUrl(imageUrl, 'imageUrl'),
+      validateString(imageUrl ?? '', 'imageUrl', { maxLength: MAX_URL_LENGTH })
+    );
+    validation.errors.push(...imageValidation.errors);
+  }
+
+  if (type === 'VIDEO') {
+    const videoValidation = combineValidation(
+      validateRequired(videoUrl, 'videoUrl'),
+      validateUrl(videoUrl, 'videoUrl'),
+      validateString(videoUrl ?? '', 'videoUrl', { maxLength: MAX_URL_LENGTH })
+    );
+    validation.errors.push(...videoValidation.errors);
+  }
+
+  if (type === 'AUDIO') {
+    const audioValidation = combineValidation(
+      validateRequired(audioUrl, 'audioUrl'),
+      validateUrl(audioUrl, 'audioUrl'),
+      validateString(audioUrl ?? '', 'audioUrl', { maxLength: MAX_URL_LENGTH })
+    );
+    validation.errors.push(...audioValidation.errors);
+  }
+
+  // Poll: content is the question, votes are cast on the option buttons
+  let pollClosesAtMs: number | null = null;
+  if (type === 'POLL') {
+    const arrayError = validateArray(pollOptions, 'pollOptions', {
+      minLength: MIN_POLL_OPTIONS,
+      maxLength: MAX_POLL_OPTIONS,
+    });
+    if (arrayError) {
+      validation.errors.push(arrayError);
+    } else {
+      pollOptions!.forEach((option, index) => {
+        const optionError = validateString(option, `pollOptions[${index}]`, {
+          minLength: 1,
+          maxLength: MAX_POLL_OPTION_LENGTH,
+        });
+        if (optionError) validation.errors.push(optionError);
+      });
+      if (new Set(pollOptions).size !== pollOptions!.length) {
+        validation.errors.push({ field: 'pollOptions', message: 'pollOptions must be unique' });
+      }
+    }
+
+    if (pollClosesAt !== undefined && pollClosesAt !== null) {
+      pollClosesAtMs = new Date(pollClosesAt).getTime();
+      if (typeof pollClosesAt !== 'string' || isNaN(pollClosesAtMs)) {
+        validation.errors.push({ field: 'pollClosesAt', message: 'pollClosesAt must be an ISO date string' });
+      } else if (pollClosesAtMs <= now) {
+        validation.errors.push({ field: 'pollClosesAt', message: 'pollClosesAt must be in the future' });
+      }
+    }
+
+    if (replyOptions !== undefined || allowFreeText) {
+      validation.errors.push({ field: 'replyOptions', message: 'Reply options are not supported for polls' });
+    }
+  }
+
+  // Quick-reply buttons shown on the notification
+  if (replyOptions !== undefined) {
+    const arrayError = validateArray(replyOptions, 'replyOptions', { maxLength: MAX_REPLY_OPTIONS });
+    if (arrayError) {
+      validation.errors.push(arrayError);
+    } else {
+      replyOptions.forEach((option, index) => {
+        const optionError = validateString(option, `replyOptions[${index}]`, {
+          minLength: 1,
+          maxLength: MAX_REPLY_OPTION_LENGTH,
+        });
+        if (optionError) validation.errors.push(optionError);
+      });
+      if (new Set(replyOptions).size !== replyOptions.length) {
+        validation.errors.push({ field: 'replyOptions', message: 'replyOptions must be unique' });
+      }
+    }
+  }
+
+  if (allowFreeText !== undefined && typeof allowFreeText !== 'boolean') {
+    validation.errors.push({ field: 'allowFreeText', message: 'allowFreeText must be a boolean' });
+  }
+
+  // Send later: the send scheduler creates and dispatches the message at sendAt
+  let sendAtMs: number | null = null;
+  if (sendAt !== undefined && sendAt !== null) {
+    sendAtMs = new Date(sendAt).getTime();
+    if (typeof sendAt !== 'string' || !ISO_DATE_WITH_OFFSET.test(sendAt) || isNaN(sendAtMs)) {
+      validation.errors.push({ field: 'sendAt', message: 'sendAt must be an ISO date string with a time zone offset' });
+    } else if (sendAtMs <= now) {
+      validation.errors.push({ field: 'sendAt', message: 'sendAt must be in the future' });
+    } else if (pollClosesAtMs !== null && pollClosesAtMs <= sendAtMs) {
+      validation.errors.push({ field: 'pollClosesAt', message: 'pollClosesAt must be after sendAt' });
+    }
+  }
+
+  // Expiry: the message is never delivered or shown after this time
+  let expiresAtMs: number | null = null;
+  if (expiresAt !== undefined && expiresAt !== null) {
+    expiresAtMs = new Date(expiresAt).getTime();
+    if (typeof expiresAt !== 'string' || isNaN(expiresAtMs)) {
+      validation.errors.push({ field: 'expiresAt', message: 'expiresAt must be an ISO date string' });
+    } else if (expiresAtMs <= (sendAtMs ?? now)) {
+      validation.errors.push({
+        field: 'expiresAt',
+        message: sendAtMs !== null ? 'expiresAt must be after sendAt' : 'expiresAt must be in the future',
+      });
+    }
+  }
+
+  // Do-not-disturb can only be overridden for urgent messages
+  if (typeof overrideDnd !== 'boolean') {
+    validation.errors.push({ field: 'overrideDnd', message: 'overrideDnd must be a boolean' });
+  } else if (overrideDnd && priority !== 'urgent') {
+    validation.errors.push({ field: 'overrideDnd', message: 'overrideDnd requires urgent priority' });
+  }
+
+  // The sender's time zone schedules sendAt and formats {{time}} and {{date}}
+  if (typeof timezone !== 'string' || !isValidTimeZone(timezone)) {
+    validation.errors.push({ field: 'timezone', message: 'timezone must be an IANA time zone name' });
+  }
+
+  // Every custom placeholder in the content needs a value
+  if (typeof content === 'string') {
+    validation.errors.push(...validatePlaceholderValues(content, placeholderValues, 'placeholderValues'));
+  }
+
+  return {
+    valid: validation.errors.length === 0,
+    errors: validation.errors,
+    pollClosesAt: pollClosesAtMs,
+    sendAt: sendAtMs,
+    expiresAt: expiresAtMs,
+  };
+}
@@ -0,0 +1,135 @@
+/**
+ * CreaBomber Placeholders
+ * {{name}} placeholders in message content (pure, shared by server and dashboard)
+ * - Built-in placeholders are filled in per device at dispatch time
+ * - Custom placeholders are prompted in the composer and sent with the message
+ */
+
+import type { ValidationFieldError } from '@/lib/errors';
+import type { PlaceholderContext } from '@/types';
+
+export const BUILT_IN_PLACEHOLDERS = ['deviceName', 'senderEmail', 'time', 'date'] as const;
+export const MAX_PLACEHOLDER_VALUE_LENGTH = 200;
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([A-Za-z][A-Za-z0-9_]*)\s*\}\}/g;
+const BUILT_IN_SET = new Set<string>(BUILT_IN_PLACEHOLDERS);
+
+/**
+ * Placeholder names used in a text, in order of first use
+ */
+export function extractPlaceholders(text: string): string[] {
+  const names = new Set<string>();
+  for (const match of text.matchAll(PLACEHOLDER_PATTERN)) {
+    names.add(match[1]);
+  }
+  return [...names];
+}
+
+/**
+ * Placeholders the sender has to fill in (everything that is not built in)
+ */
+export function getCustomPlaceholders(text: string): string[] {
+  return extractPlaceholders(text).filter((name) => !BUILT_IN_SET.has(name));
+}
+
+export function hasPlaceholders(text: string): boolean {
+  return extractPlaceholders(text).length > 0;
+}
+
+/**
+ * Replace placeholders with their values; unknown placeholders are left as written
+ */
+export function fillPlaceholders(text: string, values: Record<string, string>): string {
+  return text.replace(PLACEHOLDER_PATTERN, (match, name: string) =>
+    Object.prototype.hasOwnProperty.call(values, name) ? values[name] : match
+  );
+}
+
+/**
+ * Check an IANA time zone name (e.g. Europe/Berlin)
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Validate custom placeholder values: an object of strings with a value for every custom placeholder
+ */
+export function validatePlaceholderValues(
+  text: string,
+  value: unknown,
+  fieldName: string
+): ValidationFieldError[] {
+  const custom = getCustomPlaceholders(text);
+  if (value === undefined && custom.length === 0) {
+    return [];
+  }
+  if (value !== undefined && (typeof value !== 'object' || value === null || Array.isArray(value))) {
+    return [{ field: fieldName, message: `${fieldName} must be an object` }];
+  }
+
+  const values = (value ?? {}) as Record<string, unknown>;
+  for (const [name, fieldValue] of Object.entries(values)) {
+    if (typeof fieldValue !== 'string') {
+      return [{ field: fieldName, message: `Value for {{${name}}} must be a string` }];
+    }
+    if (fieldValue.length > MAX_PLACEHOLDER_VALUE_LENGTH) {
+      return [{ field: fieldName, message: `Value for {{${name}}} must be at most ${MAX_PLACEHOLDER_VALUE_LENGTH} characters` }];
+    }
+  }
+
+  const missing = custom.filter((name) => !(values[name] as string | undefined)?.trim());
+  if (missing.length > 0) {
+    return [{ field: fieldName, message: `Missing value for ${missing.map((name) => `{{${name}}}`).join(', ')}` }];
+  }
+
+  return [];
+}
+
+/**
+ * Context stored with a message (only the custom values the text uses)
+ * @returns undefined if the text has no placeholders
+ */
+export function createPlaceholderContext(
+  text: string,
+  values: Record<string, string> = {},
+  senderEmail?: string,
+  timezone?: string
+): PlaceholderContext | undefined {
+  if (!hasPlaceholders(text)) {
+    return undefined;
+  }
+  return {
+    values: Object.fromEntries(
+      getCustomPlaceholders(text)
+        .filter((name) => Object.prototype.hasOwnProperty.call(values, name))
+        .map((name) => [name, values[name]])
+    ),
+    senderEmail,
+    timezone,
+  };
+}
+
+/**
+ * Content for one device: custom values plus the built-ins for that device and send time
+ */
+export function renderForDevice(
+  text: string,
+  context: PlaceholderContext,
+  deviceName: string,
+  at: Date = new Date()
+): string {
+  const timeZone = context.timezone;
+  return fillPlaceholders(text, {
+    ...context.values,
+    deviceName,
+    senderEmail: context.senderEmail ?? '',
+    time: at.toLocaleTimeString('de-DE', { hour: '2-digit', minute: '2-digit', timeZone }),
+    date: at.toLocaleDateString('de-DE', { day: '2-digit', month: '2-digit', year: 'numeric', timeZone }),
+  });
+}
@@ -0,0 +1,92 @@
+/**
+ * CreaBomber Quiet Hours
+ * Per-device do-not-disturb (pure, shared by server and dashboard)
+ * - A device is in DND while its tray toggle is on or inside its daily quiet hours
+ * - Quiet hours are 'HH:MM' times in the device's time zone; an end before the start runs over midnight
+ * - Messages of every priority are held during DND, only urgent sends with the admin override get through
+ */
+
+import type { ValidationFieldError } from '@/lib/errors';
+import type { Device, QuietHours } from '@/types';
+import { isValidTimeZone } from './placeholders';
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+// Shown wherever senders see a device in DND
+export const DND_HOLD_RULE =
+  'Messages of every priority are held until do-not-disturb ends; only urgent messages an admin sends with the override are delivered.';
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+/**
+ * Minutes since midnight at a time in a time zone
+ */
+function minutesInZone(at: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-GB', {
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+    timeZone,
+  }).formatToParts(at);
+  const value = (type: 'hour' | 'minute') => Number(parts.find((part) => part.type === type)?.value ?? 0);
+  return value('hour') * 60 + value('minute');
+}
+
+/**
+ * Check if a time falls inside the quiet hours (start inclusive, end exclusive)
+ */
+export function isInQuietHours(quietHours: QuietHours, at: Date = new Date()): boolean {
+  const start = toMinutes(quietHours.start);
+  const end = toMinutes(quietHours.end);
+  if (start === end) return false;
+
+  const now = minutesInZone(at, quietHours.timezone);
+  return start < end ? now >= start && now < end : now >= start || now < end;
+}
+
+/**
+ * Check if a device holds messages right now
+ */
+export function isDoNotDisturb(
+  device: Pick<Device, 'dndEnabled' | 'quietHours'>,
+  at: Date = new Date()
+): boolean {
+  return device.dndEnabled || (!!device.quietHours && isInQuietHours(device.quietHours, at));
+}
+
+/**
+ * Short summary for the dashboard, e.g. "22:00–07:00 (Europe/Berlin)"
+ */
+export function describeQuietHours(quietHours: QuietHours): string {
+  return `${quietHours.start}–${quietHours.end} (${quietHours.timezone})`;
+}
+
+/**
+ * Validate untrusted quiet hours (null clears them)
+ */
+export function validateQuietHours(value: unknown, fieldName: string): ValidationFieldError[] {
+  if (value === null) return [];
+  if (typeof value !== 'object' || Array.isArray(value)) {
+    return [{ field: fieldName, message: `${fieldName} must be an object or null` }];
+  }
+
+  const { start, end, timezone } = value as Record<string, unknown>;
+  const errors: ValidationFieldError[] = [];
+
+  for (const [name, time] of [['start', start], ['end', end]] as const) {
+    if (typeof time !== 'string' || !TIME_PATTERN.test(time)) {
+      errors.push({ field: fieldName, message: `${fieldName}.${name} must be a time in HH:MM format` });
+    }
+  }
+  if (errors.length === 0 && start === end) {
+    errors.push({ field: fieldName, message: `${fieldName}.start and ${fieldName}.end must differ` });
+  }
+  if (typeof timezone !== 'string' || !isValidTimeZone(timezone)) {
+    errors.push({ field: fieldName, message: `${fieldName}.timezone must be an IANA time zone name` });
+  }
+
+  return errors;
+}
@@ -0,0 +1,192 @@
+/**
+ * CreaBomber Rate Limiting
+ * Token buckets against notification spam, shared by POST /api/messages and socket 'message:send'
+ * - sender: messages per sending user
+ * - device: messages per target device
+ * - global: all messages
+ *
+ * A send takes one token from every bucket it touches and is refused (taking nothing)
+ * if any of them is empty. Limits are stored in the database and changed by admins;
+ * buckets live in memory and start full after a restart.
+ */
+
+import { getSetting, setSetting, getDevices } from './db';
+import { RateLimitError, type ValidationFieldError } from './errors';
+import type { RateLimit, RateLimitScope, RateLimitSettings, RateLimitUsage } from '@/types';
+
+const SETTINGS_KEY = 'rate_limits';
+const MAX_BURST = 10000;
+const MAX_PER_MINUTE = 10000;
+
+export const RATE_LIMIT_SCOPES: RateLimitScope[] = ['sender', 'device', 'global'];
+
+export const DEFAULT_RATE_LIMITS: RateLimitSettings = {
+  sender: { enabled: true, burst: 20, perMinute: 10 },
+  device: { enabled: true, burst: 30, perMinute: 15 },
+  global: { enabled: true, burst: 300, perMinute: 120 },
+};
+
+const LIMIT_MESSAGES: Record<RateLimitScope, string> = {
+  sender: 'Too many messages from this sender',
+  device: 'Too many messages to a target device',
+  global: 'Too many messages',
+};
+
+interface Bucket {
+  scope: RateLimitScope;
+  key: string;
+  label: string;
+  tokens: number;
+  updatedAt: number;
+}
+
+// Buckets are shared by API routes and the socket server and survive module reloads in development
+declare global {
+  var __rateLimitBuckets: Map<string, Bucket> | undefined;
+}
+
+function getBuckets(): Map<string, Bucket> {
+  if (!global.__rateLimitBuckets) {
+    global.__rateLimitBuckets = new Map();
+  }
+  return global.__rateLimitBuckets;
+}
+
+/**
+ * Current limits (defaults for scopes an admin never changed)
+ */
+export function getRateLimitSettings(): RateLimitSettings {
+  return { ...DEFAULT_RATE_LIMITS, ...getSetting<Partial<RateLimitSettings>>(SETTINGS_KEY) };
+}
+
+/**
+ * Store new limits, they apply to the next send
+ */
+export function setRateLimitSettings(settings: RateLimitSettings, updatedBy?: string): void {
+  setSetting(SETTINGS_KEY, settings, updatedBy);
+}
+
+/**
+ * Tokens in a bucket now: refilled since its last use, at most the burst size
+ */
+function refill(bucket: Bucket, limit: RateLimit, now: number): number {
+  return Math.min(limit.burst, bucket.tokens + ((now - bucket.updatedAt) * limit.perMinute) / 60000);
+}
+
+export interface RateLimitRequest {
+  senderId?: string;
+  senderLabel?: string;  // shown to admins, e.g. the sender's email
+  deviceIds: string[];
+}
+
+/**
+ * Take a token from each bucket a send touches
+ * @returns null if the send may go out, otherwise the error to answer with (nothing was taken)
+ */
+export function consumeRateLimit(request: RateLimitRequest, now = Date.now()): RateLimitError | null {
+  const settings = getRateLimitSettings();
+  const buckets = getBuckets();
+
+  const candidates: Omit<Bucket, 'tokens' | 'updatedAt'>[] = [{ scope: 'global', key: 'global', label: 'All messages' }];
+  if (request.senderId) {
+    candidates.push({ scope: 'sender', key: request.senderId, label: request.senderLabel ?? request.senderId });
+  }
+  for (const deviceId of new Set(request.deviceIds)) {
+    candidates.push({ scope: 'device', key: deviceId, label: deviceId });
+  }
+  const touched = candidates.filter(({ scope }) => settings[scope].enabled);
+
+  // Check every bucket before taking anything; report the one that frees up last
+  const available: number[] = [];
+  let blocked: { scope: RateLimitScope; key: string; waitMs: number } | null = null;
+
+  for (const { scope, key } of touched) {
+    const limit = settings[scope];
+    const bucket = buckets.get(`${scope}:${key}`);
+    const tokens = bucket ? refill(bucket, limit, now) : limit.burst;
+    available.push(tokens);
+
+    if (tokens < 1) {
+      const waitMs = ((1 - tokens) * 60000) / limit.perMinute;
+      if (!blocked || waitMs > blocked.waitMs) {
+        blocked = { scope, key, waitMs };
+      }
+    }
+  }
+
+  if (blocked) {
+    const retryAfter = Math.max(1, Math.ceil(blocked.waitMs / 1000));
+    return new RateLimitError(`${LIMIT_MESSAGES[blocked.scope]}, retry in ${retryAfter}s`, retryAfter, {
+      scope: blocked.scope,
+      ...(blocked.scope === 'device' ? { deviceId: blocked.key } : {}),
+    });
+  }
+
+  touched.forEach((bucket, index) => {
+    buckets.set(`${bucket.scope}:${bucket.key}`, { ...bucket, tokens: available[index] - 1, updatedAt: now });
+  });
+  return null;
+}
+
+/**
+ * Buckets in use right now, fullest first (refilled buckets are dropped)
+ */
+export function getRateLimitUsage(now = Date.now()): RateLimitUsage[] {
+  const settings = getRateLimitSettings();
+  const buckets = getBuckets();
+  const deviceNames = new Map(getDevices().map((device) => [device.id, device.name]));
+  const usage: RateLimitUsage[] = [];
+
+  for (const [id, bucket] of buckets) {
+    const limit = settings[bucket.scope];
+    const tokens = refill(bucket, limit, now);
+    if (!limit.enabled || tokens >= limit.burst) {
+      buckets.delete(id);
+      continue;
+    }
+
+    usage.push({
+      scope: bucket.scope,
+      key: bucket.key,
+      label: bucket.scope === 'device' ? deviceNames.get(bucket.key) ?? bucket.key : bucket.label,
+      used: Math.ceil(limit.burst - tokens),
+      burst: limit.burst,
+    });
+  }
+
+  return usage.sort((a, b) => b.used / b.burst - a.used / a.burst);
+}
+
+/**
+ * Validate untrusted limits (any subset of the scopes, each one complete)
+ */
+export function validateRateLimitSettings(value: unknown): ValidationFieldError[] {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return [{ field: 'settings', message: 'Rate limits must be an object' }];
+  }
+
+  const errors: ValidationFieldError[] = [];
+  for (const [scope, limit] of Object.entries(value)) {
+    if (!RATE_LIMIT_SCOPES.includes(scope as RateLimitScope)) {
+      errors.push({ field: scope, message: `Unknown rate limit scope: ${scope}` });
+      continue;
+    }
+    if (typeof limit !== 'object' || limit === null) {
+      errors.push({ field: scope, message: `${scope} must be an object` });
+      continue;
+    }
+
+    const { enabled, burst, perMinute } = limit as Record<string, unknown>;
+    if (typeof enabled !== 'boolean') {
+      errors.push({ field: scope, message: `${scope}.enabled must be a boolean` });
+    }
+    if (typeof burst !== 'number' || !Number.isInteger(burst) || burst < 1 || burst > MAX_BURST) {
+      errors.push({ field: scope, message: `${scope}.burst must be a whole number from 1 to ${MAX_BURST}` });
+    }
+    if (typeof perMinute !== 'number' || !Number.isInteger(perMinute) || perMinute < 1 || perMinute > MAX_PER_MINUTE) {
+      errors.push({ field: scope, message: `${scope}.perMinute must be a whole number from 1 to ${MAX_PER_MINUTE}` });
+    }
+  }
+
+  return errors;
+}
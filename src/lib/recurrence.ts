@@ -0,0 +1,495 @@
+/**
+ * CreaBomber Recurrence Rules
+ * iCalendar RRULE-style recurrence for scheduled messages
+ * - Occurrence expansion (next occurrences, "does it occur on this date")
+ * - Optional time of day in a time zone ("every weekday at 09:00")
+ * - Human-readable summary for the dashboard
+ *
+ * Dates are 'YYYY-MM-DD' strings and computed in UTC so DST never shifts a day.
+ * Timed rules take their dates in the rule's time zone; rules without a time
+ * occur all day on the device's local date.
+ * Weeks start on Monday (RRULE WKST=MO). In YEARLY rules, BYDAY with an ordinal
+ * ("last Friday") counts within each month of BYMONTH, not within the year.
+ */
+
+import type { RecurrenceRule, RecurrenceByDay, RecurrenceFrequency, Weekday } from '@/types';
+import type { ValidationFieldError } from '@/lib/errors';
+import { isValidTimeZone } from './placeholders';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const FREQUENCIES: RecurrenceFrequency[] = ['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'];
+const MAX_INTERVAL = 99;
+const MAX_EXDATES = 100;
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_OF_DAY = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+// Stop expanding after this many periods (protects against rules that never match)
+const MAX_PERIODS = 5000;
+
+export const WEEKDAYS: Weekday[] = ['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU'];
+
+const WEEKDAY_LABELS: Record<Weekday, string> = {
+  MO: 'Mo',
+  TU: 'Di',
+  WE: 'Mi',
+  TH: 'Do',
+  FR: 'Fr',
+  SA: 'Sa',
+  SU: 'So',
+};
+
+const MONTH_LABELS = [
+  'Januar', 'Februar', 'Maerz', 'April', 'Mai', 'Juni',
+  'Juli', 'August', 'September', 'Oktober', 'November', 'Dezember',
+];
+
+// Date helpers (UTC, day precision)
+
+function parseDate(date: string): number {
+  const [year, month, day] = date.split('-').map(Number);
+  return Date.UTC(year, month - 1, day);
+}
+
+function formatDate(time: number): string {
+  return new Date(time).toISOString().slice(0, 10);
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+}
+
+function weekdayOf(time: number): Weekday {
+  // getUTCDay: 0 = Sunday
+  return WEEKDAYS[(new Date(time).getUTCDay() + 6) % 7];
+}
+
+// Time zone helpers (timed rules)
+
+/**
+ * Offset of a time zone from UTC at an instant, in ms
+ */
+function zoneOffset(time: number, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(new Date(time));
+  const value = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find((part) => part.type === type)?.value ?? 0);
+  const local = Date.UTC(value('year'), value('month') - 1, value('day'), value('hour'), value('minute'), value('second'));
+  return local - Math.floor(time / 1000) * 1000;
+}
+
+/**
+ * Date in a time zone at an instant
+ */
+export function dateInZone(time: number, timeZone: string): string {
+  return formatDate(time + zoneOffset(time, timeZone));
+}
+
+/**
+ * Instant of a wall-clock time on a date in a time zone
+ * (times skipped by a DST change resolve with the offset from before it)
+ */
+function zonedTimeToUtc(date: string, time: string, timeZone: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  const local = parseDate(date) + (hours * 60 + minutes) * 60 * 1000;
+  const guess = local - zoneOffset(local, timeZone);
+  return local - zoneOffset(guess, timeZone);
+}
+
+/**
+ * Days of a month matching BYMONTHDAY (negative values count from the end)
+ */
+function monthDaysMatching(year: number, month: number, byMonthDay: number[]): number[] {
+  const length = daysInMonth(year, month);
+  return byMonthDay
+    .map((day) => (day < 0 ? length + day + 1 : day))
+    .filter((day) => day >= 1 && day <= length);
+}
+
+/**
+ * Days of a month matching BYDAY, honouring ordinals (2nd Monday, last Friday)
+ */
+function monthDaysMatchingWeekdays(year: number, month: number, byDay: RecurrenceByDay[]): number[] {
+  const length = daysInMonth(year, month);
+  const days = new Set<number>();
+
+  for (const { day: weekday, nth } of byDay) {
+    const matches: number[] = [];
+    for (let day = 1; day <= length; day++) {
+      if (weekdayOf(Date.UTC(year, month, day)) === weekday) matches.push(day);
+    }
+
+    if (!nth) {
+      matches.forEach((day) => days.add(day));
+    } else {
+      const day = nth > 0 ? matches[nth - 1] : matches[matches.length + nth];
+      if (day !== undefined) days.add(day);
+    }
+  }
+
+  return [...days];
+}
+
+/**
+ * Candidate days of one month for MONTHLY and YEARLY rules
+ */
+function monthCandidates(rule: RecurrenceRule, year: number, month: number, startDay: number): number[] {
+  const hasMonthDay = !!rule.byMonthDay?.length;
+  const hasDay = !!rule.byDay?.length;
+
+  if (hasMonthDay && hasDay) {
+    const weekdays = new Set(monthDaysMatchingWeekdays(year, month, rule.byDay!));
+    return monthDaysMatching(year, month, rule.byMonthDay!).filter((day) => weekdays.has(day));
+  }
+  if (hasMonthDay) return monthDaysMatching(year, month, rule.byMonthDay!);
+  if (hasDay) return monthDaysMatchingWeekdays(year, month, rule.byDay!);
+
+  // Default: the start date's day of month (months without it are skipped)
+  return startDay <= daysInMonth(year, month) ? [startDay] : [];
+}
+
+/**
+ * Candidate dates of the period'th period after the start, unsorted
+ */
+function periodCandidates(rule: RecurrenceRule, start: number, period: number): number[] {
+  const startDate = new Date(start);
+  const startYear = startDate.getUTCFullYear();
+  const startMonth = startDate.getUTCMonth();
+  const startDay = startDate.getUTCDate();
+  const step = period * Math.max(1, rule.interval);
+
+  switch (rule.freq) {
+    case 'DAILY':
+      return [start + step * DAY_MS];
+
+    case 'WEEKLY': {
+      const weekStart = start - WEEKDAYS.indexOf(weekdayOf(start)) * DAY_MS + step * 7 * DAY_MS;
+      const weekdays = rule.byDay?.length ? rule.byDay.map((d) => d.day) : [weekdayOf(start)];
+      return weekdays.map((weekday) => weekStart + WEEKDAYS.indexOf(weekday) * DAY_MS);
+    }
+
+    case 'MONTHLY': {
+      const year = startYear + Math.floor((startMonth + step) / 12);
+      const month = (startMonth + step) % 12;
+      return monthCandidates(rule, year, month, startDay).map((day) => Date.UTC(year, month, day));
+    }
+
+    case 'YEARLY': {
+      const year = startYear + step;
+      const months = rule.byMonth?.length ? rule.byMonth.map((m) => m - 1) : [startMonth];
+      return months.flatMap((month) =>
+        monthCandidates(rule, year, month, startDay).map((day) => Date.UTC(year, month, day))
+      );
+    }
+  }
+}
+
+/**
+ * Index of the period containing (or just before) a date, to skip ahead without COUNT
+ */
+function periodBefore(rule: RecurrenceRule, start: number, time: number): number {
+  if (time <= start) return 0;
+
+  const interval = Math.max(1, rule.interval);
+  const startDate = new Date(start);
+  const date = new Date(time);
+  let periods: number;
+
+  switch (rule.freq) {
+    case 'DAILY':
+      periods = (time - start) / DAY_MS;
+      break;
+    case 'WEEKLY':
+      periods = (time - start) / (7 * DAY_MS);
+      break;
+    case 'MONTHLY':
+      periods =
+        (date.getUTCFullYear() - startDate.getUTCFullYear()) * 12 +
+        date.getUTCMonth() - startDate.getUTCMonth();
+      break;
+    case 'YEARLY':
+      periods = date.getUTCFullYear() - startDate.getUTCFullYear();
+      break;
+  }
+
+  return Math.max(0, Math.floor(periods / interval) - 1);
+}
+
+/**
+ * Check the filters that apply on top of the period expansion
+ */
+function matchesFilters(rule: RecurrenceRule, time: number): boolean {
+  const date = new Date(time);
+
+  if (rule.byMonth?.length && !rule.byMonth.includes(date.getUTCMonth() + 1)) {
+    return false;
+  }
+
+  // DAILY rules use BYDAY / BYMONTHDAY as plain filters
+  if (rule.freq === 'DAILY') {
+    if (rule.byDay?.length && !rule.byDay.some((d) => d.day === weekdayOf(time))) return false;
+    if (rule.byMonthDay?.length) {
+      const year = date.getUTCFullYear();
+      const month = date.getUTCMonth();
+      if (!monthDaysMatching(year, month, rule.byMonthDay).includes(date.getUTCDate())) return false;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Expand a schedule into its occurrence dates
+ * Without a rule the schedule occurs once, on startDate.
+ * @param from - First date to return (earlier occurrences still count towards COUNT)
+ * @param limit - Maximum number of dates to return
+ */
+export function getOccurrences(
+  rule: RecurrenceRule | undefined,
+  startDate: string,
+  { from = startDate, limit }: { from?: string; limit: number }
+): string[] {
+  if (limit <= 0) return [];
+  if (!rule) {
+    return startDate >= from ? [startDate] : [];
+  }
+
+  const start = parseDate(startDate);
+  const fromTime = parseDate(from);
+  const until = rule.until ? parseDate(rule.until) : Infinity;
+  const excluded = new Set(rule.exDates ?? []);
+  const result: string[] = [];
+  let counted = 0;
+
+  // COUNT needs every occurrence since the start; otherwise jump close to `from`
+  const firstPeriod = rule.count === undefined ? periodBefore(rule, start, fromTime) : 0;
+
+  for (let period = firstPeriod; period < firstPeriod + MAX_PERIODS; period++) {
+    const candidates = periodCandidates(rule, start, period)
+      .filter((time) => time >= start && matchesFilters(rule, time))
+      .sort((a, b) => a - b);
+
+    for (const time of candidates) {
+      if (time > until) return result;
+      if (rule.count !== undefined && counted >= rule.count) return result;
+      counted++;
+
+      const date = formatDate(time);
+      if (time >= fromTime && !excluded.has(date)) {
+        result.push(date);
+        if (result.length >= limit) return result;
+      }
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Check whether a schedule has an occurrence on the given date
+ */
+export function occursOn(rule: RecurrenceRule | undefined, startDate: string, date: string): boolean {
+  return getOccurrences(rule, startDate, { from: date, limit: 1 })[0] === date;
+}
+
+/**
+ * Check whether a rule has a time of day
+ */
+export function isTimedRule(rule: RecurrenceRule | undefined): rule is RecurrenceRule & { time: string; timezone: string } {
+  return !!rule?.time && !!rule.timezone;
+}
+
+/**
+ * When an occurrence of a timed rule is shown
+ * @returns null for rules without a time of day (shown all day)
+ */
+export function getOccurrenceTime(rule: RecurrenceRule | undefined, date: string): number | null {
+  return isTimedRule(rule) ? zonedTimeToUtc(date, rule.time, rule.timezone) : null;
+}
+
+/**
+ * First time after an instant at which an occurrence of a timed rule becomes due
+ * @returns null for rules without a time of day or without further occurrences
+ */
+export function getNextOccurrenceTime(rule: RecurrenceRule | undefined, startDate: string, after: number): number | null {
+  if (!isTimedRule(rule)) return null;
+
+  const today = dateInZone(after, rule.timezone);
+  const from = startDate > today ? startDate : today;
+  for (const date of getOccurrences(rule, startDate, { from, limit: 2 })) {
+    const time = zonedTimeToUtc(date, rule.time, rule.timezone);
+    if (time > after) return time;
+  }
+  return null;
+}
+
+// Validation
+
+function isInteger(value: unknown, min: number, max: number): value is number {
+  return Number.isInteger(value) && (value as number) >= min && (value as number) <= max;
+}
+
+/**
+ * Check a YYYY-MM-DD string that names a real calendar day
+ */
+export function isValidDateString(value: unknown): value is string {
+  return typeof value === 'string' && DATE_ONLY.test(value) && formatDate(parseDate(value)) === value;
+}
+
+/**
+ * Validate an untrusted recurrence rule (e.g. from a request body)
+ */
+export function validateRecurrenceRule(value: unknown, fieldName: string): ValidationFieldError[] {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return [{ field: fieldName, message: `${fieldName} must be an object` }];
+  }
+
+  const rule = value as Record<string, unknown>;
+  const errors: ValidationFieldError[] = [];
+  const fail = (field: string, message: string) => errors.push({ field: `${fieldName}.${field}`, message: `${fieldName}.${field} ${message}` });
+
+  if (!FREQUENCIES.includes(rule.freq as RecurrenceFrequency)) {
+    fail('freq', `must be one of: ${FREQUENCIES.join(', ')}`);
+  }
+  if (!isInteger(rule.interval, 1, MAX_INTERVAL)) {
+    fail('interval', `must be an integer between 1 and ${MAX_INTERVAL}`);
+  }
+  if (rule.byDay !== undefined) {
+    const valid =
+      Array.isArray(rule.byDay) &&
+      rule.byDay.every(
+        (entry) =>
+          typeof entry === 'object' &&
+          entry !== null &&
+          WEEKDAYS.includes((entry as RecurrenceByDay).day) &&
+          ((entry as RecurrenceByDay).nth === undefined ||
+            ((entry as RecurrenceByDay).nth !== 0 && isInteger((entry as RecurrenceByDay).nth, -5, 5)))
+      );
+    if (!valid) fail('byDay', 'must be a list of { day, nth? } with day MO-SU and nth between -5 and 5');
+  }
+  if (rule.byMonthDay !== undefined) {
+    const valid = Array.isArray(rule.byMonthDay) && rule.byMonthDay.every((day) => day !== 0 && isInteger(day, -31, 31));
+    if (!valid) fail('byMonthDay', 'must be a list of days between -31 and 31 (not 0)');
+  }
+  if (rule.byMonth !== undefined) {
+    const valid = Array.isArray(rule.byMonth) && rule.byMonth.every((month) => isInteger(month, 1, 12));
+    if (!valid) fail('byMonth', 'must be a list of months between 1 and 12');
+  }
+  if (rule.count !== undefined && !isInteger(rule.count, 1, MAX_PERIODS)) {
+    fail('count', `must be an integer between 1 and ${MAX_PERIODS}`);
+  }
+  if (rule.until !== undefined && !isValidDateString(rule.until)) {
+    fail('until', 'must be a date (YYYY-MM-DD)');
+  }
+  if (rule.count !== undefined && rule.until !== undefined) {
+    fail('count', 'cannot be combined with until');
+  }
+  if (rule.exDates !== undefined) {
+    const valid =
+      Array.isArray(rule.exDates) && rule.exDates.length <= MAX_EXDATES && rule.exDates.every(isValidDateString);
+    if (!valid) fail('exDates', `must be a list of at most ${MAX_EXDATES} dates (YYYY-MM-DD)`);
+  }
+  if (rule.time !== undefined && (typeof rule.time !== 'string' || !TIME_OF_DAY.test(rule.time))) {
+    fail('time', 'must be a time (HH:MM)');
+  }
+  if (rule.timezone !== undefined && (typeof rule.timezone !== 'string' || !isValidTimeZone(rule.timezone))) {
+    fail('timezone', 'must be an IANA time zone name');
+  }
+  if (rule.time !== undefined && rule.timezone === undefined) {
+    fail('timezone', 'is required with time');
+  }
+  if (rule.timezone !== undefined && rule.time === undefined) {
+    fail('time', 'is required with timezone');
+  }
+
+  return errors;
+}
+
+// Summary
+
+function formatShortDate(date: string): string {
+  const [year, month, day] = date.split('-');
+  return `${day}.${month}.${year}`;
+}
+
+function describeWeekday({ day, nth }: RecurrenceByDay): string {
+  if (!nth) return WEEKDAY_LABELS[day];
+  if (nth === -1) return `letzten ${WEEKDAY_LABELS[day]}`;
+  if (nth < 0) return `${-nth}.-letzten ${WEEKDAY_LABELS[day]}`;
+  return `${nth}. ${WEEKDAY_LABELS[day]}`;
+}
+
+function describeDays(rule: RecurrenceRule): string {
+  const parts: string[] = [];
+  if (rule.byMonthDay?.length) {
+    parts.push(rule.byMonthDay.map((day) => (day === -1 ? 'letzten Tag' : day < 0 ? `${-day}.-letzten Tag` : `${day}.`)).join(', '));
+  }
+  if (rule.byDay?.length) {
+    parts.push(rule.byDay.map(describeWeekday).join(', '));
+  }
+  return parts.join(' / ');
+}
+
+/**
+ * Human-readable German summary, e.g. "Alle 2 Wochen am Fr um 09:00 Uhr (Europe/Berlin), bis 31.12.2026"
+ */
+export function describeRecurrence(rule: RecurrenceRule | undefined, startDate: string): string {
+  if (!rule) return `Einmalig am ${formatShortDate(startDate)}`;
+
+  const interval = Math.max(1, rule.interval);
+  const [, startMonth, startDay] = startDate.split('-').map(Number);
+  const days = describeDays(rule);
+  let summary: string;
+
+  const isWorkdays =
+    rule.byDay?.length === 5 &&
+    ['MO', 'TU', 'WE', 'TH', 'FR'].every((day) => rule.byDay!.some((d) => d.day === day && !d.nth));
+
+  switch (rule.freq) {
+    case 'DAILY':
+      summary = interval === 1 ? 'Taeglich' : `Alle ${interval} Tage`;
+      if (isWorkdays) summary = interval === 1 ? 'Werktags' : `${summary}, nur werktags`;
+      else if (days) summary += ` (nur ${days})`;
+      break;
+
+    case 'WEEKLY':
+      if (isWorkdays && interval === 1) {
+        summary = 'Werktags';
+      } else {
+        summary = interval === 1 ? 'Jede Woche' : `Alle ${interval} Wochen`;
+        summary += ` am ${days || WEEKDAY_LABELS[weekdayOf(parseDate(startDate))]}`;
+      }
+      break;
+
+    case 'MONTHLY':
+      summary = interval === 1 ? 'Jeden Monat' : `Alle ${interval} Monate`;
+      summary += ` am ${days || `${startDay}.`}`;
+      break;
+
+    case 'YEARLY': {
+      summary = interval === 1 ? 'Jaehrlich' : `Alle ${interval} Jahre`;
+      const months = rule.byMonth?.length ? rule.byMonth : [startMonth];
+      summary += ` am ${days || `${startDay}.`} ${months.map((m) => MONTH_LABELS[m - 1]).join(', ')}`;
+      break;
+    }
+  }
+
+  if (rule.byMonth?.length && rule.freq !== 'YEARLY') {
+    summary += ` im ${rule.byMonth.map((m) => MONTH_LABELS[m - 1]).join(', ')}`;
+  }
+  if (rule.time) summary += ` um ${rule.time} Uhr${rule.timezone ? ` (${rule.timezone})` : ''}`;
+  if (rule.until) summary += `, bis ${formatShortDate(rule.until)}`;
+  if (rule.count !== undefined) summary += `, ${rule.count} Mal`;
+  if (rule.exDates?.length) {
+    summary += ` (${rule.exDates.length} Ausnahme${rule.exDates.length !== 1 ? 'n' : ''})`;
+  }
+
+  return summary;
+}
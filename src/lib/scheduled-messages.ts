@@ -0,0 +1,448 @@
+/**
+ * CreaBomber Scheduled Messages
+ * Date-based messages (birthdays, holidays) stored in Supabase
+ * - CRUD for the dashboard API (service role, never the anon key)
+ * - Validation of create/update bodies
+ * - Due messages per device and per-occurrence "shown" tracking
+ *   (group and tag targets are resolved against SQLite when the device asks)
+ * - Timed rules are due from their time of day on; devices ask again at nextDueAt
+ */
+
+import { createAdminClient, isAdminConfigured } from './supabase/admin';
+import {
+  occursOn,
+  isValidDateString,
+  validateRecurrenceRule,
+  dateInZone,
+  isTimedRule,
+  getOccurrenceTime,
+  getNextOccurrenceTime,
+} from './recurrence';
+import { getDevices, getDeviceGroup, getDeviceGroups } from './db';
+import { isEmptyTarget, normalizeTags, resolveTargetDevices, validateTags } from './device-targets';
+import {
+  AppError,
+  DatabaseError,
+  NotFoundError,
+  ValidationError,
+  validateRequired,
+  validateString,
+  validateArray,
+  validateEnum,
+  validateUrl,
+  combineValidation,
+  type ValidationResult,
+} from './errors';
+import type {
+  DueScheduledMessage,
+  MessageType,
+  RecurrenceRule,
+  ScheduledMessage,
+  ScheduledMessageFormData,
+  ScheduledMessageRow,
+} from '@/types';
+
+// POLL is not supported - scheduled messages are shown without a server-side message
+const VALID_TYPES = ['TEXT', 'TEXT_IMAGE', 'VIDEO', 'AUDIO'] as const;
+const MAX_CONTENT_LENGTH = 10000;
+const MAX_URL_LENGTH = 2048;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_TARGET_TAGS = 20;
+
+// device_id used by the recurrence migration for occurrences shown before per-device tracking
+const ALL_DEVICES = '*';
+
+// Helper: Convert ScheduledMessageRow to ScheduledMessage
+function rowToScheduledMessage(row: ScheduledMessageRow): ScheduledMessage {
+  return {
+    id: row.id,
+    date: row.date,
+    recurrence: row.recurrence || undefined,
+    type: row.type as MessageType,
+    content: row.content,
+    imageUrl: row.image_url || undefined,
+    videoUrl: row.video_url || undefined,
+    audioUrl: row.audio_url || undefined,
+    videoAutoplay: row.video_autoplay,
+    audioAutoplay: row.audio_autoplay,
+    targetDevices: row.target_devices || undefined,
+    targetGroups: row.target_groups || undefined,
+    targetTags: row.target_tags || undefined,
+    createdAt: new Date(row.created_at),
+    updatedAt: new Date(row.updated_at),
+  };
+}
+
+// Helper: Keep only the known rule fields (bodies are validated, not trusted)
+function normalizeRecurrenceRule(rule: RecurrenceRule): RecurrenceRule {
+  return {
+    freq: rule.freq,
+    interval: rule.interval,
+    byDay: rule.byDay?.map(({ day, nth }) => (nth === undefined ? { day } : { day, nth })),
+    byMonthDay: rule.byMonthDay,
+    byMonth: rule.byMonth,
+    count: rule.count,
+    until: rule.until,
+    exDates: rule.exDates,
+    time: rule.time,
+    timezone: rule.timezone,
+  };
+}
+
+function getClient() {
+  if (!isAdminConfigured()) {
+    throw new AppError('Scheduled messages are not configured', {
+      code: 'NOT_CONFIGURED',
+      statusCode: 503,
+    });
+  }
+  return createAdminClient();
+}
+
+/**
+ * Check whether the Supabase service role credentials are set
+ */
+export function isScheduledMessagesConfigured(): boolean {
+  return isAdminConfigured();
+}
+
+/**
+ * Validate a create (partial = false) or update (partial = true) body
+ */
+export function validateScheduledMessageData(
+  data: Partial<ScheduledMessageFormData>,
+  partial: boolean
+): ValidationResult {
+  const {
+    date,
+    recurrence,
+    type,
+    content,
+    imageUrl,
+    videoUrl,
+    audioUrl,
+    videoAutoplay,
+    audioAutoplay,
+    targetDevices,
+    targetGroups,
+    targetTags,
+  } = data;
+  const has = (value: unknown) => !partial || value !== undefined;
+
+  const validation = combineValidation(
+    partial ? null : validateRequired(date, 'date'),
+    partial ? null : validateRequired(type, 'type'),
+    partial ? null : validateRequired(content, 'content'),
+    has(type) ? validateEnum(type, 'type', [...VALID_TYPES]) : null,
+    has(content) ? validateString(content, 'content', { minLength: 1, maxLength: MAX_CONTENT_LENGTH }) : null
+  );
+
+  if (date !== undefined && !isValidDateString(date)) {
+    validation.errors.push({ field: 'date', message: 'date must be a date (YYYY-MM-DD)' });
+  }
+
+  // null or undefined clears the rule (one-off message)
+  if (recurrence !== undefined && recurrence !== null) {
+    validation.errors.push(...validateRecurrenceRule(recurrence, 'recurrence'));
+    if (isValidDateString(date) && recurrence.until && recurrence.until < date) {
+      validation.errors.push({ field: 'recurrence.until', message: 'recurrence.until must not be before date' });
+    }
+  }
+
+  // Media URLs are required by type on create, optional (but well-formed) on update
+  const urls = { imageUrl, videoUrl, audioUrl };
+  const requiredUrl = { TEXT_IMAGE: 'imageUrl', VIDEO: 'videoUrl', AUDIO: 'audioUrl' }[type as string] as
+    | keyof typeof urls
+    | undefined;
+  if (!partial && requiredUrl) {
+    const error = validateRequired(urls[requiredUrl], requiredUrl);
+    if (error) validation.errors.push(error);
+  }
+  for (const [field, value] of Object.entries(urls)) {
+    if (value === undefined || value === null || value === '') continue;
+    const result = combineValidation(
+      validateString(value, field, { maxLength: MAX_URL_LENGTH }),
+      validateUrl(value, field)
+    );
+    validation.errors.push(...result.errors);
+  }
+
+  if (videoAutoplay !== undefined && typeof videoAutoplay !== 'boolean') {
+    validation.errors.push({ field: 'videoAutoplay', message: 'videoAutoplay must be a boolean' });
+  }
+  if (audioAutoplay !== undefined && typeof audioAutoplay !== 'boolean') {
+    validation.errors.push({ field: 'audioAutoplay', message: 'audioAutoplay must be a boolean' });
+  }
+
+  // Empty or missing = all devices
+  if (targetDevices !== undefined && targetDevices !== null) {
+    const arrayError = validateArray(targetDevices, 'targetDevices');
+    if (arrayError) {
+      validation.errors.push(arrayError);
+    } else if (!targetDevices.every((id) => typeof id === 'string' && id.length > 0)) {
+      validation.errors.push({ field: 'targetDevices', message: 'targetDevices must contain device ids' });
+    }
+  }
+  if (targetGroups !== undefined && targetGroups !== null) {
+    const arrayError = validateArray(targetGroups, 'targetGroups');
+    if (arrayError) {
+      validation.errors.push(arrayError);
+    } else {
+      for (const groupId of targetGroups) {
+        if (typeof groupId !== 'string' || !getDeviceGroup(groupId)) {
+          validation.errors.push({ field: 'targetGroups', message: `Unknown device group: ${groupId}` });
+        }
+      }
+    }
+  }
+  if (targetTags !== undefined && targetTags !== null) {
+    validation.errors.push(...validateTags(targetTags, 'targetTags', MAX_TARGET_TAGS));
+  }
+
+  validation.valid = validation.errors.length === 0;
+  return validation;
+}
+
+/**
+ * Validate the local date a device asks for
+ * Time zones put it at most a day away from the UTC date (UTC-12 to UTC+14)
+ */
+export function validateDeviceDate(date: unknown): ValidationError | null {
+  if (!isValidDateString(date)) {
+    return new ValidationError('date must be a date (YYYY-MM-DD)');
+  }
+
+  const time = Date.parse(`${date}T00:00:00Z`);
+  const now = Date.now();
+  if (time < now - 2 * DAY_MS || time > now + DAY_MS) {
+    return new ValidationError("date must be the device's current date");
+  }
+  return null;
+}
+
+/**
+ * Get all scheduled messages, ordered by first date
+ */
+export async function listScheduledMessages(): Promise<ScheduledMessage[]> {
+  const { data, error } = await getClient()
+    .from('scheduled_messages')
+    .select('*')
+    .order('date', { ascending: true });
+
+  if (error) {
+    throw new DatabaseError('Failed to load scheduled messages', error);
+  }
+
+  return (data as ScheduledMessageRow[]).map(rowToScheduledMessage);
+}
+
+/**
+ * Get a single scheduled message
+ * @throws NotFoundError if it doesn't exist
+ */
+export async function getScheduledMessage(id: string): Promise<ScheduledMessage> {
+  const { data, error } = await getClient()
+    .from('scheduled_messages')
+    .select('*')
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error) {
+    throw new DatabaseError('Failed to load scheduled message', error);
+  }
+  if (!data) {
+    throw new NotFoundError('Scheduled message', id);
+  }
+
+  return rowToScheduledMessage(data as ScheduledMessageRow);
+}
+
+/**
+ * Create a scheduled message (data must be validated)
+ */
+export async function createScheduledMessage(data: ScheduledMessageFormData): Promise<ScheduledMessage> {
+  const { data: row, error } = await getClient()
+    .from('scheduled_messages')
+    .insert({
+      date: data.date,
+      recurrence: data.recurrence ? normalizeRecurrenceRule(data.recurrence) : null,
+      type: data.type,
+      content: data.content,
+      image_url: data.imageUrl || null,
+      video_url: data.videoUrl || null,
+      audio_url: data.audioUrl || null,
+      video_autoplay: data.videoAutoplay || false,
+      audio_autoplay: data.audioAutoplay || false,
+      target_devices: data.targetDevices?.length ? data.targetDevices : null,
+      target_groups: data.targetGroups?.length ? data.targetGroups : null,
+      target_tags: data.targetTags?.length ? normalizeTags(data.targetTags) : null,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    throw new DatabaseError('Failed to create scheduled message', error);
+  }
+
+  return rowToScheduledMessage(row as ScheduledMessageRow);
+}
+
+/**
+ * Update the given fields of a scheduled message (data must be validated)
+ * A null recurrence turns the message into a one-off
+ * @throws NotFoundError if it doesn't exist
+ */
+export async function updateScheduledMessage(
+  id: string,
+  data: Partial<ScheduledMessageFormData>
+): Promise<ScheduledMessage> {
+  const updateData: Record<string, unknown> = {};
+  if (data.date !== undefined) updateData.date = data.date;
+  if ('recurrence' in data) updateData.recurrence = data.recurrence ? normalizeRecurrenceRule(data.recurrence) : null;
+  if (data.type !== undefined) updateData.type = data.type;
+  if (data.content !== undefined) updateData.content = data.content;
+  if (data.imageUrl !== undefined) updateData.image_url = data.imageUrl || null;
+  if (data.videoUrl !== undefined) updateData.video_url = data.videoUrl || null;
+  if (data.audioUrl !== undefined) updateData.audio_url = data.audioUrl || null;
+  if (data.videoAutoplay !== undefined) updateData.video_autoplay = data.videoAutoplay;
+  if (data.audioAutoplay !== undefined) updateData.audio_autoplay = data.audioAutoplay;
+  if (data.targetDevices !== undefined) updateData.target_devices = data.targetDevices?.length ? data.targetDevices : null;
+  if (data.targetGroups !== undefined) updateData.target_groups = data.targetGroups?.length ? data.targetGroups : null;
+  if (data.targetTags !== undefined) updateData.target_tags = data.targetTags?.length ? normalizeTags(data.targetTags) : null;
+
+  const { data: row, error } = await getClient()
+    .from('scheduled_messages')
+    .update(updateData)
+    .eq('id', id)
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    throw new DatabaseError('Failed to update scheduled message', error);
+  }
+  if (!row) {
+    throw new NotFoundError('Scheduled message', id);
+  }
+
+  return rowToScheduledMessage(row as ScheduledMessageRow);
+}
+
+/**
+ * Delete a scheduled message (its shown occurrences cascade)
+ * @throws NotFoundError if it doesn't exist
+ */
+export async function deleteScheduledMessage(id: string): Promise<void> {
+  const { data, error } = await getClient()
+    .from('scheduled_messages')
+    .delete()
+    .eq('id', id)
+    .select('id');
+
+  if (error) {
+    throw new DatabaseError('Failed to delete scheduled message', error);
+  }
+  if (!data || data.length === 0) {
+    throw new NotFoundError('Scheduled message', id);
+  }
+}
+
+// Messages due on a device and when it should ask again
+export interface DueScheduledMessages {
+  messages: DueScheduledMessage[];
+  nextDueAt: number | null;  // next time of day a timed occurrence becomes due (ms)
+}
+
+/**
+ * Get the messages a device should show now
+ * Rules without a time are due all day on the device's local date, timed rules from
+ * their time on (on today's date in the rule's time zone)
+ * Skips other devices' messages and occurrences already shown on this device
+ */
+export async function getDueScheduledMessages(
+  deviceId: string,
+  date: string,
+  now = Date.now()
+): Promise<DueScheduledMessages> {
+  const supabase = getClient();
+
+  // Occurrences are expanded here, so fetch every message that has started
+  // (timed rules may already be a day ahead of the device, up to UTC+14)
+  const latestDate = [date, dateInZone(now, 'Etc/GMT-14')].sort()[1];
+  const { data, error } = await supabase
+    .from('scheduled_messages')
+    .select('*')
+    .lte('date', latestDate);
+
+  if (error) {
+    throw new DatabaseError('Failed to load scheduled messages', error);
+  }
+
+  const devices = getDevices();
+  const groups = getDeviceGroups();
+
+  // No devices, groups or tags = all devices
+  const isTargeted = (msg: ScheduledMessage) => {
+    const target = { deviceIds: msg.targetDevices, groupIds: msg.targetGroups, tags: msg.targetTags };
+    return isEmptyTarget(target) || resolveTargetDevices(target, devices, groups).includes(deviceId);
+  };
+
+  const candidates = (data as ScheduledMessageRow[])
+    .map(rowToScheduledMessage)
+    .filter(isTargeted)
+    .map((msg): DueScheduledMessage => ({
+      ...msg,
+      occurrenceDate: isTimedRule(msg.recurrence) ? dateInZone(now, msg.recurrence.timezone) : date,
+    }));
+
+  const occurrenceDates = [...new Set(candidates.map((msg) => msg.occurrenceDate))];
+  const { data: shown, error: shownError } = await supabase
+    .from('scheduled_message_occurrences')
+    .select('scheduled_message_id, occurrence_date')
+    .in('occurrence_date', occurrenceDates.length > 0 ? occurrenceDates : [date])
+    .in('device_id', [deviceId, ALL_DEVICES]);
+
+  if (shownError) {
+    throw new DatabaseError('Failed to load shown occurrences', shownError);
+  }
+
+  const shownKeys = new Set(
+    (shown as { scheduled_message_id: string; occurrence_date: string }[]).map(
+      (row) => `${row.scheduled_message_id}:${row.occurrence_date}`
+    )
+  );
+
+  const messages = candidates.filter(
+    (msg) =>
+      !shownKeys.has(`${msg.id}:${msg.occurrenceDate}`) &&
+      occursOn(msg.recurrence, msg.date, msg.occurrenceDate) &&
+      (getOccurrenceTime(msg.recurrence, msg.occurrenceDate) ?? now) <= now
+  );
+
+  const nextDueTimes = candidates
+    .map((msg) => getNextOccurrenceTime(msg.recurrence, msg.date, now))
+    .filter((time): time is number => time !== null);
+
+  return {
+    messages,
+    nextDueAt: nextDueTimes.length > 0 ? Math.min(...nextDueTimes) : null,
+  };
+}
+
+/**
+ * Record an occurrence as shown on a device (repeated calls are ignored)
+ * @throws NotFoundError if the message doesn't exist
+ */
+export async function markOccurrenceShown(id: string, date: string, deviceId: string): Promise<void> {
+  await getScheduledMessage(id);
+
+  const { error } = await getClient()
+    .from('scheduled_message_occurrences')
+    .upsert(
+      { scheduled_message_id: id, occurrence_date: date, device_id: deviceId },
+      { onConflict: 'scheduled_message_id,occurrence_date,device_id', ignoreDuplicates: true }
+    );
+
+  if (error) {
+    throw new DatabaseError('Failed to record shown occurrence', error);
+  }
+}
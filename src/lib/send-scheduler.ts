@@ -0,0 +1,165 @@
+/**
+ * CreaBomber Send Scheduler
+ * Background job that sends scheduled one-off messages when they are due
+ * - pending: waiting for sendAt
+ * - claimed: message created, dispatch in progress
+ * - sent: dispatched through the same path as POST /api/messages
+ * - failed: could not be sent (error recorded on the job)
+ *
+ * Claiming a job and creating its message happen in one transaction, so a
+ * restart never sends a job twice; claimed jobs left over from a restart are
+ * dispatched on the next run if their deliveries were never created.
+ */
+
+import {
+  db,
+  createMessage,
+  getMessage,
+  getMessageDeliveries,
+  getDueScheduledSends,
+  getStaleClaimedSends,
+  claimScheduledSend,
+  setScheduledSendMessage,
+  markScheduledSendSent,
+  markScheduledSendFailed,
+} from './db';
+import { dispatchMessage, resolveMessageTarget } from './message-dispatch';
+import { emitToDashboard } from './socket-server';
+import type { Message, ScheduledSend } from '@/types';
+
+const SCHEDULER_INTERVAL = 10000; // 10 seconds
+
+// Claimed jobs older than this are treated as interrupted by a restart
+const STALE_CLAIM_AGE = 60000; // 1 minute
+
+let schedulerInterval: NodeJS.Timeout | null = null;
+
+/**
+ * Claim a due job and create its message
+ * @returns The created message, or null if the job was already claimed
+ */
+function claimAndCreateMessage(job: ScheduledSend, timestamp: number): Message | null {
+  const claim = db.transaction((): Message | null => {
+    if (!claimScheduledSend(job.id, timestamp)) return null;
+
+    // Groups and tags are resolved now, so membership changes since scheduling apply
+    const { type, content, targetDevices: deviceIds, targetGroups, targetTags, ...options } = job.message;
+    const { targetDevices, target } = resolveMessageTarget({ deviceIds, groupIds: targetGroups, tags: targetTags });
+    if (targetDevices.length === 0) {
+      throw new Error('target matches no devices');
+    }
+
+    const message = createMessage(type, content, targetDevices, {
+      ...options,
+      target,
+      senderId: job.senderId,
+    });
+    setScheduledSendMessage(job.id, message.id);
+    return message;
+  });
+
+  return claim();
+}
+
+/**
+ * Dispatch the message of a claimed job and mark the job as sent
+ */
+function sendClaimedMessage(jobId: string, message: Message): void {
+  dispatchMessage(message);
+  markScheduledSendSent(jobId);
+  emitToDashboard('message:created', { message });
+
+  console.log(`[Scheduler] Scheduled send ${jobId} dispatched as message ${message.id}`);
+}
+
+/**
+ * Finish jobs that were claimed but not marked as sent before a restart
+ */
+function recoverStaleClaims(now: number): number {
+  const stale = getStaleClaimedSends(now - STALE_CLAIM_AGE);
+
+  for (const job of stale) {
+    try {
+      const message = job.messageId ? getMessage(job.messageId) : null;
+
+      if (!message) {
+        markScheduledSendFailed(job.id, 'message missing');
+        console.warn(`[Scheduler] Scheduled send ${job.id} failed: message missing`);
+        continue;
+      }
+
+      // Deliveries exist: the message was dispatched, offline devices get it from the outbox
+      if (getMessageDeliveries(message.id).length > 0) {
+        markScheduledSendSent(job.id, now);
+        continue;
+      }
+
+      sendClaimedMessage(job.id, message);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : 'unknown error';
+      markScheduledSendFailed(job.id, reason);
+      console.error(`[Scheduler] Recovery of scheduled send ${job.id} failed:`, error);
+    }
+  }
+
+  return stale.length;
+}
+
+/**
+ * Run a single scheduler pass
+ * @returns Number of scheduled sends dispatched or recovered
+ */
+export function runScheduledSends(): number {
+  const now = Date.now();
+  let count = recoverStaleClaims(now);
+
+  for (const job of getDueScheduledSends(now)) {
+    try {
+      const message = claimAndCreateMessage(job, now);
+      if (!message) continue;
+
+      sendClaimedMessage(job.id, message);
+      count++;
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : 'unknown error';
+      markScheduledSendFailed(job.id, reason);
+      console.error(`[Scheduler] Scheduled send ${job.id} failed:`, error);
+    }
+  }
+
+  return count;
+}
+
+/**
+ * Start the periodic scheduler
+ */
+export function startSendScheduler(): void {
+  if (schedulerInterval) return;
+
+  // Catch up on sends that came due while the server was down
+  try {
+    runScheduledSends();
+  } catch (error) {
+    console.error('[Scheduler] Run failed:', error);
+  }
+
+  schedulerInterval = setInterval(() => {
+    try {
+      runScheduledSends();
+    } catch (error) {
+      console.error('[Scheduler] Run failed:', error);
+    }
+  }, SCHEDULER_INTERVAL);
+
+  console.log('[Scheduler] Send scheduler started');
+}
+
+/**
+ * Stop the periodic scheduler
+ */
+export function stopSendScheduler(): void {
+  if (schedulerInterval) {
+    clearInterval(schedulerInterval);
+    schedulerInterval = null;
+  }
+}
@@ -7,24 +7,55 @@ import { Server as HttpServer } from 'http';
 import { Server, Socket } from 'socket.io';
 import {
   getDevices,
+  getDevice,
   updateDeviceStatus,
   upsertDevice,
+  setDeviceDnd,
   createMessage,
-  updateMessageStatus,
-  createMessageDeliveries,
   updateDeliveryStatus,
+  updateDeliveryLifecycle,
+  expireDelivery,
+  removeOutboxMessage,
   recalculateMessageStatus,
   getMessageWithDeliveries,
+  getMessage,
+  upsertMessageReply,
+  upsertPollVote,
 } from './db';
+import { redeemEnrollmentCode, verifyDeviceSecret } from './device-auth';
+import { dispatchMessage, replayOutbox, releaseHeldMessages } from './message-dispatch';
+import { consumeRateLimit } from './rate-limit';
+import { prepareMessageRequest, type MessageRequest } from './message-request';
+import { ValidationError, getErrorMessage } from './errors';
+import type { CreateMessageBody } from './message-validation';
+import { emitWebhookEvent } from './webhooks';
+import { apiKeyHasPermission } from './api-keys';
+import { getSocketUser, getSocketApiKeyUser } from './auth/getSocketUser';
+import { hasPermission, type Permission } from './auth/permissions';
+import type { AuthUser } from './auth/getUser';
+import { MessageType } from '@/types';
 import type {
   DeviceRegistration,
-  MessagePayload,
+  DeviceEnrollmentRequest,
+  DeviceDndPayload,
+  MessagePriority,
   Device,
-  MessageType,
   DeliveryAckPayload,
+  DeliveryLifecycleEvent,
+  DeliveryLifecyclePayload,
+  MessageReplyPayload,
+  PollVotePayload,
   DeliveryStatusUpdate,
+  DeviceDeliveryStatus,
+  MessageStatus,
 } from '@/types';
 
+// Room joined by authenticated dashboard users (receives status broadcasts)
+const DASHBOARD_ROOM = 'dashboard';
+
+// Maximum length of a free-text reply typed on a device
+const MAX_FREE_TEXT_LENGTH = 500;
+
 // Store socket-to-device mapping
 const socketDeviceMap = new Map<string, string>();
 
@@ -64,9 +95,23 @@ export function initSocketServer(httpServer: HttpServer, corsOrigins?: string[])
     pingInterval: 10000,
   });
 
+  // Authenticate device credentials or dashboard session during the handshake
+  global.__socketIO.use(authenticateSocket);
+
   global.__socketIO.on('connection', (socket: Socket) => {
     console.log(`[Socket] Client connected: ${socket.id}`);
 
+    // Dashboard users with view access receive status broadcasts (API keys need the history scope)
+    const user = getSocketAuthUser(socket);
+    if (user && (user.apiKey ? user.apiKey.scopes.includes('history') : hasPermission(user.role, 'view'))) {
+      socket.join(DASHBOARD_ROOM);
+    }
+
+    // Handle device enrollment (exchange one-time code for device secret)
+    socket.on('device:enroll', (data: DeviceEnrollmentRequest) => {
+      handleDeviceEnroll(socket, data);
+    });
+
     // Handle device registration
     socket.on('device:register', (data: DeviceRegistration) => {
       handleDeviceRegister(socket, data);
@@ -77,8 +122,14 @@ export function initSocketServer(httpServer: HttpServer, corsOrigins?: string[])
       handleDeviceHeartbeat(socket);
     });
 
+    // Handle the do-not-disturb toggle in the device's tray menu
+    socket.on('device:dnd', (payload: DeviceDndPayload) => {
+      handleDeviceDnd(socket, payload);
+    });
+
     // Handle message sending
-    socket.on('message:send', (payload: MessagePayload) => {
+    socket.on('message:send', (payload: CreateMessageBody) => {
+      if (!authorizeEvent(socket, 'message:send', 'send')) return;
       handleMessageSend(socket, payload);
     });
 
@@ -87,6 +138,39 @@ export function initSocketServer(httpServer: HttpServer, corsOrigins?: string[])
       handleMessageDelivered(socket, payload);
     });
 
+    // Handle read receipts from client (notification lifecycle)
+    socket.on('message:displayed', (payload: DeliveryLifecyclePayload) => {
+      handleDeliveryLifecycle(socket, 'displayed', payload);
+    });
+
+    socket.on('message:dismissed', (payload: DeliveryLifecyclePayload) => {
+      handleDeliveryLifecycle(socket, 'dismissed', payload);
+    });
+
+    socket.on('message:auto-expired', (payload: DeliveryLifecyclePayload) => {
+      handleDeliveryLifecycle(socket, 'auto-expired', payload);
+    });
+
+    // Handle messages dropped by the client because they expired before being shown
+    socket.on('message:expired', (payload: DeliveryAckPayload) => {
+      handleMessageExpired(socket, payload);
+    });
+
+    // Handle explicit acknowledgement of urgent messages
+    socket.on('message:acknowledged', (payload: DeliveryAckPayload) => {
+      handleMessageAcknowledged(socket, payload);
+    });
+
+    // Handle quick-reply / free-text replies from clients
+    socket.on('message:reply', (payload: MessageReplyPayload) => {
+      handleMessageReply(socket, payload);
+    });
+
+    // Handle poll votes from clients
+    socket.on('message:vote', (payload: PollVotePayload) => {
+      handlePollVote(socket, payload);
+    });
+
     // Handle disconnection
     socket.on('disconnect', () => {
       handleDisconnect(socket);
@@ -97,6 +181,123 @@ export function initSocketServer(httpServer: HttpServer, corsOrigins?: string[])
   return global.__socketIO;
 }
 
+/**
+ * Socket.io handshake middleware
+ * - Sockets presenting device credentials must match the stored secret
+ * - Sockets presenting an API key (auth.apiKey) must present a valid one
+ * - Other sockets are resolved to a dashboard user via the Supabase session cookie
+ * - Sockets with neither connect unauthenticated (enrolling devices)
+ */
+async function authenticateSocket(socket: Socket, next: (err?: Error) => void): Promise<void> {
+  const { deviceId, deviceSecret, apiKey } = (socket.handshake.auth ?? {}) as {
+    deviceId?: string;
+    deviceSecret?: string;
+    apiKey?: string;
+  };
+
+  if (apiKey !== undefined) {
+    const user = typeof apiKey === 'string' ? getSocketApiKeyUser(apiKey) : null;
+    if (!user) {
+      console.warn(`[Socket] Rejected API key handshake: ${socket.id}`);
+      next(new Error('Invalid API key'));
+      return;
+    }
+    socket.data.user = user;
+    next();
+    return;
+  }
+
+  if (!deviceId && !deviceSecret) {
+    try {
+      const user = await getSocketUser(socket.handshake.headers.cookie);
+      if (user) {
+        socket.data.user = user;
+      }
+    } catch (error) {
+      console.error('[Socket] Failed to resolve dashboard session:', error);
+    }
+    next();
+    return;
+  }
+
+  if (
+    typeof deviceId !== 'string' ||
+    typeof deviceSecret !== 'string' ||
+    !verifyDeviceSecret(deviceId, deviceSecret)
+  ) {
+    console.warn(`[Socket] Rejected device handshake: ${deviceId ?? 'unknown'}`);
+    next(new Error('Invalid device credentials'));
+    return;
+  }
+
+  socket.data.deviceId = deviceId;
+  next();
+}
+
+/**
+ * Get the dashboard user attached to a socket during the handshake
+ */
+function getSocketAuthUser(socket: Socket): AuthUser | null {
+  return (socket.data.user as AuthUser | undefined) ?? null;
+}
+
+/**
+ * Check a dashboard event against the role matrix
+ * Emits 'socket:error' to the sender if the event is not allowed
+ */
+function authorizeEvent(socket: Socket, event: string, permission: Permission): boolean {
+  const user = getSocketAuthUser(socket);
+
+  if (!user) {
+    console.warn(`[Socket] Rejected ${event} from unauthenticated socket: ${socket.id}`);
+    socket.emit('socket:error', { event, error: 'Unauthorized' });
+    return false;
+  }
+
+  if (user.apiKey ? !apiKeyHasPermission(user.apiKey, permission) : !hasPermission(user.role, permission)) {
+    console.warn(`[Socket] Rejected ${event} from ${user.apiKey?.name ?? user.email} (role: ${user.role})`);
+    socket.emit('socket:error', { event, error: 'Forbidden' });
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Check that a device event comes from the socket authenticated as that device
+ */
+function isAuthenticatedDevice(socket: Socket, deviceId: string): boolean {
+  return !!deviceId && socket.data.deviceId === deviceId;
+}
+
+/**
+ * Handle device enrollment
+ * - Redeem the one-time code
+ * - Authenticate this socket as the enrolled device
+ * - Return the long-lived device secret to the client
+ */
+function handleDeviceEnroll(socket: Socket, data: DeviceEnrollmentRequest): void {
+  const { code, deviceId, deviceName, hostname } = data ?? {};
+
+  if (!code || !deviceId || !deviceName || !hostname) {
+    socket.emit('device:enroll:error', { error: 'code, deviceId, deviceName and hostname are required' });
+    return;
+  }
+
+  const deviceSecret = redeemEnrollmentCode(code, { deviceId, deviceName, hostname });
+
+  if (!deviceSecret) {
+    console.warn(`[Socket] Enrollment failed for device ${deviceId}: invalid or expired code`);
+    socket.emit('device:enroll:error', { error: 'Invalid or expired enrollment code' });
+    return;
+  }
+
+  console.log(`[Socket] Device enrolled: ${deviceName} (${deviceId})`);
+
+  socket.data.deviceId = deviceId;
+  socket.emit('device:enrolled', { deviceId, deviceSecret });
+}
+
 /**
  * Handle device registration
  * - Upsert device in database
@@ -104,12 +305,22 @@ export function initSocketServer(httpServer: HttpServer, corsOrigins?: string[])
  * - Broadcast updated device list
  */
 function handleDeviceRegister(socket: Socket, data: DeviceRegistration): void {
-  const { deviceId, deviceName, hostname } = data;
+  const { deviceId, deviceName, hostname, dnd } = data;
+
+  if (!isAuthenticatedDevice(socket, deviceId)) {
+    console.warn(`[Socket] Rejected registration for unauthenticated device: ${deviceId}`);
+    socket.emit('device:auth:error', { error: 'Device is not enrolled' });
+    return;
+  }
 
   console.log(`[Socket] Device registering: ${deviceName} (${deviceId})`);
 
   // Upsert device in database (creates if new, updates if existing)
+  const wasOnline = getDevice(deviceId)?.status === 'online';
   const device = upsertDevice(deviceId, deviceName, hostname);
+  if (typeof dnd === 'boolean') {
+    setDeviceDnd(deviceId, dnd);
+  }
 
   // Map socket to device
   socketDeviceMap.set(socket.id, deviceId);
@@ -126,6 +337,14 @@ function handleDeviceRegister(socket: Socket, data: DeviceRegistration): void {
   // Notify client of successful registration
   socket.emit('device:registered', { device });
 
+  // Reconnects within the heartbeat timeout are not a status change
+  if (!wasOnline) {
+    emitWebhookEvent('device.online', device);
+  }
+
+  // Deliver messages queued while the device was offline (held ones stay queued during DND)
+  replayOutbox(deviceId);
+
   // Broadcast updated device list to all clients
   broadcastDeviceList();
 }
@@ -150,17 +369,77 @@ function handleDeviceHeartbeat(socket: Socket): void {
   resetHeartbeatTimeout(deviceId);
 }
 
+/**
+ * Handle the do-not-disturb toggle from a device
+ * - Store the new state
+ * - Release held messages if DND ended
+ * - Broadcast updated device list
+ */
+function handleDeviceDnd(socket: Socket, payload: DeviceDndPayload): void {
+  const { deviceId, enabled } = payload ?? {};
+
+  if (!isAuthenticatedDevice(socket, deviceId) || typeof enabled !== 'boolean') {
+    console.warn(`[Socket] Rejected do-not-disturb change from socket: ${socket.id}`);
+    return;
+  }
+
+  setDeviceDnd(deviceId, enabled);
+  console.log(`[Socket] Do-not-disturb ${enabled ? 'enabled' : 'disabled'} on device ${deviceId}`);
+
+  releaseHeldMessages();
+  broadcastDeviceList();
+}
+
 /**
  * Handle message sending
+ * - Validate the payload and resolve its targets (same checks as POST /api/messages)
  * - Save message to database
- * - Create delivery records for each target device
- * - Broadcast to target device rooms
- * - Update message status
+ * - Dispatch to target devices (delivery records, outbox, broadcast)
  */
-function handleMessageSend(socket: Socket, payload: MessagePayload): void {
-  const { id, type, content, targetDevices, imageUrl, videoUrl, audioUrl, audioAutoplay } = payload;
+function handleMessageSend(socket: Socket, payload: CreateMessageBody): void {
+  const sender = getSocketAuthUser(socket);
+  if (!sender) return;
+  const senderName = sender.apiKey?.name ?? sender.email;
+
+  let request: MessageRequest;
+  try {
+    if (payload?.sendAt !== undefined) {
+      throw new ValidationError('sendAt is only supported by POST /api/messages');
+    }
+    request = prepareMessageRequest(payload, sender, senderName);
+  } catch (error) {
+    console.warn(`[Socket] Rejected message from ${senderName}: ${getErrorMessage(error)}`);
+    socket.emit('socket:error', { event: 'message:send', error: getErrorMessage(error) });
+    return;
+  }
 
-  console.log(`[Socket] Message received: ${id} -> ${targetDevices.join(', ')}`);
+  const {
+    type,
+    content,
+    imageUrl,
+    videoUrl,
+    audioUrl,
+    audioAutoplay,
+    replyOptions,
+    allowFreeText,
+    pollOptions,
+    overrideDnd = false,
+    priority = 'normal',
+  } = payload;
+  const { targetDevices, target, pollClosesAt, expiresAt, placeholders } = request;
+
+  console.log(`[Socket] Message received -> ${targetDevices.join(', ')} (from ${senderName})`);
+
+  const rateLimitError = consumeRateLimit({ senderId: sender.id, senderLabel: senderName, deviceIds: targetDevices });
+  if (rateLimitError) {
+    console.warn(`[Socket] Rate limited message from ${senderName}: ${rateLimitError.message}`);
+    socket.emit('socket:error', {
+      event: 'message:send',
+      error: rateLimitError.message,
+      retryAfter: rateLimitError.retryAfter,
+    });
+    return;
+  }
 
   // Save message to database
   const message = createMessage(type as MessageType, content, targetDevices, {
@@ -168,24 +447,21 @@ function handleMessageSend(socket: Socket, payload: MessagePayload): void {
     videoUrl,
     audioUrl,
     audioAutoplay,
+    replyOptions,
+    allowFreeText,
+    pollOptions: type === 'POLL' ? pollOptions : undefined,
+    pollClosesAt: type === 'POLL' ? pollClosesAt ?? undefined : undefined,
+    expiresAt: expiresAt ?? undefined,
+    overrideDnd,
+    priority: priority as MessagePriority,
+    target: target ?? undefined,
+    placeholders,
+    senderId: sender.id,
+    senderName,
   });
 
-  // Create delivery records for each target device
-  createMessageDeliveries(message.id, targetDevices, 'sent');
-
-  // Emit to each target device room
-  for (const deviceId of targetDevices) {
-    if (global.__socketIO) {
-      global.__socketIO.to(`device:${deviceId}`).emit('message:receive', {
-        ...payload,
-        id: message.id,
-        timestamp: message.createdAt.getTime(),
-      });
-    }
-  }
-
-  // Update message status to sent
-  updateMessageStatus(message.id, 'sent');
+  // Create delivery records, queue for offline devices and broadcast
+  dispatchMessage(message);
 
   // Notify sender of successful send
   socket.emit('message:sent', { messageId: message.id });
@@ -200,8 +476,16 @@ function handleMessageSend(socket: Socket, payload: MessagePayload): void {
 function handleMessageDelivered(socket: Socket, payload: DeliveryAckPayload): void {
   const { messageId, deviceId, timestamp } = payload;
 
+  if (!isAuthenticatedDevice(socket, deviceId)) {
+    console.warn(`[Socket] Rejected delivery ack for ${messageId} from unauthenticated socket: ${socket.id}`);
+    return;
+  }
+
   console.log(`[Socket] Delivery acknowledged: ${messageId} by device ${deviceId}`);
 
+  // Acknowledged - no need to replay this message again
+  removeOutboxMessage(messageId, deviceId);
+
   // Update delivery status in database
   const updated = updateDeliveryStatus(messageId, deviceId, 'delivered', timestamp);
 
@@ -210,31 +494,199 @@ function handleMessageDelivered(socket: Socket, payload: DeliveryAckPayload): vo
     return;
   }
 
-  // Recalculate and update overall message status
-  const overallStatus = recalculateMessageStatus(messageId);
+  // Recalculate overall status and notify the dashboard
+  const overallStatus = broadcastDeliveryUpdate(messageId, deviceId, 'delivered', timestamp);
+
+  console.log(`[Socket] Message ${messageId} overall status: ${overallStatus}`);
+}
+
+/**
+ * Handle acknowledgement of an urgent message (user confirmed the full-screen notification)
+ * - Store it as its own delivery state
+ * - Broadcast delivery status update to dashboard
+ */
+function handleMessageAcknowledged(socket: Socket, payload: DeliveryAckPayload): void {
+  const { messageId, deviceId, timestamp } = payload;
+
+  if (!isAuthenticatedDevice(socket, deviceId)) {
+    console.warn(`[Socket] Rejected acknowledgement for ${messageId} from unauthenticated socket: ${socket.id}`);
+    return;
+  }
+
+  const message = getMessage(messageId);
+  if (!message || message.priority !== 'urgent') {
+    console.warn(`[Socket] Rejected acknowledgement from device ${deviceId} for non-urgent message ${messageId}`);
+    return;
+  }
+
+  removeOutboxMessage(messageId, deviceId);
+
+  const updated = updateDeliveryStatus(messageId, deviceId, 'acknowledged', timestamp);
+  if (!updated) {
+    console.warn(`[Socket] No delivery record for acknowledgement: message ${messageId}, device ${deviceId}`);
+    return;
+  }
+
+  console.log(`[Socket] Urgent message ${messageId} acknowledged on device ${deviceId}`);
+
+  broadcastDeliveryUpdate(messageId, deviceId, 'acknowledged', timestamp);
+}
+
+/**
+ * Handle a message the client dropped because it expired before it could be shown
+ * - Fail the delivery with reason 'expired'
+ * - Broadcast delivery status update to dashboard
+ */
+function handleMessageExpired(socket: Socket, payload: DeliveryAckPayload): void {
+  const { messageId, deviceId, timestamp } = payload;
+
+  if (!isAuthenticatedDevice(socket, deviceId)) {
+    console.warn(`[Socket] Rejected expiry report for ${messageId} from unauthenticated socket: ${socket.id}`);
+    return;
+  }
+
+  removeOutboxMessage(messageId, deviceId);
+
+  const failedAt = timestamp || Date.now();
+  if (!expireDelivery(messageId, deviceId, failedAt)) {
+    console.warn(`[Socket] No open delivery for expiry report: message ${messageId}, device ${deviceId}`);
+    return;
+  }
+
+  console.log(`[Socket] Message ${messageId} expired on device ${deviceId} before it was shown`);
+
+  broadcastDeliveryUpdate(messageId, deviceId, 'failed', failedAt);
+}
+
+/**
+ * Handle read receipts from client
+ * - Store displayed / dismissed / auto-expired timestamps and visible duration
+ * - Broadcast the updated message to the dashboard
+ */
+function handleDeliveryLifecycle(
+  socket: Socket,
+  event: DeliveryLifecycleEvent,
+  payload: DeliveryLifecyclePayload
+): void {
+  const { messageId, deviceId, timestamp, visibleMs } = payload;
+
+  if (!isAuthenticatedDevice(socket, deviceId)) {
+    console.warn(`[Socket] Rejected ${event} receipt for ${messageId} from unauthenticated socket: ${socket.id}`);
+    return;
+  }
+
+  const visibleDuration =
+    typeof visibleMs === 'number' && visibleMs >= 0 ? Math.round(visibleMs) : undefined;
+
+  const updated = updateDeliveryLifecycle(
+    messageId,
+    deviceId,
+    event,
+    timestamp || Date.now(),
+    visibleDuration
+  );
+
+  if (!updated) {
+    console.warn(`[Socket] Ignored ${event} receipt without an open delivery: message ${messageId}, device ${deviceId}`);
+    return;
+  }
+
+  console.log(`[Socket] Message ${messageId} ${event} on device ${deviceId}`);
+
+  if (event === 'displayed') {
+    // Seen implies delivered, even if the ack got lost
+    removeOutboxMessage(messageId, deviceId);
+    broadcastDeliveryUpdate(messageId, deviceId, 'delivered', timestamp);
+    return;
+  }
 
-  // Get updated message with deliveries
   const message = getMessageWithDeliveries(messageId);
+  if (message) {
+    emitToDashboard('message:updated', { message });
+  }
+}
 
-  // Broadcast delivery status update to all dashboard clients
-  if (global.__socketIO) {
-    const statusUpdate: DeliveryStatusUpdate = {
-      messageId,
-      deviceId,
-      status: 'delivered',
-      timestamp,
-      overallStatus,
-    };
-
-    global.__socketIO.emit('message:delivery:update', statusUpdate);
-
-    // Also broadcast the full updated message for dashboard to update its state
-    if (message) {
-      global.__socketIO.emit('message:updated', { message });
+/**
+ * Handle a reply from client
+ * - Accept one of the message's reply options, or free text if the message allows it
+ * - Store the reply (a later reply from the same device replaces the earlier one)
+ * - Broadcast the updated message to the dashboard
+ */
+function handleMessageReply(socket: Socket, payload: MessageReplyPayload): void {
+  const { messageId, deviceId, response, timestamp } = payload;
+
+  if (!isAuthenticatedDevice(socket, deviceId)) {
+    console.warn(`[Socket] Rejected reply for ${messageId} from unauthenticated socket: ${socket.id}`);
+    return;
+  }
+
+  const message = getMessage(messageId);
+  if (!message || !message.targetDevices.includes(deviceId)) {
+    console.warn(`[Socket] Rejected reply from device ${deviceId} for unknown message ${messageId}`);
+    return;
+  }
+
+  if (typeof response !== 'string') return;
+
+  const isOption = message.replyOptions?.includes(response) ?? false;
+  const text = response.trim();
+
+  if (!isOption) {
+    if (!message.allowFreeText || text.length === 0 || text.length > MAX_FREE_TEXT_LENGTH) {
+      console.warn(`[Socket] Rejected invalid reply from device ${deviceId} for message ${messageId}`);
+      return;
     }
   }
 
-  console.log(`[Socket] Message ${messageId} overall status: ${overallStatus}`);
+  upsertMessageReply(messageId, deviceId, isOption ? response : text, !isOption, timestamp || Date.now());
+
+  console.log(`[Socket] Reply to ${messageId} from device ${deviceId}`);
+
+  const updated = getMessageWithDeliveries(messageId);
+  if (updated) {
+    emitToDashboard('message:updated', { message: updated });
+  }
+}
+
+/**
+ * Handle a poll vote from client
+ * - One vote per device, changeable until the poll closes
+ * - Broadcast the updated results to the dashboard
+ */
+function handlePollVote(socket: Socket, payload: PollVotePayload): void {
+  const { messageId, deviceId, optionIndex, timestamp } = payload;
+
+  if (!isAuthenticatedDevice(socket, deviceId)) {
+    console.warn(`[Socket] Rejected vote for ${messageId} from unauthenticated socket: ${socket.id}`);
+    return;
+  }
+
+  const message = getMessage(messageId);
+  if (!message || message.type !== MessageType.POLL || !message.targetDevices.includes(deviceId)) {
+    console.warn(`[Socket] Rejected vote from device ${deviceId} for unknown poll ${messageId}`);
+    return;
+  }
+
+  const optionCount = message.pollOptions?.length ?? 0;
+  if (!Number.isInteger(optionIndex) || optionIndex < 0 || optionIndex >= optionCount) {
+    console.warn(`[Socket] Rejected invalid vote from device ${deviceId} for poll ${messageId}`);
+    return;
+  }
+
+  const votedAt = timestamp || Date.now();
+  if (message.pollClosesAt && Date.now() > message.pollClosesAt.getTime()) {
+    console.warn(`[Socket] Rejected vote from device ${deviceId} for closed poll ${messageId}`);
+    return;
+  }
+
+  upsertPollVote(messageId, deviceId, optionIndex, votedAt);
+
+  console.log(`[Socket] Vote on poll ${messageId} from device ${deviceId}: option ${optionIndex}`);
+
+  const updated = getMessageWithDeliveries(messageId);
+  if (updated) {
+    emitToDashboard('message:updated', { message: updated });
+  }
 }
 
 /**
@@ -273,6 +725,11 @@ function markDeviceOffline(deviceId: string): void {
   updateDeviceStatus(deviceId, 'offline', false);
   clearDeviceTimeout(deviceId);
   broadcastDeviceList();
+
+  const device = getDevice(deviceId);
+  if (device) {
+    emitWebhookEvent('device.offline', device);
+  }
 }
 
 /**
@@ -301,13 +758,13 @@ function clearDeviceTimeout(deviceId: string): void {
 }
 
 /**
- * Broadcast the current device list to all connected clients
+ * Broadcast the current device list to all dashboard clients
  */
-function broadcastDeviceList(): void {
+export function broadcastDeviceList(): void {
   if (!global.__socketIO) return;
 
   const devices = getDevices();
-  global.__socketIO.emit('devices:update', { devices });
+  emitToDashboard('devices:update', { devices });
 }
 
 /**
@@ -326,6 +783,63 @@ export function emitToDevice(deviceId: string, event: string, data: unknown): vo
   }
 }
 
+/**
+ * Disconnect a device's live sockets (e.g. after its credentials were revoked)
+ * The client is told first so it can drop its stored secret
+ */
+export function disconnectDevice(deviceId: string): void {
+  if (!global.__socketIO) return;
+
+  const room = `device:${deviceId}`;
+  global.__socketIO.to(room).emit('device:revoked', { deviceId });
+  global.__socketIO.in(room).disconnectSockets(true);
+  console.log(`[Socket] Disconnected revoked device: ${deviceId}`);
+}
+
+/**
+ * Recalculate a message's overall status after a delivery changed
+ * and broadcast the delivery update plus the full message to the dashboard
+ * @returns The new overall message status
+ */
+export function broadcastDeliveryUpdate(
+  messageId: string,
+  deviceId: string,
+  status: DeviceDeliveryStatus,
+  timestamp = Date.now()
+): MessageStatus {
+  const overallStatus = recalculateMessageStatus(messageId);
+
+  const statusUpdate: DeliveryStatusUpdate = {
+    messageId,
+    deviceId,
+    status,
+    timestamp,
+    overallStatus,
+  };
+  emitToDashboard('message:delivery:update', statusUpdate);
+
+  if (status === 'delivered' || status === 'failed') {
+    emitWebhookEvent(`delivery.${status}`, statusUpdate);
+  }
+
+  // Also broadcast the full updated message for dashboard to update its state
+  const message = getMessageWithDeliveries(messageId);
+  if (message) {
+    emitToDashboard('message:updated', { message });
+  }
+
+  return overallStatus;
+}
+
+/**
+ * Emit an event to authenticated dashboard clients
+ */
+export function emitToDashboard(event: string, data: unknown): void {
+  if (global.__socketIO) {
+    global.__socketIO.to(DASHBOARD_ROOM).emit(event, data);
+  }
+}
+
 /**
  * Emit an event to all connected clients
  */
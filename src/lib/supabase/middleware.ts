@@ -53,7 +53,8 @@ export async function updateSession(request: NextRequest) {
   } = await supabase.auth.getUser();
 
   // Define public routes that don't require authentication
-  const publicRoutes = ['/login', '/api/health'];
+  // (/api/client routes authenticate devices with their device secret instead)
+  const publicRoutes = ['/login', '/api/health', '/api/client'];
   const isPublicRoute = publicRoutes.some(route =>
     request.nextUrl.pathname.startsWith(route)
   );
@@ -67,6 +68,19 @@ export async function updateSession(request: NextRequest) {
     return supabaseResponse;
   }
 
+  // API key requests are verified by the route (getCurrentUser); only routes that check
+  // every request themselves accept them
+  // (/api/media also accepts the device secret, so device clients can download media)
+  // (/api/scheduled and /api/templates stay session-only: no key scope covers them)
+  const apiKeyRoutes = ['/api/messages', '/api/devices', '/api/device-groups', '/api/media'];
+  const isApiKeyRequest =
+    request.headers.get('authorization')?.startsWith('Bearer ') &&
+    apiKeyRoutes.some(route => request.nextUrl.pathname.startsWith(route));
+
+  if (isApiKeyRequest) {
+    return supabaseResponse;
+  }
+
   // Redirect to login if not authenticated and trying to access protected route
   if (!user && !isPublicRoute) {
     const url = request.nextUrl.clone();
@@ -0,0 +1,31 @@
+/**
+ * Supabase Client for Socket.io Handshakes
+ * Reads the session from the raw Cookie header (no Next.js request context)
+ */
+
+import { createServerClient, parseCookieHeader } from '@supabase/ssr';
+
+export function createSocketClient(cookieHeader: string | undefined) {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
+
+  // Without Supabase there is no session to resolve
+  if (!supabaseUrl || !supabaseAnonKey) {
+    return null;
+  }
+
+  return createServerClient(supabaseUrl, supabaseAnonKey, {
+    cookies: {
+      getAll() {
+        return parseCookieHeader(cookieHeader ?? '').map(({ name, value }) => ({
+          name,
+          value: value ?? '',
+        }));
+      },
+      setAll() {
+        // Handshake responses can't set cookies.
+        // The middleware refreshes sessions on regular page loads.
+      },
+    },
+  });
+}
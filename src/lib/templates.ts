@@ -0,0 +1,109 @@
+/**
+ * CreaBomber Message Templates
+ * Validation of template create/update bodies (storage lives in db.ts)
+ */
+
+import { getDeviceGroup, getTemplateByName } from './db';
+import { normalizeTags, validateTags } from './device-targets';
+import {
+  validateRequired,
+  validateString,
+  validateArray,
+  validateEnum,
+  validateUrl,
+  combineValidation,
+  type ValidationResult,
+} from './errors';
+import { MessageType } from '@/types';
+import type { MessageTemplate, MessageTemplateFormData } from '@/types';
+
+// Polls are not templated (their options are per send)
+const TEMPLATE_TYPES = ['TEXT', 'TEXT_IMAGE', 'VIDEO', 'AUDIO'] as const;
+const MAX_TEMPLATE_NAME_LENGTH = 50;
+const MAX_CONTENT_LENGTH = 10000;
+const MAX_URL_LENGTH = 2048;
+const MAX_TARGET_TAGS = 20;
+
+// Media URL each type needs
+const REQUIRED_URL: Partial<Record<MessageType, 'imageUrl' | 'videoUrl' | 'audioUrl'>> = {
+  [MessageType.TEXT_IMAGE]: 'imageUrl',
+  [MessageType.VIDEO]: 'videoUrl',
+  [MessageType.AUDIO]: 'audioUrl',
+};
+
+/**
+ * Validate a complete template body (for updates, the stored template merged with the changes)
+ * Names are unique (case-insensitive) and default groups must exist
+ */
+export function validateTemplateData(data: MessageTemplateFormData, templateId?: string): ValidationResult {
+  const { name, type, content, targetDevices = [], targetGroups = [], targetTags = [] } = data;
+
+  const validation = combineValidation(
+    validateRequired(name, 'name'),
+    validateString(typeof name === 'string' ? name.trim() : name, 'name', {
+      minLength: 1,
+      maxLength: MAX_TEMPLATE_NAME_LENGTH,
+    }),
+    validateEnum(type, 'type', [...TEMPLATE_TYPES]),
+    validateRequired(content, 'content'),
+    validateString(content, 'content', { minLength: 1, maxLength: MAX_CONTENT_LENGTH }),
+    validateArray(targetDevices, 'targetDevices'),
+    validateArray(targetGroups, 'targetGroups')
+  );
+
+  for (const field of ['imageUrl', 'videoUrl', 'audioUrl'] as const) {
+    const url = data[field];
+    const urlError =
+      (REQUIRED_URL[type] === field ? validateRequired(url, field) : null) ??
+      validateUrl(url, field) ??
+      (url !== undefined ? validateString(url, field, { maxLength: MAX_URL_LENGTH }) : null);
+    if (urlError) validation.errors.push(urlError);
+  }
+
+  if (data.audioAutoplay !== undefined && typeof data.audioAutoplay !== 'boolean') {
+    validation.errors.push({ field: 'audioAutoplay', message: 'audioAutoplay must be a boolean' });
+  }
+
+  if (typeof name === 'string' && name.trim().length > 0) {
+    const existing = getTemplateByName(name.trim());
+    if (existing && existing.id !== templateId) {
+      validation.errors.push({ field: 'name', message: `A template named "${existing.name}" already exists` });
+    }
+  }
+
+  if (Array.isArray(targetDevices) && targetDevices.some((id) => typeof id !== 'string')) {
+    validation.errors.push({ field: 'targetDevices', message: 'targetDevices must contain device ids' });
+  }
+  if (Array.isArray(targetGroups)) {
+    for (const groupId of targetGroups) {
+      if (typeof groupId !== 'string' || !getDeviceGroup(groupId)) {
+        validation.errors.push({ field: 'targetGroups', message: `Unknown device group: ${groupId}` });
+      }
+    }
+  }
+  validation.errors.push(...validateTags(targetTags, 'targetTags', MAX_TARGET_TAGS));
+
+  validation.valid = validation.errors.length === 0;
+  return validation;
+}
+
+/**
+ * Stored fields for a validated body (media URLs the type doesn't use are dropped)
+ */
+export function toTemplateFields(
+  data: MessageTemplateFormData
+): Omit<MessageTemplate, 'id' | 'createdBy' | 'createdAt' | 'updatedAt'> {
+  const urlField = REQUIRED_URL[data.type];
+  return {
+    name: data.name.trim(),
+    type: data.type,
+    content: data.content,
+    imageUrl: urlField === 'imageUrl' ? data.imageUrl : undefined,
+    videoUrl: urlField === 'videoUrl' ? data.videoUrl : undefined,
+    audioUrl: urlField === 'audioUrl' ? data.audioUrl : undefined,
+    audioAutoplay: data.type === MessageType.AUDIO && data.audioAutoplay === true,
+    targetDevices: [...new Set(data.targetDevices ?? [])],
+    targetGroups: [...new Set(data.targetGroups ?? [])],
+    targetTags: normalizeTags(data.targetTags ?? []),
+  };
+}
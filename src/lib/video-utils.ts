@@ -1,9 +1,15 @@
 /**
  * Video URL Utilities
  * Handles detection and parsing of YouTube and Loom video URLs
+ * and of video files (uploaded to the server or linked directly)
  */
 
-export type VideoType = 'youtube' | 'loom' | 'unknown';
+import { isUploadedMediaUrl } from './media';
+
+export type VideoType = 'youtube' | 'loom' | 'file' | 'unknown';
+
+// Direct links to video files, played with a <video> element
+const VIDEO_FILE_PATTERN = /\.(mp4|webm|mov)(\?.*)?$/i;
 
 /**
  * Detects the video platform from a URL
@@ -26,6 +32,11 @@ export function detectVideoType(url: string): VideoType {
     return 'loom';
   }
 
+  // Uploaded or directly linked video files
+  if (isUploadedMediaUrl(url) || VIDEO_FILE_PATTERN.test(url)) {
+    return 'file';
+  }
+
   return 'unknown';
 }
 
@@ -0,0 +1,161 @@
+/**
+ * CreaBomber Webhooks
+ * Signed JSON POSTs to admin-managed endpoints when messages and devices change
+ * - message.created: Message
+ * - delivery.delivered / delivery.failed: DeliveryStatusUpdate
+ * - device.online / device.offline: Device
+ *
+ * Each request carries X-CreaBomber-Signature: sha256=<hex>, the HMAC-SHA256 of
+ * "<timestamp>.<body>" with the endpoint's secret (timestamp from X-CreaBomber-Timestamp).
+ * Failed requests are retried with exponential backoff; every event ends up in the
+ * endpoint's delivery log.
+ */
+
+import { createHmac, randomBytes } from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { getWebhookTargets, recordWebhookDelivery } from './db';
+import { fetchWithRetry } from './fetch-with-retry';
+import type { ValidationFieldError } from './errors';
+import type { Webhook, WebhookEvent, WebhookPayload } from '@/types';
+
+export const WEBHOOK_EVENTS: WebhookEvent[] = [
+  'message.created',
+  'delivery.delivered',
+  'delivery.failed',
+  'device.online',
+  'device.offline',
+];
+
+const MAX_URL_LENGTH = 2000;
+
+// Up to 6 attempts over roughly a minute, then the delivery is logged as failed
+const WEBHOOK_RETRY_CONFIG = {
+  maxRetries: 5,
+  initialDelay: 2000,
+  maxDelay: 30000,
+  timeout: 10000,
+  parseJson: false,
+};
+
+/**
+ * Generate a signing secret for a new endpoint (or a rotation)
+ */
+export function generateWebhookSecret(): string {
+  return `whsec_${randomBytes(24).toString('hex')}`;
+}
+
+/**
+ * Signature header value for a request body sent at `timestamp` (ms)
+ */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  const hmac = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return `sha256=${hmac}`;
+}
+
+/**
+ * POST one event to one endpoint (retrying on network errors, 408, 429 and 5xx) and log the outcome
+ */
+async function deliverWebhook(webhook: Webhook, secret: string, payload: WebhookPayload): Promise<void> {
+  const body = JSON.stringify(payload);
+
+  const { error, attempts, duration, status } = await fetchWithRetry(
+    webhook.url,
+    {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'CreaBomber-Webhooks',
+        'X-CreaBomber-Event': payload.event,
+        'X-CreaBomber-Delivery': payload.id,
+        'X-CreaBomber-Timestamp': String(payload.timestamp),
+        'X-CreaBomber-Signature': signWebhookPayload(secret, payload.timestamp, body),
+      },
+      body,
+    },
+    {
+      ...WEBHOOK_RETRY_CONFIG,
+      onRetry: (attempt, retryError, delay) => {
+        console.warn(`[Webhooks] ${payload.event} to ${webhook.url} failed (${retryError.message}), retry ${attempt} in ${delay}ms`);
+      },
+    }
+  );
+
+  if (error) {
+    console.error(`[Webhooks] ${payload.event} to ${webhook.url} failed after ${attempts} attempt(s): ${error.message}`);
+  }
+
+  try {
+    recordWebhookDelivery({
+      id: payload.id,
+      webhookId: webhook.id,
+      event: payload.event,
+      success: !error,
+      statusCode: status,
+      error: error?.message,
+      attempts,
+      durationMs: duration,
+    });
+  } catch (dbError) {
+    // The endpoint may have been deleted while the request was retried
+    console.error(`[Webhooks] Failed to log delivery ${payload.id}:`, dbError);
+  }
+}
+
+/**
+ * Send an event to every enabled endpoint subscribed to it
+ * Runs in the background; never throws into the caller
+ */
+export function emitWebhookEvent<T>(event: WebhookEvent, data: T): void {
+  let targets: ReturnType<typeof getWebhookTargets>;
+  try {
+    targets = getWebhookTargets(event);
+  } catch (dbError) {
+    console.error(`[Webhooks] Failed to load subscriptions for ${event}:`, dbError);
+    return;
+  }
+
+  const timestamp = Date.now();
+  for (const { webhook, secret } of targets) {
+    void deliverWebhook(webhook, secret, { id: uuidv4(), event, timestamp, data });
+  }
+}
+
+/**
+ * Validate an endpoint URL (absolute http or https)
+ */
+export function validateWebhookUrl(value: unknown, fieldName: string): ValidationFieldError[] {
+  if (typeof value !== 'string' || value.trim() === '') {
+    return [{ field: fieldName, message: `${fieldName} is required` }];
+  }
+  if (value.length > MAX_URL_LENGTH) {
+    return [{ field: fieldName, message: `${fieldName} must be at most ${MAX_URL_LENGTH} characters` }];
+  }
+
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return [{ field: fieldName, message: `${fieldName} must be a valid URL` }];
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    return [{ field: fieldName, message: `${fieldName} must be an http or https URL` }];
+  }
+
+  return [];
+}
+
+/**
+ * Validate an event filter (at least one known event)
+ */
+export function validateWebhookEvents(value: unknown, fieldName: string): ValidationFieldError[] {
+  if (!Array.isArray(value) || value.length === 0) {
+    return [{ field: fieldName, message: `${fieldName} must be a non-empty array` }];
+  }
+
+  const unknown = value.filter((event) => !WEBHOOK_EVENTS.includes(event as WebhookEvent));
+  if (unknown.length > 0) {
+    return [{ field: fieldName, message: `Unknown event(s): ${unknown.join(', ')}. Must be one of: ${WEBHOOK_EVENTS.join(', ')}` }];
+  }
+
+  return [];
+}
@@ -1,6 +1,7 @@
 /**
  * Next.js Middleware
- * Protects all routes except /login and /api/health
+ * Protects all routes except /login, /api/health and the device-authenticated /api/client
+ * (API key requests to /api/messages, /api/devices and /api/device-groups are checked by the routes)
  */
 
 import { type NextRequest } from 'next/server';
@@ -9,16 +9,20 @@ export enum MessageType {
   TEXT_IMAGE = 'TEXT_IMAGE',
   VIDEO = 'VIDEO',
   AUDIO = 'AUDIO',
+  POLL = 'POLL',
 }
 
+// Message priority (urgent opens a full-screen window that must be acknowledged)
+export type MessagePriority = 'low' | 'normal' | 'high' | 'urgent';
+
 // Device status
 export type DeviceStatus = 'online' | 'offline';
 
 // Message delivery status (overall status)
-export type MessageStatus = 'pending' | 'sent' | 'delivered' | 'partial';
+export type MessageStatus = 'pending' | 'sent' | 'delivered' | 'partial' | 'failed';
 
 // Per-device delivery status
-export type DeviceDeliveryStatus = 'pending' | 'sent' | 'delivered' | 'failed';
+export type DeviceDeliveryStatus = 'pending' | 'sent' | 'delivered' | 'acknowledged' | 'failed';
 
 // Per-device delivery tracking
 export interface MessageDelivery {
@@ -27,6 +31,40 @@ export interface MessageDelivery {
   deliveredAt?: Date;
   failedAt?: Date;
   failureReason?: string;
+  displayedAt?: Date;
+  dismissedAt?: Date;
+  autoExpiredAt?: Date;
+  visibleMs?: number;
+  acknowledgedAt?: Date;
+  recalledAt?: Date;  // recalled before the device closed it
+}
+
+// Per-device response to a message with reply options
+export interface MessageReply {
+  deviceId: string;
+  response: string;
+  isFreeText: boolean;
+  repliedAt: Date;
+}
+
+// Earlier version of a message's content (kept when the message is edited after sending)
+export interface MessageEdit {
+  previousContent: string;
+  editedBy?: string;
+  editedAt: Date;
+}
+
+// Per-device vote on a poll message
+export interface PollVote {
+  deviceId: string;
+  optionIndex: number;
+  votedAt: Date;
+}
+
+// Aggregated votes for one poll option
+export interface PollOptionResult {
+  option: string;
+  votes: number;
 }
 
 // Device representation
@@ -37,6 +75,39 @@ export interface Device {
   status: DeviceStatus;
   lastSeen: Date;
   createdAt: Date;
+  tags: string[];
+  quietHours?: QuietHours;
+  dndEnabled: boolean;     // switched on in the device's tray menu
+  doNotDisturb: boolean;   // dndEnabled or inside quiet hours right now (messages are held)
+}
+
+// Daily window in which a device holds notifications
+export interface QuietHours {
+  start: string;     // 'HH:MM'
+  end: string;       // 'HH:MM', earlier than start = over midnight
+  timezone: string;  // IANA zone the times are in
+}
+
+// Named set of devices that messages can target
+export interface DeviceGroup {
+  id: string;
+  name: string;
+  deviceIds: string[];
+  createdAt: Date;
+}
+
+// Target expression a message was sent to (resolved to targetDevices at send time)
+export interface MessageTarget {
+  deviceIds: string[];
+  groups: { id: string; name: string }[];  // name at send time
+  tags: string[];
+}
+
+// Send context for {{placeholders}} in the content (filled in per device at dispatch)
+export interface PlaceholderContext {
+  values: Record<string, string>;  // custom fields prompted in the composer
+  senderEmail?: string;
+  timezone?: string;               // IANA zone for {{time}} and {{date}}
 }
 
 // Message representation
@@ -44,28 +115,227 @@ export interface Message {
   id: string;
   type: MessageType;
   content: string;
+  priority: MessagePriority;
   imageUrl?: string;
   videoUrl?: string;
   audioUrl?: string;
   audioAutoplay?: boolean;
+  replyOptions?: string[];
+  allowFreeText?: boolean;
+  pollOptions?: string[];
+  pollClosesAt?: Date;
+  expiresAt?: Date;  // never shown after this time
+  overrideDnd?: boolean;  // urgent send delivered during do-not-disturb (admins only)
   targetDevices: string[];
+  target?: MessageTarget;  // undefined for messages sent before group/tag targeting
+  placeholders?: PlaceholderContext;  // set when the content has placeholders
   status: MessageStatus;
+  recalledAt?: Date;
+  editedAt?: Date;
   senderId?: string;
+  senderName?: string;  // user email or API key name at send time
   deliveries?: MessageDelivery[];
+  replies?: MessageReply[];
+  edits?: MessageEdit[];  // oldest first
+  pollVotes?: PollVote[];
+  pollResults?: PollOptionResult[];
   createdAt: Date;
 }
 
 // WebSocket payload for message transmission
 export interface MessagePayload {
   id: string;
+  type: MessageType;
+  content: string;  // plain text (Markdown removed) for clients that don't render Markdown
+  markdown?: string;  // TEXT messages with formatting: the Markdown source
+  priority?: MessagePriority;
+  imageUrl?: string;
+  videoUrl?: string;
+  audioUrl?: string;
+  audioAutoplay?: boolean;
+  imageWidth?: number;  // intrinsic size of uploaded images, so the client can size the window before loading
+  imageHeight?: number;
+  replyOptions?: string[];
+  allowFreeText?: boolean;
+  pollOptions?: string[];
+  pollClosesAt?: number;
+  expiresAt?: number;
+  overrideDnd?: boolean;
+  targetDevices: string[];
+  timestamp: number;
+}
+
+// Message fields stored with a scheduled send (created and dispatched at sendAt)
+export interface ScheduledSendMessage {
   type: MessageType;
   content: string;
+  priority: MessagePriority;
   imageUrl?: string;
   videoUrl?: string;
   audioUrl?: string;
   audioAutoplay?: boolean;
+  replyOptions?: string[];
+  allowFreeText?: boolean;
+  pollOptions?: string[];
+  pollClosesAt?: number;
+  expiresAt?: number;
+  overrideDnd?: boolean;
   targetDevices: string[];
+  targetGroups?: string[];  // group ids, resolved at send time
+  targetTags?: string[];
+  placeholders?: PlaceholderContext;
+  senderName?: string;
+}
+
+// Lifecycle of a scheduled send: claimed = message created, dispatch in progress
+export type ScheduledSendStatus = 'pending' | 'claimed' | 'sent' | 'failed';
+
+// One-off message send scheduled on the server
+export interface ScheduledSend {
+  id: string;
+  message: ScheduledSendMessage;
+  sendAt: Date;
+  timezone: string;
+  status: ScheduledSendStatus;
+  messageId?: string;
+  senderId?: string;
+  error?: string;
+  sentAt?: Date;
+  createdAt: Date;
+}
+
+// Reusable message template (content may contain placeholders)
+export interface MessageTemplate {
+  id: string;
+  name: string;
+  type: MessageType;
+  content: string;
+  imageUrl?: string;
+  videoUrl?: string;
+  audioUrl?: string;
+  audioAutoplay: boolean;
+  targetDevices: string[];  // default targets; none = all online devices
+  targetGroups: string[];
+  targetTags: string[];
+  createdBy?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Body for creating/updating templates
+export interface MessageTemplateFormData {
+  name: string;
+  type: MessageType;
+  content: string;
+  imageUrl?: string;
+  videoUrl?: string;
+  audioUrl?: string;
+  audioAutoplay?: boolean;
+  targetDevices?: string[];
+  targetGroups?: string[];
+  targetTags?: string[];
+}
+
+// Token-bucket limit on message sends (see src/lib/rate-limit.ts)
+export type RateLimitScope = 'sender' | 'device' | 'global';
+
+export interface RateLimit {
+  enabled: boolean;
+  burst: number;      // bucket size: messages that may be sent back to back
+  perMinute: number;  // refill rate
+}
+
+export type RateLimitSettings = Record<RateLimitScope, RateLimit>;
+
+// Bucket that is not full right now (sender, device or the global bucket)
+export interface RateLimitUsage {
+  scope: RateLimitScope;
+  key: string;    // user id, device id or 'global'
+  label: string;  // sender email, device name
+  used: number;   // tokens taken and not yet refilled
+  burst: number;
+}
+
+// Events delivered to webhook subscriptions (see src/lib/webhooks.ts)
+export type WebhookEvent =
+  | 'message.created'
+  | 'delivery.delivered'
+  | 'delivery.failed'
+  | 'device.online'
+  | 'device.offline';
+
+// Outbound webhook endpoint managed by admins (the signing secret is only returned on create/rotate)
+export interface Webhook {
+  id: string;
+  url: string;
+  events: WebhookEvent[];
+  enabled: boolean;
+  createdBy?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Body POSTed to webhook endpoints (data is a Message, DeliveryStatusUpdate or Device)
+export interface WebhookPayload<T = unknown> {
+  id: string;
+  event: WebhookEvent;
   timestamp: number;
+  data: T;
+}
+
+// One delivery attempt series to a webhook endpoint (kept for the admin delivery log)
+export interface WebhookDelivery {
+  id: string;
+  webhookId: string;
+  event: WebhookEvent;
+  success: boolean;
+  statusCode?: number;
+  error?: string;
+  attempts: number;
+  durationMs: number;
+  createdAt: Date;
+}
+
+// What an API key may do: send messages, read the message history, manage devices and groups
+export type ApiKeyScope = 'send' | 'history' | 'devices';
+
+// Admin-issued key for scripts and CI (only a hash of the token is stored)
+export interface ApiKey {
+  id: string;
+  name: string;
+  prefix: string;  // first characters of the token, to recognize it
+  scopes: ApiKeyScope[];
+  deviceIds?: string[];  // devices the key may send to, undefined = all
+  expiresAt?: Date;
+  lastUsedAt?: Date;
+  createdBy?: string;
+  createdAt: Date;
+}
+
+// Uploaded media, by the message field it is used for
+export type MediaKind = 'image' | 'video' | 'audio';
+
+// Resized copies of uploaded images (display: notification window, thumb: history and previews)
+export type MediaVariant = 'display' | 'thumb';
+
+export interface MediaDimensions {
+  width: number;
+  height: number;
+}
+
+// File uploaded to the server (stored once per content hash)
+export interface MediaFile {
+  id: string;  // SHA-256 of the content
+  url: string;  // relative download URL, e.g. /api/media/<id>
+  kind: MediaKind;
+  mimeType: string;
+  size: number;  // bytes
+  name?: string;  // original file name of the first upload
+  width?: number;  // images only
+  height?: number;
+  variants?: Partial<Record<MediaVariant, MediaDimensions>>;  // only generated for images larger than the variant
+  createdBy?: string;
+  createdAt: Date;
 }
 
 // Client handshake data for device registration
@@ -73,6 +343,18 @@ export interface DeviceRegistration {
   deviceId: string;
   deviceName: string;
   hostname: string;
+  dnd?: boolean;  // do-not-disturb state from the tray menu
+}
+
+// Socket event payload for exchanging an enrollment code for a device secret
+export interface DeviceEnrollmentRequest extends DeviceRegistration {
+  code: string;
+}
+
+// One-time enrollment code issued by an admin
+export interface EnrollmentCode {
+  code: string;
+  expiresAt: Date;
 }
 
 // Database row types (snake_case for SQLite compatibility)
@@ -83,6 +365,18 @@ export interface DeviceRow {
   status: string;
   last_seen: number;
   created_at: number;
+  secret_hash: string | null;
+  tags: string | null;
+  quiet_hours: string | null;
+  dnd_enabled: number | null;
+}
+
+// Database row type for device groups (member ids aggregated by the query)
+export interface DeviceGroupRow {
+  id: string;
+  name: string;
+  created_at: number;
+  device_ids: string | null;
 }
 
 export interface MessageRow {
@@ -96,6 +390,98 @@ export interface MessageRow {
   target_devices: string;
   status: string;
   sender_id: string | null;
+  sender_name: string | null;
+  created_at: number;
+  reply_options: string | null;
+  allow_free_text: number;
+  poll_options: string | null;
+  poll_closes_at: number | null;
+  priority: string | null;
+  target_expression: string | null;
+  placeholder_data: string | null;
+  recalled_at: number | null;
+  edited_at: number | null;
+  expires_at: number | null;
+  override_dnd: number | null;
+}
+
+// Database row type for message edits
+export interface MessageEditRow {
+  id: number;
+  message_id: string;
+  previous_content: string;
+  edited_by: string | null;
+  edited_at: number;
+}
+
+// Database row type for message templates
+export interface MessageTemplateRow {
+  id: string;
+  name: string;
+  type: string;
+  content: string;
+  image_url: string | null;
+  video_url: string | null;
+  audio_url: string | null;
+  audio_autoplay: number;
+  target_devices: string;
+  target_groups: string;
+  target_tags: string;
+  created_by: string | null;
+  created_at: number;
+  updated_at: number;
+}
+
+// Database row type for API keys
+export interface ApiKeyRow {
+  id: string;
+  name: string;
+  prefix: string;
+  key_hash: string;
+  scopes: string;  // JSON array of ApiKeyScope
+  device_ids: string | null;  // JSON array, null = all devices
+  expires_at: number | null;
+  last_used_at: number | null;
+  created_by: string | null;
+  created_at: number;
+}
+
+// Database row type for webhook endpoints
+export interface WebhookRow {
+  id: string;
+  url: string;
+  secret: string;
+  events: string;  // JSON array of WebhookEvent
+  enabled: number;
+  created_by: string | null;
+  created_at: number;
+  updated_at: number;
+}
+
+// Database row type for the webhook delivery log
+export interface WebhookDeliveryRow {
+  id: string;
+  webhook_id: string;
+  event: string;
+  success: number;
+  status_code: number | null;
+  error: string | null;
+  attempts: number;
+  duration_ms: number;
+  created_at: number;
+}
+
+// Database row type for uploaded media
+export interface MediaFileRow {
+  id: string;
+  kind: string;
+  mime_type: string;
+  size: number;
+  name: string | null;
+  width: number | null;
+  height: number | null;
+  variants: string | null;  // JSON
+  created_by: string | null;
   created_at: number;
 }
 
@@ -108,6 +494,63 @@ export interface MessageDeliveryRow {
   delivered_at: number | null;
   failed_at: number | null;
   failure_reason: string | null;
+  sent_at: number | null;
+  displayed_at: number | null;
+  dismissed_at: number | null;
+  auto_expired_at: number | null;
+  visible_ms: number | null;
+  acknowledged_at: number | null;
+  recalled_at: number | null;
+}
+
+// Database row type for message replies
+export interface MessageReplyRow {
+  message_id: string;
+  device_id: string;
+  response: string;
+  is_free_text: number;
+  replied_at: number;
+}
+
+// Database row type for poll votes
+export interface PollVoteRow {
+  message_id: string;
+  device_id: string;
+  option_index: number;
+  voted_at: number;
+}
+
+// Database row type for scheduled sends
+export interface ScheduledSendRow {
+  id: string;
+  message_data: string;
+  send_at: number;
+  timezone: string;
+  status: string;
+  message_id: string | null;
+  sender_id: string | null;
+  error: string | null;
+  claimed_at: number | null;
+  sent_at: number | null;
+  created_at: number;
+}
+
+// Delivery still waiting for an ack, joined with device and outbox state (for the sweeper)
+export interface OverdueDeliveryRow {
+  message_id: string;
+  device_id: string;
+  sent_at: number | null;
+  device_status: string | null;
+  queued: number;
+}
+
+// Database row type for a queued (unacknowledged) message
+export interface OutboxRow {
+  message_id: string;
+  device_id: string;
+  payload: string;
+  queued_at: number;
+  expires_at: number;
 }
 
 // Socket event payload for delivery acknowledgment
@@ -117,6 +560,30 @@ export interface DeliveryAckPayload {
   timestamp: number;
 }
 
+// Socket event payload when do-not-disturb is switched in the device's tray menu
+export interface DeviceDndPayload {
+  deviceId: string;
+  enabled: boolean;
+}
+
+// What happened to a notification on the device after delivery
+export type DeliveryLifecycleEvent = 'displayed' | 'dismissed' | 'auto-expired';
+
+// Socket event payload for read receipts (displayed, dismissed, auto-expired)
+export interface DeliveryLifecyclePayload extends DeliveryAckPayload {
+  visibleMs?: number;
+}
+
+// Socket event payload for a reply chosen or typed on the device
+export interface MessageReplyPayload extends DeliveryAckPayload {
+  response: string;
+}
+
+// Socket event payload for a poll vote cast on the device
+export interface PollVotePayload extends DeliveryAckPayload {
+  optionIndex: number;
+}
+
 // Socket event payload for delivery status update
 export interface DeliveryStatusUpdate {
   messageId: string;
@@ -126,11 +593,34 @@ export interface DeliveryStatusUpdate {
   overallStatus: MessageStatus;
 }
 
+// Recurrence (iCalendar RRULE subset, see src/lib/recurrence.ts)
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+export type Weekday = 'MO' | 'TU' | 'WE' | 'TH' | 'FR' | 'SA' | 'SU';
+
+// Weekday with optional ordinal for MONTHLY/YEARLY rules (2 = second, -1 = last)
+export interface RecurrenceByDay {
+  day: Weekday;
+  nth?: number;
+}
+
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency;
+  interval: number;
+  byDay?: RecurrenceByDay[];
+  byMonthDay?: number[];  // 1-31, negative counts from the end of the month
+  byMonth?: number[];     // 1-12
+  count?: number;
+  until?: string;         // YYYY-MM-DD, inclusive
+  exDates?: string[];     // YYYY-MM-DD occurrences to skip
+  time?: string;          // HH:MM, occurrences are shown from this time on (without: all day)
+  timezone?: string;      // IANA time zone of time and of the occurrence dates (required with time)
+}
+
 // Scheduled message (from Supabase)
 export interface ScheduledMessage {
   id: string;
-  date: string;  // ISO date string (YYYY-MM-DD)
-  recurring: boolean;
+  date: string;  // ISO date string (YYYY-MM-DD), first occurrence
+  recurrence?: RecurrenceRule;  // undefined = one-off on date
   type: MessageType;
   content: string;
   imageUrl?: string;
@@ -138,16 +628,22 @@ export interface ScheduledMessage {
   audioUrl?: string;
   videoAutoplay?: boolean;
   audioAutoplay?: boolean;
-  targetDevices?: string[];  // null = all devices
+  targetDevices?: string[];  // no devices, groups or tags = all devices
+  targetGroups?: string[];   // group ids, resolved when the device asks
+  targetTags?: string[];
   createdAt: Date;
   updatedAt: Date;
-  lastShownYear?: number;
+}
+
+// Scheduled message due on a device, with the occurrence it is shown for
+export interface DueScheduledMessage extends ScheduledMessage {
+  occurrenceDate: string;  // YYYY-MM-DD (in the rule's time zone for timed rules)
 }
 
 // Form data for creating/editing scheduled messages
 export interface ScheduledMessageFormData {
   date: string;
-  recurring: boolean;
+  recurrence?: RecurrenceRule;
   type: MessageType;
   content: string;
   imageUrl?: string;
@@ -156,4 +652,25 @@ export interface ScheduledMessageFormData {
   videoAutoplay?: boolean;
   audioAutoplay?: boolean;
   targetDevices?: string[];
+  targetGroups?: string[];
+  targetTags?: string[];
+}
+
+// Database row type for scheduled messages (Supabase, snake_case)
+export interface ScheduledMessageRow {
+  id: string;
+  date: string;
+  recurrence: RecurrenceRule | null;
+  type: string;
+  content: string;
+  image_url: string | null;
+  video_url: string | null;
+  audio_url: string | null;
+  video_autoplay: boolean;
+  audio_autoplay: boolean;
+  target_devices: string[] | null;
+  target_groups: string[] | null;
+  target_tags: string[] | null;
+  created_at: string;
+  updated_at: string;
 }
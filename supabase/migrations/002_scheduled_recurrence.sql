@@ -0,0 +1,44 @@
+-- Crea-Bomber: Recurrence rules for scheduled messages
+-- Run this migration in Supabase SQL Editor after 001_scheduled_messages.sql
+--
+-- Replaces the yearly "recurring" flag with an RRULE-style recurrence (JSONB)
+-- and "last_shown_year" with per-occurrence, per-device tracking.
+
+-- Recurrence rule, e.g. {"freq":"WEEKLY","interval":2,"byDay":[{"day":"FR"}],"until":"2026-12-31"}
+ALTER TABLE scheduled_messages ADD COLUMN IF NOT EXISTS recurrence JSONB;
+
+-- Bestehende jaehrliche Nachrichten uebernehmen
+UPDATE scheduled_messages
+SET recurrence = '{"freq":"YEARLY","interval":1}'::jsonb
+WHERE recurring = true AND recurrence IS NULL;
+
+-- Welche Termine auf welchem Geraet bereits angezeigt wurden
+CREATE TABLE IF NOT EXISTS scheduled_message_occurrences (
+  scheduled_message_id UUID NOT NULL REFERENCES scheduled_messages(id) ON DELETE CASCADE,
+  occurrence_date DATE NOT NULL,
+  device_id TEXT NOT NULL,
+  shown_at TIMESTAMPTZ DEFAULT now(),
+  PRIMARY KEY (scheduled_message_id, occurrence_date, device_id)
+);
+
+-- Bereits angezeigte jaehrliche Termine uebernehmen (Geraet unbekannt)
+INSERT INTO scheduled_message_occurrences (scheduled_message_id, occurrence_date, device_id)
+SELECT id, make_date(last_shown_year, EXTRACT(MONTH FROM date)::int, EXTRACT(DAY FROM date)::int), '*'
+FROM scheduled_messages
+WHERE recurring = true AND last_shown_year IS NOT NULL
+  AND NOT (EXTRACT(MONTH FROM date) = 2 AND EXTRACT(DAY FROM date) = 29)
+ON CONFLICT DO NOTHING;
+
+DROP INDEX IF EXISTS idx_scheduled_recurring;
+ALTER TABLE scheduled_messages DROP COLUMN IF EXISTS recurring;
+ALTER TABLE scheduled_messages DROP COLUMN IF EXISTS last_shown_year;
+
+-- Row Level Security (wie scheduled_messages)
+ALTER TABLE scheduled_message_occurrences ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all for anon" ON scheduled_message_occurrences
+  FOR ALL USING (true) WITH CHECK (true);
+
+COMMENT ON COLUMN scheduled_messages.date IS 'Erster Termin (DTSTART) bzw. Datum einer einmaligen Nachricht';
+COMMENT ON COLUMN scheduled_messages.recurrence IS 'RRULE-artige Wiederholung (freq, interval, byDay, byMonthDay, byMonth, count, until, exDates) oder NULL fuer einmalig';
+COMMENT ON TABLE scheduled_message_occurrences IS 'Angezeigte Termine pro Geraet, verhindert Mehrfach-Anzeige; device_id * = vor Migration auf allen Geraeten angezeigt';
@@ -0,0 +1,13 @@
+-- Crea-Bomber: Scheduled messages only via the server API
+-- Run this migration in Supabase SQL Editor after 002_scheduled_recurrence.sql
+--
+-- The dashboard and the clients now go through /api/scheduled and /api/client/scheduled,
+-- which use the service role key (bypasses RLS) and check roles / device secrets.
+-- Without a policy the anon key can no longer read or change the schedule.
+
+DROP POLICY IF EXISTS "Allow all for anon" ON scheduled_messages;
+DROP POLICY IF EXISTS "Allow all for anon" ON scheduled_message_occurrences;
+
+-- RLS bleibt aktiv: ohne Policy kein Zugriff fuer anon und authenticated
+ALTER TABLE scheduled_messages ENABLE ROW LEVEL SECURITY;
+ALTER TABLE scheduled_message_occurrences ENABLE ROW LEVEL SECURITY;
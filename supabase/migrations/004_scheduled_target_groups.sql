@@ -0,0 +1,9 @@
+-- Crea-Bomber: Device groups and tags as targets for scheduled messages
+-- Run this migration in Supabase SQL Editor after 003_scheduled_service_role.sql
+--
+-- Groups and tags live in the server's SQLite database; the server resolves them
+-- when a device asks for its due messages, so membership changes apply right away.
+-- NULL in target_devices, target_groups and target_tags = all devices.
+
+ALTER TABLE scheduled_messages ADD COLUMN IF NOT EXISTS target_groups TEXT[];
+ALTER TABLE scheduled_messages ADD COLUMN IF NOT EXISTS target_tags TEXT[];